@@ -0,0 +1,98 @@
+import { CharacteristicValue, PlatformAccessory, Service, WithUUID } from 'homebridge';
+
+import { PentairPlatform } from './platform';
+import { ChemController, ChemSetpoint } from './types';
+
+// HomeKit Light Sensor minimum value
+const MIN_LUX = 0.0001;
+
+export interface ChemReading {
+  subtype: string;
+  label: string;
+  value: (chem: ChemController) => number | undefined;
+  fault: (chem: ChemController) => boolean;
+}
+
+export interface ChemSetpointControl {
+  setpoint: ChemSetpoint;
+  subtype: string;
+  label: string;
+  // Appended to the value in log messages
+  unit: string;
+  value: (chem: ChemController) => number | undefined;
+}
+
+export type ChemSetpointRange = { min: number; max: number; step: number };
+
+/**
+ * Services shared by the IntelliChem and IntelliChlor accessories. HomeKit has no service for chemistry readings,
+ * so like the pump sensors they are light sensors (lux value) whose alarms set StatusFault, which can drive
+ * notifications in the Home app. Setpoints are fans whose speed is the setpoint, like the VSP speed control.
+ */
+export class ChemServices {
+  constructor(
+    private readonly platform: PentairPlatform,
+    private readonly accessory: PlatformAccessory,
+  ) {}
+
+  get chem(): ChemController {
+    return this.accessory.context.chem as ChemController;
+  }
+
+  getOrAddService(type: WithUUID<typeof Service>, label: string, subtype: string): Service {
+    const name = `${this.accessory.displayName} ${label}`;
+    const service = this.accessory.getServiceById(type, subtype) || this.accessory.addService(type, name, subtype);
+    service.setCharacteristic(this.platform.Characteristic.Name, name);
+    return service;
+  }
+
+  getFault(fault: boolean): CharacteristicValue {
+    return fault ? this.platform.Characteristic.StatusFault.GENERAL_FAULT : this.platform.Characteristic.StatusFault.NO_FAULT;
+  }
+
+  addReadings(readings: ReadonlyArray<ChemReading>): ReadonlyArray<{ reading: ChemReading; service: Service }> {
+    return readings.map(reading => {
+      const service = this.getOrAddService(this.platform.Service.LightSensor, reading.label, reading.subtype);
+      service
+        .getCharacteristic(this.platform.Characteristic.CurrentAmbientLightLevel)
+        .onGet(async () => Math.max(MIN_LUX, reading.value(this.chem) ?? 0));
+      service.getCharacteristic(this.platform.Characteristic.StatusFault).onGet(() => this.getFault(reading.fault(this.chem)));
+      return { reading, service };
+    });
+  }
+
+  updateReadings(readingServices: ReadonlyArray<{ reading: ChemReading; service: Service }>) {
+    for (const { reading, service } of readingServices) {
+      const value = reading.value(this.chem);
+      if (value !== undefined) {
+        service.updateCharacteristic(this.platform.Characteristic.CurrentAmbientLightLevel, Math.max(MIN_LUX, value));
+      }
+      service.updateCharacteristic(this.platform.Characteristic.StatusFault, this.getFault(reading.fault(this.chem)));
+    }
+  }
+
+  /**
+   * Make the speed of a fan the setpoint, limited to the range and step of the controller
+   */
+  configureSetpointSpeed(service: Service, control: ChemSetpointControl, range: ChemSetpointRange) {
+    service
+      .getCharacteristic(this.platform.Characteristic.RotationSpeed)
+      .setProps({ minValue: range.min, maxValue: range.max, minStep: range.step })
+      .onGet(() => control.value(this.chem) ?? range.min)
+      .onSet(value => this.setSetpoint(control, value as number));
+  }
+
+  async setSetpoint(control: ChemSetpointControl, value: number): Promise<void> {
+    try {
+      await this.platform.setChemistrySetpoint(this.chem.id, control.setpoint, value);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.platform.log.warn(`Could not set ${this.accessory.displayName} ${control.label} to ${value}${control.unit}: ${reason}`);
+      throw new this.platform.api.hap.HapStatusError(
+        error instanceof RangeError
+          ? this.platform.api.hap.HAPStatus.INVALID_VALUE_IN_REQUEST
+          : this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
+      );
+    }
+  }
+}
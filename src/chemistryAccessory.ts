@@ -0,0 +1,163 @@
+import { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+
+import { PentairPlatform } from './platform';
+import { MANUFACTURER } from './settings';
+import { CHEM_LOW_TANK_LEVEL, CHEM_TANK_CAPACITY } from './constants';
+import { ChemReading, ChemServices, ChemSetpointControl, ChemSetpointRange } from './chemServices';
+import { ChemController, ChemSetpoint } from './types';
+import { getChemSetpointRange } from './util';
+import { WaterBalance, WaterBalanceStatus } from './waterBalance';
+
+const MODEL = 'IntelliChem';
+const FLOW_SUBTYPE = 'flow';
+const WATER_BALANCE_SUBTYPE = 'water-balance';
+
+const tankPercent = (level: number | undefined) =>
+  level === undefined ? undefined : Math.round((Math.max(0, Math.min(level, CHEM_TANK_CAPACITY)) / CHEM_TANK_CAPACITY) * 100);
+
+const isTankLow = (level: number | undefined) => level !== undefined && level <= CHEM_LOW_TANK_LEVEL;
+
+const CHEM_READINGS: ReadonlyArray<ChemReading> = [
+  { subtype: 'ph', label: 'pH', value: chem => chem.ph, fault: chem => !!(chem.phHigh || chem.phLow) },
+  { subtype: 'orp', label: 'ORP', value: chem => chem.orp, fault: chem => !!(chem.orpHigh || chem.orpLow) },
+  { subtype: 'acid-tank', label: 'Acid Tank', value: chem => tankPercent(chem.phTank), fault: chem => isTankLow(chem.phTank) },
+  {
+    subtype: 'chlorine-tank',
+    label: 'Chlorine Tank',
+    value: chem => tankPercent(chem.orpTank),
+    fault: chem => isTankLow(chem.orpTank),
+  },
+];
+
+const CHEM_SETPOINTS: ReadonlyArray<ChemSetpointControl> = [
+  { setpoint: ChemSetpoint.Ph, subtype: 'ph-setpoint', label: 'pH Setpoint', unit: '', value: chem => chem.phSetpoint },
+  { setpoint: ChemSetpoint.Orp, subtype: 'orp-setpoint', label: 'ORP Setpoint', unit: '', value: chem => chem.orpSetpoint },
+];
+
+/**
+ * IntelliChem Accessory
+ * pH, ORP (mV) and the acid and chlorine tank levels (%) are readings; pH and ORP alarms and low tanks are faults.
+ * Flow is a contact sensor that opens when IntelliChem reports no flow, and the pH and ORP setpoints are fans.
+ * With the water test results configured, the LSI status is an air quality sensor: good when balanced, poor when
+ * corrosive or scaling.
+ */
+export class ChemistryAccessory {
+  private readonly services: ChemServices;
+  private readonly readingServices: ReadonlyArray<{ reading: ChemReading; service: Service }>;
+  private readonly flowService: Service;
+  private readonly waterBalanceService?: Service;
+
+  constructor(
+    private readonly platform: PentairPlatform,
+    private readonly accessory: PlatformAccessory,
+  ) {
+    this.services = new ChemServices(platform, accessory);
+    this.accessory
+      .getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, MANUFACTURER)
+      .setCharacteristic(this.platform.Characteristic.Model, MODEL)
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, `CHEM-${this.chem.id}`);
+
+    this.readingServices = this.services.addReadings(CHEM_READINGS);
+
+    this.flowService = this.services.getOrAddService(this.platform.Service.ContactSensor, 'Flow', FLOW_SUBTYPE);
+    this.flowService.getCharacteristic(this.platform.Characteristic.ContactSensorState).onGet(this.getFlow.bind(this));
+    this.flowService.getCharacteristic(this.platform.Characteristic.StatusFault).onGet(() => this.services.getFault(!!this.chem.noFlow));
+
+    for (const control of CHEM_SETPOINTS) {
+      const range = getChemSetpointRange(this.chem, control.setpoint);
+      if (range) {
+        this.configureSetpointService(control, range);
+      }
+    }
+
+    this.waterBalanceService = this.configureWaterBalanceService();
+
+    this.updateReadings();
+  }
+
+  private configureWaterBalanceService(): Service | undefined {
+    const existing = this.accessory.getServiceById(this.platform.Service.AirQualitySensor, WATER_BALANCE_SUBTYPE);
+    if (!this.platform.getWaterChemistry()) {
+      if (existing) {
+        this.platform.log.info(
+          `Removing water balance sensor from ${this.accessory.displayName} because water chemistry is not configured`,
+        );
+        this.accessory.removeService(existing);
+      }
+      return undefined;
+    }
+
+    const service = this.services.getOrAddService(this.platform.Service.AirQualitySensor, 'Water Balance', WATER_BALANCE_SUBTYPE);
+    service.getCharacteristic(this.platform.Characteristic.AirQuality).onGet(() => this.getWaterQuality());
+    service.getCharacteristic(this.platform.Characteristic.StatusFault).onGet(() => this.services.getFault(this.isWaterUnbalanced()));
+    return service;
+  }
+
+  private get waterBalance(): WaterBalance | undefined {
+    return this.accessory.context.waterBalance as WaterBalance | undefined;
+  }
+
+  private isWaterUnbalanced(): boolean {
+    return !!this.waterBalance && this.waterBalance.status !== WaterBalanceStatus.Balanced;
+  }
+
+  private getWaterQuality(): CharacteristicValue {
+    const { AirQuality } = this.platform.Characteristic;
+    if (!this.waterBalance) {
+      return AirQuality.UNKNOWN;
+    }
+    return this.isWaterUnbalanced() ? AirQuality.POOR : AirQuality.GOOD;
+  }
+
+  private configureSetpointService(control: ChemSetpointControl, range: ChemSetpointRange) {
+    const service = this.services.getOrAddService(this.platform.Service.Fan, control.label, control.subtype);
+    // The setpoint cannot be turned off
+    service
+      .getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => true)
+      .onSet(value => {
+        if (!value) {
+          throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.INVALID_VALUE_IN_REQUEST);
+        }
+      });
+    this.services.configureSetpointSpeed(service, control, range);
+
+    const value = control.value(this.chem);
+    if (value !== undefined) {
+      service.updateCharacteristic(this.platform.Characteristic.RotationSpeed, value);
+    }
+  }
+
+  private get chem(): ChemController {
+    return this.services.chem;
+  }
+
+  async getFlow(): Promise<CharacteristicValue> {
+    return this.getFlowState();
+  }
+
+  private getFlowState(): CharacteristicValue {
+    return this.chem.noFlow
+      ? this.platform.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED
+      : this.platform.Characteristic.ContactSensorState.CONTACT_DETECTED;
+  }
+
+  /**
+   * Push the readings and alarms in the accessory context to HomeKit (called when IntelliChem reports changes)
+   */
+  updateReadings() {
+    this.services.updateReadings(this.readingServices);
+    this.flowService.updateCharacteristic(this.platform.Characteristic.ContactSensorState, this.getFlowState());
+    this.flowService.updateCharacteristic(this.platform.Characteristic.StatusFault, this.services.getFault(!!this.chem.noFlow));
+    this.waterBalanceService?.updateCharacteristic(this.platform.Characteristic.AirQuality, this.getWaterQuality());
+    this.waterBalanceService?.updateCharacteristic(
+      this.platform.Characteristic.StatusFault,
+      this.services.getFault(this.isWaterUnbalanced()),
+    );
+    this.platform.log.debug(
+      `${this.accessory.displayName}: pH ${this.chem.ph ?? 'N/A'}, ORP ${this.chem.orp ?? 'N/A'} mV, ` +
+        `acid tank ${this.chem.phTank ?? 'N/A'}/${CHEM_TANK_CAPACITY}, chlorine tank ${this.chem.orpTank ?? 'N/A'}/${CHEM_TANK_CAPACITY}`,
+    );
+  }
+}
@@ -0,0 +1,158 @@
+import { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+
+import { PentairPlatform } from './platform';
+import { MANUFACTURER } from './settings';
+import { CHLORINATOR_DEFAULT_OUTPUT } from './constants';
+import { ChemReading, ChemServices, ChemSetpointControl, ChemSetpointRange } from './chemServices';
+import { ChemController, ChemSetpoint } from './types';
+import { getChemSetpointRange } from './util';
+
+const MODEL = 'IntelliChlor';
+const CELL_SUBTYPE = 'cell';
+const SUPER_CHLORINATE_SUBTYPE = 'super-chlorinate';
+
+const CHLORINATOR_READINGS: ReadonlyArray<ChemReading> = [
+  { subtype: 'salt', label: 'Salt', value: chem => chem.salt, fault: chem => !!chem.lowSalt },
+  { subtype: 'output', label: 'Output', value: chem => chem.output, fault: chem => !!chem.checkCell },
+  {
+    subtype: 'super-chlorinate-hours',
+    label: 'Super Chlorinate Hours',
+    value: chem => (chem.superChlorinate ? (chem.superChlorinateHours ?? 0) : 0),
+    fault: () => false,
+  },
+];
+
+const CHLORINATOR_OUTPUTS: ReadonlyArray<ChemSetpointControl> = [
+  { setpoint: ChemSetpoint.PoolOutput, subtype: 'pool-output', label: 'Pool Output', unit: '%', value: chem => chem.poolOutput },
+  { setpoint: ChemSetpoint.SpaOutput, subtype: 'spa-output', label: 'Spa Output', unit: '%', value: chem => chem.spaOutput },
+];
+
+/**
+ * IntelliChlor Accessory
+ * Salt (PPM), the current output (%) and the super chlorination hours left are readings, and the cell is a contact
+ * sensor that opens on a low salt or check cell alarm. The pool and spa outputs are fans: turning one off sets its
+ * output to 0% and turning it on again restores the last output. Super chlorination is a switch.
+ */
+export class ChlorinatorAccessory {
+  private readonly services: ChemServices;
+  private readonly readingServices: ReadonlyArray<{ reading: ChemReading; service: Service }>;
+  private readonly outputServices: ReadonlyArray<{ control: ChemSetpointControl; service: Service }>;
+  // Output restored when a fan at 0% is turned on, by control subtype
+  private readonly lastOutputs = new Map<string, number>();
+  private readonly cellService: Service;
+  private readonly superChlorinateService: Service;
+
+  constructor(
+    private readonly platform: PentairPlatform,
+    private readonly accessory: PlatformAccessory,
+  ) {
+    this.services = new ChemServices(platform, accessory);
+    this.accessory
+      .getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, MANUFACTURER)
+      .setCharacteristic(this.platform.Characteristic.Model, MODEL)
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, `CHLOR-${this.chem.id}`);
+
+    this.readingServices = this.services.addReadings(CHLORINATOR_READINGS);
+
+    this.cellService = this.services.getOrAddService(this.platform.Service.ContactSensor, 'Cell', CELL_SUBTYPE);
+    this.cellService.getCharacteristic(this.platform.Characteristic.ContactSensorState).onGet(this.getCell.bind(this));
+    this.cellService.getCharacteristic(this.platform.Characteristic.StatusFault).onGet(() => this.services.getFault(this.hasCellAlarm()));
+
+    this.outputServices = CHLORINATOR_OUTPUTS.flatMap(control => {
+      const range = getChemSetpointRange(this.chem, control.setpoint);
+      return range ? [{ control, service: this.configureOutputService(control, range) }] : [];
+    });
+
+    this.superChlorinateService = this.services.getOrAddService(this.platform.Service.Switch, 'Super Chlorinate', SUPER_CHLORINATE_SUBTYPE);
+    this.superChlorinateService
+      .getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => !!this.chem.superChlorinate)
+      .onSet(value => this.setSuperChlorinate(value as boolean));
+
+    this.updateReadings();
+  }
+
+  private configureOutputService(control: ChemSetpointControl, range: ChemSetpointRange): Service {
+    const service = this.services.getOrAddService(this.platform.Service.Fan, control.label, control.subtype);
+    service
+      .getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => (control.value(this.chem) ?? 0) > 0)
+      .onSet(value => this.setOutputOn(control, range, value as boolean));
+    this.services.configureSetpointSpeed(service, control, range);
+    return service;
+  }
+
+  /**
+   * Off sets the output to 0%. On restores the last output above 0%, or the default when there was none;
+   * an output that is already on keeps its speed.
+   */
+  private async setOutputOn(control: ChemSetpointControl, range: ChemSetpointRange, on: boolean): Promise<void> {
+    if (!on) {
+      await this.services.setSetpoint(control, 0);
+    } else if ((control.value(this.chem) ?? 0) <= 0) {
+      const output = this.lastOutputs.get(control.subtype) ?? CHLORINATOR_DEFAULT_OUTPUT;
+      await this.services.setSetpoint(control, Math.min(Math.max(output, range.min), range.max));
+    }
+  }
+
+  private async setSuperChlorinate(on: boolean): Promise<void> {
+    try {
+      await this.platform.setSuperChlorinate(this.chem.id, on);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.platform.log.warn(`Could not turn ${on ? 'on' : 'off'} ${this.accessory.displayName} super chlorination: ${reason}`);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  private get chem(): ChemController {
+    return this.services.chem;
+  }
+
+  async getCell(): Promise<CharacteristicValue> {
+    return this.getCellState();
+  }
+
+  private hasCellAlarm(): boolean {
+    return !!(this.chem.lowSalt || this.chem.checkCell);
+  }
+
+  private getCellState(): CharacteristicValue {
+    return this.hasCellAlarm()
+      ? this.platform.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED
+      : this.platform.Characteristic.ContactSensorState.CONTACT_DETECTED;
+  }
+
+  private describeCell(): string {
+    if (this.chem.checkCell) {
+      return 'check cell';
+    }
+    return this.chem.lowSalt ? 'low salt' : 'OK';
+  }
+
+  /**
+   * Push the readings, outputs and alarms in the accessory context to HomeKit (called when IntelliChlor reports changes)
+   */
+  updateReadings() {
+    this.services.updateReadings(this.readingServices);
+    for (const { control, service } of this.outputServices) {
+      const value = control.value(this.chem);
+      if (value !== undefined && value > 0) {
+        this.lastOutputs.set(control.subtype, value);
+      }
+      if (value !== undefined) {
+        service.updateCharacteristic(this.platform.Characteristic.On, value > 0);
+        service.updateCharacteristic(this.platform.Characteristic.RotationSpeed, value);
+      }
+    }
+    this.cellService.updateCharacteristic(this.platform.Characteristic.ContactSensorState, this.getCellState());
+    this.cellService.updateCharacteristic(this.platform.Characteristic.StatusFault, this.services.getFault(this.hasCellAlarm()));
+    this.superChlorinateService.updateCharacteristic(this.platform.Characteristic.On, !!this.chem.superChlorinate);
+    this.platform.log.debug(
+      `${this.accessory.displayName}: salt ${this.chem.salt ?? 'N/A'} PPM, output ${this.chem.output ?? 'N/A'}%, ` +
+        `pool ${this.chem.poolOutput ?? 'N/A'}%, spa ${this.chem.spaOutput ?? 'N/A'}%, cell ${this.describeCell()}, ` +
+        `super chlorinate ${this.chem.superChlorinate ? `on, ${this.chem.superChlorinateHours ?? 'N/A'} hours left` : 'off'}`,
+    );
+  }
+}
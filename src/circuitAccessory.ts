@@ -28,6 +28,7 @@ const MODEL = 'Circuit';
  */
 export class CircuitAccessory {
   private service!: Service;
+  private onService!: Service;
   private circuit!: Circuit;
   private panel!: Panel;
   private module!: Module | null;
@@ -90,6 +91,7 @@ export class CircuitAccessory {
   }
 
   private configureServiceCharacteristics(): void {
+    this.onService = this.service;
     this.service.setCharacteristic(this.platform.Characteristic.Name, this.circuit.name);
     this.service.updateCharacteristic(this.platform.Characteristic.On, this.getCircuitStatus());
     this.service.getCharacteristic(this.platform.Characteristic.On).onSet(this.setOn.bind(this)).onGet(this.getOn.bind(this));
@@ -117,17 +119,40 @@ export class CircuitAccessory {
    */
   async setOn(value: CharacteristicValue) {
     this.platform.log.info(`Setting ${this.circuit.name} to ${value}`);
+    const status = value ? CircuitStatus.On : CircuitStatus.Off;
+    const previousStatus = this.accessory.context.circuit?.status as CircuitStatus | undefined;
+
+    this.accessory.context.circuit.status = status;
+    await this.sendVerifiedWrite(this.circuit.id, STATUS_KEY, status, `set ${this.circuit.name} to ${value}`, () => {
+      this.accessory.context.circuit.status = previousStatus;
+      this.onService.updateCharacteristic(this.platform.Characteristic.On, previousStatus === CircuitStatus.On);
+    });
+  }
+
+  /**
+   * Send a write whose new value HomeKit already shows. The rollback restores the previous state if
+   * IntelliCenter rejects the command or never reports the new value within the verification window.
+   */
+  private async sendVerifiedWrite(objnam: string, key: string, value: string, action: string, rollback: () => void): Promise<void> {
     const command = {
       command: IntelliCenterRequestCommand.SetParamList,
       messageID: uuidv4(),
       objectList: [
         {
-          objnam: this.circuit.id,
-          params: { [STATUS_KEY]: value ? CircuitStatus.On : CircuitStatus.Off } as never,
+          objnam,
+          params: { [key]: value } as never,
         } as CircuitStatusMessage,
       ],
     } as IntelliCenterRequest;
-    this.platform.sendCommandNoWait(command);
+    this.platform.expectWrite(objnam, key, value, rollback);
+
+    try {
+      await this.platform.sendConfirmedCommand(command, action);
+    } catch (error) {
+      this.platform.cancelWrite(objnam, key);
+      rollback();
+      throw error;
+    }
   }
 
   async setColorHue(value: CharacteristicValue) {
@@ -135,18 +160,19 @@ export class CircuitAccessory {
     await this.platform.delay(10);
     const saturation = this.accessory.context.saturation;
     this.platform.log.info(`Setting ${this.circuit.name} hue to ${value}. Saturation is ${saturation}`);
-    this.accessory.context.color = getIntelliBriteColor(value as number, saturation);
+    const color = getIntelliBriteColor(value as number, saturation);
     const command = {
       command: IntelliCenterRequestCommand.SetParamList,
       messageID: uuidv4(),
       objectList: [
         {
           objnam: this.circuit.id,
-          params: { [ACT_KEY]: this.accessory.context.color.intellicenterCode } as never,
+          params: { [ACT_KEY]: color.intellicenterCode } as never,
         } as CircuitStatusMessage,
       ],
     } as IntelliCenterRequest;
-    this.platform.sendCommandNoWait(command);
+    await this.platform.sendConfirmedCommand(command, `set ${this.circuit.name} color to ${color.intellicenterCode}`);
+    this.accessory.context.color = color;
     this.accessory.context.saturation = this.accessory.context.color.saturation;
     this.service.updateCharacteristic(this.platform.Characteristic.Hue, this.accessory.context.color.hue);
     this.service.updateCharacteristic(this.platform.Characteristic.Saturation, this.accessory.context.color.saturation);
@@ -219,17 +245,19 @@ export class CircuitAccessory {
       `Setting speed for ${this.pumpCircuit.pump?.name} to ${value} converted/rounded to: ${convertedValue} ` +
         `${this.pumpCircuit.speedType}`,
     );
-    const command = {
-      command: IntelliCenterRequestCommand.SetParamList, //Weirdly required.
-      messageID: uuidv4(),
-      objectList: [
-        {
-          objnam: this.pumpCircuit.id,
-          params: { [SPEED_KEY]: `${convertedValue}` } as never,
-        } as CircuitStatusMessage,
-      ],
-    } as IntelliCenterRequest;
-    this.platform.sendCommandNoWait(command);
+    const pumpCircuit = this.pumpCircuit;
+    const previousSpeed = pumpCircuit.speed;
+    pumpCircuit.speed = convertedValue;
+    await this.sendVerifiedWrite(
+      pumpCircuit.id,
+      SPEED_KEY,
+      `${convertedValue}`,
+      `set ${pumpCircuit.pump?.name} speed to ${convertedValue}`,
+      () => {
+        pumpCircuit.speed = previousSpeed;
+        this.service.updateCharacteristic(this.platform.Characteristic.RotationSpeed, this.convertSpeedToPowerLevel());
+      },
+    );
   }
 
   async getSpeed(): Promise<Nullable<CharacteristicValue>> {
@@ -0,0 +1,153 @@
+/**
+ * Coalescing of queued IntelliCenter writes
+ */
+
+import { CircuitStatusMessage, IntelliCenterParams, IntelliCenterRequest, IntelliCenterRequestCommand } from './types';
+
+export type ParamWrite = {
+  objnam: string;
+  params: Record<string, string>;
+};
+
+export interface CoalescedCommand {
+  /** Command to send, or null when every write already matched the known state */
+  command: IntelliCenterRequest | null;
+  /** Message IDs of every queued command folded into this one; the command reuses the first */
+  messageIDs: string[];
+  /** Writes dropped because IntelliCenter already reports those values */
+  unchanged: ParamWrite[];
+}
+
+export interface CoalescingStats {
+  commandsMerged: number;
+  paramsSuperseded: number;
+  paramsSkipped: number;
+  commandsSkipped: number;
+}
+
+/**
+ * Folds every queued SetParamList into a single message: later values for the same objnam/param replace
+ * earlier ones, different objects share one objectList, and params already at the known value are dropped.
+ */
+export class CommandCoalescer {
+  private knownState: Map<string, Map<string, string>> = new Map();
+  private stats: CoalescingStats = { commandsMerged: 0, paramsSuperseded: 0, paramsSkipped: 0, commandsSkipped: 0 };
+
+  /**
+   * Remember values reported by IntelliCenter
+   */
+  recordState(objnam: string, params: IntelliCenterParams): void {
+    const state = this.knownState.get(objnam) ?? new Map<string, string>();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        state.set(key, `${value}`);
+      }
+    }
+    this.knownState.set(objnam, state);
+  }
+
+  /**
+   * Forget the known value of each param, e.g. once it was written and until IntelliCenter reports it
+   */
+  forgetState(objnam: string, params: IntelliCenterParams): void {
+    const state = this.knownState.get(objnam);
+    for (const key of Object.keys(params)) {
+      state?.delete(key);
+    }
+  }
+
+  /**
+   * Forget all known values, e.g. after a disconnect
+   */
+  clearState(): void {
+    this.knownState.clear();
+  }
+
+  /**
+   * Remove the next command from the queue. A SetParamList takes every other queued SetParamList with it.
+   */
+  takeNext(queue: IntelliCenterRequest[]): CoalescedCommand | null {
+    const first = queue.shift();
+    if (!first) {
+      return null;
+    }
+    if (first.command !== IntelliCenterRequestCommand.SetParamList) {
+      return { command: first, messageIDs: [first.messageID], unchanged: [] };
+    }
+
+    const isWrite = (command: IntelliCenterRequest) => command.command === IntelliCenterRequestCommand.SetParamList;
+    const absorbed = queue.filter(isWrite);
+    queue.splice(0, queue.length, ...queue.filter(command => !isWrite(command)));
+    this.stats.commandsMerged += absorbed.length;
+
+    const { changed, unchanged } = this.partitionByKnownState(this.mergeWrites([first, ...absorbed]));
+    const messageIDs = [first, ...absorbed].map(command => command.messageID);
+
+    if (changed.length === 0) {
+      this.stats.commandsSkipped++;
+      return { command: null, messageIDs, unchanged };
+    }
+
+    const command: IntelliCenterRequest = {
+      command: IntelliCenterRequestCommand.SetParamList,
+      messageID: first.messageID,
+      objectList: changed.map(write => ({ objnam: write.objnam, params: write.params }) as CircuitStatusMessage),
+    };
+    return { command, messageIDs, unchanged };
+  }
+
+  getStats(): CoalescingStats {
+    return { ...this.stats };
+  }
+
+  private mergeWrites(commands: IntelliCenterRequest[]): ParamWrite[] {
+    const merged = new Map<string, Record<string, string>>();
+
+    for (const command of commands) {
+      for (const entry of (command.objectList ?? []) as ReadonlyArray<CircuitStatusMessage>) {
+        if (!entry.objnam || !entry.params) {
+          continue;
+        }
+        const params = merged.get(entry.objnam) ?? {};
+        for (const [key, value] of Object.entries(entry.params)) {
+          if (key in params) {
+            this.stats.paramsSuperseded++;
+          }
+          params[key] = `${value}`;
+        }
+        merged.set(entry.objnam, params);
+      }
+    }
+
+    return [...merged].map(([objnam, params]) => ({ objnam, params }));
+  }
+
+  private partitionByKnownState(writes: ParamWrite[]): { changed: ParamWrite[]; unchanged: ParamWrite[] } {
+    const changed: ParamWrite[] = [];
+    const unchanged: ParamWrite[] = [];
+
+    for (const { objnam, params } of writes) {
+      const state = this.knownState.get(objnam);
+      const toSend: Record<string, string> = {};
+      const alreadySet: Record<string, string> = {};
+
+      for (const [key, value] of Object.entries(params)) {
+        if (state?.get(key) === value) {
+          alreadySet[key] = value;
+          this.stats.paramsSkipped++;
+        } else {
+          toSend[key] = value;
+        }
+      }
+
+      if (Object.keys(toSend).length > 0) {
+        changed.push({ objnam, params: toSend });
+      }
+      if (Object.keys(alreadySet).length > 0) {
+        unchanged.push({ objnam, params: alreadySet });
+      }
+    }
+
+    return { changed, unchanged };
+  }
+}
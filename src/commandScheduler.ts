@@ -0,0 +1,131 @@
+/**
+ * Priority scheduling of outgoing IntelliCenter commands
+ */
+
+import { IntelliCenterRequest, IntelliCenterRequestCommand } from './types';
+
+/**
+ * Lanes in priority order. HomeKit writes go first so a user action never waits behind discovery traffic.
+ */
+export enum CommandLane {
+  Interactive = 'interactive',
+  Subscription = 'subscription',
+  Discovery = 'discovery',
+}
+
+const LANE_PRIORITY: ReadonlyArray<CommandLane> = [CommandLane.Interactive, CommandLane.Subscription, CommandLane.Discovery];
+
+export interface LaneStats {
+  queued: number;
+  dispatched: number;
+  promoted: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+}
+
+interface Lane {
+  queue: IntelliCenterRequest[];
+  enqueuedAt: Map<IntelliCenterRequest, number>;
+  dispatched: number;
+  promoted: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+}
+
+export function laneForCommand(command: IntelliCenterRequest): CommandLane {
+  switch (command.command) {
+    case IntelliCenterRequestCommand.SetParamList:
+      return CommandLane.Interactive;
+    case IntelliCenterRequestCommand.RequestParamList:
+      return CommandLane.Subscription;
+    default:
+      return CommandLane.Discovery;
+  }
+}
+
+/**
+ * Serves the highest priority lane with queued commands. A command in a lower lane that has waited longer
+ * than maxWaitMs is served first, so a steady stream of writes cannot starve subscriptions or discovery.
+ */
+export class CommandScheduler {
+  private lanes: Map<CommandLane, Lane> = new Map();
+
+  constructor(private readonly maxWaitMs: number) {
+    for (const lane of LANE_PRIORITY) {
+      this.lanes.set(lane, { queue: [], enqueuedAt: new Map(), dispatched: 0, promoted: 0, totalWaitMs: 0, maxWaitMs: 0 });
+    }
+  }
+
+  enqueue(command: IntelliCenterRequest, lane: CommandLane = laneForCommand(command)): void {
+    const entry = this.lanes.get(lane)!;
+    entry.queue.push(command);
+    entry.enqueuedAt.set(command, Date.now());
+  }
+
+  /**
+   * Choose the lane to serve and let take remove one or more commands from the front of its queue.
+   * Returns null without calling take when nothing is queued.
+   */
+  dequeue<T>(take: (queue: IntelliCenterRequest[]) => T): T | null {
+    const lane = this.selectLane();
+    if (!lane) {
+      return null;
+    }
+
+    const before = [...lane.queue];
+    const result = take(lane.queue);
+    const remaining = new Set(lane.queue);
+    const now = Date.now();
+
+    for (const command of before.filter(queued => !remaining.has(queued))) {
+      const waited = now - (lane.enqueuedAt.get(command) ?? now);
+      lane.enqueuedAt.delete(command);
+      lane.dispatched++;
+      lane.totalWaitMs += waited;
+      lane.maxWaitMs = Math.max(lane.maxWaitMs, waited);
+    }
+
+    return result;
+  }
+
+  clear(): void {
+    for (const lane of this.lanes.values()) {
+      lane.queue.length = 0;
+      lane.enqueuedAt.clear();
+    }
+  }
+
+  get length(): number {
+    return [...this.lanes.values()].reduce((total, lane) => total + lane.queue.length, 0);
+  }
+
+  getStats(): Record<CommandLane, LaneStats> {
+    const stats = {} as Record<CommandLane, LaneStats>;
+    for (const [name, lane] of this.lanes) {
+      stats[name] = {
+        queued: lane.queue.length,
+        dispatched: lane.dispatched,
+        promoted: lane.promoted,
+        averageWaitMs: lane.dispatched > 0 ? Math.round(lane.totalWaitMs / lane.dispatched) : 0,
+        maxWaitMs: lane.maxWaitMs,
+      };
+    }
+    return stats;
+  }
+
+  private selectLane(): Lane | null {
+    const waiting = LANE_PRIORITY.map(name => this.lanes.get(name)!).filter(lane => lane.queue.length > 0);
+    if (waiting.length === 0) {
+      return null;
+    }
+
+    const now = Date.now();
+    const starved = waiting.slice(1).find(lane => now - lane.enqueuedAt.get(lane.queue[0]!)! >= this.maxWaitMs);
+    if (starved) {
+      starved.promoted++;
+      return starved;
+    }
+
+    return waiting[0]!;
+  }
+}
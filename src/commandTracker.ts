@@ -0,0 +1,186 @@
+/**
+ * Correlation of IntelliCenter requests with their responses by messageID
+ */
+
+import { IntelliCenterRequestCommand, IntelliCenterResponse, IntelliCenterResponseCommand, IntelliCenterResponseStatus } from './types';
+
+export interface CommandResult {
+  response: IntelliCenterResponse;
+  roundTripTime: number;
+}
+
+export class CommandTimeoutError extends Error {
+  constructor(
+    public readonly messageID: string,
+    public readonly timeoutMs: number,
+  ) {
+    super(`No response from IntelliCenter for message ID ${messageID} within ${timeoutMs}ms`);
+    this.name = 'CommandTimeoutError';
+  }
+}
+
+export class CommandRejectedError extends Error {
+  constructor(public readonly response: IntelliCenterResponse) {
+    super(`IntelliCenter rejected message ID ${response.messageID} with code ${response.response}: ${response.description}`);
+    this.name = 'CommandRejectedError';
+  }
+}
+
+interface PendingCommand {
+  resolve: (result: CommandResult) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+  createdAt: number;
+  sentAt?: number;
+}
+
+// Replies that confirm a request was applied: query answers, parameter reads and writes, and plain request echoes
+const CONFIRMING_COMMANDS: ReadonlySet<string> = new Set([
+  IntelliCenterResponseCommand.SendQuery,
+  IntelliCenterResponseCommand.SendParamList,
+  IntelliCenterResponseCommand.WriteParamList,
+  ...Object.values(IntelliCenterRequestCommand),
+]);
+
+export class PendingCommandTracker {
+  private pending: Map<string, PendingCommand> = new Map();
+  private followers: Map<string, string[]> = new Map();
+
+  /**
+   * Start waiting for the response to messageID. The returned promise settles when a matching
+   * response arrives, when IntelliCenter answers with an error, or after timeoutMs.
+   */
+  track(messageID: string, timeoutMs: number): Promise<CommandResult> {
+    this.reject(messageID, new Error(`Message ID ${messageID} was reused before a response arrived`));
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(messageID);
+        reject(new CommandTimeoutError(messageID, timeoutMs));
+      }, timeoutMs);
+
+      this.pending.set(messageID, { resolve, reject, timer, createdAt: Date.now() });
+    });
+  }
+
+  /**
+   * Note when the command actually went out so round-trip time excludes queueing delay
+   */
+  markSent(messageID: string): void {
+    const entry = this.pending.get(messageID);
+    if (entry) {
+      entry.sentAt = Date.now();
+    }
+    this.followers.get(messageID)?.forEach(follower => this.markSent(follower));
+  }
+
+  /**
+   * Settle messageID together with leaderID once its command has been merged into the leader's message
+   */
+  follow(messageID: string, leaderID: string): void {
+    if (this.pending.has(messageID) && messageID !== leaderID) {
+      this.followers.set(leaderID, [...(this.followers.get(leaderID) ?? []), messageID]);
+    }
+  }
+
+  /**
+   * Resolve a command that did not need sending because IntelliCenter already has the requested values
+   */
+  resolveWithoutSending(messageID: string): void {
+    const entry = this.pending.get(messageID);
+    if (!entry) {
+      return;
+    }
+
+    this.finish(messageID);
+    entry.resolve({
+      response: {
+        command: IntelliCenterResponseCommand.WriteParamList,
+        messageID,
+        response: IntelliCenterResponseStatus.Ok,
+        description: 'Requested values already current',
+        objectList: [],
+      },
+      roundTripTime: 0,
+    });
+  }
+
+  /**
+   * Settle the pending command matching this response, if any. Returns true when a command was settled.
+   */
+  settle(response: IntelliCenterResponse): boolean {
+    const messageIDs = response.messageID ? [response.messageID, ...(this.followers.get(response.messageID) ?? [])] : [];
+    const entry = messageIDs.map(messageID => this.pending.get(messageID)).find(pending => pending !== undefined);
+    if (!entry) {
+      return false;
+    }
+
+    const hasErrorStatus = !!response.response && response.response !== IntelliCenterResponseStatus.Ok;
+    const isError = response.command === IntelliCenterResponseCommand.Error || hasErrorStatus;
+
+    if (isError) {
+      this.reject(response.messageID, new CommandRejectedError(response));
+      return true;
+    }
+
+    if (!CONFIRMING_COMMANDS.has(response.command)) {
+      return false;
+    }
+
+    const roundTripTime = Date.now() - (entry.sentAt ?? entry.createdAt);
+    this.followers.delete(response.messageID);
+    for (const messageID of messageIDs) {
+      const settled = this.pending.get(messageID);
+      if (settled) {
+        this.finish(messageID);
+        settled.resolve({ response, roundTripTime });
+      }
+    }
+    return true;
+  }
+
+  reject(messageID: string, error: Error): void {
+    const entry = this.pending.get(messageID);
+    if (entry) {
+      this.finish(messageID);
+      entry.reject(error);
+    }
+    this.takeFollowers(messageID).forEach(follower => this.reject(follower, error));
+  }
+
+  rejectAll(reason: string): void {
+    this.followers.clear();
+    for (const messageID of [...this.pending.keys()]) {
+      this.reject(messageID, new Error(reason));
+    }
+  }
+
+  isPending(messageID: string): boolean {
+    return this.pending.has(messageID);
+  }
+
+  /**
+   * Whether a caller waits for messageID, itself or through a command merged into it
+   */
+  isAwaited(messageID: string): boolean {
+    return this.pending.has(messageID) || (this.followers.get(messageID) ?? []).some(follower => this.pending.has(follower));
+  }
+
+  get size(): number {
+    return this.pending.size;
+  }
+
+  private takeFollowers(messageID: string): string[] {
+    const followers = this.followers.get(messageID) ?? [];
+    this.followers.delete(messageID);
+    return followers;
+  }
+
+  private finish(messageID: string): void {
+    const entry = this.pending.get(messageID);
+    if (entry) {
+      clearTimeout(entry.timer);
+      this.pending.delete(messageID);
+    }
+  }
+}
@@ -3,7 +3,7 @@
  */
 
 import { PlatformConfig } from 'homebridge';
-import { TemperatureUnits } from './types';
+import { TemperatureUnits, TransportType } from './types';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -31,6 +31,15 @@ interface TemperatureDetectionResult {
   confidence: number;
 }
 
+/**
+ * One IntelliCenter panel in the controllers list. Any platform option may be repeated here to override the
+ * top-level value for this panel.
+ */
+export type ControllerConfig = {
+  name: string;
+  ipAddress: string;
+} & Record<string, unknown>;
+
 export type PentairConfig = {
   ipAddress: string;
   username: string;
@@ -42,30 +51,62 @@ export type PentairConfig = {
   supportVSP: boolean;
   airTemp: boolean;
   includeAllCircuits?: boolean;
+  valvesReadOnly: boolean;
+  transport: TransportType;
+  writeVerificationWindow: number;
+  deadLetterReplayMaxAge: number;
+  reconnectBaseDelay: number;
+  reconnectMaxDelay: number;
+  keepaliveInterval: number;
+  pollingInterval: number;
+  hardwareCheckInterval: number;
+  rescanSwitch: boolean;
+  orphanRemovalDiscoveries: number;
+  orphanGracePeriod: number;
+  orphanRemovalDryRun: boolean;
+  totalAlkalinity: number;
+  calciumHardness: number;
+  cyanuricAcid: number;
+  totalDissolvedSolids: number;
+  controllers: ControllerConfig[];
+  recordTraffic: boolean;
+  replayFile?: string;
 } & PlatformConfig;
 
 export class ConfigValidator {
   private static validateRequiredFields(config: PlatformConfig, errors: string[], warnings: string[], sanitizedConfig: PentairConfig) {
-    this.validateRequiredIpAddress(config, errors, sanitizedConfig);
-    // Username/password are no longer required from user config.
-    // IntelliCenter's telnet interface does not actually require authentication,
-    // but the code structure remains in case auth is needed in the future.
-    // Hardcoded dummy values satisfy the existing code paths.
-    this.setDummyCredentials(sanitizedConfig);
-  }
-
-  private static setDummyCredentials(sanitizedConfig: PentairConfig) {
-    // IntelliCenter telnet API does not require authentication.
-    // These dummy values maintain code compatibility while removing user burden.
-    // If auth becomes required in the future, restore validateRequiredUsername/Password calls
-    // and add username/password back to config.schema.json.
-    sanitizedConfig.username = 'unused_placeholder';
-    sanitizedConfig.password = 'unused_placeholder_password';
-  }
-
-  private static validateRequiredIpAddress(config: PlatformConfig, errors: string[], sanitizedConfig: PentairConfig) {
-    if (!config.ipAddress || typeof config.ipAddress !== 'string') {
-      errors.push('ipAddress is required and must be a string');
+    this.validateOptionalIpAddress(config, errors, sanitizedConfig);
+    this.validateOptionalCredentials(config, errors, sanitizedConfig);
+  }
+
+  /**
+   * Credentials are only needed for panels that require a password for local connections. Without them the
+   * username and password are empty and no login is attempted.
+   */
+  private static validateOptionalCredentials(config: PlatformConfig, errors: string[], sanitizedConfig: PentairConfig) {
+    const isSet = (value: unknown) => value !== undefined && value !== null && value !== '';
+    sanitizedConfig.username = '';
+    sanitizedConfig.password = '';
+
+    if (!isSet(config.username) && !isSet(config.password)) {
+      return;
+    }
+    if (!isSet(config.username) || !isSet(config.password)) {
+      errors.push('username and password must be configured together');
+      return;
+    }
+    this.validateRequiredUsername(config, errors, sanitizedConfig);
+    this.validateRequiredPassword(config, errors, sanitizedConfig);
+  }
+
+  /**
+   * A missing ipAddress is allowed; the platform then finds the panel on the local network
+   */
+  private static validateOptionalIpAddress(config: PlatformConfig, errors: string[], sanitizedConfig: PentairConfig) {
+    if (config.ipAddress === undefined || config.ipAddress === null || config.ipAddress === '') {
+      sanitizedConfig.ipAddress = '';
+    } else if (typeof config.ipAddress !== 'string') {
+      errors.push('ipAddress must be a string');
     } else {
       const ipValidation = this.validateIpAddress(config.ipAddress);
       if (!ipValidation.isValid) {
@@ -89,7 +130,7 @@ export class ConfigValidator {
     }
   }
 
-  private static validateRequiredPassword(config: PlatformConfig, errors: string[], warnings: string[], sanitizedConfig: PentairConfig) {
+  private static validateRequiredPassword(config: PlatformConfig, errors: string[], sanitizedConfig: PentairConfig) {
     if (!config.password || typeof config.password !== 'string') {
       errors.push('password is required and must be a string');
     } else {
@@ -97,10 +138,7 @@ export class ConfigValidator {
       if (!passwordValidation.isValid) {
         errors.push(`password is invalid: ${passwordValidation.error}`);
       } else {
-        sanitizedConfig.password = passwordValidation.sanitized || config.password;
-        if (passwordValidation.warning) {
-          warnings.push(passwordValidation.warning);
-        }
+        sanitizedConfig.password = config.password;
       }
     }
   }
@@ -138,9 +176,203 @@ export class ConfigValidator {
     sanitizedConfig.supportVSP = this.validateBoolean(config.supportVSP, false);
     sanitizedConfig.airTemp = this.validateBoolean(config.airTemp, true);
     sanitizedConfig.includeAllCircuits = this.validateBoolean(config.includeAllCircuits, false);
+    sanitizedConfig.valvesReadOnly = this.validateBoolean(config.valvesReadOnly, false);
 
     // Buffer size validation
     this.validateBufferSizeConfig(config, warnings, sanitizedConfig);
+
+    this.validateTransportConfig(config, warnings, sanitizedConfig);
+
+    // Seconds to wait for IntelliCenter to confirm a HomeKit write before rolling it back
+    sanitizedConfig.writeVerificationWindow = this.validateNumberInRange(config.writeVerificationWindow, 'writeVerificationWindow', {
+      min: 1,
+      max: 120,
+      defaultValue: 10,
+      warnings,
+    });
+
+    // Seconds a failed write stays worth re-sending once the connection recovers
+    sanitizedConfig.deadLetterReplayMaxAge = this.validateNumberInRange(config.deadLetterReplayMaxAge, 'deadLetterReplayMaxAge', {
+      min: 10,
+      max: 3600,
+      defaultValue: 300,
+      warnings,
+    });
+
+    this.validateReconnectConfig(config, warnings, sanitizedConfig);
+    this.validateKeepaliveConfig(config, warnings, sanitizedConfig);
+    this.validateOrphanRemovalConfig(config, warnings, sanitizedConfig);
+    this.validateWaterChemistryConfig(config, warnings, sanitizedConfig);
+    this.validateTrafficConfig(config, warnings, sanitizedConfig);
+  }
+
+  private static validateOrphanRemovalConfig(config: PlatformConfig, warnings: string[], sanitizedConfig: PentairConfig) {
+    // Complete discoveries in a row a device must be missing from before its accessory is removed; 1 removes at once
+    sanitizedConfig.orphanRemovalDiscoveries = this.validateNumberInRange(config.orphanRemovalDiscoveries, 'orphanRemovalDiscoveries', {
+      min: 1,
+      max: 20,
+      defaultValue: 3,
+      warnings,
+    });
+
+    // Hours a device must also have been missing for; 0 turns the grace period off
+    sanitizedConfig.orphanGracePeriod = this.validateNumberInRange(config.orphanGracePeriod, 'orphanGracePeriod', {
+      min: 0,
+      max: 720,
+      defaultValue: 0,
+      warnings,
+    });
+
+    sanitizedConfig.orphanRemovalDryRun = this.validateBoolean(config.orphanRemovalDryRun, false);
+  }
+
+  private static validateWaterChemistryConfig(config: PlatformConfig, warnings: string[], sanitizedConfig: PentairConfig) {
+    // Water test results in PPM for the LSI; 0 alkalinity or calcium hardness turns the LSI off
+    sanitizedConfig.totalAlkalinity = this.validateNumberInRange(config.totalAlkalinity, 'totalAlkalinity', {
+      min: 0,
+      max: 500,
+      defaultValue: 0,
+      warnings,
+    });
+    sanitizedConfig.calciumHardness = this.validateNumberInRange(config.calciumHardness, 'calciumHardness', {
+      min: 0,
+      max: 1000,
+      defaultValue: 0,
+      warnings,
+    });
+    sanitizedConfig.cyanuricAcid = this.validateNumberInRange(config.cyanuricAcid, 'cyanuricAcid', {
+      min: 0,
+      max: 300,
+      defaultValue: 0,
+      warnings,
+    });
+    sanitizedConfig.totalDissolvedSolids = this.validateNumberInRange(config.totalDissolvedSolids, 'totalDissolvedSolids', {
+      min: 100,
+      max: 20000,
+      defaultValue: 1000,
+      warnings,
+    });
+  }
+
+  private static validateTrafficConfig(config: PlatformConfig, warnings: string[], sanitizedConfig: PentairConfig) {
+    sanitizedConfig.recordTraffic = this.validateBoolean(config.recordTraffic, false);
+
+    if (config.replayFile === undefined || config.replayFile === '') {
+      return;
+    }
+    if (typeof config.replayFile !== 'string') {
+      warnings.push('Invalid replayFile: must be a file path. Connecting to IntelliCenter instead.');
+      return;
+    }
+    // Replaying a recording replaces the connection to the panel
+    sanitizedConfig.replayFile = config.replayFile.trim();
+    sanitizedConfig.transport = TransportType.Replay;
+    sanitizedConfig.recordTraffic = false;
+    warnings.push(`Replaying recorded traffic from ${sanitizedConfig.replayFile}. IntelliCenter will not be contacted.`);
+  }
+
+  /**
+   * Controller names namespace accessory UUIDs, so they must be unique. Each panel needs its own address
+   * because network discovery cannot tell which panel is which.
+   */
+  private static validateControllers(config: PlatformConfig, errors: string[], warnings: string[], sanitizedConfig: PentairConfig) {
+    sanitizedConfig.controllers = [];
+    if (config.controllers === undefined) {
+      return;
+    }
+    if (!Array.isArray(config.controllers)) {
+      errors.push('controllers must be an array');
+      return;
+    }
+
+    const names = new Set<string>();
+    config.controllers.forEach((controller: unknown, index: number) => {
+      const entry = (typeof controller === 'object' && controller !== null ? controller : {}) as Record<string, unknown>;
+      const name = typeof entry.name === 'string' ? entry.name.trim() : '';
+      if (!name) {
+        errors.push(`controllers[${index}].name is required`);
+        return;
+      }
+      if (names.has(name.toLowerCase())) {
+        errors.push(`controllers[${index}].name "${name}" is used by another controller`);
+        return;
+      }
+      names.add(name.toLowerCase());
+
+      const ipValidation = typeof entry.ipAddress === 'string' ? this.validateIpAddress(entry.ipAddress) : null;
+      if (!ipValidation?.isValid) {
+        errors.push(`controllers[${index}].ipAddress is invalid: ${ipValidation?.error ?? 'a panel address is required'}`);
+        return;
+      }
+      sanitizedConfig.controllers.push({ ...entry, name, ipAddress: (entry.ipAddress as string).trim() });
+    });
+
+    if (config.ipAddress && sanitizedConfig.controllers.length > 0) {
+      warnings.push('ipAddress is ignored when controllers are configured');
+    }
+  }
+
+  private static validateKeepaliveConfig(config: PlatformConfig, warnings: string[], sanitizedConfig: PentairConfig) {
+    // Seconds without any data before a probe checks that IntelliCenter still answers
+    sanitizedConfig.keepaliveInterval = this.validateNumberInRange(config.keepaliveInterval, 'keepaliveInterval', {
+      min: 60,
+      max: 3600,
+      defaultValue: 120,
+      warnings,
+    });
+
+    // Seconds without notifications before subscribed objects are polled; 0 turns polling off
+    sanitizedConfig.pollingInterval = this.validateNumberInRange(config.pollingInterval, 'pollingInterval', {
+      min: 0,
+      max: 3600,
+      defaultValue: 0,
+      warnings,
+    });
+    if (sanitizedConfig.pollingInterval > 0 && sanitizedConfig.pollingInterval < 60) {
+      warnings.push('pollingInterval below 60 seconds would flood IntelliCenter. Using 60.');
+      sanitizedConfig.pollingInterval = 60;
+    }
+
+    // Minutes between checks of the hardware definition for added, changed or removed devices; 0 turns them off
+    sanitizedConfig.hardwareCheckInterval = this.validateNumberInRange(config.hardwareCheckInterval, 'hardwareCheckInterval', {
+      min: 0,
+      max: 1440,
+      defaultValue: 60,
+      warnings,
+    });
+    sanitizedConfig.rescanSwitch = this.validateBoolean(config.rescanSwitch, false);
+  }
+
+  private static validateReconnectConfig(config: PlatformConfig, warnings: string[], sanitizedConfig: PentairConfig) {
+    // Seconds before the second reconnect attempt; each later attempt waits twice as long, up to reconnectMaxDelay
+    sanitizedConfig.reconnectBaseDelay = this.validateNumberInRange(config.reconnectBaseDelay, 'reconnectBaseDelay', {
+      min: 1,
+      max: 60,
+      defaultValue: 2,
+      warnings,
+    });
+    sanitizedConfig.reconnectMaxDelay = this.validateNumberInRange(config.reconnectMaxDelay, 'reconnectMaxDelay', {
+      min: 10,
+      max: 3600,
+      defaultValue: 300,
+      warnings,
+    });
+
+    if (sanitizedConfig.reconnectMaxDelay < sanitizedConfig.reconnectBaseDelay) {
+      warnings.push('reconnectMaxDelay is shorter than reconnectBaseDelay. Using reconnectBaseDelay for both.');
+      sanitizedConfig.reconnectMaxDelay = sanitizedConfig.reconnectBaseDelay;
+    }
+  }
+
+  private static validateTransportConfig(config: PlatformConfig, warnings: string[], sanitizedConfig: PentairConfig) {
+    if (config.transport === undefined) {
+      sanitizedConfig.transport = TransportType.Telnet;
+    } else if ([TransportType.Telnet, TransportType.WebSocket].includes(config.transport as TransportType)) {
+      sanitizedConfig.transport = config.transport as TransportType;
+    } else {
+      warnings.push(`Invalid transport: must be '${TransportType.Telnet}' or '${TransportType.WebSocket}'. Using default.`);
+      sanitizedConfig.transport = TransportType.Telnet;
+    }
   }
 
   private static validateBufferSizeConfig(config: PlatformConfig, warnings: string[], sanitizedConfig: PentairConfig) {
@@ -158,9 +390,11 @@ export class ConfigValidator {
   }
 
   private static performSecurityChecks(config: PlatformConfig, warnings: string[]) {
-    if (config.ipAddress && this.isPrivateNetwork(config.ipAddress)) {
+    if (typeof config.ipAddress !== 'string' || !config.ipAddress) {
+      // Nothing to check - the address is invalid or will be discovered
+    } else if (this.isPrivateNetwork(config.ipAddress)) {
       // This is good - internal network
-    } else if (config.ipAddress) {
+    } else {
       warnings.push('IP address appears to be on a public network. Ensure your IntelliCenter is properly secured.');
     }
   }
@@ -192,6 +426,7 @@ export class ConfigValidator {
     this.validateTemperatureUnits(config, errors, warnings, sanitizedConfig);
     this.validateTemperatureRangeConfig(config, errors, sanitizedConfig);
     this.validateOptionalFields(config, warnings, sanitizedConfig);
+    this.validateControllers(config, errors, warnings, sanitizedConfig);
     this.performSecurityChecks(config, warnings);
     this.finalizeSanitizedConfig(sanitizedConfig);
 
@@ -222,10 +457,10 @@ export class ConfigValidator {
   }
 
   private static validateUsername(username: string): { isValid: boolean; error?: string; sanitized?: string } {
-    const sanitized = this.sanitizeInput(username);
+    const sanitized = username.trim();
 
-    if (sanitized.length < 3) {
-      return { isValid: false, error: 'Username must be at least 3 characters long' };
+    if (sanitized.length === 0) {
+      return { isValid: false, error: 'Username must not be blank' };
     }
 
     if (sanitized.length > 100) {
@@ -235,29 +470,16 @@ export class ConfigValidator {
     return { isValid: true, sanitized };
   }
 
-  private static validatePassword(password: string): { isValid: boolean; error?: string; warning?: string; sanitized?: string } {
-    // Check length before sanitization to catch overly long passwords
+  /**
+   * The password is sent to IntelliCenter exactly as configured, so it is checked but never altered.
+   * Errors must not include it.
+   */
+  private static validatePassword(password: string): { isValid: boolean; error?: string } {
     if (password.length > 200) {
       return { isValid: false, error: 'Password must be less than 200 characters long' };
     }
 
-    const sanitized = this.sanitizeInput(password);
-
-    if (sanitized.length < 6) {
-      return { isValid: false, error: 'Password must be at least 6 characters long' };
-    }
-
-    // Warn if password was significantly changed by sanitization
-    const sanitizationReduction = password.length - sanitized.length;
-    if (sanitizationReduction > 5) {
-      return {
-        isValid: true,
-        sanitized,
-        warning: `Password contained ${sanitizationReduction} potentially unsafe characters that were removed`,
-      };
-    }
-
-    return { isValid: true, sanitized };
+    return { isValid: true };
   }
 
   private static parseTemperatureValue(value: unknown, units: TemperatureUnits, isMin: boolean): number {
@@ -338,6 +560,26 @@ export class ConfigValidator {
     return defaultValue;
   }
 
+  private static validateNumberInRange(
+    value: unknown,
+    name: string,
+    options: { min: number; max: number; defaultValue: number; warnings: string[] },
+  ): number {
+    if (value === undefined || value === null || value === '') {
+      return options.defaultValue;
+    }
+
+    const parsed = typeof value === 'string' ? parseFloat(value) : typeof value === 'number' ? value : NaN;
+    if (isNaN(parsed) || parsed < options.min || parsed > options.max) {
+      options.warnings.push(
+        `Invalid ${name}: must be a number between ${options.min} and ${options.max}. Using default ${options.defaultValue}.`,
+      );
+      return options.defaultValue;
+    }
+
+    return parsed;
+  }
+
   private static validateBufferSize(size: unknown): { isValid: boolean; error?: string; sanitizedValue?: number } {
     let bufferSize: number;
 
@@ -391,13 +633,6 @@ export class ConfigValidator {
     return false;
   }
 
-  private static sanitizeInput(input: string): string {
-    return input
-      .trim()
-      .replace(/[<>"'&]/g, '') // Remove potentially dangerous characters
-      .substring(0, 200); // Limit length
-  }
-
   /**
    * Runtime validation of temperature unit consistency with IntelliCenter
    * Analyzes temperature readings to detect if they match the configured units
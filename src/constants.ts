@@ -27,16 +27,113 @@ export const PROBE_KEY = 'PROBE';
 export const GPM_KEY = 'GPM';
 export const WATTS_KEY = 'WATTS';
 export const RPM_KEY = 'RPM';
+export const VERSION_KEY = 'VER';
+export const BODY_KEY = 'BODY';
+// The chemistry keys below are not yet checked against a recording from a panel with IntelliChem or IntelliChlor;
+// a reading or alarm whose key IntelliCenter does not send is left unset and shown as unknown
+export const PH_KEY = 'PHVAL';
+export const ORP_KEY = 'ORPVAL';
+export const PH_SETPOINT_KEY = 'PHSET';
+export const ORP_SETPOINT_KEY = 'ORPSET';
+export const PH_TANK_KEY = 'PHTNK';
+export const ORP_TANK_KEY = 'ORPTNK';
+export const PH_HIGH_KEY = 'PHHI';
+export const PH_LOW_KEY = 'PHLO';
+export const ORP_HIGH_KEY = 'ORPHI';
+export const ORP_LOW_KEY = 'ORPLO';
+export const NO_FLOW_KEY = 'NOFLO';
+export const SALT_KEY = 'SALT';
+export const OUTPUT_KEY = 'OUTPUT';
+export const POOL_OUTPUT_KEY = 'PRIM';
+export const SPA_OUTPUT_KEY = 'SEC';
+export const SUPER_CHLORINATE_KEY = 'SUPER';
+// Hours of super chlorination left
+export const SUPER_CHLORINATE_HOURS_KEY = 'TIMOUT';
+export const LOW_SALT_KEY = 'SALTLO';
+export const CHECK_CELL_KEY = 'CELLCHK';
+// Setpoint limits a chemistry controller definition may carry; without them CHEM_SETPOINT_RANGES applies
+export const PH_MIN_KEY = 'PHMIN';
+export const PH_MAX_KEY = 'PHMAX';
+export const ORP_MIN_KEY = 'ORPMIN';
+export const ORP_MAX_KEY = 'ORPMAX';
+export const VALVE_POSITION_KEY = 'POSIT';
+export const VALVE_ASSIGNMENT_KEY = 'ASSIGN';
+export const VALVE_DELAY_KEY = 'DLY';
+
+// System object that reports firmware version and other panel-wide settings
+export const SYSTEM_OBJNAM = '_5451';
+// Stands for every object matching a GetParamList condition such as OBJTYP=MODULE
+export const ALL_OBJECTS_OBJNAM = 'INCR';
 
 export const THERMOSTAT_STEP_VALUE = 0.5;
 export const NO_HEATER_ID = '00000';
+export const NO_CIRCUIT_ID = '00000';
 export const DEFAULT_COLOR_TEMPERATURE = 140;
 export const DEFAULT_BRIGHTNESS = 100;
 
 export const CURRENT_TEMP_MIN_C = -100;
 export const CURRENT_TEMP_MAX_C = 100;
 
+// IntelliChem reports tank levels in steps from 0 (empty) to 6 (full); at or below the low level a refill is due
+export const CHEM_TANK_CAPACITY = 6;
+export const CHEM_LOW_TANK_LEVEL = 1;
+// IntelliChlor output set when an output at 0% is turned on in HomeKit before any other output was seen
+export const CHLORINATOR_DEFAULT_OUTPUT = 50;
+// Setpoints each chemistry controller type accepts, by controller SUBTYP, unless its definition gives other limits
+type ChemSetpointRanges = Readonly<Record<string, { min: number; max: number; step: number }>>;
+export const CHEM_SETPOINT_RANGES: ReadonlyMap<string, ChemSetpointRanges> = new Map<string, ChemSetpointRanges>([
+  ['ICHEM', { ph: { min: 7.0, max: 7.6, step: 0.1 }, orp: { min: 400, max: 800, step: 10 } }],
+  ['ICHLOR', { poolOutput: { min: 0, max: 100, step: 1 }, spaOutput: { min: 0, max: 100, step: 1 } }],
+]);
+// LSI within this distance of 0 is balanced; below is corrosive, above is scaling
+export const LSI_BALANCED_LIMIT = 0.3;
+export const LSI_HISTORY_DAYS = 30;
+// Controller field and IntelliCenter param of each setpoint, and the definition params of its limits if it has any
+export const CHEM_SETPOINT_PARAMS: Readonly<Record<string, { field: string; key: string; minKey?: string; maxKey?: string }>> = {
+  ph: { field: 'phSetpoint', key: PH_SETPOINT_KEY, minKey: PH_MIN_KEY, maxKey: PH_MAX_KEY },
+  orp: { field: 'orpSetpoint', key: ORP_SETPOINT_KEY, minKey: ORP_MIN_KEY, maxKey: ORP_MAX_KEY },
+  poolOutput: { field: 'poolOutput', key: POOL_OUTPUT_KEY },
+  spaOutput: { field: 'spaOutput', key: SPA_OUTPUT_KEY },
+};
+
+export const TELNET_PORT = 6681;
+export const WEBSOCKET_PORT = 6680;
+export const COMMAND_TIMEOUT_MS = 10000;
+// HomeKit warns about set handlers slower than 3 s, so writes made from HomeKit stop waiting for IntelliCenter before that
+export const HOMEKIT_WRITE_TIMEOUT_MS = 2500;
+export const DISCOVERY_COMMAND_TIMEOUT_MS = 30000;
+// Discovery categories asked for at once, and how often each is asked before it counts as failed
+export const DISCOVERY_PIPELINE_DEPTH = 2;
+export const DISCOVERY_MAX_ATTEMPTS = 2;
+// A category that answered before waits this multiple of its slowest recent answer, but at least the minimum
+export const DISCOVERY_TIMEOUT_FACTOR = 3;
+export const DISCOVERY_MIN_TIMEOUT_MS = 5000;
+export const DISCOVERY_TIMING_SAMPLES = 5;
+export const KEEPALIVE_PROBE_TIMEOUT_MS = 10000;
+export const MDNS_DISCOVERY_TIMEOUT_MS = 3000;
+export const FIRMWARE_PROBE_TIMEOUT_MS = 5000;
+// Wait after the first unknown object before re-discovering, so objects added together are found by one discovery
+export const HARDWARE_REDISCOVERY_DELAY_MS = 10000;
+// Accessory id of the optional rescan switch, and how long it shows as on before turning itself off
+export const RESCAN_SWITCH_ID = 'RESCAN';
+export const RESCAN_SWITCH_RESET_MS = 1000;
+// How long to wait for each step of the login exchange. A step that gets no answer in this time fails the connection
+// attempt, which is retried like any other failed connection.
+export const LOGIN_STEP_TIMEOUT_MS = 2000;
+// Failed reconnects to a known address before the network is searched for the panel again
+export const HOST_REDISCOVERY_ATTEMPTS = 3;
+export const DISCOVERED_HOST_CACHE_FILE = 'pentair-intellicenter-host.json';
+export const TRAFFIC_RECORDING_FILE = 'pentair-intellicenter-traffic.jsonl';
+export const HARDWARE_DEFINITION_CACHE_FILE = 'pentair-intellicenter-hardware.json';
+// Longest a subscription or discovery command waits behind HomeKit writes before it is sent anyway
+export const COMMAND_STARVATION_MS = 5000;
+export const RECONNECT_BACKOFF_FACTOR = 2;
+// Spread reconnect delays by ±20% so several bridges on one panel do not retry in lockstep
+export const RECONNECT_JITTER = 0.2;
+
 export const DISCOVER_COMMANDS: ReadonlyArray<string> = ['CIRCUITS', 'PUMPS', 'CHEMS', 'VALVES', 'HEATERS', 'SENSORS', 'GROUPS'];
+// GetHardwareDefinition argument that asks for every category in one answer
+export const WHOLE_HARDWARE_DEFINITION = '';
 export const VARIABLE_SPEED_PUMP_SUBTYPES = new Set(['SPEED', 'VSF']) as ReadonlySet<string>;
 
 // Pump type mapping from telnet SubType to actual pump type
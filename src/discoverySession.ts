@@ -0,0 +1,335 @@
+/**
+ * Discovery of the IntelliCenter hardware definition, one GetHardwareDefinition query per category
+ */
+
+import EventEmitter from 'events';
+import { CommandTimeoutError } from './commandTracker';
+import {
+  DISCOVERY_COMMAND_TIMEOUT_MS,
+  DISCOVERY_MAX_ATTEMPTS,
+  DISCOVERY_MIN_TIMEOUT_MS,
+  DISCOVERY_PIPELINE_DEPTH,
+  DISCOVERY_TIMEOUT_FACTOR,
+  DISCOVERY_TIMING_SAMPLES,
+  WHOLE_HARDWARE_DEFINITION,
+} from './constants';
+import { DiscoveryAnswer } from './types';
+
+export enum DiscoveryCategoryState {
+  Pending = 'pending',
+  Sent = 'sent',
+  Answered = 'answered',
+  // Did not answer in time and was answered from an earlier discovery instead
+  Cached = 'cached',
+  Failed = 'failed',
+  // Not asked, or its answer no longer wanted, because the discovery was cancelled
+  Skipped = 'skipped',
+}
+
+export enum DiscoveryEvent {
+  Progress = 'progress',
+  Complete = 'complete',
+}
+
+export interface DiscoveryProgress {
+  category: string;
+  state: DiscoveryCategoryState;
+  attempt: number;
+  /** Categories answered, cached, failed or skipped so far */
+  finished: number;
+  total: number;
+  /** Why the last attempt for this category failed */
+  error?: Error;
+}
+
+export interface DiscoveryCategoryResult {
+  category: string;
+  state: DiscoveryCategoryState;
+  attempts: number;
+  /** Time the answer took, for answered categories */
+  durationMs: number | null;
+  objects: number;
+  error: string | null;
+}
+
+export interface DiscoveryReport {
+  startedAt: Date;
+  durationMs: number;
+  /** Categories in the order they were asked for */
+  categories: DiscoveryCategoryResult[];
+  found: string[];
+  fromCache: string[];
+  failed: string[];
+  skipped: string[];
+  /** IntelliCenter objects in the answered and cached categories */
+  objects: number;
+  /** Reason the discovery was cancelled, if it was */
+  cancelled: string | null;
+}
+
+export interface DiscoverySessionOptions {
+  categories: ReadonlyArray<string>;
+  /** Ask IntelliCenter for one category. Rejects when it does not answer within timeoutMs or refuses. */
+  query: (category: string, timeoutMs: number) => Promise<DiscoveryAnswer | undefined>;
+  timings: DiscoveryTimings;
+  /** Answer for a category that did not answer in time, such as the one cached by an earlier discovery */
+  fallback?: (category: string) => DiscoveryAnswer | undefined;
+  /** Categories asked for at the same time */
+  depth?: number;
+  maxAttempts?: number;
+}
+
+interface CategoryEntry extends DiscoveryCategoryResult {
+  timeoutMs: number;
+  answer?: DiscoveryAnswer;
+}
+
+const FINISHED_STATES: ReadonlySet<DiscoveryCategoryState> = new Set([
+  DiscoveryCategoryState.Answered,
+  DiscoveryCategoryState.Cached,
+  DiscoveryCategoryState.Failed,
+  DiscoveryCategoryState.Skipped,
+]);
+
+export const describeDiscoveryCategory = (category: string) =>
+  category === WHOLE_HARDWARE_DEFINITION ? 'whole hardware definition' : category;
+
+/**
+ * Count the IntelliCenter objects in a hardware definition answer
+ */
+export function countDiscoveredObjects(answer: unknown): number {
+  if (Array.isArray(answer)) {
+    return answer.reduce((count: number, item) => count + countDiscoveredObjects(item), 0);
+  }
+  if (answer === null || typeof answer !== 'object') {
+    return 0;
+  }
+  const own = typeof (answer as Record<string, unknown>).objnam === 'string' ? 1 : 0;
+  return Object.values(answer).reduce((count: number, value) => count + countDiscoveredObjects(value), own);
+}
+
+/**
+ * Response times of each discovery category, kept across discoveries. A category that has answered before waits
+ * DISCOVERY_TIMEOUT_FACTOR times its slowest recent answer, within DISCOVERY_MIN_TIMEOUT_MS and
+ * DISCOVERY_COMMAND_TIMEOUT_MS. A category never answered, and every retry, waits DISCOVERY_COMMAND_TIMEOUT_MS.
+ */
+export class DiscoveryTimings {
+  private readonly samples: Map<string, number[]> = new Map();
+
+  record(category: string, durationMs: number): void {
+    const samples = [...(this.samples.get(category) ?? []), durationMs];
+    this.samples.set(category, samples.slice(-DISCOVERY_TIMING_SAMPLES));
+  }
+
+  timeoutFor(category: string, attempt = 1): number {
+    const samples = this.samples.get(category);
+    if (attempt > 1 || !samples) {
+      return DISCOVERY_COMMAND_TIMEOUT_MS;
+    }
+    const learned = Math.round(Math.max(...samples) * DISCOVERY_TIMEOUT_FACTOR);
+    return Math.min(DISCOVERY_COMMAND_TIMEOUT_MS, Math.max(DISCOVERY_MIN_TIMEOUT_MS, learned));
+  }
+}
+
+/**
+ * One discovery run. Categories move from pending to sent to answered, with up to `depth` of them sent at once
+ * instead of waiting for each answer before asking for the next. A category that fails is asked again after the
+ * others, unless a timeout at the full DISCOVERY_COMMAND_TIMEOUT_MS can be answered from the fallback.
+ *
+ * Emits DiscoveryEvent.Progress whenever a category changes state and DiscoveryEvent.Complete once, with the
+ * report, when every category has finished or the session is cancelled.
+ */
+export class DiscoverySession extends EventEmitter {
+  private readonly entries: Map<string, CategoryEntry> = new Map();
+  private readonly queue: string[] = [];
+  private readonly depth: number;
+  private readonly maxAttempts: number;
+  private readonly startedAt = Date.now();
+  private inFlight = 0;
+  private report: DiscoveryReport | null = null;
+
+  constructor(private readonly options: DiscoverySessionOptions) {
+    super();
+    this.depth = Math.max(1, options.depth ?? DISCOVERY_PIPELINE_DEPTH);
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? DISCOVERY_MAX_ATTEMPTS);
+    for (const category of options.categories) {
+      if (!this.entries.has(category)) {
+        this.entries.set(category, {
+          category,
+          state: DiscoveryCategoryState.Pending,
+          attempts: 0,
+          durationMs: null,
+          objects: 0,
+          error: null,
+          timeoutMs: 0,
+        });
+        this.queue.push(category);
+      }
+    }
+  }
+
+  start(): void {
+    this.fill();
+  }
+
+  /**
+   * Stop asking. Categories not yet answered are skipped and answers still on their way are ignored.
+   */
+  cancel(reason: string): void {
+    if (this.report) {
+      return;
+    }
+    this.queue.length = 0;
+    for (const entry of this.entries.values()) {
+      if (!FINISHED_STATES.has(entry.state)) {
+        entry.state = DiscoveryCategoryState.Skipped;
+        this.emitProgress(entry);
+      }
+    }
+    this.finish(reason);
+  }
+
+  get finished(): boolean {
+    return this.report !== null;
+  }
+
+  /**
+   * Answers of the answered and cached categories, in the order the categories were asked for
+   */
+  get answers(): ReadonlyMap<string, DiscoveryAnswer> {
+    const answers = new Map<string, DiscoveryAnswer>();
+    for (const { category, answer } of this.entries.values()) {
+      if (answer !== undefined) {
+        answers.set(category, answer);
+      }
+    }
+    return answers;
+  }
+
+  getProgress(): { finished: number; total: number; inFlight: number } {
+    return { finished: this.countFinished(), total: this.entries.size, inFlight: this.inFlight };
+  }
+
+  private fill(): void {
+    while (!this.report && this.inFlight < this.depth && this.queue.length > 0) {
+      this.send(this.entries.get(this.queue.shift()!)!);
+    }
+    if (!this.report && this.inFlight === 0 && this.queue.length === 0) {
+      this.finish(null);
+    }
+  }
+
+  private send(entry: CategoryEntry): void {
+    entry.attempts++;
+    entry.state = DiscoveryCategoryState.Sent;
+    entry.timeoutMs = this.options.timings.timeoutFor(entry.category, entry.attempts);
+    this.inFlight++;
+    this.emitProgress(entry);
+
+    const sentAt = Date.now();
+    this.options.query(entry.category, entry.timeoutMs).then(
+      answer => this.settle(entry, () => this.recordAnswer(entry, answer, Date.now() - sentAt)),
+      error => this.settle(entry, () => this.recordFailure(entry, error instanceof Error ? error : new Error(String(error)))),
+    );
+  }
+
+  private settle(entry: CategoryEntry, record: () => Error | undefined): void {
+    if (this.report) {
+      return;
+    }
+    this.inFlight--;
+    const error = record();
+    this.emitProgress(entry, error);
+    this.fill();
+  }
+
+  private recordAnswer(entry: CategoryEntry, answer: DiscoveryAnswer | undefined, durationMs: number): undefined {
+    entry.state = DiscoveryCategoryState.Answered;
+    entry.durationMs = durationMs;
+    entry.objects = countDiscoveredObjects(answer);
+    entry.error = null;
+    entry.answer = answer;
+    this.options.timings.record(entry.category, durationMs);
+    return undefined;
+  }
+
+  private recordFailure(entry: CategoryEntry, error: Error): Error {
+    entry.error = error.message;
+    const timedOut = error instanceof CommandTimeoutError;
+    const retry = entry.attempts < this.maxAttempts;
+    // A learned timeout may just have been too short, so the panel gets its full time before the cache is used
+    const fallback =
+      timedOut && (!retry || entry.timeoutMs >= DISCOVERY_COMMAND_TIMEOUT_MS) ? this.options.fallback?.(entry.category) : undefined;
+
+    if (fallback !== undefined) {
+      entry.state = DiscoveryCategoryState.Cached;
+      entry.objects = countDiscoveredObjects(fallback);
+      entry.answer = fallback;
+    } else if (retry) {
+      entry.state = DiscoveryCategoryState.Pending;
+      this.queue.push(entry.category);
+    } else {
+      entry.state = DiscoveryCategoryState.Failed;
+    }
+    return error;
+  }
+
+  private emitProgress(entry: CategoryEntry, error?: Error): void {
+    const progress: DiscoveryProgress = {
+      category: entry.category,
+      state: entry.state,
+      attempt: entry.attempts,
+      finished: this.countFinished(),
+      total: this.entries.size,
+      ...(error ? { error } : {}),
+    };
+    this.emit(DiscoveryEvent.Progress, progress);
+  }
+
+  private countFinished(): number {
+    return [...this.entries.values()].filter(entry => FINISHED_STATES.has(entry.state)).length;
+  }
+
+  private finish(cancelled: string | null): void {
+    const categories = [...this.entries.values()].map(({ category, state, attempts, durationMs, objects, error }) => ({
+      category,
+      state,
+      attempts,
+      durationMs,
+      objects,
+      error,
+    }));
+    const inState = (state: DiscoveryCategoryState) => categories.filter(result => result.state === state).map(result => result.category);
+
+    this.report = {
+      startedAt: new Date(this.startedAt),
+      durationMs: Date.now() - this.startedAt,
+      categories,
+      found: inState(DiscoveryCategoryState.Answered),
+      fromCache: inState(DiscoveryCategoryState.Cached),
+      failed: inState(DiscoveryCategoryState.Failed),
+      skipped: inState(DiscoveryCategoryState.Skipped),
+      objects: categories.reduce((count, result) => count + result.objects, 0),
+      cancelled,
+    };
+    this.emit(DiscoveryEvent.Complete, this.report);
+  }
+}
+
+/**
+ * One line summary of a discovery report, e.g. "7 of 7 categories answered with 42 objects in 3.1s"
+ */
+export function describeDiscoveryReport(report: DiscoveryReport): string {
+  const seconds = (report.durationMs / 1000).toFixed(1);
+  const parts = [`${report.found.length} of ${report.categories.length} categories answered with ${report.objects} objects in ${seconds}s`];
+  for (const [label, categories] of [
+    ['from the cache', report.fromCache],
+    ['failed', report.failed],
+    ['skipped', report.skipped],
+  ] as const) {
+    if (categories.length > 0) {
+      parts.push(`${label}: ${categories.map(describeDiscoveryCategory).join(', ')}`);
+    }
+  }
+  return parts.join('; ');
+}
@@ -2,7 +2,7 @@
  * Error handling and resilience utilities for Pentair Platform
  */
 
-import { IntelliCenterRequest } from './types';
+import { CircuitStatusMessage, IntelliCenterRequest, IntelliCenterRequestCommand } from './types';
 
 export interface RetryOptions {
   maxAttempts: number;
@@ -10,6 +10,8 @@ export interface RetryOptions {
   maxDelay: number;
   backoffFactor: number;
   retryableErrors?: string[];
+  /** Fraction of each delay to randomize by, e.g. 0.2 spreads delays over ±20% */
+  jitter?: number;
 }
 
 export interface CircuitBreakerOptions {
@@ -73,10 +75,29 @@ export class CircuitBreaker {
     }
   }
 
+  /**
+   * Open immediately for a failure that retrying cannot fix, such as rejected credentials
+   */
+  trip(): void {
+    this.state = CircuitBreakerState.OPEN;
+    this.lastFailureTime = Date.now();
+    this.successCount = 0;
+  }
+
   getState(): CircuitBreakerState {
     return this.state;
   }
 
+  /**
+   * Milliseconds until an open breaker lets the next operation through, or 0 when it is not open
+   */
+  getRemainingCooldown(): number {
+    if (this.state !== CircuitBreakerState.OPEN) {
+      return 0;
+    }
+    return Math.max(0, this.lastFailureTime + this.options.resetTimeout + 1 - Date.now());
+  }
+
   getStats() {
     return {
       state: this.state,
@@ -117,7 +138,7 @@ export class RetryManager {
           }
         }
 
-        const delay = Math.min(options.baseDelay * Math.pow(options.backoffFactor, attempt - 1), options.maxDelay);
+        const delay = RetryManager.getDelay(attempt, options);
 
         logger?.(`Attempt ${attempt}/${options.maxAttempts} failed: ${lastError.message}. Retrying in ${delay}ms...`);
 
@@ -127,6 +148,17 @@ export class RetryManager {
 
     throw lastError!;
   }
+
+  /**
+   * Delay to wait after the given failed attempt: exponential backoff capped at maxDelay, then randomized by jitter
+   */
+  static getDelay(attempt: number, options: RetryOptions, random: () => number = Math.random): number {
+    const delay = Math.min(options.baseDelay * Math.pow(options.backoffFactor, attempt - 1), options.maxDelay);
+    if (!options.jitter) {
+      return delay;
+    }
+    return Math.round(delay * (1 + options.jitter * (2 * random() - 1)));
+  }
 }
 
 export interface ConnectionHealth {
@@ -192,6 +224,20 @@ export interface DeadLetterQueueItem {
   attempts: number;
   lastError: string;
   originalMessageId: string;
+  /** The sender was told the write failed, e.g. HomeKit showed No Response and rolled back */
+  failureReported?: boolean;
+}
+
+export enum DeadLetterDiscardReason {
+  NotAWrite = 'only writes are replayed',
+  Superseded = 'superseded by a later write',
+  Stale = 'too old to replay',
+}
+
+export interface DeadLetterReplayPlan {
+  /** Writes to re-send, oldest first, with params overwritten by later writes removed */
+  replay: DeadLetterQueueItem[];
+  discarded: Array<{ item: DeadLetterQueueItem; reason: DeadLetterDiscardReason }>;
 }
 
 export class DeadLetterQueue {
@@ -205,13 +251,14 @@ export class DeadLetterQueue {
     this.maxRetentionMs = maxRetentionMs;
   }
 
-  add(command: IntelliCenterRequest, attempts: number, error: string, originalMessageId: string): void {
+  add(command: IntelliCenterRequest, attempts: number, error: string, originalMessageId: string, failureReported = false): void {
     const item: DeadLetterQueueItem = {
       command,
       timestamp: Date.now(),
       attempts,
       lastError: error,
       originalMessageId,
+      failureReported,
     };
 
     this.queue.push(item);
@@ -241,6 +288,57 @@ export class DeadLetterQueue {
     this.queue = [];
   }
 
+  /**
+   * Empty the queue and decide what to re-send after the connection recovers. Only SetParamList writes
+   * are replayed; a param written again by a later entry is dropped from the earlier one, and entries
+   * older than maxAgeMs are discarded. Writes whose failure was reported to the sender are replayed like any other.
+   */
+  takeForReplay(maxAgeMs: number): DeadLetterReplayPlan {
+    this.cleanup();
+    const items = this.queue;
+    this.queue = [];
+
+    const plan: DeadLetterReplayPlan = { replay: [], discarded: [] };
+    const laterWrites = new Set<string>();
+    const now = Date.now();
+
+    // Walk newest first so each objnam/param keeps only its most recent value
+    for (const item of [...items].reverse()) {
+      if (item.command.command !== IntelliCenterRequestCommand.SetParamList) {
+        plan.discarded.unshift({ item, reason: DeadLetterDiscardReason.NotAWrite });
+        continue;
+      }
+
+      const objectList = this.removeSupersededParams(item.command.objectList ?? [], laterWrites);
+      if (objectList.length === 0) {
+        plan.discarded.unshift({ item, reason: DeadLetterDiscardReason.Superseded });
+      } else if (now - item.timestamp > maxAgeMs) {
+        plan.discarded.unshift({ item, reason: DeadLetterDiscardReason.Stale });
+      } else {
+        plan.replay.unshift({ ...item, command: { ...item.command, objectList } });
+      }
+    }
+
+    return plan;
+  }
+
+  private removeSupersededParams(objectList: ReadonlyArray<unknown>, laterWrites: Set<string>): CircuitStatusMessage[] {
+    const remaining: CircuitStatusMessage[] = [];
+
+    for (const entry of objectList as ReadonlyArray<CircuitStatusMessage>) {
+      if (!entry.objnam || !entry.params) {
+        continue;
+      }
+      const params = Object.fromEntries(Object.entries(entry.params).filter(([key]) => !laterWrites.has(`${entry.objnam}.${key}`)));
+      Object.keys(entry.params).forEach(key => laterWrites.add(`${entry.objnam}.${key}`));
+      if (Object.keys(params).length > 0) {
+        remaining.push({ ...entry, params });
+      }
+    }
+
+    return remaining;
+  }
+
   private cleanup(): void {
     const now = Date.now();
     this.queue = this.queue.filter(item => now - item.timestamp < this.maxRetentionMs);
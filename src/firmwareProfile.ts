@@ -0,0 +1,137 @@
+/**
+ * Firmware version detection and the protocol capabilities chosen for each firmware family
+ */
+
+import { DISCOVER_COMMANDS, VERSION_KEY, WHOLE_HARDWARE_DEFINITION } from './constants';
+import { CircuitStatusMessage, HardwareDefinitionShape } from './types';
+
+export enum FirmwareFamily {
+  // Before 1.064, the oldest firmware the plugin supports
+  Legacy = 'legacy',
+  // 1.064 and later 1.x releases
+  V1 = '1.x',
+  // 3.x, such as the 3.004 the documentation/v2 dumps come from
+  V3 = '3.x',
+  // No version, or a major version the plugin has not seen
+  Unknown = 'unknown',
+}
+
+// The oldest 1.x firmware known to answer discovery by category
+const MIN_SUPPORTED_V1_MINOR = 64;
+
+export interface FirmwareVersion {
+  major: number;
+  minor: number;
+  /** As reported, e.g. "IC: 3.004 , ICWEB:2024-06-11 2.001" */
+  reported: string;
+}
+
+/**
+ * What the plugin relies on when talking to a panel. Families the plugin has dumps for get exact settings;
+ * anything else gets the defensive ones, which are narrowed once the panel has answered.
+ */
+export interface CapabilityProfile {
+  family: FirmwareFamily;
+  /** System firmware, null when it could not be read */
+  version: FirmwareVersion | null;
+  /** Module firmware by module objnam, e.g. M0101 -> 10.001 */
+  moduleVersions: Readonly<Record<string, string>>;
+  /** GetHardwareDefinition arguments sent during discovery, in order */
+  discoveryCommands: ReadonlyArray<string>;
+  /** Ask for the whole hardware definition at once if the panel rejects a category */
+  wholeDefinitionFallback: boolean;
+  hardwareDefinitionShape: HardwareDefinitionShape;
+}
+
+type FamilyCapabilities = Pick<CapabilityProfile, 'discoveryCommands' | 'wholeDefinitionFallback' | 'hardwareDefinitionShape'>;
+
+const SUPPORTED: FamilyCapabilities = {
+  discoveryCommands: DISCOVER_COMMANDS,
+  wholeDefinitionFallback: false,
+  hardwareDefinitionShape: HardwareDefinitionShape.Array,
+};
+
+// Older firmware answered the hardware definition in one piece, as in documentation/Response-GetHardwareDefinition.json
+const DEFENSIVE: FamilyCapabilities = {
+  discoveryCommands: DISCOVER_COMMANDS,
+  wholeDefinitionFallback: true,
+  hardwareDefinitionShape: HardwareDefinitionShape.Either,
+};
+
+const FAMILY_CAPABILITIES: Readonly<Record<FirmwareFamily, FamilyCapabilities>> = {
+  [FirmwareFamily.Legacy]: DEFENSIVE,
+  [FirmwareFamily.V1]: SUPPORTED,
+  [FirmwareFamily.V3]: SUPPORTED,
+  [FirmwareFamily.Unknown]: DEFENSIVE,
+};
+
+const VERSION_NUMBER = /(\d+)\.(\d+)/;
+
+/**
+ * Read a VER value. IntelliCenter answers a key it does not have with the key's own name, which is no version.
+ */
+export function parseFirmwareVersion(value: unknown): FirmwareVersion | null {
+  if (typeof value !== 'string' || value === VERSION_KEY) {
+    return null;
+  }
+  const match = VERSION_NUMBER.exec(value);
+  if (!match) {
+    return null;
+  }
+  return { major: Number(match[1]), minor: Number(match[2]), reported: value.trim() };
+}
+
+export function getFirmwareFamily(version: FirmwareVersion | null): FirmwareFamily {
+  if (!version) {
+    return FirmwareFamily.Unknown;
+  }
+  if (version.major < 1 || (version.major === 1 && version.minor < MIN_SUPPORTED_V1_MINOR)) {
+    return FirmwareFamily.Legacy;
+  }
+  if (version.major === 1) {
+    return FirmwareFamily.V1;
+  }
+  return version.major === 3 ? FirmwareFamily.V3 : FirmwareFamily.Unknown;
+}
+
+/**
+ * Build the profile from the system object's VER and the VER of each module object
+ */
+export function buildCapabilityProfile(systemVersion: unknown, modules: ReadonlyArray<CircuitStatusMessage> = []): CapabilityProfile {
+  const version = parseFirmwareVersion(systemVersion);
+  const family = getFirmwareFamily(version);
+  const moduleVersions: Record<string, string> = {};
+  for (const module of modules) {
+    const moduleVersion = parseFirmwareVersion((module.params as Record<string, unknown> | undefined)?.[VERSION_KEY]);
+    if (module.objnam && moduleVersion) {
+      moduleVersions[module.objnam] = moduleVersion.reported;
+    }
+  }
+  return { family, version, moduleVersions, ...FAMILY_CAPABILITIES[family] };
+}
+
+/**
+ * The profile to use after the panel rejected a discovery category
+ */
+export function withWholeDefinitionDiscovery(profile: CapabilityProfile): CapabilityProfile {
+  return { ...profile, discoveryCommands: [WHOLE_HARDWARE_DEFINITION], wholeDefinitionFallback: false };
+}
+
+/**
+ * Which shape a hardware definition answer has, or Either when it is neither
+ */
+export function detectHardwareDefinitionShape(answer: unknown): HardwareDefinitionShape {
+  if (Array.isArray(answer)) {
+    return HardwareDefinitionShape.Array;
+  }
+  if (answer && typeof answer === 'object' && Array.isArray((answer as Record<string, unknown>).panels)) {
+    return HardwareDefinitionShape.Panels;
+  }
+  return HardwareDefinitionShape.Either;
+}
+
+export function describeCapabilityProfile(profile: CapabilityProfile): string {
+  const firmware = profile.version ? `firmware ${profile.version.reported} (${profile.family})` : 'unknown firmware';
+  const modules = Object.entries(profile.moduleVersions).map(([objnam, version]) => `${objnam} ${version}`);
+  return modules.length > 0 ? `${firmware}, modules ${modules.join(', ')}` : firmware;
+}
@@ -0,0 +1,49 @@
+/**
+ * Hardware definition saved in the Homebridge storage path, so accessories are built before discovery finishes
+ */
+
+import { promises as fs } from 'fs';
+import { DiscoveryAnswer } from './types';
+
+export interface CachedHardwareDefinition {
+  savedAt: string;
+  firmware: string | null;
+  /** Merged answer of every discovery category */
+  answer: DiscoveryAnswer;
+  /** Answer of each category on its own, used when that category times out */
+  categories: Record<string, DiscoveryAnswer>;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * Reads and writes one cached hardware definition. A missing, unreadable or malformed file counts as no cache.
+ */
+export class HardwareDefinitionCache {
+  constructor(readonly filePath: string) {}
+
+  async load(): Promise<CachedHardwareDefinition | null> {
+    try {
+      // The path is built from the Homebridge storage path and a fixed file name
+      /* eslint-disable-next-line security/detect-non-literal-fs-filename */
+      const cached = JSON.parse(await fs.readFile(this.filePath, 'utf8')) as CachedHardwareDefinition | null;
+      const valid = typeof cached?.savedAt === 'string' && isObject(cached.answer) && isObject(cached.categories);
+      return valid ? cached : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Write through a temporary file, so a restart during the write leaves the previous cache in place
+   */
+  async save(definition: Omit<CachedHardwareDefinition, 'savedAt'>): Promise<CachedHardwareDefinition> {
+    const cached: CachedHardwareDefinition = { savedAt: new Date().toISOString(), ...definition };
+    const temporary = `${this.filePath}.tmp`;
+    /* eslint-disable-next-line security/detect-non-literal-fs-filename */
+    await fs.writeFile(temporary, JSON.stringify(cached));
+    /* eslint-disable-next-line security/detect-non-literal-fs-filename */
+    await fs.rename(temporary, this.filePath);
+    return cached;
+  }
+}
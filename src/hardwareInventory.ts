@@ -0,0 +1,130 @@
+/**
+ * Inventory of the hardware a discovery found, used to notice configuration changes between discoveries
+ */
+
+import { createHash } from 'crypto';
+import { Body, ChemController, Circuit, Heater, Panel, Pump, Sensor, Valve } from './types';
+
+/**
+ * Definition signature of every discovered object, keyed by objnam. Only configuration goes into a signature;
+ * state that changes during normal operation (status, temperatures, speeds) does not.
+ */
+export type HardwareInventory = ReadonlyMap<string, string>;
+
+export interface HardwareChanges {
+  added: string[];
+  changed: string[];
+  removed: string[];
+}
+
+const sensorSignature = (sensor: Sensor) => ({ name: sensor.name, type: sensor.type });
+
+const chemSignature = (chem: ChemController) => ({ name: chem.name, type: chem.type, bodyIds: chem.bodyIds });
+
+const pumpSignature = (pump: Pump) => ({
+  name: pump.name,
+  type: pump.type,
+  minRpm: pump.minRpm,
+  maxRpm: pump.maxRpm,
+  minFlow: pump.minFlow,
+  maxFlow: pump.maxFlow,
+  circuits: (pump.circuits ?? []).map(pumpCircuit => [pumpCircuit.id, pumpCircuit.circuitId, pumpCircuit.speedType]),
+});
+
+// The controlling pump is part of a circuit's accessory context, so adding or removing a pump changes the circuit
+const circuitSignature = (location: string, circuit: Circuit, pumpId: string | undefined) => ({
+  location,
+  name: circuit.name,
+  objectType: circuit.objectType,
+  type: circuit.type,
+  pump: pumpId ?? null,
+});
+
+const bodySignature = (location: string, body: Body, pumpId: string | undefined) => ({
+  ...circuitSignature(location, body, pumpId),
+  circuit: body.circuit?.id ?? null,
+});
+
+const heaterSignature = (location: string, heater: Heater) => ({
+  location,
+  name: heater.name,
+  type: heater.type,
+  bodyIds: heater.bodyIds,
+  coolingEnabled: heater.coolingEnabled ?? false,
+});
+
+const valveSignature = (location: string, valve: Valve) => ({
+  location,
+  name: valve.name,
+  type: valve.type,
+  circuit: valve.circuitId ?? null,
+  assignment: valve.assignment,
+});
+
+/**
+ * Record the definition of every sensor, chemistry controller, pump, pump circuit, body, feature, heater and valve
+ * of the discovered panels
+ */
+export function buildHardwareInventory(panels: ReadonlyArray<Panel>): Map<string, string> {
+  const inventory = new Map<string, string>();
+  const add = (id: string, signature: unknown) => inventory.set(id, JSON.stringify(signature));
+
+  for (const panel of panels) {
+    const pumpForCircuit = new Map<string, string>();
+    for (const pump of panel.pumps) {
+      for (const pumpCircuit of pump.circuits ?? []) {
+        pumpForCircuit.set(pumpCircuit.circuitId, pump.id);
+        add(pumpCircuit.id, { pump: pump.id, circuit: pumpCircuit.circuitId, speedType: pumpCircuit.speedType });
+      }
+      add(pump.id, pumpSignature(pump));
+    }
+    panel.sensors.forEach(sensor => add(sensor.id, sensorSignature(sensor)));
+    (panel.chemControllers ?? []).forEach(chem => add(chem.id, chemSignature(chem)));
+    panel.features.forEach(feature => add(feature.id, circuitSignature(panel.id, feature, pumpForCircuit.get(feature.id))));
+
+    for (const module of panel.modules) {
+      const location = `${panel.id}.${module.id}`;
+      module.bodies.forEach(body => add(body.id, bodySignature(location, body, pumpForCircuit.get(body.circuit?.id as string))));
+      module.features.forEach(feature => add(feature.id, circuitSignature(location, feature, pumpForCircuit.get(feature.id))));
+      module.heaters.forEach(heater => add(heater.id, heaterSignature(location, heater)));
+      (module.valves ?? []).forEach(valve => add(valve.id, valveSignature(location, valve)));
+    }
+  }
+  return inventory;
+}
+
+/**
+ * Objects added, changed and removed between two inventories. Each list is sorted by objnam.
+ */
+export function diffHardwareInventory(previous: HardwareInventory, current: HardwareInventory): HardwareChanges {
+  const added: string[] = [];
+  const changed: string[] = [];
+  for (const [id, signature] of current) {
+    if (!previous.has(id)) {
+      added.push(id);
+    } else if (previous.get(id) !== signature) {
+      changed.push(id);
+    }
+  }
+  const removed = [...previous.keys()].filter(id => !current.has(id));
+  return { added: added.sort(), changed: changed.sort(), removed: removed.sort() };
+}
+
+export function hasHardwareChanges(changes: HardwareChanges): boolean {
+  return changes.added.length + changes.changed.length + changes.removed.length > 0;
+}
+
+/**
+ * Short hash of an inventory. Two discoveries of an unchanged panel have the same fingerprint.
+ */
+export function hardwareFingerprint(inventory: HardwareInventory): string {
+  const entries = [...inventory].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return createHash('sha256').update(JSON.stringify(entries)).digest('hex').substring(0, 16);
+}
+
+export function describeHardwareChanges(changes: HardwareChanges): string {
+  return (['added', 'changed', 'removed'] as const)
+    .filter(kind => changes[kind].length > 0)
+    .map(kind => `${kind} ${changes[kind].join(', ')}`)
+    .join('; ');
+}
@@ -22,6 +22,7 @@ import {
   THERMOSTAT_STEP_VALUE,
   CURRENT_TEMP_MIN_C,
   CURRENT_TEMP_MAX_C,
+  HOMEKIT_WRITE_TIMEOUT_MS,
 } from './constants';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -201,6 +202,8 @@ export class HeaterAccessory {
       mode = HeatMode.On;
     }
 
+    // Both commands share one HomeKit timeout
+    const deadline = Date.now() + HOMEKIT_WRITE_TIMEOUT_MS;
     if (mode === HeatMode.On) {
       // Turn on the pump.
       const command = {
@@ -213,7 +216,7 @@ export class HeaterAccessory {
           } as CircuitStatusMessage,
         ],
       } as IntelliCenterRequest;
-      this.platform.sendCommandNoWait(command);
+      await this.platform.sendConfirmedCommand(command, `turn on ${this.body.name}`, deadline - Date.now());
     }
 
     const command = {
@@ -226,7 +229,7 @@ export class HeaterAccessory {
         } as CircuitStatusMessage,
       ],
     } as IntelliCenterRequest;
-    this.platform.sendCommandNoWait(command);
+    await this.platform.sendConfirmedCommand(command, `set heater for ${this.body.name} to ${heater}`, deadline - Date.now());
   }
 
   bindStaticValues() {
@@ -375,7 +378,7 @@ export class HeaterAccessory {
         } as CircuitStatusMessage,
       ],
     } as IntelliCenterRequest;
-    this.platform.sendCommandNoWait(command);
+    await this.platform.sendConfirmedCommand(command, `set ${this.body.name} temperature to ${convertedValue}`);
   }
 
   async getCurrentTemperature(): Promise<Nullable<CharacteristicValue>> {
@@ -402,7 +405,7 @@ export class HeaterAccessory {
         } as CircuitStatusMessage,
       ],
     } as IntelliCenterRequest;
-    this.platform.sendCommandNoWait(command);
+    await this.platform.sendConfirmedCommand(command, `set ${this.body.name} cooling threshold to ${convertedValue}`);
   }
 
   async getCoolingThresholdTemperature(): Promise<Nullable<CharacteristicValue>> {
@@ -425,7 +428,7 @@ export class HeaterAccessory {
         } as CircuitStatusMessage,
       ],
     } as IntelliCenterRequest;
-    this.platform.sendCommandNoWait(command);
+    await this.platform.sendConfirmedCommand(command, `set ${this.body.name} heating threshold to ${convertedValue}`);
   }
 
   async getHeatingThresholdTemperature(): Promise<Nullable<CharacteristicValue>> {
@@ -0,0 +1,297 @@
+/**
+ * Incremental framing of the JSON message stream sent by IntelliCenter
+ */
+
+import { Buffer } from 'buffer';
+import { StringDecoder } from 'string_decoder';
+
+export enum FrameType {
+  Message = 'message',
+  Discarded = 'discarded',
+}
+
+export enum DiscardReason {
+  Garbage = 'data outside a JSON object',
+  Malformed = 'invalid characters in message',
+  Truncated = 'message cut off by the start of another',
+  Overflow = 'exceeded max buffer size',
+}
+
+export type Frame = { type: FrameType.Message; text: string } | { type: FrameType.Discarded; text: string; reason: DiscardReason };
+
+export interface FramingMetrics {
+  chunksReceived: number;
+  bytesReceived: number;
+  messagesFramed: number;
+  largestMessageBytes: number;
+  garbageDiscarded: number;
+  malformedDiscarded: number;
+  truncatedDiscarded: number;
+  overflows: number;
+  discardedBytes: number;
+  parseFailures: number;
+  pendingBytes: number;
+}
+
+// Characters that may appear outside a string in a JSON document: structure, numbers and true/false/null
+const JSON_OUTSIDE_STRING = /[\s{}[\],:0-9eE.+\-truefalsn]/;
+
+// An object may only start a nested value after one of these; anything else means a new message began
+const VALUE_PREFIXES = '[,:';
+
+/**
+ * Splits a byte stream into complete JSON objects by tracking brace depth and string state, so objects split
+ * across chunks, several objects in one chunk and newlines inside a message are all framed correctly.
+ * Data that cannot belong to a message is discarded with a reason instead of corrupting the messages around it.
+ */
+export class JsonStreamFramer {
+  private buffer = '';
+  private scanIndex = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private corrupt = false;
+  private rawControlInString = false;
+  private lastSignificant = '';
+  // Where a brace opening a line was taken as a nested object, in case the message turns out to be cut off there
+  private nestedLineStart = -1;
+  // Keeps multi-byte characters split across chunks together
+  private decoder = new StringDecoder('utf8');
+  private metrics: Omit<FramingMetrics, 'pendingBytes'> = JsonStreamFramer.emptyMetrics();
+
+  constructor(private readonly maxBufferSize: number) {}
+
+  /**
+   * Add received data and return every frame it completes, in stream order
+   */
+  push(chunk: Buffer | string): Frame[] {
+    const text = typeof chunk === 'string' ? chunk : this.decoder.write(Buffer.from(chunk));
+    this.metrics.chunksReceived++;
+    this.metrics.bytesReceived += typeof chunk === 'string' ? Buffer.byteLength(chunk) : chunk.length;
+    this.buffer += text;
+
+    const frames: Frame[] = [];
+    while (this.scanIndex < this.buffer.length) {
+      if (this.depth === 0) {
+        this.scanBetweenMessages(frames);
+      } else {
+        this.scanMessage(frames);
+      }
+    }
+
+    if (Buffer.byteLength(this.buffer) > this.maxBufferSize) {
+      this.discard(frames, this.buffer.length, DiscardReason.Overflow);
+    }
+
+    return frames;
+  }
+
+  /**
+   * Record a framed message that still failed to parse
+   */
+  recordParseFailure(): void {
+    this.metrics.parseFailures++;
+  }
+
+  /**
+   * Drop partial data, e.g. when the connection is replaced
+   */
+  reset(): void {
+    this.buffer = '';
+    this.decoder = new StringDecoder('utf8');
+    this.resetScanState();
+  }
+
+  get pendingBytes(): number {
+    return Buffer.byteLength(this.buffer.trim());
+  }
+
+  getMetrics(): FramingMetrics {
+    return { ...this.metrics, pendingBytes: this.pendingBytes };
+  }
+
+  private scanBetweenMessages(frames: Frame[]): void {
+    const char = this.buffer[this.scanIndex];
+
+    if (char === '{') {
+      if (this.buffer.slice(0, this.scanIndex).trim()) {
+        this.discard(frames, this.scanIndex, DiscardReason.Garbage);
+      } else {
+        this.consume(this.scanIndex);
+      }
+      this.depth = 1;
+      this.lastSignificant = '{';
+      this.scanIndex = 1;
+    } else if (char === '\n') {
+      if (this.buffer.slice(0, this.scanIndex).trim()) {
+        this.discard(frames, this.scanIndex + 1, DiscardReason.Garbage);
+      } else {
+        this.consume(this.scanIndex + 1);
+      }
+    } else {
+      this.scanIndex++;
+    }
+  }
+
+  private scanMessage(frames: Frame[]): void {
+    const char = this.buffer[this.scanIndex]!;
+
+    if (char === '{' && this.startsNewMessage()) {
+      // Restart framing at this brace, or at a message wrongly taken as nested before it, so the new message survives
+      this.discard(frames, this.nestedLineStart >= 0 ? this.nestedLineStart : this.scanIndex, DiscardReason.Truncated);
+      return;
+    }
+
+    if (this.inString) {
+      this.scanString(char);
+      return;
+    }
+
+    if (char === '\n' && this.corrupt) {
+      this.discard(frames, this.scanIndex + 1, DiscardReason.Malformed);
+      return;
+    }
+
+    if (char === '"') {
+      this.inString = true;
+    } else if (char === '{' || char === '[') {
+      this.openNestedValue(char);
+    } else if (char === '}' || char === ']') {
+      this.depth--;
+      if (this.depth === 0) {
+        this.emitMessage(frames, this.scanIndex + 1);
+        return;
+      }
+    } else if (!JSON_OUTSIDE_STRING.test(char)) {
+      this.corrupt = true;
+    }
+
+    if (!/\s/.test(char)) {
+      this.lastSignificant = char;
+    }
+    this.scanIndex++;
+  }
+
+  private openNestedValue(char: string): void {
+    this.depth++;
+    if (char === '{' && this.nestedLineStart < 0 && this.buffer[this.scanIndex - 1] === '\n') {
+      this.nestedLineStart = this.scanIndex;
+    }
+  }
+
+  /**
+   * Outside strings, a brace that cannot start a nested value means the current message was cut off; one that can is
+   * nested, even at the start of a line. Inside a string, a brace opening a line is taken as the next message, since
+   * IntelliCenter terminates every message with a newline and the string would otherwise never end.
+   */
+  private startsNewMessage(): boolean {
+    if (this.inString) {
+      return this.buffer[this.scanIndex - 1] === '\n';
+    }
+    return !VALUE_PREFIXES.includes(this.lastSignificant);
+  }
+
+  private scanString(char: string): void {
+    if (this.escaped) {
+      this.escaped = false;
+    } else if (char === '\\') {
+      this.escaped = true;
+    } else if (char === '"') {
+      this.inString = false;
+      this.lastSignificant = char;
+    } else if (char === '\n' || char === '\r' || char === '\t') {
+      this.rawControlInString = true;
+    }
+    this.scanIndex++;
+  }
+
+  private emitMessage(frames: Frame[], end: number): void {
+    const raw = this.buffer.slice(0, end);
+    const text = this.rawControlInString ? escapeControlCharactersInStrings(raw) : raw;
+    this.consume(end);
+
+    this.metrics.messagesFramed++;
+    this.metrics.largestMessageBytes = Math.max(this.metrics.largestMessageBytes, Buffer.byteLength(raw));
+    frames.push({ type: FrameType.Message, text });
+  }
+
+  private discard(frames: Frame[], end: number, reason: DiscardReason): void {
+    const text = this.buffer.slice(0, end).trim();
+    this.consume(end);
+
+    this.metrics.discardedBytes += Buffer.byteLength(text);
+    switch (reason) {
+      case DiscardReason.Garbage:
+        this.metrics.garbageDiscarded++;
+        break;
+      case DiscardReason.Malformed:
+        this.metrics.malformedDiscarded++;
+        break;
+      case DiscardReason.Truncated:
+        this.metrics.truncatedDiscarded++;
+        break;
+      case DiscardReason.Overflow:
+        this.metrics.overflows++;
+        break;
+    }
+    frames.push({ type: FrameType.Discarded, text, reason });
+  }
+
+  private consume(end: number): void {
+    this.buffer = this.buffer.slice(end);
+    this.resetScanState();
+  }
+
+  private resetScanState(): void {
+    this.scanIndex = 0;
+    this.depth = 0;
+    this.inString = false;
+    this.escaped = false;
+    this.corrupt = false;
+    this.rawControlInString = false;
+    this.lastSignificant = '';
+    this.nestedLineStart = -1;
+  }
+
+  private static emptyMetrics(): Omit<FramingMetrics, 'pendingBytes'> {
+    return {
+      chunksReceived: 0,
+      bytesReceived: 0,
+      messagesFramed: 0,
+      largestMessageBytes: 0,
+      garbageDiscarded: 0,
+      malformedDiscarded: 0,
+      truncatedDiscarded: 0,
+      overflows: 0,
+      discardedBytes: 0,
+      parseFailures: 0,
+    };
+  }
+}
+
+/**
+ * IntelliCenter can put raw newlines and tabs inside string values, which JSON.parse rejects
+ */
+function escapeControlCharactersInStrings(text: string): string {
+  let result = '';
+  let inString = false;
+  let escaped = false;
+
+  for (const char of text) {
+    if (inString && !escaped && (char === '\n' || char === '\r' || char === '\t')) {
+      result += char === '\n' ? '\\n' : char === '\r' ? '\\r' : '\\t';
+      continue;
+    }
+
+    if (escaped) {
+      escaped = false;
+    } else if (char === '\\') {
+      escaped = inString;
+    } else if (char === '"') {
+      inString = !inString;
+    }
+    result += char;
+  }
+
+  return result;
+}
@@ -0,0 +1,108 @@
+/**
+ * Keepalive probing and polling fallback for the IntelliCenter connection
+ */
+
+export interface KeepaliveOptions {
+  /** Silence after which a probe is sent to check the connection */
+  probeAfterMs: number;
+  /** Poll subscribed objects when no notification arrived for this long; 0 disables polling */
+  pollIntervalMs: number;
+}
+
+export interface KeepaliveStats {
+  probesSent: number;
+  probesUnanswered: number;
+  lastProbe: Date | null;
+  polling: boolean;
+  polls: number;
+  lastPoll: Date | null;
+  lastNotification: Date;
+}
+
+/**
+ * Decides when a quiet connection needs a probe and when missing push notifications should be replaced
+ * by polling. The platform sends the probes and polls; this class only keeps the timing and counters.
+ */
+export class KeepaliveMonitor {
+  private probeInFlight = false;
+  private probesSent = 0;
+  private probesUnanswered = 0;
+  private lastProbe = 0;
+  private lastNotification = Date.now();
+  private lastPoll = 0;
+  private polls = 0;
+  private polling = false;
+
+  constructor(private readonly options: KeepaliveOptions) {}
+
+  /**
+   * True when nothing has been received for probeAfterMs and no probe is outstanding. The probe counts as
+   * sent until endProbe is called.
+   */
+  beginProbe(lastMessageReceived: number, now = Date.now()): boolean {
+    if (this.probeInFlight || now - lastMessageReceived < this.options.probeAfterMs) {
+      return false;
+    }
+    this.probeInFlight = true;
+    this.probesSent++;
+    this.lastProbe = now;
+    return true;
+  }
+
+  endProbe(answered: boolean): void {
+    this.probeInFlight = false;
+    if (!answered) {
+      this.probesUnanswered++;
+    }
+  }
+
+  /**
+   * Record a push notification. Returns true if it ended polling mode.
+   */
+  recordNotification(now = Date.now()): boolean {
+    this.lastNotification = now;
+    const wasPolling = this.polling;
+    this.polling = false;
+    return wasPolling;
+  }
+
+  /**
+   * True when polling is enabled, no notification arrived for pollIntervalMs and the last poll is at least
+   * that old. Switches into polling mode until the next notification.
+   */
+  pollDue(now = Date.now()): boolean {
+    const interval = this.options.pollIntervalMs;
+    if (interval <= 0 || now - this.lastNotification < interval || now - this.lastPoll < interval) {
+      return false;
+    }
+    this.polling = true;
+    this.polls++;
+    this.lastPoll = now;
+    return true;
+  }
+
+  isPolling(): boolean {
+    return this.polling;
+  }
+
+  /**
+   * Start over on a new connection
+   */
+  reset(now = Date.now()): void {
+    this.probeInFlight = false;
+    this.lastNotification = now;
+    this.polling = false;
+  }
+
+  getStats(): KeepaliveStats {
+    return {
+      probesSent: this.probesSent,
+      probesUnanswered: this.probesUnanswered,
+      lastProbe: this.lastProbe ? new Date(this.lastProbe) : null,
+      polling: this.polling,
+      polls: this.polls,
+      lastPoll: this.lastPoll ? new Date(this.lastPoll) : null,
+      lastNotification: new Date(this.lastNotification),
+    };
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * mDNS / DNS-SD discovery of IntelliCenter panels on the local network
+ */
+
+import { Buffer } from 'buffer';
+import dgram from 'dgram';
+import { promises as fs } from 'fs';
+
+export const MDNS_ADDRESS = '224.0.0.251';
+export const MDNS_PORT = 5353;
+// IntelliCenter advertises its web server as "Pentair: XX-XX-XX._http._tcp.local"
+export const INTELLICENTER_SERVICE = '_http._tcp.local';
+const INSTANCE_PREFIX = /^pentair/i;
+
+export enum DnsRecordType {
+  A = 1,
+  PTR = 12,
+  TXT = 16,
+  SRV = 33,
+}
+
+const DNS_CLASS_IN = 1;
+const MAX_NAME_POINTERS = 32;
+
+export type SrvData = { port: number; target: string };
+
+export interface DnsRecord {
+  name: string;
+  type: number;
+  /** Dotted address for A, target name for PTR, port/target for SRV; null for types that are not decoded */
+  data: string | SrvData | null;
+}
+
+export interface DiscoveredPanel {
+  name: string;
+  host: string;
+  port?: number;
+}
+
+export interface PanelDiscoveryOptions {
+  timeoutMs: number;
+  /** Where to send the query. Defaults to the mDNS multicast group; tests point it at a local responder. */
+  address?: string;
+  port?: number;
+}
+
+/**
+ * Build a one-question DNS query
+ */
+export function encodeQuery(name: string, type: DnsRecordType = DnsRecordType.PTR): Buffer {
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(1, 4); // QDCOUNT
+
+  const question = Buffer.alloc(4);
+  question.writeUInt16BE(type, 0);
+  question.writeUInt16BE(DNS_CLASS_IN, 2);
+
+  return Buffer.concat([header, encodeName(name), question]);
+}
+
+export function encodeName(name: string): Buffer {
+  const labels = name
+    .split('.')
+    .filter(label => label.length > 0)
+    .map(label => {
+      const bytes = Buffer.from(label, 'utf8');
+      return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+    });
+  return Buffer.concat([...labels, Buffer.from([0])]);
+}
+
+/**
+ * Decode the answer, authority and additional records of a DNS message. Throws on truncated or looping data.
+ */
+export function decodeRecords(message: Buffer): DnsRecord[] {
+  const questions = message.readUInt16BE(4);
+  const recordCount = message.readUInt16BE(6) + message.readUInt16BE(8) + message.readUInt16BE(10);
+  let offset = 12;
+
+  for (let i = 0; i < questions; i++) {
+    offset = readName(message, offset).next + 4;
+  }
+
+  const records: DnsRecord[] = [];
+  for (let i = 0; i < recordCount; i++) {
+    const { name, next } = readName(message, offset);
+    const type = message.readUInt16BE(next);
+    const length = message.readUInt16BE(next + 8);
+    const dataOffset = next + 10;
+    if (dataOffset + length > message.length) {
+      throw new Error('DNS record extends past end of message');
+    }
+
+    records.push({ name, type, data: decodeData(message, type, dataOffset, length) });
+    offset = dataOffset + length;
+  }
+
+  return records;
+}
+
+function decodeData(message: Buffer, type: number, offset: number, length: number): DnsRecord['data'] {
+  switch (type) {
+    case DnsRecordType.A:
+      return length === 4 ? [...message.subarray(offset, offset + 4)].join('.') : null;
+    case DnsRecordType.PTR:
+      return readName(message, offset).name;
+    case DnsRecordType.SRV:
+      return { port: message.readUInt16BE(offset + 4), target: readName(message, offset + 6).name };
+    default:
+      return null;
+  }
+}
+
+function readName(message: Buffer, start: number): { name: string; next: number } {
+  const labels: string[] = [];
+  let offset = start;
+  let next: number | null = null;
+  let pointers = 0;
+
+  for (;;) {
+    if (offset >= message.length) {
+      throw new Error('DNS name extends past end of message');
+    }
+    const length = message[offset]!;
+
+    if (length === 0) {
+      return { name: labels.join('.'), next: next ?? offset + 1 };
+    }
+
+    if ((length & 0xc0) === 0xc0) {
+      if (++pointers > MAX_NAME_POINTERS) {
+        throw new Error('DNS name compression loop');
+      }
+      next ??= offset + 2;
+      offset = message.readUInt16BE(offset) & 0x3fff;
+      continue;
+    }
+
+    labels.push(message.toString('utf8', offset + 1, offset + 1 + length));
+    offset += length + 1;
+  }
+}
+
+/**
+ * Pick IntelliCenter panels out of DNS-SD records. A panel without an address record is assumed to be the
+ * host that sent the answer.
+ */
+export function panelsFromRecords(records: ReadonlyArray<DnsRecord>, sourceAddress: string): DiscoveredPanel[] {
+  const byName = (name: string, type: DnsRecordType) =>
+    records.find(record => record.type === type && record.name.toLowerCase() === name.toLowerCase());
+
+  return records
+    .filter(record => record.type === DnsRecordType.PTR && record.name.toLowerCase() === INTELLICENTER_SERVICE)
+    .map(record => record.data as string)
+    .filter(instance => INSTANCE_PREFIX.test(instance))
+    .map(instance => {
+      const srv = byName(instance, DnsRecordType.SRV)?.data as SrvData | undefined;
+      const address = srv ? (byName(srv.target, DnsRecordType.A)?.data as string | undefined) : undefined;
+      return {
+        name: instance.slice(0, -(INTELLICENTER_SERVICE.length + 1)),
+        host: address ?? sourceAddress,
+        port: srv?.port,
+      };
+    });
+}
+
+/**
+ * IntelliCenter names its service after the end of its MAC address, so two answers with the same name are one panel
+ */
+export function isSamePanel(a: DiscoveredPanel, b: DiscoveredPanel): boolean {
+  return a.name.toLowerCase() === b.name.toLowerCase();
+}
+
+/**
+ * Ask the local network for IntelliCenter panels and collect every answer that arrives within timeoutMs.
+ * The query goes out from an ephemeral port, so responders answer it directly instead of by multicast.
+ */
+export function discoverPanels(options: PanelDiscoveryOptions): Promise<DiscoveredPanel[]> {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+    const panels = new Map<string, DiscoveredPanel>();
+    let settled = false;
+
+    const finish = (error?: Error) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      socket.close();
+      if (error) {
+        reject(error);
+      } else {
+        resolve([...panels.values()]);
+      }
+    };
+
+    const timer = setTimeout(() => finish(), options.timeoutMs);
+
+    socket.on('error', error => finish(error));
+    socket.on('message', (message, remote) => {
+      try {
+        for (const panel of panelsFromRecords(decodeRecords(message), remote.address)) {
+          panels.set(panel.host, panels.get(panel.host) ?? panel);
+        }
+      } catch {
+        // Malformed answers from other devices are ignored
+      }
+    });
+
+    socket.bind(0, () => {
+      socket.send(encodeQuery(INTELLICENTER_SERVICE), options.port ?? MDNS_PORT, options.address ?? MDNS_ADDRESS, error => {
+        if (error) {
+          finish(error);
+        }
+      });
+    });
+  });
+}
+
+/**
+ * Remembers the last discovered panel in the Homebridge storage path so restarts connect without searching
+ */
+export class DiscoveredHostCache {
+  constructor(private readonly filePath: string) {}
+
+  async load(): Promise<DiscoveredPanel | null> {
+    try {
+      // The path is built from the Homebridge storage path and a fixed file name
+      /* eslint-disable-next-line security/detect-non-literal-fs-filename */
+      const cached = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      return typeof cached?.host === 'string' && cached.host ? (cached as DiscoveredPanel) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async save(panel: DiscoveredPanel): Promise<void> {
+    /* eslint-disable-next-line security/detect-non-literal-fs-filename */
+    await fs.writeFile(this.filePath, JSON.stringify({ ...panel, discoveredAt: new Date().toISOString() }, null, 2));
+  }
+}
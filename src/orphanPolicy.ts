@@ -0,0 +1,53 @@
+/**
+ * When an accessory whose IntelliCenter object is missing from the hardware definition may be removed
+ */
+
+export interface OrphanRemovalOptions {
+  /** Complete discoveries in a row the object must be missing from */
+  discoveries: number;
+  /** Time the object must have been missing for, counted from the first of those discoveries */
+  gracePeriodMs: number;
+}
+
+/**
+ * Kept in the accessory context, so discoveries before a restart still count after it
+ */
+export interface MissingObject {
+  firstMissing: number;
+  discoveries: number;
+}
+
+export function isMissingObject(value: unknown): value is MissingObject {
+  const missing = value as MissingObject | null | undefined;
+  return typeof missing?.firstMissing === 'number' && typeof missing.discoveries === 'number';
+}
+
+/**
+ * Count one more complete discovery the object was missing from
+ */
+export function recordMissingDiscovery(previous: unknown, now = Date.now()): MissingObject {
+  return isMissingObject(previous)
+    ? { firstMissing: previous.firstMissing, discoveries: previous.discoveries + 1 }
+    : { firstMissing: now, discoveries: 1 };
+}
+
+export function isRemovalDue(missing: MissingObject, options: OrphanRemovalOptions, now = Date.now()): boolean {
+  return missing.discoveries >= options.discoveries && now - missing.firstMissing >= options.gracePeriodMs;
+}
+
+/**
+ * How long an object has been missing, e.g. "missing from 2 discoveries since 2026-10-19T08:00:00.000Z"
+ */
+export function describeMissingObject(missing: MissingObject): string {
+  const discoveries = missing.discoveries === 1 ? '1 discovery' : `${missing.discoveries} discoveries`;
+  return `missing from ${discoveries} since ${new Date(missing.firstMissing).toISOString()}`;
+}
+
+/**
+ * What removal waits for, e.g. "missing from 3 discoveries and for 24 hours"
+ */
+export function describeOrphanRemovalOptions(options: OrphanRemovalOptions): string {
+  const discoveries = options.discoveries === 1 ? '1 discovery' : `${options.discoveries} discoveries`;
+  const hours = options.gracePeriodMs / (60 * 60 * 1000);
+  return `missing from ${discoveries}${hours > 0 ? ` and for ${hours} hours` : ''}`;
+}
@@ -1,17 +1,23 @@
 import { API, Characteristic, DynamicPlatformPlugin, Logger, PlatformAccessory, PlatformConfig, Service } from 'homebridge';
 import * as net from 'net';
+import * as path from 'path';
 
 import { PLATFORM_NAME, PLUGIN_NAME } from './settings';
 import { CircuitAccessory } from './circuitAccessory';
-import { Telnet } from 'telnet-client';
 import {
   BaseCircuit,
   Body,
+  BodyType,
+  ChemController,
+  ChemControllerType,
+  ChemSetpoint,
+  ChemTypes,
   Circuit,
   CircuitStatus,
   CircuitStatusMessage,
   CircuitTypes,
   DiscoveryAnswer,
+  HardwareDefinitionShape,
   Heater,
   IntelliCenterParams,
   IntelliCenterQueryName,
@@ -28,34 +34,154 @@ import {
   Sensor,
   SensorTypes,
   TemperatureSensorType,
+  TemperatureUnits,
+  TransportType,
+  Valve,
+  ValveAssignment,
+  ValveTypes,
 } from './types';
 import { v4 as uuidv4 } from 'uuid';
-import { mergeResponse, transformPanels, updateBody, updateCircuit, updatePump } from './util';
+import {
+  fahrenheitToCelsius,
+  getChemSetpointRange,
+  mergeResponse,
+  prefixLogger,
+  roundToStep,
+  transformPanels,
+  updateBody,
+  updateChemController,
+  updateCircuit,
+  updatePump,
+  updateValve,
+} from './util';
 import {
   ACT_KEY,
-  DISCOVER_COMMANDS,
+  ALL_OBJECTS_OBJNAM,
+  CHECK_CELL_KEY,
+  CHEM_SETPOINT_PARAMS,
+  COMMAND_STARVATION_MS,
+  COMMAND_TIMEOUT_MS,
+  DISCOVERED_HOST_CACHE_FILE,
+  FIRMWARE_PROBE_TIMEOUT_MS,
+  HARDWARE_DEFINITION_CACHE_FILE,
+  HARDWARE_REDISCOVERY_DELAY_MS,
   HEAT_SOURCE_KEY,
   HEATER_KEY,
   HIGH_TEMP_KEY,
+  HOMEKIT_WRITE_TIMEOUT_MS,
   LAST_TEMP_KEY,
   LOW_TEMP_KEY,
+  LOW_SALT_KEY,
   HTMODE_KEY,
   PROBE_KEY,
+  KEEPALIVE_PROBE_TIMEOUT_MS,
+  HOST_REDISCOVERY_ATTEMPTS,
+  MDNS_DISCOVERY_TIMEOUT_MS,
+  NO_FLOW_KEY,
+  OBJ_TYPE_KEY,
+  ORP_HIGH_KEY,
+  ORP_KEY,
+  ORP_LOW_KEY,
+  ORP_SETPOINT_KEY,
+  ORP_TANK_KEY,
+  OUTPUT_KEY,
+  PH_HIGH_KEY,
+  PH_KEY,
+  PH_LOW_KEY,
+  PH_SETPOINT_KEY,
+  PH_TANK_KEY,
+  POOL_OUTPUT_KEY,
   PUMP_TYPE_MAPPING,
+  RECONNECT_BACKOFF_FACTOR,
+  RECONNECT_JITTER,
+  RESCAN_SWITCH_ID,
+  SALT_KEY,
   SELECT_KEY,
+  SPA_OUTPUT_KEY,
   SPEED_KEY,
   STATUS_KEY,
+  SUPER_CHLORINATE_HOURS_KEY,
+  SUPER_CHLORINATE_KEY,
+  SYSTEM_OBJNAM,
+  TRAFFIC_RECORDING_FILE,
+  VALVE_POSITION_KEY,
+  VERSION_KEY,
 } from './constants';
 import { HeaterAccessory } from './heaterAccessory';
 import EventEmitter from 'events';
 import { TemperatureAccessory } from './temperatureAccessory';
+import { ChemistryAccessory } from './chemistryAccessory';
+import { ChlorinatorAccessory } from './chlorinatorAccessory';
+import { ValveAccessory } from './valveAccessory';
+import { RescanSwitchAccessory } from './rescanSwitchAccessory';
+import { calculateLsi, classifyLsi, describeWaterBalance, recordLsi, WaterBalance, WaterChemistry } from './waterBalance';
 import { PumpRpmAccessory } from './pumpRpmAccessory';
 import { PumpGpmAccessory } from './pumpGpmAccessory';
 import { PumpWattsAccessory } from './pumpWattsAccessory';
-import { CircuitBreaker, RetryManager, HealthMonitor, RateLimiter, CircuitBreakerState, DeadLetterQueue } from './errorHandling';
+import {
+  CircuitBreaker,
+  RetryManager,
+  HealthMonitor,
+  RateLimiter,
+  CircuitBreakerState,
+  DeadLetterQueue,
+  DeadLetterQueueItem,
+} from './errorHandling';
 import { ConfigValidator } from './configValidation';
 
 import { PentairConfig } from './configValidation';
+import { CommandRejectedError, CommandTimeoutError, PendingCommandTracker } from './commandTracker';
+import { WriteVerifier } from './writeVerifier';
+import { CommandCoalescer } from './commandCoalescer';
+import { CommandScheduler } from './commandScheduler';
+import { SubscriptionRegistry } from './subscriptionRegistry';
+import { KeepaliveMonitor } from './keepaliveMonitor';
+import { DiscoveredHostCache, DiscoveredPanel, discoverPanels, isSamePanel } from './networkDiscovery';
+import {
+  buildCapabilityProfile,
+  CapabilityProfile,
+  describeCapabilityProfile,
+  detectHardwareDefinitionShape,
+  withWholeDefinitionDiscovery,
+} from './firmwareProfile';
+import {
+  buildHardwareInventory,
+  describeHardwareChanges,
+  diffHardwareInventory,
+  hardwareFingerprint,
+  HardwareChanges,
+  HardwareInventory,
+  hasHardwareChanges,
+} from './hardwareInventory';
+import { CachedHardwareDefinition, HardwareDefinitionCache } from './hardwareDefinitionCache';
+import {
+  describeMissingObject,
+  describeOrphanRemovalOptions,
+  isMissingObject,
+  isRemovalDue,
+  OrphanRemovalOptions,
+  recordMissingDiscovery,
+} from './orphanPolicy';
+import {
+  describeDiscoveryCategory,
+  describeDiscoveryReport,
+  DiscoveryCategoryState,
+  DiscoveryEvent,
+  DiscoveryProgress,
+  DiscoveryReport,
+  DiscoverySession,
+  DiscoveryTimings,
+} from './discoverySession';
+import { RecordingTransport, ReplayTransport, TrafficRecorder } from './trafficRecorder';
+import { DiscardReason, FrameType, JsonStreamFramer } from './jsonFramer';
+import {
+  createTransport,
+  getDefaultPort,
+  IntelliCenterTransport,
+  LoginTransport,
+  TransportConnectOptions,
+  TransportEvent,
+} from './transport';
 
 /**
  * HomebridgePlatform
@@ -70,14 +196,39 @@ export class PentairPlatform implements DynamicPlatformPlugin {
   public readonly accessoryMap: Map<string, PlatformAccessory> = new Map();
   public readonly heaters: Map<string, PlatformAccessory> = new Map();
   public readonly heaterInstances: Map<string, HeaterAccessory> = new Map();
-
-  private connection!: Telnet;
+  // One platform instance per panel when a controllers list is configured
+  public readonly controllers: Map<string, PentairPlatform> = new Map();
+  // Cached accessories created for a controller that is no longer configured
+  private unownedAccessories: PlatformAccessory[] = [];
+  // Cached accessories of a single-panel setup handed to a controller, saved with its name once Homebridge is ready
+  private adoptedAccessories: PlatformAccessory[] = [];
+
+  private connection!: IntelliCenterTransport;
   private maxBufferSize!: number;
-  private discoverCommandsSent!: Array<string>;
-  private discoverCommandsFailed!: Array<string>;
   private discoveryBuffer: DiscoveryAnswer | null = null;
-  private discoveryTimeout: NodeJS.Timeout | null = null;
-  private buffer = '';
+  private discoverySession: DiscoverySession | null = null;
+  private discoveryReport: DiscoveryReport | null = null;
+  // Kept across discoveries so each category's timeout follows how fast the panel answered it before
+  private readonly discoveryTimings = new DiscoveryTimings();
+  private readonly discoveryMessageIds: Set<string> = new Set();
+  // Chosen from the firmware version at the start of each discovery; kept across reconnects
+  private capabilities: CapabilityProfile = buildCapabilityProfile(null);
+  // Hardware found by the last discovery. A hardware check runs an incremental discovery against it and
+  // sets up again only the accessories of objects that were added or changed.
+  private hardwareInventory: HardwareInventory = new Map();
+  private hardwareChanges: HardwareChanges | null = null;
+  private incrementalDiscovery = false;
+  private discoveryRunning = false;
+  private lastHardwareCheck: number | null = null;
+  private rediscoveryTimer: NodeJS.Timeout | null = null;
+  private pendingUnknownObjects: string[] = [];
+  private readonly unknownObjects: Set<string> = new Set();
+  // Saved after every complete discovery. Accessories are built from it at startup, and a discovery category
+  // that times out is answered from it.
+  private hardwareDefinitionCache: HardwareDefinitionCache | null = null;
+  private cachedHardwareDefinition: CachedHardwareDefinition | null = null;
+  private startedFromCache = false;
+  private framer!: JsonStreamFramer;
   private pumpIdToCircuitMap!: Map<string, Circuit>;
 
   // New pump-circuit association mappings
@@ -96,17 +247,21 @@ export class PentairPlatform implements DynamicPlatformPlugin {
   private temperatureUnitValidated = false;
   private temperatureValidationInterval: NodeJS.Timeout | null = null;
 
-  // Telnet connection status
+  // Connection status
   private lastMessageReceived = Date.now();
   private isSocketAlive = false;
   // Used by "maybereconnect" logic
   private reconnecting = false;
-  private lastReconnectTime = 0;
+  private reconnectAttempt = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private nextReconnectAt: number | null = null;
+  // Set once IntelliCenter rejects the configured credentials; only a restart with new configuration clears it
+  private loginRejected = false;
   // Error tracking for ParseError issues
   private parseErrorCount = 0;
   private parseErrorResetTime = Date.now();
   // Command queue to prevent overwhelming IntelliCenter
-  private commandQueue: IntelliCenterRequest[] = [];
+  private commandScheduler: CommandScheduler = new CommandScheduler(COMMAND_STARVATION_MS);
   private processingQueue = false;
   // Heartbeat interval for cleanup
   private heartbeatInterval: NodeJS.Timeout | null = null;
@@ -116,12 +271,24 @@ export class PentairPlatform implements DynamicPlatformPlugin {
   private healthMonitor!: HealthMonitor;
   private rateLimiter!: RateLimiter;
   private deadLetterQueue!: DeadLetterQueue;
+  private commandTracker!: PendingCommandTracker;
+  private writeVerifier!: WriteVerifier;
+  private commandCoalescer!: CommandCoalescer;
+  private subscriptions!: SubscriptionRegistry;
+  private keepalive!: KeepaliveMonitor;
+  private keepaliveProbeId: string | null = null;
+  private readonly firmwareProbeIds: Set<string> = new Set();
+  private connectHost: string | null = null;
+  // The configured address whose panel has already been looked up on the network this session
+  private identifiedHost: string | null = null;
+  private trafficRecorder: TrafficRecorder | null = null;
   private validatedConfig: PentairConfig | null = null;
 
   constructor(
     public readonly log: Logger,
     public readonly config: PlatformConfig,
     public readonly api: API,
+    public readonly controllerName: string | null = null,
   ) {
     this.log.debug('Finished initializing platform:', this.config.name);
 
@@ -129,6 +296,11 @@ export class PentairPlatform implements DynamicPlatformPlugin {
       return;
     }
 
+    if (this.validatedConfig!.controllers.length > 0) {
+      this.setupControllers();
+      return;
+    }
+
     this.initializeComponents();
     this.initializeDataStructures();
     this.setupGracefulShutdown();
@@ -150,6 +322,78 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     return true;
   }
 
+  /**
+   * Start a platform instance for every configured panel. Each has its own connection, discovery, health
+   * monitor and command queue; this instance only hands cached accessories to their owner.
+   */
+  private setupControllers(): void {
+    const shared: PlatformConfig = { ...this.config };
+    delete shared.controllers;
+    delete shared.ipAddress;
+
+    this.setupGracefulShutdown();
+    for (const controller of this.validatedConfig!.controllers) {
+      const controllerConfig = { ...shared, ...controller } as PlatformConfig;
+      this.controllers.set(
+        controller.name,
+        new PentairPlatform(prefixLogger(this.log, controller.name), controllerConfig, this.api, controller.name),
+      );
+    }
+    this.log.info(`Managing ${this.controllers.size} IntelliCenter controllers: ${[...this.controllers.keys()].join(', ')}`);
+
+    this.api.on('didFinishLaunching', () => {
+      if (this.adoptedAccessories.length > 0) {
+        this.api.updatePlatformAccessories(this.adoptedAccessories);
+        this.adoptedAccessories = [];
+      }
+      this.removeUnownedAccessories();
+    });
+  }
+
+  /**
+   * Accessory UUIDs are namespaced by controller so the same objnam on two panels never collides. An accessory
+   * adopted from a single-panel setup keeps its UUID, so HomeKit keeps the automations that use it.
+   */
+  private accessoryUuid(id: string): string {
+    const uuid = this.api.hap.uuid.generate(this.controllerName ? `${this.controllerName}:${id}` : id);
+    if (!this.controllerName || this.accessoryMap.has(uuid)) {
+      return uuid;
+    }
+    const adopted = this.api.hap.uuid.generate(id);
+    return this.accessoryMap.has(adopted) ? adopted : uuid;
+  }
+
+  /**
+   * Accessories cached before a controllers list was configured have no controllerName. They go to the controller
+   * with the same ipAddress as the old top-level one, or else the first controller.
+   */
+  private adoptAccessory(accessory: PlatformAccessory): void {
+    const controllers = [...this.controllers.values()];
+    const controller = controllers.find(candidate => candidate.validatedConfig?.ipAddress === this.config.ipAddress) ?? controllers[0]!;
+    this.log.info(`Moving ${accessory.displayName} from the single-panel setup to controller "${controller.controllerName}".`);
+    accessory.context.controllerName = controller.controllerName;
+    this.adoptedAccessories.push(accessory);
+  }
+
+  private createAccessory(displayName: string, uuid: string): PlatformAccessory {
+    const accessory = new this.api.platformAccessory(displayName, uuid);
+    if (this.controllerName) {
+      accessory.context.controllerName = this.controllerName;
+    }
+    return accessory;
+  }
+
+  private removeUnownedAccessories(): void {
+    this.removeAccessories(
+      this.unownedAccessories.map(accessory => ({
+        accessory,
+        reason: `belongs to controller "${accessory.context.controllerName}", which is not configured`,
+        detail: `controller: ${accessory.context.controllerName}`,
+      })),
+    );
+    this.unownedAccessories = [];
+  }
+
   private initializeComponents(): void {
     this.circuitBreaker = new CircuitBreaker({
       failureThreshold: 5,
@@ -160,18 +404,52 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     this.healthMonitor = new HealthMonitor();
     this.rateLimiter = new RateLimiter(40, 60000); // 40 requests per minute - more reasonable for normal operation
     this.deadLetterQueue = new DeadLetterQueue(100, 24 * 60 * 60 * 1000); // 100 items, 24 hour retention
+    this.commandTracker = new PendingCommandTracker();
+    this.commandCoalescer = new CommandCoalescer();
+    this.writeVerifier = new WriteVerifier(this.validatedConfig!.writeVerificationWindow * 1000, this.log);
+    this.keepalive = new KeepaliveMonitor({
+      probeAfterMs: this.validatedConfig!.keepaliveInterval * 1000,
+      pollIntervalMs: this.validatedConfig!.pollingInterval * 1000,
+    });
 
-    this.connection = new Telnet();
+    this.connection = this.createConnection();
     this.setupSocketEventHandlers();
   }
 
+  /**
+   * The network transport, wrapped in a recorder when recordTraffic is on, or a replay of a recording
+   */
+  private createConnection(): IntelliCenterTransport {
+    const config = this.validatedConfig!;
+    if (config.transport === TransportType.Replay) {
+      return new ReplayTransport(config.replayFile!);
+    }
+
+    const transport = createTransport(config.transport);
+    if (!config.recordTraffic) {
+      return new LoginTransport(transport);
+    }
+
+    // Recording below the login keeps its prompts in the recording; the credentials sent are redacted
+    this.trafficRecorder = new TrafficRecorder(this.storageFile(TRAFFIC_RECORDING_FILE));
+    this.log.info(`Recording IntelliCenter traffic to ${this.trafficRecorder.filePath}`);
+    return new LoginTransport(new RecordingTransport(transport, this.trafficRecorder));
+  }
+
+  /**
+   * A file in the Homebridge storage path. Each panel in a controllers list gets its own.
+   */
+  private storageFile(fileName: string): string {
+    const name = this.controllerName ? fileName.replace(/(\.\w+)$/, `-${this.controllerName.replace(/[^\w-]+/g, '_')}$1`) : fileName;
+    return path.join(this.api.user.storagePath(), name);
+  }
+
   private initializeDataStructures(): void {
     this.maxBufferSize = this.validatedConfig!.maxBufferSize;
-    this.discoverCommandsSent = [];
-    this.discoverCommandsFailed = [];
+    this.framer = new JsonStreamFramer(this.maxBufferSize);
     this.discoveryBuffer = null;
-    this.discoveryTimeout = null;
     this.pumpIdToCircuitMap = new Map<string, Circuit>();
+    this.subscriptions = new SubscriptionRegistry();
 
     // Initialize new pump-circuit association mappings
     this.pumpToCircuitsMap = new Map<string, Set<string>>();
@@ -182,10 +460,39 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
   private setupApiEventHandlers(): void {
     this.api.on('didFinishLaunching', async () => {
+      this.removeUnownedAccessories();
+      this.setupRescanSwitch();
+      await this.restoreFromHardwareCache();
       await this.connectToIntellicenter();
     });
   }
 
+  /**
+   * With rescanSwitch set, add a switch that runs rediscoverHardware() from HomeKit; otherwise remove it
+   */
+  private setupRescanSwitch(): void {
+    const uuid = this.accessoryUuid(RESCAN_SWITCH_ID);
+    const existingAccessory = this.accessoryMap.get(uuid);
+    if (!this.getConfig().rescanSwitch) {
+      if (existingAccessory) {
+        this.removeAccessories([{ accessory: existingAccessory, reason: 'is turned off by rescanSwitch', detail: 'rescanSwitch is off' }]);
+      }
+      return;
+    }
+
+    if (existingAccessory) {
+      this.forgetMissing(existingAccessory, `${existingAccessory.displayName} is turned on by rescanSwitch again.`);
+      new RescanSwitchAccessory(this, existingAccessory);
+      return;
+    }
+    const name = this.controllerName ? `${this.controllerName} Rescan Hardware` : 'Rescan Hardware';
+    const accessory = this.createAccessory(name, uuid);
+    accessory.context.rescanSwitch = true;
+    new RescanSwitchAccessory(this, accessory);
+    this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+    this.accessoryMap.set(accessory.UUID, accessory);
+  }
+
   private setupHeartbeatMonitoring(): void {
     this.heartbeatInterval = setInterval(() => {
       const now = Date.now();
@@ -195,15 +502,92 @@ export class PentairPlatform implements DynamicPlatformPlugin {
         this.log.warn('No data from IntelliCenter in over 4 hours. Closing and restarting connection.');
         this.connection.destroy();
         this.isSocketAlive = false;
-        this.delay(30 * 1000).then(async () => {
-          await this.maybeReconnect();
-        });
+        this.maybeReconnect();
+        return;
+      }
+
+      if (this.isSocketAlive) {
+        this.probeConnectionIfQuiet(now);
+        this.pollIfNotificationsStopped(now);
+        this.checkHardwareIfDue(now);
       }
     }, 60000);
   }
 
   /**
-   * Validate network connectivity to IntelliCenter before attempting Telnet connection
+   * With hardwareCheckInterval set, look for devices an installer added, renamed or removed since the last discovery
+   */
+  private checkHardwareIfDue(now: number): void {
+    const minutes = this.validatedConfig!.hardwareCheckInterval;
+    if (!minutes || this.lastHardwareCheck === null || now - this.lastHardwareCheck < minutes * 60000) {
+      return;
+    }
+    this.rediscoverHardware('periodic check');
+  }
+
+  /**
+   * Ask IntelliCenter for its firmware version when the connection has been quiet. A socket that no longer
+   * answers is closed and reconnected instead of waiting hours for the silence check above.
+   */
+  private async probeConnectionIfQuiet(now: number): Promise<void> {
+    if (!this.keepalive.beginProbe(this.lastMessageReceived, now)) {
+      return;
+    }
+
+    const messageID = uuidv4();
+    this.keepaliveProbeId = messageID;
+    try {
+      await this.sendCommand(
+        {
+          command: IntelliCenterRequestCommand.GetParamList,
+          condition: '',
+          messageID,
+          objectList: [{ objnam: SYSTEM_OBJNAM, keys: [VERSION_KEY] }],
+        },
+        KEEPALIVE_PROBE_TIMEOUT_MS,
+      );
+      this.keepalive.endProbe(true);
+      this.log.debug('IntelliCenter answered keepalive probe.');
+    } catch (error) {
+      this.keepalive.endProbe(false);
+      if (error instanceof CommandTimeoutError && this.isSocketAlive) {
+        this.log.warn(`IntelliCenter did not answer a keepalive probe within ${KEEPALIVE_PROBE_TIMEOUT_MS}ms. Restarting connection.`);
+        this.connection.destroy();
+        this.isSocketAlive = false;
+        this.maybeReconnect();
+      } else {
+        this.log.debug(`Keepalive probe failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } finally {
+      this.keepaliveProbeId = null;
+    }
+  }
+
+  /**
+   * With pollingInterval set, refresh every subscribed object while IntelliCenter sends no notifications
+   */
+  private pollIfNotificationsStopped(now: number): void {
+    const wasPolling = this.keepalive.isPolling();
+    if (this.subscriptions.size === 0 || !this.keepalive.pollDue(now)) {
+      return;
+    }
+
+    if (!wasPolling) {
+      this.log.info(
+        `No notifications from IntelliCenter in ${this.validatedConfig!.pollingInterval}s. ` +
+          `Polling ${this.subscriptions.size} subscribed objects until they resume.`,
+      );
+    }
+    this.sendCommandNoWait({
+      command: IntelliCenterRequestCommand.GetParamList,
+      condition: '',
+      messageID: uuidv4(),
+      objectList: this.subscriptions.entries(),
+    });
+  }
+
+  /**
+   * Validate network connectivity to IntelliCenter before attempting a transport connection
    */
   private async validateNetworkConnectivity(host: string, port: number): Promise<boolean> {
     return new Promise(resolve => {
@@ -280,41 +664,161 @@ export class PentairPlatform implements DynamicPlatformPlugin {
       return;
     }
 
-    const telnetParams = this.buildTelnetParams();
+    this.connectHost = await this.resolveHost();
+    if (!this.connectHost) {
+      this.log.error('No IntelliCenter found on the local network. Set ipAddress in the plugin configuration.');
+      if (!this.reconnecting) {
+        this.reconnectAttempt++;
+        this.scheduleReconnect(this.getReconnectDelay());
+      }
+      return;
+    }
+
+    const connectOptions = this.buildConnectOptions(this.connectHost);
+
+    if (!(await this.validateNetworkConnectivityIfNeeded(connectOptions))) {
+      return;
+    }
+
+    await this.attemptConnection(connectOptions);
+  }
+
+  /**
+   * Use the configured ipAddress, or the panel found by the last network discovery when none is configured.
+   * After several failed reconnects the network is searched again in case the panel's address changed.
+   */
+  private async resolveHost(): Promise<string | null> {
+    if (this.connection.type === TransportType.Replay) {
+      return this.validatedConfig!.replayFile!;
+    }
+
+    const unreachable = this.reconnectAttempt >= HOST_REDISCOVERY_ATTEMPTS;
+    const configured = this.validatedConfig!.ipAddress || null;
+    if (configured && !unreachable) {
+      return configured;
+    }
+
+    const cache = new DiscoveredHostCache(this.storageFile(DISCOVERED_HOST_CACHE_FILE));
+    if (configured) {
+      return this.findMovedPanel(configured, cache);
+    }
+
+    const cached = await cache.load();
+    if (cached && !unreachable) {
+      this.log.debug(`Using IntelliCenter address ${cached.host} from the last network discovery.`);
+      return cached.host;
+    }
+
+    const discovered = await this.discoverHost(cache);
+    return discovered ?? cached?.host ?? null;
+  }
+
+  private async discoverHost(cache: DiscoveredHostCache): Promise<string | null> {
+    const panels = await this.searchPanels();
+    const panel = panels[0];
+    if (!panel) {
+      this.log.warn('No IntelliCenter answered the network search.');
+      return null;
+    }
+
+    this.log.info(`Found IntelliCenter "${panel.name}" at ${panel.host}.`);
+    if (panels.length > 1) {
+      this.log.warn(
+        `Found ${panels.length} IntelliCenter panels (${panels.map(found => found.host).join(', ')}). ` +
+          'Using the first one; set ipAddress to choose another.',
+      );
+    }
+
+    await cache.save(panel).catch(error => this.log.warn(`Could not cache discovered IntelliCenter address: ${error}`));
+    return panel.host;
+  }
+
+  /**
+   * A configured address that stops answering is only given up for the panel last connected there, recognised by
+   * the MAC address in its network name. Any other panel the search finds could be a neighbour's or a second panel
+   * on the same network, so without a match the configured address is kept.
+   */
+  private async findMovedPanel(configured: string, cache: DiscoveredHostCache): Promise<string> {
+    const known = await cache.load();
+    if (!known) {
+      this.log.debug(`Keeping IntelliCenter address ${configured}: the panel there has not been identified on the network.`);
+      return configured;
+    }
+
+    const moved = (await this.searchPanels()).find(panel => isSamePanel(panel, known));
+    if (!moved) {
+      this.log.warn(`IntelliCenter "${known.name}" did not answer the network search; keeping address ${configured}.`);
+      return configured;
+    }
+    if (moved.host !== configured) {
+      this.log.warn(
+        `IntelliCenter "${moved.name}" no longer answers at ${configured} but was found at ${moved.host}. ` +
+          'Connecting there; update ipAddress to keep it.',
+      );
+    }
+
+    await cache.save(moved).catch(error => this.log.warn(`Could not cache discovered IntelliCenter address: ${error}`));
+    return moved.host;
+  }
+
+  /**
+   * Remember which panel answers at the configured address, so findMovedPanel can recognise it if the address changes
+   */
+  private async identifyConnectedPanel(): Promise<void> {
+    const host = this.connectHost;
+    if (!host || !this.validatedConfig?.ipAddress || this.identifiedHost === host || this.connection.type === TransportType.Replay) {
+      return;
+    }
+    this.identifiedHost = host;
 
-    if (!(await this.validateNetworkConnectivityIfNeeded(telnetParams))) {
+    const cache = new DiscoveredHostCache(this.storageFile(DISCOVERED_HOST_CACHE_FILE));
+    if ((await cache.load())?.host === host) {
+      return;
+    }
+    const panel = (await this.searchPanels()).find(found => found.host === host);
+    if (!panel) {
+      this.log.debug(`IntelliCenter at ${host} did not answer the network search; it will not be followed to a new address.`);
       return;
     }
 
-    await this.attemptConnection(telnetParams);
+    this.log.debug(`Identified IntelliCenter at ${host} as "${panel.name}".`);
+    await cache.save(panel).catch(error => this.log.warn(`Could not cache discovered IntelliCenter address: ${error}`));
+  }
+
+  private async searchPanels(): Promise<DiscoveredPanel[]> {
+    this.log.info('Searching the local network for IntelliCenter...');
+    try {
+      return await discoverPanels({ timeoutMs: MDNS_DISCOVERY_TIMEOUT_MS });
+    } catch (error) {
+      this.log.warn(`IntelliCenter network search failed: ${error instanceof Error ? error.message : String(error)}`);
+      return [];
+    }
   }
 
-  private buildTelnetParams() {
+  private buildConnectOptions(host: string): TransportConnectOptions {
     return {
-      host: this.validatedConfig!.ipAddress,
-      port: 6681, // Standard IntelliCenter port
-      negotiationMandatory: false,
-      timeout: 1500,
-      debug: true,
+      host,
+      port: getDefaultPort(this.connection.type),
       username: this.validatedConfig!.username,
       password: this.validatedConfig!.password,
     };
   }
 
-  private async validateNetworkConnectivityIfNeeded(telnetParams: any): Promise<boolean> {
+  private async validateNetworkConnectivityIfNeeded(connectOptions: TransportConnectOptions): Promise<boolean> {
     // Skip network validation in test environments to avoid timeouts
     /* eslint-disable-next-line no-undef */
     const isTestEnvironment = process.env.NODE_ENV === 'test' || process.env.JEST_WORKER_ID !== undefined;
-    if (isTestEnvironment) {
+    if (isTestEnvironment || this.connection.type === TransportType.Replay) {
       return true;
     }
 
-    this.log.debug(`Validating network connectivity to ${telnetParams.host}:${telnetParams.port}...`);
-    const isReachable = await this.validateNetworkConnectivity(telnetParams.host, telnetParams.port);
+    this.log.debug(`Validating network connectivity to ${connectOptions.host}:${connectOptions.port}...`);
+    const isReachable = await this.validateNetworkConnectivity(connectOptions.host, connectOptions.port);
 
     if (!isReachable) {
       const errorMessage =
-        `IntelliCenter at ${telnetParams.host}:${telnetParams.port} is not reachable. ` + 'Check network connectivity and configuration.';
+        `IntelliCenter at ${connectOptions.host}:${connectOptions.port} is not reachable. ` +
+        'Check network connectivity and configuration.';
       this.log.error(errorMessage);
       this.healthMonitor.recordFailure(errorMessage);
       return false;
@@ -323,15 +827,17 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     return true;
   }
 
-  private async attemptConnection(telnetParams: any): Promise<void> {
+  private async attemptConnection(connectOptions: TransportConnectOptions): Promise<void> {
     try {
       const startTime = Date.now();
 
       await this.circuitBreaker.execute(async () => {
         await RetryManager.withRetry(
           async () => {
-            this.log.debug(`Attempting connection to IntelliCenter at ${telnetParams.host}:${telnetParams.port}`);
-            await this.connection.connect(telnetParams);
+            this.log.debug(
+              `Attempting ${this.connection.type} connection to IntelliCenter at ${connectOptions.host}:${connectOptions.port}`,
+            );
+            await this.connection.connect(connectOptions);
           },
           {
             maxAttempts: 3,
@@ -372,87 +878,211 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
   setupSocketEventHandlers() {
     EventEmitter.defaultMaxListeners = 50;
-    this.connection.on('data', this.handleDataReceived.bind(this));
-    this.connection.on('connect', this.handleConnectionEstablished.bind(this));
-    this.connection.on('ready', this.handleConnectionReady.bind(this));
-    this.connection.on('failedlogin', this.handleLoginFailed.bind(this));
-    this.connection.on('close', this.handleConnectionClosed.bind(this));
-    this.connection.on('error', this.handleSocketError.bind(this));
-    this.connection.on('end', this.handleConnectionEnded.bind(this));
-    this.connection.on('responseready', this.handleResponseReady.bind(this));
+    this.connection.on(TransportEvent.Data, this.handleDataReceived.bind(this));
+    this.connection.on(TransportEvent.Connect, this.handleConnectionEstablished.bind(this));
+    this.connection.on(TransportEvent.Ready, this.handleConnectionReady.bind(this));
+    this.connection.on(TransportEvent.LoginFailed, this.handleLoginFailed.bind(this));
+    this.connection.on(TransportEvent.Close, this.handleConnectionClosed.bind(this));
+    this.connection.on(TransportEvent.Error, this.handleSocketError.bind(this));
+    this.connection.on(TransportEvent.End, this.handleConnectionEnded.bind(this));
+    this.connection.on(TransportEvent.ResponseReady, this.handleResponseReady.bind(this));
   }
 
   private async handleDataReceived(chunk: any): Promise<void> {
-    if (this.isCompleteMessage(chunk)) {
-      await this.processCompleteMessage(chunk);
-    } else {
-      this.bufferIncompleteData(chunk);
+    for (const frame of this.framer.push(chunk)) {
+      if (frame.type === FrameType.Message) {
+        this.lastMessageReceived = Date.now();
+        this.resetReconnectBackoff();
+        await this.processMessage(frame.text);
+      } else {
+        this.handleDiscardedFrame(frame.text, frame.reason);
+      }
+    }
+
+    if (this.framer.pendingBytes > 0) {
+      this.log.debug('Received incomplete data in data handler.');
+    }
+  }
+
+  private async processMessage(message: string): Promise<void> {
+    try {
+      const response = JSON.parse(message) as IntelliCenterResponse;
+      await this.handleUpdate(response);
+    } catch (error) {
+      this.framer.recordParseFailure();
+      this.log.error(
+        `Failed to parse JSON from IntelliCenter. Message length: ${message.length}, ` +
+          `First 50 chars: "${message.substring(0, 50)}", Last 50 chars: "${message.substring(Math.max(0, message.length - 50))}"`,
+        error,
+      );
+    }
+  }
+
+  private handleDiscardedFrame(text: string, reason: DiscardReason): void {
+    if (reason === DiscardReason.Overflow) {
+      this.log.error(`Exceeded max buffer size ${this.maxBufferSize} without a complete message. Discarding ${text.length} bytes.`);
+      return;
     }
+
+    const preview = text.length > 200 ? `${text.substring(0, 200)}...` : text;
+    this.log.warn(`Skipping malformed JSON line (${reason}): ${preview}`);
   }
 
-  private isCompleteMessage(chunk: any): boolean {
-    return chunk.length > 0 && chunk[chunk.length - 1] === 10;
+  private handleConnectionEstablished(): void {
+    this.isSocketAlive = true;
+    this.log.debug('IntelliCenter socket connection has been established.');
+    this.framer.reset();
+    this.keepalive.reset();
+    this.resetDiscoveryState();
+
+    // After a reconnect the accessories are already known; restore the subscriptions instead of rediscovering
+    if (this.subscriptions.canReplay()) {
+      this.restoreSession();
+    } else {
+      this.startDeviceDiscovery();
+    }
   }
 
-  private async processCompleteMessage(chunk: any): Promise<void> {
-    this.lastMessageReceived = Date.now();
-    const bufferedData = this.buffer + chunk;
-    this.buffer = '';
-    const lines = bufferedData.split(/\n/);
+  /**
+   * Replay every subscription on a new connection and refresh state that may have changed while disconnected.
+   * If the refresh shows that IntelliCenter no longer knows the subscribed objects, the panel has restarted
+   * or been reconfigured and a full discovery is run instead.
+   */
+  private async restoreSession(): Promise<void> {
+    const objectList = this.subscriptions.entries();
+    this.log.info(`Reconnected to IntelliCenter. Restoring ${objectList.length} subscriptions and refreshing state.`);
+
+    this.sendCommandNoWait({
+      command: IntelliCenterRequestCommand.RequestParamList,
+      messageID: uuidv4(),
+      objectList,
+    });
+
+    try {
+      const response = await this.sendCommand({
+        command: IntelliCenterRequestCommand.GetParamList,
+        condition: '',
+        messageID: uuidv4(),
+        objectList,
+      });
 
-    for (const line of lines) {
-      await this.processMessageLine(line);
+      const missing = this.subscriptions.findMissing(response.objectList ?? []);
+      if (missing.length > 0) {
+        this.resyncAfterPanelRestart(`${missing.length} subscribed objects are no longer reported (${missing.slice(0, 5).join(', ')})`);
+      } else {
+        this.log.info('IntelliCenter subscriptions restored and state refreshed.');
+        this.replayDeadLetters();
+      }
+    } catch (error) {
+      if (error instanceof CommandRejectedError) {
+        this.resyncAfterPanelRestart(`state refresh was rejected: ${error.message}`);
+      } else {
+        this.log.warn(`State refresh after reconnect failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
     }
+    this.verifyCachedHardwareDefinition();
   }
 
-  private async processMessageLine(line: string): Promise<void> {
-    if (!line?.trim()) {
+  /**
+   * Build accessories from the hardware definition saved by the last complete discovery, so they work as soon as
+   * the connection is up instead of after every discovery category has answered
+   */
+  private async restoreFromHardwareCache(): Promise<void> {
+    if (this.connection.type === TransportType.Replay) {
+      return;
+    }
+    try {
+      this.hardwareDefinitionCache = new HardwareDefinitionCache(this.storageFile(HARDWARE_DEFINITION_CACHE_FILE));
+      this.cachedHardwareDefinition = await this.hardwareDefinitionCache.load();
+    } catch (error) {
+      this.log.debug(`Hardware definition cache unavailable: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    if (!this.cachedHardwareDefinition) {
       return;
     }
 
-    const trimmedLine = line.trim();
-    if (!this.isValidJsonStructure(trimmedLine)) {
-      this.log.warn(`Skipping malformed JSON line (not properly bracketed): ${trimmedLine}`);
+    this.log.info(
+      `Building accessories from the hardware definition cached at ${this.cachedHardwareDefinition.savedAt}. ` +
+        'IntelliCenter is checked for changes once connected.',
+    );
+    // The cache is not an answer from the panel, so it removes no accessories
+    this.registerDiscoveredAccessories(this.transformDiscoveredPanels(this.cachedHardwareDefinition.answer), true);
+    this.startedFromCache = true;
+  }
+
+  /**
+   * After starting from the cache, the first connection runs an incremental discovery that applies whatever
+   * changed since the cache was saved. A full discovery started meanwhile makes the check unnecessary.
+   */
+  private verifyCachedHardwareDefinition(): void {
+    if (!this.startedFromCache || this.discoveryRunning || !this.isSocketAlive) {
       return;
     }
+    this.startedFromCache = false;
+    this.log.info('Checking IntelliCenter for hardware changes since the definition was cached.');
+    this.beginIncrementalDiscovery();
+    this.discoverDevices();
+  }
 
+  /**
+   * Save the definition of a discovery in which every category answered
+   */
+  private async saveHardwareDefinition(report: DiscoveryReport, answers: ReadonlyMap<string, DiscoveryAnswer>): Promise<void> {
+    const cache = this.hardwareDefinitionCache;
+    if (!cache || !this.discoveryBuffer || report.found.length < report.categories.length) {
+      return;
+    }
     try {
-      const response = JSON.parse(trimmedLine) as IntelliCenterResponse;
-      await this.handleUpdate(response);
+      this.cachedHardwareDefinition = await cache.save({
+        firmware: this.capabilities.version?.reported ?? null,
+        answer: this.discoveryBuffer,
+        categories: Object.fromEntries(answers),
+      });
+      this.log.debug(`Saved the hardware definition to ${cache.filePath}.`);
     } catch (error) {
-      this.log.error(
-        `Failed to parse JSON from IntelliCenter. Line length: ${line.length}, ` +
-          `First 50 chars: "${line.substring(0, 50)}", Last 50 chars: "${line.substring(Math.max(0, line.length - 50))}"`,
-        error,
-      );
+      this.log.warn(`Could not cache the hardware definition: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  private isValidJsonStructure(line: string): boolean {
-    return line.startsWith('{') && line.endsWith('}');
-  }
+  /**
+   * Re-send writes that failed while IntelliCenter was unreachable. Runs after state has been refreshed, so a
+   * write whose value IntelliCenter already reports is skipped by the coalescer rather than sent again.
+   */
+  private replayDeadLetters(): void {
+    const maxAgeSeconds = this.validatedConfig!.deadLetterReplayMaxAge;
+    const { replay, discarded } = this.deadLetterQueue.takeForReplay(maxAgeSeconds * 1000);
 
-  private bufferIncompleteData(chunk: any): void {
-    if (this.buffer.length + chunk.length > this.maxBufferSize) {
-      this.log.error(`Exceeded max buffer size ${this.maxBufferSize} without a newline. Discarding buffer.`);
-      this.buffer = '';
-    } else {
-      this.log.debug('Received incomplete data in data handler.');
-      this.buffer += chunk;
+    for (const { item, reason } of discarded) {
+      this.log.warn(`Discarding failed command ${this.describeDeadLetter(item)}: ${reason}.`);
+    }
+    for (const item of replay) {
+      // HomeKit rolled these back, so it shows the change once IntelliCenter reports it
+      const reported = item.failureReported ? ', which HomeKit showed as failed' : '';
+      this.log.info(`Replaying failed command ${this.describeDeadLetter(item)}${reported}.`);
+      this.sendCommandNoWait({ ...item.command, messageID: uuidv4() });
     }
   }
 
-  private handleConnectionEstablished(): void {
-    this.isSocketAlive = true;
-    this.log.debug('IntelliCenter socket connection has been established.');
+  private describeDeadLetter(item: DeadLetterQueueItem): string {
+    const ageSeconds = Math.round((Date.now() - item.timestamp) / 1000);
+    const target = item.command.objectList ? JSON.stringify(item.command.objectList) : item.command.queryName || '';
+    return `${item.command.command} ${target} from ${ageSeconds}s ago (${item.lastError})`;
+  }
+
+  private resyncAfterPanelRestart(reason: string): void {
+    this.log.warn(`IntelliCenter appears to have restarted or changed configuration (${reason}). Running full discovery.`);
+    this.subscriptions.reset();
     this.resetDiscoveryState();
     this.startDeviceDiscovery();
   }
 
   private resetDiscoveryState(): void {
-    this.discoverCommandsSent.length = 0;
+    this.stopDiscovery('connection reset');
     this.discoveryBuffer = null;
-    this.commandQueue.length = 0;
+    this.discoveryRunning = false;
+    this.incrementalDiscovery = false;
+    this.commandScheduler.clear();
     this.processingQueue = false;
   }
 
@@ -460,27 +1090,49 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     try {
       this.discoverDevices();
     } catch (error) {
-      this.log.error('IntelliCenter device discovery failed.', error);
+      this.failDiscovery(error);
     }
   }
 
   private handleConnectionReady(): void {
     this.isSocketAlive = true;
     this.log.debug('IntelliCenter socket connection is ready.');
+
+    // Skip the network search in test environments to avoid opening sockets
+    /* eslint-disable-next-line no-undef */
+    const isTestEnvironment = process.env.NODE_ENV === 'test' || process.env.JEST_WORKER_ID !== undefined;
+    if (!isTestEnvironment) {
+      void this.identifyConnectedPanel();
+    }
   }
 
-  private handleLoginFailed(data: unknown): void {
+  /**
+   * Wrong or missing credentials will not fix themselves, so reconnecting stops until Homebridge is restarted
+   * with corrected configuration instead of retrying the same credentials. The reason comes from the transport
+   * and never contains the password.
+   */
+  private handleLoginFailed(reason: unknown): void {
     this.isSocketAlive = false;
-    this.log.error(`IntelliCenter login failed. Check configured username/password. ${data}`);
+    this.loginRejected = true;
+    this.circuitBreaker.trip();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+      this.nextReconnectAt = null;
+    }
+    this.log.error(
+      `IntelliCenter login failed. Check configured username/password. ${reason}. ` +
+        'Not reconnecting; restart Homebridge after correcting the configuration.',
+    );
   }
 
   private handleConnectionClosed(): void {
     this.isSocketAlive = false;
-    this.log.error('IntelliCenter socket has been closed. Waiting 30 seconds and attempting to reconnect...');
-    this.delay(30000).then(async () => {
-      this.log.info('Finished waiting. Attempting reconnect...');
-      await this.maybeReconnect();
-    });
+    this.stopDiscovery('connection closed');
+    this.commandTracker.rejectAll('IntelliCenter connection closed before a response was received');
+    this.commandCoalescer.clearState();
+    this.log.error('IntelliCenter socket has been closed. Attempting to reconnect...');
+    this.maybeReconnect();
   }
 
   private handleSocketError(data: unknown): void {
@@ -502,6 +1154,20 @@ export class PentairPlatform implements DynamicPlatformPlugin {
    * It should be used to setup event handlers for characteristics and update respective values.
    */
   configureAccessory(accessory: PlatformAccessory) {
+    if (this.controllers.size > 0 && !accessory.context.controllerName) {
+      this.adoptAccessory(accessory);
+    }
+    const owner = accessory.context.controllerName ?? null;
+    if (this.controllers.size > 0 || owner !== this.controllerName) {
+      const controller = this.controllers.get(owner);
+      if (controller) {
+        controller.configureAccessory(accessory);
+      } else {
+        this.unownedAccessories.push(accessory);
+      }
+      return;
+    }
+
     this.log.debug('Loading accessory from cache:', accessory.displayName);
 
     // const config = this.getConfig();
@@ -552,14 +1218,14 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
     this.logPumpCircuitUpdate(change.objnam!, circuit.id, controllingPumpId, change.params);
 
-    const uuid = this.api.hap.uuid.generate(circuit.id);
+    const uuid = this.accessoryUuid(circuit.id);
     const existingAccessory = this.accessoryMap.get(uuid) as PlatformAccessory;
     this.updatePump(existingAccessory, change.params!);
     return true;
   }
 
   private handleExistingAccessoryUpdate(change: CircuitStatusMessage) {
-    const uuid = this.api.hap.uuid.generate(change.objnam!);
+    const uuid = this.accessoryUuid(change.objnam!);
     const existingAccessory = this.accessoryMap.get(uuid);
     if (!existingAccessory) {
       return false;
@@ -571,6 +1237,12 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     } else if (SensorTypes.has(existingAccessory.context.sensor?.objectType)) {
       this.log.debug(`Object is a sensor. Updating sensor: ${change.objnam}`);
       this.updateSensor(existingAccessory, change.params!);
+    } else if (ChemTypes.has(existingAccessory.context.chem?.objectType)) {
+      this.log.debug(`Object is a chemistry controller. Updating readings: ${change.objnam}`);
+      this.updateChemController(existingAccessory, change.params!);
+    } else if (ValveTypes.has(existingAccessory.context.valve?.objectType)) {
+      this.log.debug(`Object is a valve. Updating position: ${change.objnam}`);
+      this.updateValve(existingAccessory, change.params!);
     } else {
       this.log.warn(`Unhandled object type on accessory: ${JSON.stringify(existingAccessory.context)}`);
     }
@@ -624,6 +1296,53 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     this.log.info(
       `Unregistered device details - ID: ${change.objnam}, ` + `Type: ${objType}, SubType: ${subType}, Name: ${name}, Feature: ${feature}`,
     );
+    this.scheduleHardwareRediscovery(change.objnam!);
+  }
+
+  /**
+   * An object that the last discovery did not find may be newly installed. Unknown objects are collected for a
+   * short while so devices added together are found by one discovery, and each one triggers at most once.
+   */
+  private scheduleHardwareRediscovery(objnam: string): void {
+    if (this.unknownObjects.has(objnam) || this.hardwareInventory.has(objnam)) {
+      return;
+    }
+    this.unknownObjects.add(objnam);
+    this.pendingUnknownObjects.push(objnam);
+    if (this.rediscoveryTimer) {
+      return;
+    }
+    this.rediscoveryTimer = setTimeout(() => {
+      this.rediscoveryTimer = null;
+      const objects = this.pendingUnknownObjects.splice(0);
+      this.rediscoverHardware(`unknown objects reported: ${objects.join(', ')}`);
+    }, HARDWARE_REDISCOVERY_DELAY_MS);
+  }
+
+  /**
+   * Check IntelliCenter for added, changed or removed hardware and update only the affected accessories.
+   * Returns false when no check could start: not connected, no discovery has finished yet, or one is running.
+   */
+  rediscoverHardware(reason = 'requested'): boolean {
+    if (this.controllers.size > 0) {
+      return [...this.controllers.values()].map(controller => controller.rediscoverHardware(reason)).some(Boolean);
+    }
+    if (!this.isSocketAlive || this.lastHardwareCheck === null || this.discoveryRunning) {
+      this.log.debug(`Hardware check (${reason}) skipped: IntelliCenter is not connected or discovery is running.`);
+      return false;
+    }
+
+    this.log.info(`Checking IntelliCenter for hardware changes (${reason}).`);
+    this.beginIncrementalDiscovery();
+    this.startDiscoverySession();
+    return true;
+  }
+
+  private beginIncrementalDiscovery(): void {
+    this.lastHardwareCheck = Date.now();
+    this.incrementalDiscovery = true;
+    this.discoveryRunning = true;
+    this.discoveryBuffer = null;
   }
 
   private processChange(change: CircuitStatusMessage) {
@@ -637,6 +1356,8 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     }
 
     this.log.debug(`Handling update for ${change.objnam}`);
+    this.writeVerifier.confirm(change.objnam, change.params);
+    this.commandCoalescer.recordState(change.objnam, change.params);
 
     // Try pump circuit update first
     if (this.handlePumpCircuitUpdate(change)) {
@@ -653,6 +1374,11 @@ export class PentairPlatform implements DynamicPlatformPlugin {
       return;
     }
 
+    // Try a circuit that only drives valves
+    if (this.handleValveCircuitUpdate(change)) {
+      return;
+    }
+
     // Handle unregistered device
     this.handleUnregisteredDevice(change);
   }
@@ -694,6 +1420,8 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     }
 
     this.log.error(`Received unsuccessful response code ${response.response} from IntelliCenter. Message: ${this.json(response)}`);
+    // A rejected write may have left the recorded state ahead of the panel
+    this.commandCoalescer.clearState();
     return true; // Handled
   }
 
@@ -713,6 +1441,22 @@ export class PentairPlatform implements DynamicPlatformPlugin {
   }
 
   async handleUpdate(response: IntelliCenterResponse) {
+    // Settle any awaited command this response answers
+    this.commandTracker.settle(response);
+
+    // Keepalive, firmware probe and discovery answers are read by the code that sent them
+    if (
+      response.messageID === this.keepaliveProbeId ||
+      this.firmwareProbeIds.has(response.messageID) ||
+      this.discoveryMessageIds.has(response.messageID)
+    ) {
+      return;
+    }
+
+    if (response.command === IntelliCenterResponseCommand.NotifyList && this.keepalive.recordNotification()) {
+      this.log.info('IntelliCenter notifications resumed. Polling stopped.');
+    }
+
     // Handle errors first
     if (this.handleErrorResponse(response)) {
       return;
@@ -730,7 +1474,13 @@ export class PentairPlatform implements DynamicPlatformPlugin {
       IntelliCenterQueryName.GetHardwareDefinition === response.queryName
     ) {
       this.handleDiscoveryResponse(response);
-    } else if ([IntelliCenterResponseCommand.NotifyList, IntelliCenterResponseCommand.WriteParamList].includes(response.command)) {
+    } else if (
+      [
+        IntelliCenterResponseCommand.NotifyList,
+        IntelliCenterResponseCommand.WriteParamList,
+        IntelliCenterResponseCommand.SendParamList,
+      ].includes(response.command)
+    ) {
       this.handleNotifyListResponse(response);
     } else {
       this.log.debug(`Unhandled command in handleUpdate: ${this.json(response)}`);
@@ -799,6 +1549,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     this.performCircuitUpdate(accessory, params);
     this.updateAccessoryAndCreateCircuit(accessory);
     this.handlePumpSensorUpdates(accessory);
+    this.updateValvesForCircuit(accessory.context.circuit);
   }
 
   private logCircuitUpdate(accessory: PlatformAccessory, params: IntelliCenterParams): void {
@@ -820,6 +1571,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
     if (body.temperature !== undefined && body.temperature !== null) {
       this.collectTemperatureReading(body.temperature);
+      this.updateWaterBalancesForBody(body);
     }
 
     // Always update heater accessories when body data changes
@@ -892,6 +1644,263 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     this.api.updatePlatformAccessories([accessory]);
   }
 
+  updateChemController(accessory: PlatformAccessory, params: IntelliCenterParams) {
+    updateChemController(accessory.context.chem, params);
+    this.updateWaterBalance(accessory);
+    this.api.updatePlatformAccessories([accessory]);
+    this.createChemAccessory(accessory);
+  }
+
+  updateValve(accessory: PlatformAccessory, params: IntelliCenterParams) {
+    updateValve(accessory.context.valve, params);
+    this.api.updatePlatformAccessories([accessory]);
+    new ValveAccessory(this, accessory);
+  }
+
+  /**
+   * A valve can be moved from HomeKit when a circuit drives it and it is not assigned to the pool/spa switch
+   */
+  canControlValve(valve: Valve): boolean {
+    return !this.getConfig().valvesReadOnly && valve.assignment === ValveAssignment.None && !!valve.circuitId;
+  }
+
+  /**
+   * Whether the actuator is turned: the position IntelliCenter reports, else the status of the driving circuit, or of
+   * the spa for intake and return valves
+   */
+  isValveOpen(valve: Valve): boolean {
+    if (valve.position !== undefined) {
+      return valve.position;
+    }
+    if (valve.circuitId) {
+      const circuit = this.accessoryMap.get(this.accessoryUuid(valve.circuitId))?.context.circuit as Circuit | undefined;
+      return (circuit?.status ?? valve.circuitStatus) === CircuitStatus.On;
+    }
+    if (this.isBodyValve(valve)) {
+      return [...this.accessoryMap.values()].some(accessory => {
+        const body = accessory.context.circuit as Body | undefined;
+        return body?.objectType === ObjectType.Body && body.type === BodyType.Spa && body.status === CircuitStatus.On;
+      });
+    }
+    return false;
+  }
+
+  private isBodyValve(valve: Valve): boolean {
+    return valve.assignment === ValveAssignment.Intake || valve.assignment === ValveAssignment.Return;
+  }
+
+  /**
+   * Open or close a valve by turning the circuit that drives it on or off. Resolves once IntelliCenter confirms it,
+   * within HOMEKIT_WRITE_TIMEOUT_MS.
+   */
+  async setValve(objnam: string, open: boolean): Promise<void> {
+    const accessory = this.accessoryMap.get(this.accessoryUuid(objnam));
+    const valve = accessory?.context.valve as Valve | undefined;
+    if (!accessory || !valve) {
+      throw new Error(`${objnam} is not a valve`);
+    }
+    if (!this.canControlValve(valve)) {
+      throw new Error(`${valve.name} cannot be moved from HomeKit`);
+    }
+
+    const circuitId = valve.circuitId!;
+    const status = open ? CircuitStatus.On : CircuitStatus.Off;
+    this.log.info(`${open ? 'Opening' : 'Closing'} ${valve.name} by turning ${circuitId} ${open ? 'on' : 'off'}`);
+    // The circuit and valve change when IntelliCenter reports the new status; until then HomeKit shows the request
+    const rollback = () => new ValveAccessory(this, accessory);
+    this.expectWrite(circuitId, STATUS_KEY, status, rollback);
+
+    try {
+      await this.sendCommand(
+        {
+          command: IntelliCenterRequestCommand.SetParamList,
+          messageID: uuidv4(),
+          objectList: [{ objnam: circuitId, params: { [STATUS_KEY]: status } }],
+        } as IntelliCenterRequest,
+        HOMEKIT_WRITE_TIMEOUT_MS,
+      );
+    } catch (error) {
+      this.cancelWrite(circuitId, STATUS_KEY);
+      rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * A valve can be driven by a circuit that is not an accessory. Its status is kept on the valve so the valve still
+   * follows it.
+   */
+  private handleValveCircuitUpdate(change: CircuitStatusMessage): boolean {
+    const status = change.params![STATUS_KEY];
+    const valveAccessories = [...this.accessoryMap.values()].filter(
+      accessory => (accessory.context.valve as Valve | undefined)?.circuitId === change.objnam,
+    );
+    if (valveAccessories.length === 0 || (status !== CircuitStatus.On && status !== CircuitStatus.Off)) {
+      return false;
+    }
+    for (const accessory of valveAccessories) {
+      accessory.context.valve.circuitStatus = status;
+      this.api.updatePlatformAccessories([accessory]);
+      new ValveAccessory(this, accessory);
+    }
+    return true;
+  }
+
+  private updateValvesForCircuit(circuit: Circuit | undefined): void {
+    if (!circuit) {
+      return;
+    }
+    for (const accessory of this.accessoryMap.values()) {
+      const valve = accessory.context.valve as Valve | undefined;
+      if (valve && (valve.circuitId === circuit.id || (circuit.objectType === ObjectType.Body && this.isBodyValve(valve)))) {
+        new ValveAccessory(this, accessory);
+      }
+    }
+  }
+
+  /**
+   * The configured water test results, or undefined when the LSI is turned off
+   */
+  getWaterChemistry(): WaterChemistry | undefined {
+    const config = this.getConfig();
+    if (!config.totalAlkalinity || !config.calciumHardness) {
+      return undefined;
+    }
+    return {
+      alkalinity: config.totalAlkalinity,
+      calciumHardness: config.calciumHardness,
+      cyanuricAcid: config.cyanuricAcid ?? 0,
+      totalDissolvedSolids: config.totalDissolvedSolids ?? 1000,
+    };
+  }
+
+  /**
+   * The LSI of an IntelliChem with its daily history, once its pH and water temperature are known
+   */
+  getWaterBalance(objnam: string): WaterBalance | undefined {
+    return this.accessoryMap.get(this.accessoryUuid(objnam))?.context.waterBalance;
+  }
+
+  /**
+   * Work out the LSI of an IntelliChem from its pH and the temperature of the body it measures, and add it to the
+   * daily history. Does nothing until the water test results are configured.
+   */
+  private updateWaterBalance(accessory: PlatformAccessory): void {
+    const chem = accessory.context.chem as ChemController;
+    const chemistry = this.getWaterChemistry();
+    const temperature = this.getWaterTemperature(chem);
+    if (!chemistry || chem.type !== ChemControllerType.IntelliChem || chem.ph === undefined || temperature === undefined) {
+      return;
+    }
+
+    const temperatureC = this.getConfig().temperatureUnits === TemperatureUnits.F ? fahrenheitToCelsius(temperature) : temperature;
+    const lsi = calculateLsi(chem.ph, temperatureC, chemistry);
+    if (!Number.isFinite(lsi)) {
+      this.log.debug(`${accessory.displayName}: no LSI, cyanuric acid takes up all of the configured alkalinity`);
+      return;
+    }
+
+    const previous = accessory.context.waterBalance as WaterBalance | undefined;
+    const balance: WaterBalance = {
+      lsi,
+      status: classifyLsi(lsi),
+      temperatureC: Math.round(temperatureC * 10) / 10,
+      history: recordLsi(previous?.history, lsi),
+    };
+    accessory.context.waterBalance = balance;
+    if (previous?.status !== balance.status) {
+      this.log.info(`${accessory.displayName} water balance: ${describeWaterBalance(balance)}`);
+    }
+  }
+
+  /**
+   * Temperature of the body the chemistry controller measures: the one running, else the first with a temperature
+   */
+  private getWaterTemperature(chem: ChemController): number | undefined {
+    const bodies = chem.bodyIds
+      .map(bodyId => this.accessoryMap.get(this.accessoryUuid(bodyId))?.context.circuit as Body | undefined)
+      .filter((body): body is Body => body?.temperature !== undefined && body.temperature !== null && !isNaN(Number(body.temperature)));
+    const body = bodies.find(candidate => candidate.status === CircuitStatus.On) ?? bodies[0];
+    return body ? Number(body.temperature) : undefined;
+  }
+
+  private updateWaterBalancesForBody(body: Body): void {
+    if (!this.getWaterChemistry()) {
+      return;
+    }
+    for (const accessory of this.accessoryMap.values()) {
+      const chem = accessory.context.chem as ChemController | undefined;
+      if (chem?.type === ChemControllerType.IntelliChem && chem.bodyIds.includes(body.id)) {
+        this.updateWaterBalance(accessory);
+        this.api.updatePlatformAccessories([accessory]);
+        this.createChemAccessory(accessory);
+      }
+    }
+  }
+
+  private createChemAccessory(accessory: PlatformAccessory) {
+    if ((accessory.context.chem as ChemController).type === ChemControllerType.IntelliChlor) {
+      new ChlorinatorAccessory(this, accessory);
+    } else {
+      new ChemistryAccessory(this, accessory);
+    }
+  }
+
+  /**
+   * Change a setpoint of a chemistry controller: pH or ORP for IntelliChem, pool or spa output for IntelliChlor.
+   * The value is rounded to the controller's step and rejected with a RangeError outside its range.
+   * Resolves with the setpoint once IntelliCenter confirms it, and rejects when it does not confirm within the time
+   * HomeKit waits for a write (HOMEKIT_WRITE_TIMEOUT_MS).
+   */
+  async setChemistrySetpoint(objnam: string, setpoint: ChemSetpoint, value: number): Promise<number> {
+    const accessory = this.accessoryMap.get(this.accessoryUuid(objnam));
+    const chem = accessory?.context.chem as ChemController | undefined;
+    const range = chem && getChemSetpointRange(chem, setpoint);
+    const param = CHEM_SETPOINT_PARAMS[setpoint];
+    if (!accessory || !chem || !range || !param) {
+      throw new Error(`${objnam} is not a chemistry controller with a ${setpoint} setpoint`);
+    }
+
+    const rounded = roundToStep(value, range.step);
+    if (!Number.isFinite(rounded) || rounded < range.min || rounded > range.max) {
+      throw new RangeError(`${chem.name} ${setpoint} setpoint must be between ${range.min} and ${range.max}, not ${value}`);
+    }
+
+    this.log.info(`Setting ${chem.name} ${setpoint} setpoint to ${rounded}`);
+    await this.sendCommand(
+      {
+        command: IntelliCenterRequestCommand.SetParamList,
+        messageID: uuidv4(),
+        objectList: [{ objnam: chem.id, params: { [param.key]: String(rounded) } }],
+      } as IntelliCenterRequest,
+      HOMEKIT_WRITE_TIMEOUT_MS,
+    );
+    // The controller keeps its setpoint until IntelliCenter reports the new one
+    return rounded;
+  }
+
+  /**
+   * Start or stop super chlorination on an IntelliChlor. Resolves once IntelliCenter confirms it, within
+   * HOMEKIT_WRITE_TIMEOUT_MS.
+   */
+  async setSuperChlorinate(objnam: string, on: boolean): Promise<void> {
+    const accessory = this.accessoryMap.get(this.accessoryUuid(objnam));
+    const chem = accessory?.context.chem as ChemController | undefined;
+    if (!accessory || chem?.type !== ChemControllerType.IntelliChlor) {
+      throw new Error(`${objnam} is not a chlorinator`);
+    }
+
+    this.log.info(`${on ? 'Starting' : 'Stopping'} super chlorination on ${chem.name}`);
+    await this.sendCommand(
+      {
+        command: IntelliCenterRequestCommand.SetParamList,
+        messageID: uuidv4(),
+        objectList: [{ objnam: chem.id, params: { [SUPER_CHLORINATE_KEY]: on ? 'ON' : 'OFF' } }],
+      } as IntelliCenterRequest,
+      HOMEKIT_WRITE_TIMEOUT_MS,
+    );
+  }
+
   updateFeatureRpmSensorForPumpCircuit(pumpCircuit: PumpCircuit) {
     const featureRpmAccessory = this.findFeatureRpmAccessory(pumpCircuit);
 
@@ -905,7 +1914,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
   private findFeatureRpmAccessory(pumpCircuit: PumpCircuit): PlatformAccessory | undefined {
     // First try with the pump circuit's circuitId
     const primarySensorId = `${pumpCircuit.circuitId}-rpm`;
-    const uuid = this.api.hap.uuid.generate(primarySensorId);
+    const uuid = this.accessoryUuid(primarySensorId);
     let featureRpmAccessory = this.accessoryMap.get(uuid);
 
     this.log.debug(
@@ -975,7 +1984,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
   updateFeatureRpmSensorForCircuit(circuit: Circuit) {
     // Find the feature RPM sensor for this circuit
     const featureRpmSensorId = `${circuit.id}-rpm`;
-    const uuid = this.api.hap.uuid.generate(featureRpmSensorId);
+    const uuid = this.accessoryUuid(featureRpmSensorId);
     const featureRpmAccessory = this.accessoryMap.get(uuid);
 
     if (featureRpmAccessory && featureRpmAccessory.context.feature && featureRpmAccessory.context.pumpCircuit) {
@@ -1036,7 +2045,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
     // Find the heater RPM sensor for this heater and body
     const heaterRpmSensorId = `${heater.id}.${body.id}-rpm`;
-    const uuid = this.api.hap.uuid.generate(heaterRpmSensorId);
+    const uuid = this.accessoryUuid(heaterRpmSensorId);
     const heaterRpmAccessory = this.accessoryMap.get(uuid);
 
     if (heaterRpmAccessory && heaterRpmAccessory.context.feature && heaterRpmAccessory.context.pumpCircuit) {
@@ -1182,179 +2191,266 @@ export class PentairPlatform implements DynamicPlatformPlugin {
    * must not be registered again to prevent "duplicate UUID" errors.
    */
   discoverDevices() {
-    const firstCommand = DISCOVER_COMMANDS[0];
-    if (firstCommand) {
-      this.discoverDeviceType(firstCommand);
-    }
+    this.discoveryRunning = true;
+    this.detectCapabilities()
+      .then(() => {
+        // The connection may have gone while the firmware version was read; the next one starts over
+        if (this.isSocketAlive) {
+          this.startDiscoverySession();
+        }
+      })
+      .catch(error => this.failDiscovery(error));
   }
 
-  discoverDeviceType(deviceType: string) {
-    this.discoverCommandsSent.push(deviceType);
-    const command = {
-      command: IntelliCenterRequestCommand.GetQuery,
-      queryName: IntelliCenterQueryName.GetHardwareDefinition,
-      arguments: deviceType,
-      messageID: uuidv4(),
-    } as IntelliCenterRequest;
-
-    // Set discovery timeout for this command
-    this.discoveryTimeout = setTimeout(() => {
-      this.handleDiscoveryTimeout(deviceType);
-    }, 30000); // 30 second timeout per discovery command
+  /**
+   * Read the system and module firmware versions and choose the capability profile for them. A panel that
+   * does not answer keeps the current profile, which is the defensive one until a version has been read.
+   * The profile negotiated for a firmware version is kept until the version changes.
+   */
+  private async detectCapabilities(): Promise<void> {
+    const systemProbeId = uuidv4();
+    const moduleProbeId = uuidv4();
+    this.firmwareProbeIds.add(systemProbeId).add(moduleProbeId);
+    const [system, modules] = await Promise.allSettled([
+      this.sendCommand(
+        {
+          command: IntelliCenterRequestCommand.GetParamList,
+          condition: '',
+          messageID: systemProbeId,
+          objectList: [{ objnam: SYSTEM_OBJNAM, keys: [VERSION_KEY] }],
+        },
+        FIRMWARE_PROBE_TIMEOUT_MS,
+      ),
+      this.sendCommand(
+        {
+          command: IntelliCenterRequestCommand.GetParamList,
+          condition: `${OBJ_TYPE_KEY}=${ObjectType.Module}`,
+          messageID: moduleProbeId,
+          objectList: [{ objnam: ALL_OBJECTS_OBJNAM, keys: [VERSION_KEY] }],
+        },
+        FIRMWARE_PROBE_TIMEOUT_MS,
+      ),
+    ]);
+    this.firmwareProbeIds.delete(systemProbeId);
+    this.firmwareProbeIds.delete(moduleProbeId);
+
+    if (system.status === 'rejected') {
+      const reason = system.reason instanceof Error ? system.reason.message : String(system.reason);
+      this.log.debug(
+        `Could not read the IntelliCenter firmware version (${reason}). Using ${describeCapabilityProfile(this.capabilities)}.`,
+      );
+      return;
+    }
 
-    this.sendCommandNoWait(command);
+    const systemObject = system.value.objectList?.find(object => object.objnam === SYSTEM_OBJNAM);
+    const detected = buildCapabilityProfile(
+      (systemObject?.params as Record<string, unknown> | undefined)?.[VERSION_KEY],
+      modules.status === 'fulfilled' ? modules.value.objectList : [],
+    );
+    const sameFirmware = detected.version !== null && detected.version.reported === this.capabilities.version?.reported;
+    this.capabilities = sameFirmware ? { ...this.capabilities, moduleVersions: detected.moduleVersions } : detected;
+    this.log.info(`IntelliCenter ${describeCapabilityProfile(this.capabilities)}.`);
   }
 
   /**
-   * Handle discovery command timeout
+   * Ask for the hardware definition one category at a time, several categories in flight at once. A category
+   * rejected before anything answered switches a panel whose firmware allows it to the whole definition.
    */
-  private handleDiscoveryTimeout(deviceType: string) {
-    this.log.warn(`Discovery command timeout for device type: ${deviceType}`);
+  private startDiscoverySession(categories: ReadonlyArray<string> = this.capabilities.discoveryCommands): void {
+    const previous = this.discoverySession;
+    this.discoverySession = null;
+    previous?.cancel('replaced by a new discovery');
+
+    const cached = this.cachedHardwareDefinition;
+    const session = new DiscoverySession({
+      categories,
+      query: (category, timeoutMs) => this.queryHardwareDefinition(category, timeoutMs),
+      timings: this.discoveryTimings,
+      // Merging changes answers in place, so cached answers are copied
+      fallback: category =>
+        cached && Object.prototype.hasOwnProperty.call(cached.categories, category)
+          ? JSON.parse(JSON.stringify(cached.categories[category]))
+          : undefined,
+    });
+    session.on(DiscoveryEvent.Progress, (progress: DiscoveryProgress) =>
+      this.runDiscoveryStep(() => this.handleDiscoveryProgress(session, progress)),
+    );
+    session.once(DiscoveryEvent.Complete, (report: DiscoveryReport) =>
+      this.runDiscoveryStep(() => this.handleDiscoveryComplete(session, report)),
+    );
+    this.discoverySession = session;
+    session.start();
+  }
 
-    // Add to failed commands list for potential retry
-    if (!this.discoverCommandsFailed.includes(deviceType)) {
-      this.discoverCommandsFailed.push(deviceType);
+  /**
+   * Session events are emitted from command callbacks, where an error applying them would be an unhandled
+   * rejection that leaves the discovery marked as running
+   */
+  private runDiscoveryStep(step: () => void): void {
+    try {
+      step();
+    } catch (error) {
+      this.failDiscovery(error);
     }
+  }
 
-    // Clear timeout
-    this.discoveryTimeout = null;
+  private failDiscovery(error: unknown): void {
+    this.log.error('IntelliCenter device discovery failed.', error);
+    this.stopDiscovery('discovery failed');
+  }
 
-    // Continue with next command if available
-    const nextCommandIndex = this.discoverCommandsSent.length;
-    if (nextCommandIndex < DISCOVER_COMMANDS.length) {
-      this.log.debug('Timeout occurred, continuing with next discovery command...');
-      setTimeout(() => {
-        const nextCommand = DISCOVER_COMMANDS[nextCommandIndex];
-        if (nextCommand) {
-          this.discoverDeviceType(nextCommand);
-        }
-      }, 1000);
-    } else {
-      // All commands sent, check if we have enough data to proceed
-      this.completeDiscoveryWithPartialData();
+  private async queryHardwareDefinition(category: string, timeoutMs: number): Promise<DiscoveryAnswer | undefined> {
+    const messageID = uuidv4();
+    this.discoveryMessageIds.add(messageID);
+    try {
+      const response = await this.sendCommand(
+        {
+          command: IntelliCenterRequestCommand.GetQuery,
+          queryName: IntelliCenterQueryName.GetHardwareDefinition,
+          arguments: category,
+          messageID,
+        } as IntelliCenterRequest,
+        timeoutMs,
+      );
+      this.log.debug(`Discovery response from IntelliCenter: ${this.json(response)} of type ${category}`);
+      return response.answer;
+    } finally {
+      this.discoveryMessageIds.delete(messageID);
     }
   }
 
   /**
-   * Complete discovery even with partial data from failed commands
+   * Cancel a running discovery. Its answers are dropped and no accessories change.
    */
-  private completeDiscoveryWithPartialData() {
-    if (this.discoverCommandsFailed.length > 0) {
-      this.log.warn(
-        `Discovery completed with partial data. Failed commands: ${this.discoverCommandsFailed.join(', ')}. ` +
-          'Proceeding with available device data.',
-      );
-    }
-
-    this.log.debug(`Discovery commands completed with partial data. Response: ${this.json(this.discoveryBuffer)}`);
-
-    const panels = transformPanels(this.discoveryBuffer as Record<string, unknown>, this.getConfig().includeAllCircuits, this.log);
-    this.log.debug(`Transformed panels from IntelliCenter: ${this.json(panels)}`);
-
-    this.registerDiscoveredAccessories(panels);
+  private stopDiscovery(reason: string): void {
+    const session = this.discoverySession;
+    this.discoverySession = null;
+    session?.cancel(reason);
+    this.discoveryRunning = false;
+    this.incrementalDiscovery = false;
   }
 
-  handleDiscoveryResponse(response: IntelliCenterResponse) {
-    this.clearDiscoveryTimeout();
-    this.mergeDiscoveryResponse(response);
-
-    const commandCounts = this.getDiscoveryCommandCounts();
-
-    if (this.shouldContinueDiscovery(commandCounts)) {
-      this.sendNextDiscoveryCommand(commandCounts);
+  private handleDiscoveryProgress(session: DiscoverySession, progress: DiscoveryProgress): void {
+    if (session !== this.discoverySession) {
       return;
     }
+    const category = describeDiscoveryCategory(progress.category);
+    this.log.debug(`Discovery ${progress.finished}/${progress.total}: ${category} ${progress.state} (attempt ${progress.attempt}).`);
 
-    if (this.shouldRetryFailedCommands(commandCounts)) {
+    const { error } = progress;
+    if (!error) {
       return;
     }
-
-    this.completeDiscovery();
-  }
-
-  private clearDiscoveryTimeout() {
-    if (this.discoveryTimeout) {
-      clearTimeout(this.discoveryTimeout);
-      this.discoveryTimeout = null;
+    if (error instanceof CommandRejectedError && this.capabilities.wholeDefinitionFallback && session.answers.size === 0) {
+      this.log.warn(
+        `IntelliCenter rejected discovery category ${category} (${error.message}). Asking for the whole hardware definition instead.`,
+      );
+      this.capabilities = withWholeDefinitionDiscovery(this.capabilities);
+      this.startDiscoverySession();
+      return;
     }
-  }
-
-  private mergeDiscoveryResponse(response: IntelliCenterResponse) {
-    this.log.debug(
-      `Discovery response from IntelliCenter: ${this.json(response)} ` +
-        `of type ${this.discoverCommandsSent[this.discoverCommandsSent.length - 1]}`,
-    );
 
-    if (this.discoveryBuffer === null) {
-      this.discoveryBuffer = response.answer ?? null;
-    } else if (this.discoveryBuffer && response.answer) {
-      mergeResponse(this.discoveryBuffer as Record<string, unknown>, response.answer as Record<string, unknown>);
+    switch (progress.state) {
+      case DiscoveryCategoryState.Cached:
+        this.log.warn(
+          `Discovery of ${category} failed (${error.message}). Using the definition cached at ${this.cachedHardwareDefinition?.savedAt}.`,
+        );
+        break;
+      case DiscoveryCategoryState.Pending:
+        this.log.warn(`Discovery of ${category} failed (${error.message}). Asking again after the other categories.`);
+        break;
+      default:
+        this.log.warn(`Discovery of ${category} failed: ${error.message}`);
     }
   }
 
-  private getDiscoveryCommandCounts() {
-    return {
-      total: DISCOVER_COMMANDS.length,
-      completed: this.discoverCommandsSent.length,
-      failed: this.discoverCommandsFailed.length,
-    };
-  }
-
-  private shouldContinueDiscovery(counts: { total: number; completed: number; failed: number }) {
-    return counts.completed < counts.total;
-  }
-
-  private sendNextDiscoveryCommand(counts: { total: number; completed: number; failed: number }) {
-    this.log.debug(`Merged ${counts.completed} of ${counts.total} so far. Sending next command..`);
-    // Add conservative delay between discovery commands to avoid overwhelming IntelliCenter
-    setTimeout(() => {
-      const nextCommand = DISCOVER_COMMANDS[counts.completed];
-      if (nextCommand) {
-        this.discoverDeviceType(nextCommand);
-      }
-    }, 500);
-  }
-
-  private shouldRetryFailedCommands(counts: { total: number; completed: number; failed: number }) {
-    if (counts.failed === 0 || counts.completed !== counts.total) {
-      return false;
-    }
-
-    for (const failedCommand of this.discoverCommandsFailed) {
-      if (this.shouldRetryCommand(failedCommand)) {
-        this.retryFailedCommand(failedCommand);
-        return true;
-      }
-    }
-
-    return false;
+  private handleDiscoveryComplete(session: DiscoverySession, report: DiscoveryReport): void {
+    if (session !== this.discoverySession) {
+      return;
+    }
+    this.discoverySession = null;
+    this.discoveryReport = report;
+    this.discoveryBuffer = this.mergeDiscoveryAnswers(session.answers);
+    this.completeDiscovery(report, session.answers);
   }
 
-  private shouldRetryCommand(failedCommand: string) {
-    const retryAttempts = this.discoverCommandsSent.filter(cmd => cmd === failedCommand).length;
-    return retryAttempts === 1;
+  /**
+   * A hardware definition answer arriving here was not awaited: its category had already timed out
+   */
+  handleDiscoveryResponse(response: IntelliCenterResponse) {
+    this.log.debug(`Ignoring hardware definition answer ${response.messageID} that arrived after its category timed out.`);
   }
 
-  private retryFailedCommand(failedCommand: string) {
-    this.log.warn(`Retrying failed discovery command: ${failedCommand}`);
-    setTimeout(() => {
-      this.discoverDeviceType(failedCommand);
-    }, 1000);
+  /**
+   * Merge the category answers in the order the categories were asked for. The answers themselves are left
+   * unchanged so they can be cached per category.
+   */
+  private mergeDiscoveryAnswers(answers: ReadonlyMap<string, DiscoveryAnswer>): DiscoveryAnswer | null {
+    let merged: DiscoveryAnswer | null = null;
+    for (const answer of answers.values()) {
+      if (merged === null) {
+        merged = JSON.parse(JSON.stringify(answer)) as DiscoveryAnswer;
+      } else {
+        mergeResponse(merged as Record<string, unknown>, answer as Record<string, unknown>);
+      }
+    }
+    return merged;
   }
 
-  private completeDiscovery() {
+  private completeDiscovery(report: DiscoveryReport, answers: ReadonlyMap<string, DiscoveryAnswer>) {
+    const incremental = this.incrementalDiscovery;
+    const partial = report.failed.length > 0;
+    if (partial) {
+      this.log.warn(
+        `Discovery completed with partial data. Failed commands: ${report.failed.map(describeDiscoveryCategory).join(', ')}. ` +
+          'Proceeding with available device data.',
+      );
+    }
+    const summary = `IntelliCenter discovery: ${describeDiscoveryReport(report)}.`;
+    if (incremental) {
+      this.log.debug(summary);
+    } else {
+      this.log.info(summary);
+    }
     this.log.debug(`Discovery commands completed. Response: ${this.json(this.discoveryBuffer)}`);
 
-    const panels = transformPanels(this.discoveryBuffer as Record<string, unknown>, this.getConfig().includeAllCircuits, this.log);
+    const panels = this.transformDiscoveredPanels();
     this.log.debug(`Transformed panels from IntelliCenter: ${this.json(panels)}`);
 
-    this.registerDiscoveredAccessories(panels);
+    this.saveHardwareDefinition(report, answers);
+    // Categories answered from the cache may be out of date, so only a discovery the panel answered in full removes accessories
+    this.registerDiscoveredAccessories(panels, report.found.length < report.categories.length);
 
     // Start temperature unit validation monitoring after discovery
-    this.startTemperatureUnitValidation();
+    if (!incremental && !partial) {
+      this.startTemperatureUnitValidation();
+    }
+  }
+
+  /**
+   * Read the discovered panels in the shape expected for this firmware. Until a panel of an unknown family has
+   * answered either shape is accepted; its answer then settles which one it uses.
+   */
+  private transformDiscoveredPanels(answer: DiscoveryAnswer | null = this.discoveryBuffer): ReadonlyArray<Panel> {
+    const { hardwareDefinitionShape } = this.capabilities;
+    const panels = transformPanels(
+      answer as Record<string, unknown>,
+      this.getConfig().includeAllCircuits,
+      this.log,
+      hardwareDefinitionShape,
+    );
+    if (hardwareDefinitionShape === HardwareDefinitionShape.Either) {
+      this.capabilities = { ...this.capabilities, hardwareDefinitionShape: detectHardwareDefinitionShape(answer) };
+    }
+    return panels;
   }
 
   private initializeDiscoveryState() {
+    if (this.hardwareChanges) {
+      this.hardwareChanges.removed.forEach(objnam => this.subscriptions.remove(objnam));
+    } else {
+      this.subscriptions.reset();
+    }
     this.pumpIdToCircuitMap.clear();
     this.pumpToCircuitsMap.clear();
     this.circuitToPumpMap.clear();
@@ -1362,10 +2458,37 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     this.activePumpCircuits.clear();
   }
 
-  private processPanelSensors(panel: Panel, discoveredAccessoryIds: Set<string>) {
+  private processPanelSensors(panel: Panel, discoveredAccessoryIds: Set<string>, skippedAccessoryIds: Map<string, string>) {
     for (const sensor of panel.sensors) {
-      discoveredAccessoryIds.add(sensor.id);
-      this.discoverTemperatureSensor(panel, null, sensor);
+      const skipReason = this.temperatureSensorSkipReason(panel, sensor);
+      if (skipReason) {
+        skippedAccessoryIds.set(sensor.id, skipReason);
+      } else {
+        discoveredAccessoryIds.add(sensor.id);
+      }
+      if (this.isAffectedByHardwareChange(sensor.id)) {
+        this.discoverTemperatureSensor(panel, null, sensor);
+      }
+    }
+  }
+
+  private processPanelChemControllers(panel: Panel, discoveredAccessoryIds: Set<string>) {
+    for (const chem of panel.chemControllers ?? []) {
+      discoveredAccessoryIds.add(chem.id);
+      if (this.isAffectedByHardwareChange(chem.id)) {
+        this.discoverChemController(panel, chem);
+      }
+    }
+  }
+
+  private processModuleValves(panel: Panel, discoveredAccessoryIds: Set<string>) {
+    for (const module of panel.modules) {
+      for (const valve of module.valves ?? []) {
+        discoveredAccessoryIds.add(valve.id);
+        if (this.isAffectedByHardwareChange(valve.id)) {
+          this.discoverValve(panel, module, valve);
+        }
+      }
     }
   }
 
@@ -1373,7 +2496,9 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     for (const pumpCircuit of pump.circuits as ReadonlyArray<PumpCircuit>) {
       circuitIdPumpMap.set(pumpCircuit.circuitId, pumpCircuit);
       this.activePumpCircuits.set(pumpCircuit.id, pumpCircuit);
-      this.subscribeForUpdates(pumpCircuit, [STATUS_KEY, ACT_KEY, SPEED_KEY, SELECT_KEY, 'RPM', 'GPM', 'WATTS']);
+      if (this.isAffectedByHardwareChange(pumpCircuit.id)) {
+        this.subscribeForUpdates(pumpCircuit, [STATUS_KEY, ACT_KEY, SPEED_KEY, SELECT_KEY, 'RPM', 'GPM', 'WATTS']);
+      }
       this.buildPumpCircuitAssociations(pump.id, pumpCircuit);
     }
   }
@@ -1387,6 +2512,9 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     discoveredAccessoryIds.add(pumpGpmSensorId);
     discoveredAccessoryIds.add(pumpWattsSensorId);
 
+    if (!this.isAffectedByHardwareChange(pump.id)) {
+      return;
+    }
     this.discoverPumpRpmSensor(panel, pump);
     this.discoverPumpGpmSensor(panel, pump);
     this.discoverPumpWattsSensor(panel, pump);
@@ -1402,20 +2530,73 @@ export class PentairPlatform implements DynamicPlatformPlugin {
   }
 
   /**
-   * Register discovered accessories with HomeKit
+   * Register discovered accessories with HomeKit. A partial discovery adds and updates accessories but removes none.
+   */
+  private registerDiscoveredAccessories(panels: readonly Panel[], partial = false) {
+    const inventory = buildHardwareInventory(panels);
+
+    if (this.incrementalDiscovery) {
+      this.applyHardwareChanges(panels, inventory, partial);
+    } else {
+      const context = this.createDiscoveryContext(partial);
+      this.processAllPanels(panels, context);
+      this.finalizeDiscovery(context);
+    }
+
+    // Objects missing from a partial answer are kept, so they do not count as added when they come back
+    this.hardwareInventory = partial ? new Map([...this.hardwareInventory, ...inventory]) : inventory;
+    this.lastHardwareCheck = Date.now();
+    this.discoveryRunning = false;
+    this.incrementalDiscovery = false;
+  }
+
+  /**
+   * Apply the result of an incremental discovery. Accessories of unchanged objects keep their handlers and
+   * subscriptions. A discovery with failed categories removes nothing, since objects may only be missing from
+   * the answer.
    */
-  private registerDiscoveredAccessories(panels: readonly Panel[]) {
-    const context = this.createDiscoveryContext();
+  private applyHardwareChanges(panels: readonly Panel[], inventory: HardwareInventory, partial: boolean) {
+    const changes = diffHardwareInventory(this.hardwareInventory, inventory);
+    if (partial) {
+      changes.removed = [];
+    }
+    const changed = hasHardwareChanges(changes);
+    if (changed) {
+      this.log.info(`IntelliCenter hardware configuration changed: ${describeHardwareChanges(changes)}. Updating affected accessories.`);
+    } else {
+      this.log.debug(`IntelliCenter hardware unchanged (fingerprint ${hardwareFingerprint(inventory)}).`);
+    }
+    // Accessories already missing from earlier discoveries count this one too
+    if (!changed && (partial || !this.hasMissingAccessories())) {
+      return;
+    }
+
+    this.hardwareChanges = changes;
+    try {
+      const context = this.createDiscoveryContext(partial);
+      this.processAllPanels(panels, context);
+      this.finalizeDiscovery(context);
+    } finally {
+      this.hardwareChanges = null;
+    }
+  }
 
-    this.processAllPanels(panels, context);
-    this.finalizeDiscovery(context);
+  /**
+   * True unless an incremental discovery is being applied and none of the objects was added or changed
+   */
+  private isAffectedByHardwareChange(...ids: ReadonlyArray<string>): boolean {
+    const changes = this.hardwareChanges;
+    return !changes || ids.some(id => changes.added.includes(id) || changes.changed.includes(id));
   }
 
-  private createDiscoveryContext() {
+  private createDiscoveryContext(partial = false) {
     this.initializeDiscoveryState();
 
     return {
+      partial,
       discoveredAccessoryIds: new Set<string>(),
+      // Discovered objects whose accessories the configuration turns off, with the reason
+      skippedAccessoryIds: new Map<string, string>(),
       circuitIdPumpMap: new Map<string, PumpCircuit>(),
       bodyIdMap: new Map<string, Body>(),
       heaters: [] as ReadonlyArray<Heater>,
@@ -1429,19 +2610,33 @@ export class PentairPlatform implements DynamicPlatformPlugin {
   }
 
   private processSinglePanel(panel: Panel, context: ReturnType<typeof this.createDiscoveryContext>) {
-    this.processPanelSensors(panel, context.discoveredAccessoryIds);
+    this.processPanelSensors(panel, context.discoveredAccessoryIds, context.skippedAccessoryIds);
     this.processPanelPumps(panel, context.discoveredAccessoryIds, context.circuitIdPumpMap);
 
     this.processModuleBodies(panel, context.discoveredAccessoryIds, context.circuitIdPumpMap, context.bodyIdMap);
     this.processModuleFeatures(panel, context.discoveredAccessoryIds, context.circuitIdPumpMap);
     this.processPanelFeatures(panel, context.discoveredAccessoryIds, context.circuitIdPumpMap);
+    // After the bodies and features, so the LSI has their water temperature and valves the status of their circuit
+    this.processPanelChemControllers(panel, context.discoveredAccessoryIds);
+    this.processModuleValves(panel, context.discoveredAccessoryIds);
 
     context.heaters = this.collectModuleHeaters(panel, context.heaters);
   }
 
   private finalizeDiscovery(context: ReturnType<typeof this.createDiscoveryContext>) {
     this.processHeaters(context.heaters, context.discoveredAccessoryIds, context.circuitIdPumpMap, context.bodyIdMap);
-    this.cleanupOrphanedAccessories(context.discoveredAccessoryIds);
+    if (context.partial) {
+      this.log.debug('Not removing accessories after a partial discovery.');
+    } else if (
+      !this.hardwareChanges ||
+      this.hardwareChanges.removed.length > 0 ||
+      context.skippedAccessoryIds.size > 0 ||
+      this.hasMissingAccessories()
+    ) {
+      this.cleanupOrphanedAccessories(context.discoveredAccessoryIds, context.skippedAccessoryIds);
+    }
+    this.subscriptions.markComplete();
+    this.replayDeadLetters();
   }
 
   private processModuleBodies(
@@ -1454,9 +2649,16 @@ export class PentairPlatform implements DynamicPlatformPlugin {
       for (const body of module.bodies) {
         discoveredAccessoryIds.add(body.id);
         const pumpCircuit = circuitIdPumpMap.get(body.circuit?.id as string);
-        this.discoverCircuit(panel, module, body, pumpCircuit);
+        this.discoverChangedCircuit(panel, module, body, pumpCircuit, [
+          STATUS_KEY,
+          LAST_TEMP_KEY,
+          HEAT_SOURCE_KEY,
+          HEATER_KEY,
+          HTMODE_KEY,
+          HIGH_TEMP_KEY,
+          LOW_TEMP_KEY,
+        ]);
         this.associateBodyWithPump(body, pumpCircuit);
-        this.subscribeForUpdates(body, [STATUS_KEY, LAST_TEMP_KEY, HEAT_SOURCE_KEY, HEATER_KEY, HTMODE_KEY, HIGH_TEMP_KEY, LOW_TEMP_KEY]);
         bodyIdMap.set(body.id, body);
       }
     }
@@ -1480,8 +2682,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
       for (const feature of module.features) {
         discoveredAccessoryIds.add(feature.id);
         const pumpCircuit = circuitIdPumpMap.get(feature.id);
-        this.discoverCircuit(panel, module, feature, pumpCircuit);
-        this.subscribeForUpdates(feature, [STATUS_KEY, ACT_KEY]);
+        this.discoverChangedCircuit(panel, module, feature, pumpCircuit, [STATUS_KEY, ACT_KEY]);
       }
     }
   }
@@ -1490,8 +2691,22 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     for (const feature of panel.features) {
       discoveredAccessoryIds.add(feature.id);
       const pumpCircuit = circuitIdPumpMap.get(feature.id);
-      this.discoverCircuit(panel, null, feature, pumpCircuit);
-      this.subscribeForUpdates(feature, [STATUS_KEY, ACT_KEY]);
+      this.discoverChangedCircuit(panel, null, feature, pumpCircuit, [STATUS_KEY, ACT_KEY]);
+    }
+  }
+
+  private discoverChangedCircuit(
+    panel: Panel,
+    module: Module | null,
+    circuit: Circuit,
+    pumpCircuit: PumpCircuit | undefined,
+    keys: ReadonlyArray<string>,
+  ) {
+    if (this.isAffectedByHardwareChange(circuit.id)) {
+      this.discoverCircuit(panel, module, circuit, pumpCircuit);
+      this.subscribeForUpdates(circuit, keys);
+    } else if (pumpCircuit) {
+      this.pumpIdToCircuitMap.set(pumpCircuit.id, circuit);
     }
   }
 
@@ -1513,7 +2728,9 @@ export class PentairPlatform implements DynamicPlatformPlugin {
         discoveredAccessoryIds.add(`${heater.id}.${bodyId}`);
         this.findHeaterPumpCircuit(heater, bodyId, circuitIdPumpMap, bodyIdMap);
       });
-      this.discoverHeater(heater, bodyIdMap);
+      if (this.isAffectedByHardwareChange(heater.id, ...heater.bodyIds)) {
+        this.discoverHeater(heater, bodyIdMap);
+      }
     }
   }
 
@@ -1561,6 +2778,12 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     if (accessory.context.sensor) {
       return accessory.context.sensor.id;
     }
+    if (accessory.context.chem) {
+      return accessory.context.chem.id;
+    }
+    if (accessory.context.valve) {
+      return accessory.context.valve.id;
+    }
     if (accessory.context.heater && accessory.context.body) {
       return `${accessory.context.heater.id}.${accessory.context.body.id}`;
     }
@@ -1597,41 +2820,109 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     return `${accessory.context.pump.id}-gpm`;
   }
 
-  private removeOrphanedAccessory(
-    accessory: PlatformAccessory,
-    accessoryUuid: string,
-    accessoriesToRemove: PlatformAccessory[],
-    expectedId: string,
-  ) {
-    this.log.info(`Removing orphaned accessory: ${accessory.displayName} (expected ID: ${expectedId})`);
-    accessoriesToRemove.push(accessory);
-    this.accessoryMap.delete(accessoryUuid);
-    this.heaters.delete(accessoryUuid);
-    this.heaterInstances.delete(accessoryUuid);
+  private orphanRemovalOptions(): OrphanRemovalOptions {
+    const config = this.getConfig();
+    return { discoveries: config.orphanRemovalDiscoveries, gracePeriodMs: config.orphanGracePeriod * 60 * 60 * 1000 };
   }
 
-  cleanupOrphanedAccessories(discoveredAccessoryIds: Set<string>) {
-    const accessoriesToRemove: PlatformAccessory[] = [];
+  /**
+   * True when an accessory is kept although its object was missing from an earlier discovery
+   */
+  private hasMissingAccessories(): boolean {
+    return [...this.accessoryMap.values()].some(accessory => isMissingObject(accessory.context.missing));
+  }
 
-    this.accessoryMap.forEach((accessory, accessoryUuid) => {
+  /**
+   * Remove accessories whose objects were not discovered, were turned off in the configuration, or are of kinds
+   * this plugin no longer creates, under the same policy as every other removal (see removeAccessories)
+   */
+  cleanupOrphanedAccessories(discoveredAccessoryIds: Set<string>, skippedAccessoryIds: ReadonlyMap<string, string> = new Map()) {
+    const removals: Array<{ accessory: PlatformAccessory; reason: string; detail: string }> = [];
+    for (const accessory of this.accessoryMap.values()) {
       const expectedId = this.getExpectedAccessoryId(accessory);
-      if (expectedId && !discoveredAccessoryIds.has(expectedId)) {
-        this.removeOrphanedAccessory(accessory, accessoryUuid, accessoriesToRemove, expectedId);
+      if (!expectedId) {
+        continue;
       }
-    });
+      if (discoveredAccessoryIds.has(expectedId)) {
+        this.forgetMissing(accessory, `${accessory.displayName} is back in the IntelliCenter hardware definition.`);
+        continue;
+      }
+
+      const reason = expectedId.startsWith('REMOVE_')
+        ? 'is of a kind this plugin no longer creates'
+        : (skippedAccessoryIds.get(expectedId) ?? 'is missing from the IntelliCenter hardware definition');
+      removals.push({ accessory, reason, detail: `expected ID: ${expectedId}` });
+    }
+    this.removeAccessories(removals);
+  }
+
+  /**
+   * The only way accessories leave HomeKit, since removing one also deletes the automations that use it. Each call
+   * counts as one more discovery an accessory was not wanted in; until that has lasted orphanRemovalDiscoveries
+   * calls and orphanGracePeriod hours it is kept and the count saved in its context. With orphanRemovalDryRun the
+   * removal is only logged.
+   */
+  private removeAccessories(removals: ReadonlyArray<{ accessory: PlatformAccessory; reason: string; detail: string }>): void {
+    const { orphanRemovalDryRun } = this.getConfig();
+    const options = this.orphanRemovalOptions();
+    const now = Date.now();
+    const accessoriesToRemove: PlatformAccessory[] = [];
+    const accessoriesToUpdate: PlatformAccessory[] = [];
+    let wouldRemove = 0;
+
+    for (const { accessory, reason, detail } of removals) {
+      const missing = recordMissingDiscovery(accessory.context.missing, now);
+      if (!isRemovalDue(missing, options, now)) {
+        this.log.warn(
+          `${accessory.displayName} ${reason} (${describeMissingObject(missing)}). ` +
+            `Keeping it until it is ${describeOrphanRemovalOptions(options)}.`,
+        );
+        accessory.context.missing = missing;
+        accessoriesToUpdate.push(accessory);
+      } else if (orphanRemovalDryRun) {
+        this.log.warn(`Dry run: would remove orphaned accessory: ${accessory.displayName} (${detail})`);
+        accessory.context.missing = missing;
+        accessoriesToUpdate.push(accessory);
+        wouldRemove++;
+      } else {
+        this.log.info(`Removing orphaned accessory: ${accessory.displayName} (${detail})`);
+        accessoriesToRemove.push(accessory);
+        this.accessoryMap.delete(accessory.UUID);
+        this.heaters.delete(accessory.UUID);
+        this.heaterInstances.delete(accessory.UUID);
+      }
+    }
 
+    if (accessoriesToUpdate.length > 0) {
+      this.api.updatePlatformAccessories(accessoriesToUpdate);
+    }
+    if (wouldRemove > 0) {
+      this.log.warn(`Dry run: ${wouldRemove} orphaned accessories would be removed. Turn off orphanRemovalDryRun to remove them.`);
+    }
     if (accessoriesToRemove.length > 0) {
       this.log.info(`Cleaning up ${accessoriesToRemove.length} orphaned accessories`);
       this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, accessoriesToRemove);
     }
   }
 
+  /**
+   * An accessory that is wanted again no longer counts towards its removal
+   */
+  private forgetMissing(accessory: PlatformAccessory, message: string): void {
+    if (accessory.context.missing === undefined) {
+      return;
+    }
+    this.log.info(message);
+    delete accessory.context.missing;
+    this.api.updatePlatformAccessories([accessory]);
+  }
+
   discoverHeater(heater: Heater, bodyMap: ReadonlyMap<string, Body>) {
     heater.bodyIds.forEach(bodyId => {
       const body = bodyMap.get(bodyId);
 
       if (body) {
-        const uuid = this.api.hap.uuid.generate(`${heater.id}.${bodyId}`);
+        const uuid = this.accessoryUuid(`${heater.id}.${bodyId}`);
 
         let accessory = this.accessoryMap.get(uuid);
         const name = `${body.name} ${heater.name}`;
@@ -1644,7 +2935,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
           this.heaterInstances.set(accessory.UUID, heaterInstance);
         } else {
           this.log.debug(`Adding new heater: ${heater.name}`);
-          accessory = new this.api.platformAccessory(name, uuid);
+          accessory = this.createAccessory(name, uuid);
           accessory.context.body = body;
           accessory.context.heater = heater;
           const heaterInstance = new HeaterAccessory(this, accessory);
@@ -1660,7 +2951,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
   }
 
   discoverCircuit(panel: Panel, module: Module | null, circuit: Circuit, pumpCircuit: PumpCircuit | undefined) {
-    const uuid = this.api.hap.uuid.generate(circuit.id);
+    const uuid = this.accessoryUuid(circuit.id);
 
     const existingAccessory = this.accessoryMap.get(uuid);
 
@@ -1678,7 +2969,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
       new CircuitAccessory(this, existingAccessory);
     } else {
       this.log.debug(`Adding new circuit: ${circuit.name}${controllingPumpId ? ` (controlled by pump ${controllingPumpId})` : ''}`);
-      const accessory = new this.api.platformAccessory(circuit.name, uuid);
+      const accessory = this.createAccessory(circuit.name, uuid);
       accessory.context.circuit = circuit;
       accessory.context.module = module;
       accessory.context.panel = panel;
@@ -1693,28 +2984,30 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     }
   }
 
-  discoverTemperatureSensor(panel: Panel, module: Module | null, sensor: Sensor) {
-    const uuid = this.api.hap.uuid.generate(sensor.id);
-
-    const hasHeater = panel.modules.some(m => m.heaters.length > 0);
-    const existingAccessory = this.accessoryMap.get(uuid);
-    let remove = false;
-    this.log.debug(`Config ${this.json(this.getConfig())}`);
+  /**
+   * Why a discovered temperature sensor gets no accessory, or null when it does
+   */
+  private temperatureSensorSkipReason(panel: Panel, sensor: Sensor): string | null {
     if (!this.getConfig().airTemp && sensor.type === TemperatureSensorType.Air) {
-      this.log.debug(`Skipping air temperature sensor ${sensor.name} because air temperature is disabled in config`);
-      remove = true;
+      return 'is turned off by airTemp';
     }
-
-    if (sensor.type === TemperatureSensorType.Pool && hasHeater) {
-      this.log.debug(`Skipping water temperature sensor ${sensor.name} because a heater is installed`);
-      remove = true;
+    if (sensor.type === TemperatureSensorType.Pool && panel.modules.some(m => m.heaters.length > 0)) {
+      return 'is not shown because a heater is installed';
     }
+    return null;
+  }
 
-    if (remove) {
-      if (existingAccessory) {
-        this.accessoryMap.delete(uuid);
-        this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [existingAccessory]);
-      }
+  /**
+   * A sensor that gets no accessory is left to cleanupOrphanedAccessories, so an existing accessory for it is
+   * removed under the orphan policy
+   */
+  discoverTemperatureSensor(panel: Panel, module: Module | null, sensor: Sensor) {
+    const uuid = this.accessoryUuid(sensor.id);
+    const existingAccessory = this.accessoryMap.get(uuid);
+    this.log.debug(`Config ${this.json(this.getConfig())}`);
+    const skipReason = this.temperatureSensorSkipReason(panel, sensor);
+    if (skipReason) {
+      this.log.debug(`Skipping temperature sensor ${sensor.name}: it ${skipReason}`);
       return;
     }
 
@@ -1728,7 +3021,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
       new TemperatureAccessory(this, existingAccessory);
     } else {
       this.log.debug(`Adding new temperature sensor: ${sensor.name} of type ${sensor.type}`);
-      const accessory = new this.api.platformAccessory(sensor.name, uuid);
+      const accessory = this.createAccessory(sensor.name, uuid);
       accessory.context.sensor = sensor;
       accessory.context.module = module;
       accessory.context.panel = panel;
@@ -1740,9 +3033,90 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     this.subscribeForUpdates(sensor, [PROBE_KEY]);
   }
 
+  discoverValve(panel: Panel, module: Module, valve: Valve) {
+    const uuid = this.accessoryUuid(valve.id);
+    const existingAccessory = this.accessoryMap.get(uuid);
+
+    if (existingAccessory) {
+      this.log.debug(`Restoring existing valve from cache: ${existingAccessory.displayName}`);
+      existingAccessory.context.valve = valve;
+      existingAccessory.context.module = module;
+      existingAccessory.context.panel = panel;
+      this.api.updatePlatformAccessories([existingAccessory]);
+
+      new ValveAccessory(this, existingAccessory);
+    } else {
+      this.log.debug(`Adding new valve: ${valve.name} driven by ${valve.circuitId ?? 'no circuit'}, assigned to ${valve.assignment}`);
+      const accessory = this.createAccessory(valve.name, uuid);
+      accessory.context.valve = valve;
+      accessory.context.module = module;
+      accessory.context.panel = panel;
+      new ValveAccessory(this, accessory);
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      this.accessoryMap.set(accessory.UUID, accessory);
+    }
+
+    this.subscribeForUpdates(valve, [VALVE_POSITION_KEY]);
+    // The status of a circuit with an accessory comes with its own subscription
+    if (valve.circuitId && !this.accessoryMap.has(this.accessoryUuid(valve.circuitId))) {
+      this.subscribeForUpdates({ id: valve.circuitId } as BaseCircuit, [STATUS_KEY]);
+    }
+  }
+
+  discoverChemController(panel: Panel, chem: ChemController) {
+    const uuid = this.accessoryUuid(chem.id);
+    const existingAccessory = this.accessoryMap.get(uuid);
+
+    if (existingAccessory) {
+      this.log.debug(`Restoring existing chemistry controller from cache: ${existingAccessory.displayName}`);
+      existingAccessory.context.chem = chem;
+      existingAccessory.context.panel = panel;
+      this.updateWaterBalance(existingAccessory);
+      this.api.updatePlatformAccessories([existingAccessory]);
+
+      this.createChemAccessory(existingAccessory);
+    } else {
+      this.log.debug(`Adding new chemistry controller: ${chem.name} of type ${chem.type}`);
+      const accessory = this.createAccessory(chem.name, uuid);
+      accessory.context.chem = chem;
+      accessory.context.panel = panel;
+      this.updateWaterBalance(accessory);
+      this.createChemAccessory(accessory);
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      this.accessoryMap.set(accessory.UUID, accessory);
+    }
+
+    if (chem.type === ChemControllerType.IntelliChlor) {
+      this.subscribeForUpdates(chem, [
+        SALT_KEY,
+        OUTPUT_KEY,
+        POOL_OUTPUT_KEY,
+        SPA_OUTPUT_KEY,
+        SUPER_CHLORINATE_KEY,
+        SUPER_CHLORINATE_HOURS_KEY,
+        LOW_SALT_KEY,
+        CHECK_CELL_KEY,
+      ]);
+      return;
+    }
+    this.subscribeForUpdates(chem, [
+      PH_KEY,
+      ORP_KEY,
+      PH_SETPOINT_KEY,
+      ORP_SETPOINT_KEY,
+      PH_TANK_KEY,
+      ORP_TANK_KEY,
+      PH_HIGH_KEY,
+      PH_LOW_KEY,
+      ORP_HIGH_KEY,
+      ORP_LOW_KEY,
+      NO_FLOW_KEY,
+    ]);
+  }
+
   discoverFeatureRpmSensor(panel: Panel, feature: Circuit, pumpCircuit: PumpCircuit) {
     const featureRpmSensorId = `${feature.id}-rpm`;
-    const uuid = this.api.hap.uuid.generate(featureRpmSensorId);
+    const uuid = this.accessoryUuid(featureRpmSensorId);
 
     const existingAccessory = this.accessoryMap.get(uuid);
 
@@ -1762,7 +3136,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
       new PumpRpmAccessory(this, existingAccessory);
     } else {
       this.log.debug(`Adding new feature RPM sensor: ${displayName}`);
-      const accessory = new this.api.platformAccessory(displayName, uuid);
+      const accessory = this.createAccessory(displayName, uuid);
       accessory.context.feature = feature;
       accessory.context.pumpCircuit = pumpCircuit;
       accessory.context.pump = pump;
@@ -1775,7 +3149,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
   discoverBodyRpmSensor(panel: Panel, body: Body, pumpCircuit: PumpCircuit) {
     const bodyRpmSensorId = `${body.id}-rpm`;
-    const uuid = this.api.hap.uuid.generate(bodyRpmSensorId);
+    const uuid = this.accessoryUuid(bodyRpmSensorId);
 
     const existingAccessory = this.accessoryMap.get(uuid);
 
@@ -1795,7 +3169,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
       new PumpRpmAccessory(this, existingAccessory);
     } else {
       this.log.debug(`Adding new body RPM sensor: ${displayName}`);
-      const accessory = new this.api.platformAccessory(displayName, uuid);
+      const accessory = this.createAccessory(displayName, uuid);
       accessory.context.feature = body; // Bodies act like features for RPM sensors
       accessory.context.pumpCircuit = pumpCircuit;
       accessory.context.pump = pump;
@@ -1808,7 +3182,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
   discoverHeaterRpmSensor(panel: Panel, heater: Heater, body: Body, pumpCircuit: PumpCircuit) {
     const heaterRpmSensorId = `${heater.id}.${body.id}-rpm`;
-    const uuid = this.api.hap.uuid.generate(heaterRpmSensorId);
+    const uuid = this.accessoryUuid(heaterRpmSensorId);
 
     const existingAccessory = this.accessoryMap.get(uuid);
 
@@ -1832,7 +3206,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
       new PumpRpmAccessory(this, existingAccessory);
     } else {
       this.log.debug(`Adding new heater RPM sensor: ${displayName}`);
-      const accessory = new this.api.platformAccessory(displayName, uuid);
+      const accessory = this.createAccessory(displayName, uuid);
       // Create feature-like object with bodyId
       accessory.context.feature = { id: heater.id, name: heater.name, status: initialStatus, bodyId: body.id };
       accessory.context.pumpCircuit = pumpCircuit;
@@ -1853,7 +3227,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     }
 
     const pumpGpmSensorId = `${pump.id}-gpm`;
-    const uuid = this.api.hap.uuid.generate(pumpGpmSensorId);
+    const uuid = this.accessoryUuid(pumpGpmSensorId);
     const existingAccessory = this.accessoryMap.get(uuid);
 
     if (existingAccessory) {
@@ -1863,7 +3237,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
       new PumpGpmAccessory(this, existingAccessory);
     } else {
       this.log.info('Adding new pump GPM sensor:', `${pump.name} GPM`);
-      const accessory = new this.api.platformAccessory(`${pump.name} GPM`, uuid);
+      const accessory = this.createAccessory(`${pump.name} GPM`, uuid);
       accessory.context.pump = pump;
       accessory.context.panel = panel;
       new PumpGpmAccessory(this, accessory);
@@ -1874,7 +3248,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
   discoverPumpRpmSensor(panel: Panel, pump: Pump) {
     const pumpRpmSensorId = `${pump.id}-rpm`;
-    const uuid = this.api.hap.uuid.generate(pumpRpmSensorId);
+    const uuid = this.accessoryUuid(pumpRpmSensorId);
     const existingAccessory = this.accessoryMap.get(uuid);
 
     if (existingAccessory) {
@@ -1884,7 +3258,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
       new PumpRpmAccessory(this, existingAccessory);
     } else {
       this.log.info('Adding new pump RPM sensor:', `${pump.name} RPM`);
-      const accessory = new this.api.platformAccessory(`${pump.name} RPM`, uuid);
+      const accessory = this.createAccessory(`${pump.name} RPM`, uuid);
       accessory.context.pump = pump;
       accessory.context.panel = panel;
       new PumpRpmAccessory(this, accessory);
@@ -1895,7 +3269,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
   discoverPumpWattsSensor(panel: Panel, pump: Pump) {
     const pumpWattsSensorId = `${pump.id}-watts`;
-    const uuid = this.api.hap.uuid.generate(pumpWattsSensorId);
+    const uuid = this.accessoryUuid(pumpWattsSensorId);
     const existingAccessory = this.accessoryMap.get(uuid);
 
     if (existingAccessory) {
@@ -1905,7 +3279,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
       new PumpWattsAccessory(this, existingAccessory);
     } else {
       this.log.info('Adding new pump WATTS sensor:', `${pump.name} WATTS`);
-      const accessory = new this.api.platformAccessory(`${pump.name} WATTS`, uuid);
+      const accessory = this.createAccessory(`${pump.name} WATTS`, uuid);
       accessory.context.pump = pump;
       accessory.context.panel = panel;
       new PumpWattsAccessory(this, accessory);
@@ -1965,7 +3339,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
     // Find and update RPM sensor
     const rpmSensorId = `${pumpId}-rpm`;
-    const rpmUuid = this.api.hap.uuid.generate(rpmSensorId);
+    const rpmUuid = this.accessoryUuid(rpmSensorId);
     const rpmAccessory = this.accessoryMap.get(rpmUuid);
 
     if (rpmAccessory) {
@@ -1978,7 +3352,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
     // Find and update GPM sensor (only for VSF pumps)
     const gpmSensorId = `${pumpId}-gpm`;
-    const gpmUuid = this.api.hap.uuid.generate(gpmSensorId);
+    const gpmUuid = this.accessoryUuid(gpmSensorId);
     const gpmAccessory = this.accessoryMap.get(gpmUuid);
 
     if (gpmAccessory) {
@@ -1991,7 +3365,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
     // Find and update WATTS sensor
     const wattsSensorId = `${pumpId}-watts`;
-    const wattsUuid = this.api.hap.uuid.generate(wattsSensorId);
+    const wattsUuid = this.accessoryUuid(wattsSensorId);
     const wattsAccessory = this.accessoryMap.get(wattsUuid);
 
     if (wattsAccessory) {
@@ -2140,7 +3514,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
   updatePumpSensorsWithRpm(pumpId: string, rpm: number) {
     // Update RPM sensor
     const rpmSensorId = `${pumpId}-rpm`;
-    const rpmUuid = this.api.hap.uuid.generate(rpmSensorId);
+    const rpmUuid = this.accessoryUuid(rpmSensorId);
     const rpmAccessory = this.accessoryMap.get(rpmUuid);
 
     if (rpmAccessory) {
@@ -2157,7 +3531,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
     // Update GPM sensor
     const gpmSensorId = `${pumpId}-gpm`;
-    const gpmUuid = this.api.hap.uuid.generate(gpmSensorId);
+    const gpmUuid = this.accessoryUuid(gpmSensorId);
     const gpmAccessory = this.accessoryMap.get(gpmUuid);
 
     if (gpmAccessory) {
@@ -2170,7 +3544,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
     // Update WATTS sensor
     const wattsSensorId = `${pumpId}-watts`;
-    const wattsUuid = this.api.hap.uuid.generate(wattsSensorId);
+    const wattsUuid = this.accessoryUuid(wattsSensorId);
     const wattsAccessory = this.accessoryMap.get(wattsUuid);
 
     if (wattsAccessory) {
@@ -2205,7 +3579,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
     // Update RPM sensor using mapped pump ID
     const rpmSensorId = `${mappedPumpId}-rpm`;
-    const rpmUuid = this.api.hap.uuid.generate(rpmSensorId);
+    const rpmUuid = this.accessoryUuid(rpmSensorId);
     const rpmAccessory = this.accessoryMap.get(rpmUuid);
 
     if (rpmAccessory) {
@@ -2222,7 +3596,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
     // Update GPM sensor using mapped pump ID
     const gpmSensorId = `${mappedPumpId}-gpm`;
-    const gpmUuid = this.api.hap.uuid.generate(gpmSensorId);
+    const gpmUuid = this.accessoryUuid(gpmSensorId);
     const gpmAccessory = this.accessoryMap.get(gpmUuid);
 
     if (gpmAccessory) {
@@ -2239,7 +3613,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
     // Update WATTS sensor using mapped pump ID
     const wattsSensorId = `${mappedPumpId}-watts`;
-    const wattsUuid = this.api.hap.uuid.generate(wattsSensorId);
+    const wattsUuid = this.accessoryUuid(wattsSensorId);
     const wattsAccessory = this.accessoryMap.get(wattsUuid);
 
     if (wattsAccessory) {
@@ -2252,6 +3626,11 @@ export class PentairPlatform implements DynamicPlatformPlugin {
   }
 
   subscribeForUpdates(circuit: BaseCircuit, keys: ReadonlyArray<string>) {
+    this.subscriptions.add(circuit.id, keys);
+    // Accessories built from the cache before connecting are subscribed by restoreSession once connected
+    if (!this.isSocketAlive) {
+      return;
+    }
     const command = {
       command: IntelliCenterRequestCommand.RequestParamList,
       messageID: uuidv4(),
@@ -2321,9 +3700,33 @@ export class PentairPlatform implements DynamicPlatformPlugin {
       rateLimiter: rateLimiterStats,
       connection: {
         isSocketAlive: this.isSocketAlive,
+        host: this.connectHost,
         lastMessageReceived: new Date(this.lastMessageReceived),
         reconnecting: this.reconnecting,
-        commandQueueLength: this.commandQueue.length,
+        reconnectAttempt: this.reconnectAttempt,
+        nextReconnectAt: this.nextReconnectAt ? new Date(this.nextReconnectAt) : null,
+        commandQueueLength: this.commandScheduler.length,
+        subscriptions: this.subscriptions.size,
+      },
+      framing: this.framer.getMetrics(),
+      coalescing: this.commandCoalescer.getStats(),
+      lanes: this.commandScheduler.getStats(),
+      keepalive: this.keepalive.getStats(),
+      firmware: {
+        family: this.capabilities.family,
+        version: this.capabilities.version?.reported ?? null,
+        modules: this.capabilities.moduleVersions,
+        discoveryCommands: this.capabilities.discoveryCommands,
+      },
+      discovery: {
+        running: this.discoveryRunning,
+        progress: this.discoverySession?.getProgress() ?? null,
+        lastReport: this.discoveryReport,
+      },
+      hardware: {
+        objects: this.hardwareInventory.size,
+        fingerprint: hardwareFingerprint(this.hardwareInventory),
+        lastCheck: this.lastHardwareCheck ? new Date(this.lastHardwareCheck) : null,
       },
     };
   }
@@ -2345,24 +3748,90 @@ export class PentairPlatform implements DynamicPlatformPlugin {
   }
 
   sendCommandNoWait(command: IntelliCenterRequest): void {
+    const sanitizedCommand = this.prepareCommand(command, false);
+    if (sanitizedCommand) {
+      this.queueCommand(sanitizedCommand);
+    }
+  }
+
+  /**
+   * Send a command and wait for IntelliCenter to answer it. Resolves with the response carrying the same
+   * messageID; rejects if IntelliCenter returns an error, no response arrives in time, or it cannot be sent.
+   */
+  async sendCommand(command: IntelliCenterRequest, timeoutMs = COMMAND_TIMEOUT_MS): Promise<IntelliCenterResponse> {
+    const sanitizedCommand = this.prepareCommand(command, true);
+    if (!sanitizedCommand) {
+      throw new Error(`Command ${command.messageID} was not sent to IntelliCenter`);
+    }
+
+    const result = this.commandTracker.track(sanitizedCommand.messageID, timeoutMs);
+    this.queueCommand(sanitizedCommand);
+
+    try {
+      const { response, roundTripTime } = await result;
+      this.healthMonitor.recordSuccess(roundTripTime);
+      this.log.debug(`IntelliCenter answered message ID ${response.messageID} in ${roundTripTime}ms`);
+      return response;
+    } catch (error) {
+      if (error instanceof CommandTimeoutError) {
+        this.healthMonitor.recordFailure(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send a write from HomeKit and wait for IntelliCenter to confirm it, reporting failures to HomeKit. Gives up after
+   * timeoutMs, by default HOMEKIT_WRITE_TIMEOUT_MS, so HomeKit hears back before it calls the accessory slow.
+   */
+  async sendConfirmedCommand(command: IntelliCenterRequest, action: string, timeoutMs = HOMEKIT_WRITE_TIMEOUT_MS): Promise<void> {
+    try {
+      await this.sendCommand(command, Math.max(0, timeoutMs));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.log.warn(`IntelliCenter did not confirm request to ${action}: ${reason}`);
+      throw new this.api.hap.HapStatusError(this.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Register a value that HomeKit already shows as applied. Unless IntelliCenter reports objnam.key = expected
+   * within the configured verification window, rollback is called to restore the previous HomeKit state.
+   */
+  expectWrite(objnam: string, key: string, expected: string, rollback: () => void): void {
+    this.writeVerifier.expect(objnam, key, expected, rollback);
+  }
+
+  cancelWrite(objnam: string, key: string): void {
+    this.writeVerifier.cancel(objnam, key);
+  }
+
+  /**
+   * Sanitize a command, or dead-letter it when it cannot be sent. awaited tells whether the sender hears of the failure.
+   */
+  private prepareCommand(command: IntelliCenterRequest, awaited: boolean): IntelliCenterRequest | null {
     // Rate limiting check
     if (!this.rateLimiter.recordRequest()) {
       this.log.debug('Rate limit exceeded. Command dropped to prevent overwhelming IntelliCenter.');
       this.log.debug(`Rate limiter stats: ${JSON.stringify(this.rateLimiter.getStats())}`);
-      return;
+      return null;
     }
 
     if (!this.isSocketAlive) {
       this.log.warn(`Cannot send command, socket is not alive: ${this.json(command)}`);
+      if (command.command === IntelliCenterRequestCommand.SetParamList) {
+        this.deadLetterQueue.add(command, 1, 'socket is not alive', command.messageID, awaited);
+      }
       this.maybeReconnect();
-      return;
+      return null;
     }
 
     // Sanitize command before sending
-    const sanitizedCommand = this.sanitizeCommand(command);
+    return this.sanitizeCommand(command);
+  }
 
-    // Add to queue and process
-    this.commandQueue.push(sanitizedCommand);
+  private queueCommand(command: IntelliCenterRequest): void {
+    this.commandScheduler.enqueue(command);
     this.processCommandQueue();
   }
 
@@ -2398,14 +3867,17 @@ export class PentairPlatform implements DynamicPlatformPlugin {
   }
 
   private async processCommandQueue(): Promise<void> {
-    if (this.processingQueue || this.commandQueue.length === 0) {
+    if (this.processingQueue || this.commandScheduler.length === 0) {
       return;
     }
 
     this.processingQueue = true;
 
-    while (this.commandQueue.length > 0 && this.isSocketAlive) {
-      const command = this.commandQueue.shift()!;
+    while (this.commandScheduler.length > 0 && this.isSocketAlive) {
+      const command = this.takeNextCommand();
+      if (!command) {
+        continue;
+      }
 
       try {
         // Ensure clean JSON serialization
@@ -2417,12 +3889,17 @@ export class PentairPlatform implements DynamicPlatformPlugin {
         this.log.debug(`Sending command to IntelliCenter: ${commandString}`);
 
         // Send with proper line termination
+        this.commandTracker.markSent(command.messageID);
         await this.connection.send(commandString + '\n');
+        this.forgetWrittenState(command);
 
         // Conservative delay between commands to prevent overwhelming the device
         await this.delay(200);
       } catch (error) {
         this.log.error(`Failed to send command to IntelliCenter: ${error}. Command: ${this.json(command)}`);
+        // A sender waiting for the command is told it failed, so the replay log can say the change comes late
+        const failureReported = this.commandTracker.isAwaited(command.messageID);
+        this.commandTracker.reject(command.messageID, error instanceof Error ? error : new Error(String(error)));
 
         // Add failed command to Dead Letter Queue
         this.deadLetterQueue.add(
@@ -2430,6 +3907,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
           1, // First attempt (could be enhanced to track retries)
           String(error),
           command.messageID || 'unknown',
+          failureReported,
         );
 
         const errorString = String(error);
@@ -2443,28 +3921,85 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     this.processingQueue = false;
   }
 
+  /**
+   * Dequeue from the lane due next, with all queued writes in that lane folded in. Returns null when nothing needs sending.
+   */
+  private takeNextCommand(): IntelliCenterRequest | null {
+    const next = this.commandScheduler.dequeue(queue => this.commandCoalescer.takeNext(queue))!;
+
+    for (const { objnam, params } of next.unchanged) {
+      this.log.debug(`Skipping write to ${objnam}, IntelliCenter already reports ${this.json(params)}`);
+      this.writeVerifier.confirm(objnam, params);
+    }
+
+    const command = next.command;
+    if (!command) {
+      next.messageIDs.forEach(messageID => this.commandTracker.resolveWithoutSending(messageID));
+      return null;
+    }
+
+    if (next.messageIDs.length > 1) {
+      this.log.debug(`Merged ${next.messageIDs.length} queued writes into message ID ${command.messageID}`);
+      next.messageIDs.forEach(messageID => this.commandTracker.follow(messageID, command.messageID));
+    }
+    return command;
+  }
+
+  /**
+   * Values just written are unknown until IntelliCenter reports them, so neither a write back to the previous value
+   * nor a retry of a write IntelliCenter ignored or rejected is skipped
+   */
+  private forgetWrittenState(command: IntelliCenterRequest): void {
+    if (command.command !== IntelliCenterRequestCommand.SetParamList) {
+      return;
+    }
+    for (const entry of (command.objectList ?? []) as ReadonlyArray<CircuitStatusMessage>) {
+      if (entry.objnam && entry.params) {
+        this.commandCoalescer.forgetState(entry.objnam, entry.params);
+      }
+    }
+  }
+
   delay(ms: number) {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  /**
+   * Reconnect with exponential backoff. The first attempt after a lost connection is immediate; every failed
+   * attempt doubles the wait (with jitter) up to reconnectMaxDelay, and no attempt is made while the circuit
+   * breaker is open.
+   */
   private async maybeReconnect() {
-    const now = Date.now();
+    if (this.loginRejected) {
+      this.log.debug('Not reconnecting: IntelliCenter rejected the configured credentials.');
+      return;
+    }
 
     if (this.reconnecting) {
       this.log.warn('Reconnect already in progress. Skipping.');
       return;
     }
 
-    if (now - this.lastReconnectTime < 30 * 1000) {
-      this.log.warn('Reconnect suppressed: too soon after last one.');
+    if (this.reconnectTimer) {
+      this.log.debug(`Reconnect already scheduled for ${new Date(this.nextReconnectAt!).toISOString()}. Skipping.`);
+      return;
+    }
+
+    const wait = this.getReconnectDelay();
+    if (wait > 0) {
+      this.scheduleReconnect(wait);
       return;
     }
 
+    await this.reconnect();
+  }
+
+  private async reconnect() {
     this.reconnecting = true;
-    this.lastReconnectTime = now;
+    this.reconnectAttempt++;
 
     try {
-      this.log.warn('Attempting reconnect to IntelliCenter...');
+      this.log.warn(`Attempting reconnect to IntelliCenter (attempt ${this.reconnectAttempt})...`);
       this.connection.destroy();
       await this.connectToIntellicenter();
       this.log.info('Reconnect requested.');
@@ -2473,6 +4008,53 @@ export class PentairPlatform implements DynamicPlatformPlugin {
     } finally {
       this.reconnecting = false;
     }
+
+    if (!this.isSocketAlive) {
+      this.scheduleReconnect(this.getReconnectDelay());
+    }
+  }
+
+  private getReconnectDelay(): number {
+    const cooldown = this.circuitBreaker.getRemainingCooldown();
+    if (this.reconnectAttempt === 0) {
+      return cooldown;
+    }
+
+    const backoff = RetryManager.getDelay(this.reconnectAttempt, {
+      maxAttempts: Infinity,
+      baseDelay: this.validatedConfig!.reconnectBaseDelay * 1000,
+      maxDelay: this.validatedConfig!.reconnectMaxDelay * 1000,
+      backoffFactor: RECONNECT_BACKOFF_FACTOR,
+      jitter: RECONNECT_JITTER,
+    });
+    return Math.max(backoff, cooldown);
+  }
+
+  private scheduleReconnect(wait: number) {
+    if (this.reconnectTimer || this.loginRejected) {
+      return;
+    }
+
+    const gate = this.circuitBreaker.getState() === CircuitBreakerState.OPEN ? ' Circuit breaker is OPEN.' : '';
+    this.log.warn(`Reconnecting to IntelliCenter in ${Math.ceil(wait / 1000)}s (attempt ${this.reconnectAttempt + 1}).${gate}`);
+
+    this.nextReconnectAt = Date.now() + wait;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.nextReconnectAt = null;
+      this.reconnect();
+    }, wait);
+  }
+
+  /**
+   * Called once IntelliCenter answers on a new connection, so a connection that drops again straight away
+   * keeps backing off instead of retrying immediately
+   */
+  private resetReconnectBackoff() {
+    if (this.reconnectAttempt > 0) {
+      this.log.info(`Reconnected to IntelliCenter after ${this.reconnectAttempt} attempt(s).`);
+    }
+    this.reconnectAttempt = 0;
   }
 
   /**
@@ -2622,7 +4204,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
     // Update RPM sensor
     const rpmSensorId = `${pumpId}-rpm`;
-    const rpmUuid = this.api.hap.uuid.generate(rpmSensorId);
+    const rpmUuid = this.accessoryUuid(rpmSensorId);
     const rpmAccessory = this.accessoryMap.get(rpmUuid);
 
     if (rpmAccessory) {
@@ -2636,7 +4218,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
     // Update GPM sensor
     const gpmSensorId = `${pumpId}-gpm`;
-    const gpmUuid = this.api.hap.uuid.generate(gpmSensorId);
+    const gpmUuid = this.accessoryUuid(gpmSensorId);
     const gpmAccessory = this.accessoryMap.get(gpmUuid);
 
     if (gpmAccessory) {
@@ -2650,7 +4232,7 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
     // Update WATTS sensor
     const wattsSensorId = `${pumpId}-watts`;
-    const wattsUuid = this.api.hap.uuid.generate(wattsSensorId);
+    const wattsUuid = this.accessoryUuid(wattsSensorId);
     const wattsAccessory = this.accessoryMap.get(wattsUuid);
 
     if (wattsAccessory) {
@@ -2816,16 +4398,27 @@ export class PentairPlatform implements DynamicPlatformPlugin {
   }
 
   private clearTimersAndIntervals() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+      this.nextReconnectAt = null;
+      this.log.debug('Reconnect timer cleared');
+    }
+
     if (this.heartbeatInterval) {
       clearInterval(this.heartbeatInterval);
       this.heartbeatInterval = null;
       this.log.debug('Heartbeat interval cleared');
     }
 
-    if (this.discoveryTimeout) {
-      clearTimeout(this.discoveryTimeout);
-      this.discoveryTimeout = null;
-      this.log.debug('Discovery timeout cleared');
+    if (this.discoverySession) {
+      this.stopDiscovery('shutting down');
+      this.log.debug('Discovery stopped');
+    }
+
+    if (this.rediscoveryTimer) {
+      clearTimeout(this.rediscoveryTimer);
+      this.rediscoveryTimer = null;
     }
 
     if (this.temperatureValidationInterval) {
@@ -2848,19 +4441,22 @@ export class PentairPlatform implements DynamicPlatformPlugin {
 
     if (this.connection && this.isSocketAlive) {
       try {
-        this.log.debug('Closing Telnet connection...');
+        this.log.debug(`Closing ${this.connection.type} connection...`);
         this.connection.destroy();
         this.isSocketAlive = false;
-        this.log.debug('Telnet connection closed');
+        this.log.debug('Connection closed');
       } catch (error) {
-        this.log.warn(`Error closing Telnet connection: ${error instanceof Error ? error.message : String(error)}`);
+        this.log.warn(`Error closing connection: ${error instanceof Error ? error.message : String(error)}`);
       }
     }
   }
 
   private clearDataStructures() {
-    this.commandQueue = [];
+    this.commandScheduler.clear();
     this.processingQueue = false;
+    this.commandTracker?.rejectAll('Platform is shutting down');
+    this.writeVerifier?.clear();
+    this.subscriptions?.reset();
 
     this.accessoryMap?.clear();
     this.heaters?.clear();
@@ -2873,16 +4469,9 @@ export class PentairPlatform implements DynamicPlatformPlugin {
   }
 
   private resetState() {
-    this.buffer = '';
+    this.framer?.reset();
     this.discoveryBuffer = null;
 
-    if (this.discoverCommandsSent) {
-      this.discoverCommandsSent.length = 0;
-    }
-    if (this.discoverCommandsFailed) {
-      this.discoverCommandsFailed.length = 0;
-    }
-
     this.reconnecting = false;
     this.parseErrorCount = 0;
     this.temperatureReadings = [];
@@ -2894,12 +4483,20 @@ export class PentairPlatform implements DynamicPlatformPlugin {
    * Clears intervals, closes connections, and removes event listeners
    */
   async cleanup() {
+    if (this.controllers.size > 0) {
+      await Promise.all([...this.controllers.values()].map(controller => controller.cleanup()));
+      return;
+    }
+
     this.log.debug('Starting cleanup process...');
     this.clearTimersAndIntervals();
     this.cleanupConnection();
     this.clearDataStructures();
     this.resetState();
     this.resetErrorHandling();
+    if (this.trafficRecorder) {
+      await this.trafficRecorder.close();
+    }
     this.log.debug('Cleanup process completed');
   }
 }
@@ -0,0 +1,46 @@
+import { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+
+import { RESCAN_SWITCH_ID, RESCAN_SWITCH_RESET_MS } from './constants';
+import { PentairPlatform } from './platform';
+import { MANUFACTURER } from './settings';
+
+const MODEL = 'Hardware Rescan';
+
+/**
+ * Rescan Switch Accessory
+ * A switch that turns itself off again. Turning it on checks IntelliCenter for added, changed or removed hardware,
+ * so an installer's changes show up in HomeKit without waiting for the periodic check or restarting Homebridge.
+ */
+export class RescanSwitchAccessory {
+  private readonly service: Service;
+
+  constructor(
+    private readonly platform: PentairPlatform,
+    private readonly accessory: PlatformAccessory,
+  ) {
+    this.accessory
+      .getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, MANUFACTURER)
+      .setCharacteristic(this.platform.Characteristic.Model, MODEL)
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, RESCAN_SWITCH_ID);
+
+    this.service = this.accessory.getService(this.platform.Service.Switch) || this.accessory.addService(this.platform.Service.Switch);
+    this.service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.displayName);
+    this.service.getCharacteristic(this.platform.Characteristic.On).onGet(this.getOn.bind(this)).onSet(this.setOn.bind(this));
+  }
+
+  async getOn(): Promise<CharacteristicValue> {
+    return false;
+  }
+
+  async setOn(value: CharacteristicValue) {
+    if (!value) {
+      return;
+    }
+    setTimeout(() => this.service.updateCharacteristic(this.platform.Characteristic.On, false), RESCAN_SWITCH_RESET_MS);
+    if (!this.platform.rediscoverHardware('rescan switch')) {
+      this.platform.log.warn('Could not check IntelliCenter for hardware changes: not connected, or a discovery is already running.');
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+}
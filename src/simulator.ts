@@ -0,0 +1,747 @@
+/**
+ * Stateful IntelliCenter simulator that serves a GetHardwareDefinition dump over the JSON protocol
+ */
+
+import { Buffer } from 'buffer';
+import EventEmitter from 'events';
+import { promises as fs } from 'fs';
+import { AddressInfo, createServer, Server, Socket } from 'net';
+import path from 'path';
+import WebSocket, { WebSocketServer } from 'ws';
+import {
+  ALL_OBJECTS_OBJNAM,
+  CIRCUIT_KEY,
+  DISCOVER_COMMANDS,
+  GPM_KEY,
+  HEAT_SOURCE_KEY,
+  HTMODE_KEY,
+  LAST_TEMP_KEY,
+  LOW_TEMP_KEY,
+  NO_HEATER_ID,
+  OBJ_ID_KEY,
+  OBJ_NAME_KEY,
+  OBJ_SUBTYPE_KEY,
+  OBJ_TYPE_KEY,
+  PARAMS_KEY,
+  PROBE_KEY,
+  PUMP_PERFORMANCE_CURVES,
+  PUMP_TYPE_MAPPING,
+  RPM_KEY,
+  SELECT_KEY,
+  SPEED_KEY,
+  STATUS_KEY,
+  SYSTEM_OBJNAM,
+  TELNET_PORT,
+  VERSION_KEY,
+  WATTS_KEY,
+} from './constants';
+import { FrameType, JsonStreamFramer } from './jsonFramer';
+import {
+  CircuitStatus,
+  IntelliCenterQueryName,
+  IntelliCenterRequestCommand,
+  IntelliCenterResponseCommand,
+  IntelliCenterResponseStatus,
+  ObjectType,
+} from './types';
+import { mergeResponseArray } from './util';
+
+type DumpObject = { objnam: string; params: Record<string, unknown> };
+type ObjectParams = Record<string, string>;
+type ParamChanges = Map<string, ObjectParams>;
+type Recorder = (objnam: string, key: string, value: string) => void;
+
+const MAX_REQUEST_BYTES = 1024 * 1024;
+const BAD_REQUEST = '400';
+const DUMP_FILE = /-([a-z]+)\.json$/i;
+
+// Heating power expressed as degrees per hour for 1,000 gallons: a 15,000 gallon pool gains ~2.7°F/h
+const HEAT_RATE_PER_KGAL = 40;
+// A heater starts once the water is this far below the setpoint, so it does not cycle every step
+const HEATER_HYSTERESIS = 1;
+// Water loses or gains this many degrees per hour per degree of difference to the air
+const AMBIENT_RATE = 0.02;
+// How fast a pump changes speed
+const PUMP_RAMP_RPM_PER_SECOND = 300;
+const SOLAR_GAIN = 10;
+
+// Dumps are plain JSON, and templates are merged into so they must not share objects
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export interface SimulationOptions {
+  /** Reported for the system object's VER key */
+  firmwareVersion?: string;
+  /** Air temperature in °F; water drifts towards it when not heated */
+  airTemperature?: number;
+}
+
+export interface SimulatorOptions extends SimulationOptions {
+  host?: string;
+  port?: number;
+  /** Also serve the WebSocket interface on this port */
+  webSocketPort?: number;
+  /** Simulated seconds per real second */
+  timeScale?: number;
+  /** Real milliseconds between simulation steps */
+  tickMs?: number;
+  log?: (message: string) => void;
+}
+
+/**
+ * A hardware definition as answered for each discovery category. Dumps without a category answer every one.
+ */
+export interface HardwareDump {
+  category: string | null;
+  answer: DumpObject[];
+}
+
+/**
+ * Read GetHardwareDefinition responses from files or directories of files. The category a file answers is
+ * taken from its name (Response-GetHardwareDefinition-pumps.json answers PUMPS).
+ */
+export async function loadHardwareDumps(paths: ReadonlyArray<string>): Promise<HardwareDump[]> {
+  const files: string[] = [];
+  for (const entry of paths) {
+    /* eslint-disable-next-line security/detect-non-literal-fs-filename */
+    if ((await fs.stat(entry)).isDirectory()) {
+      /* eslint-disable-next-line security/detect-non-literal-fs-filename */
+      const names = (await fs.readdir(entry)).filter(name => name.endsWith('.json')).sort();
+      files.push(...names.map(name => path.join(entry, name)));
+    } else {
+      files.push(entry);
+    }
+  }
+
+  const dumps: HardwareDump[] = [];
+  for (const file of files) {
+    /* eslint-disable-next-line security/detect-non-literal-fs-filename */
+    const response = JSON.parse(await fs.readFile(file, 'utf8'));
+    if (!Array.isArray(response?.answer)) {
+      throw new Error(`${file} is not a GetHardwareDefinition response`);
+    }
+    const category = DUMP_FILE.exec(path.basename(file))?.[1]?.toUpperCase() ?? null;
+    dumps.push({ category: category && DISCOVER_COMMANDS.includes(category) ? category : null, answer: response.answer });
+  }
+  return dumps;
+}
+
+/**
+ * The panel state behind the simulator: every object from the dumps with its current parameters, plus the
+ * behaviour that changes them over time. Changes are returned per object so the server can notify subscribers.
+ */
+export class PanelSimulation {
+  private readonly objects: Map<string, ObjectParams> = new Map();
+  private readonly templates: Map<string | null, DumpObject[]> = new Map();
+  // Body <-> the circuit that switches it (B1101 <-> C0006), in both directions
+  private readonly bodyCircuits: Map<string, string> = new Map();
+  // Pump circuit (p0101) -> pump (PMP01)
+  private readonly pumpOfCircuit: Map<string, string> = new Map();
+  // Temperatures are simulated with fractions and reported rounded
+  private readonly temperatures: Map<string, number> = new Map();
+  private readonly airTemperature: number;
+
+  constructor(dumps: ReadonlyArray<HardwareDump>, options: SimulationOptions = {}) {
+    this.airTemperature = options.airTemperature ?? 75;
+
+    for (const dump of dumps) {
+      const template = this.templates.get(dump.category) ?? [];
+      mergeResponseArray(template, clone(dump.answer));
+      this.templates.set(dump.category, template);
+      this.collect(dump.answer, null);
+    }
+
+    this.objects.set(SYSTEM_OBJNAM, {
+      [OBJ_TYPE_KEY]: 'SYSTEM',
+      [VERSION_KEY]: options.firmwareVersion ?? '3.004',
+      ...this.objects.get(SYSTEM_OBJNAM),
+    });
+    this.objects.forEach((params, objnam) => this.applyDefaults(objnam, params));
+    this.linkBodyCircuits();
+  }
+
+  has(objnam: string): boolean {
+    return this.objects.has(objnam);
+  }
+
+  get objectCount(): number {
+    return this.objects.size;
+  }
+
+  /**
+   * Objects matching a GetParamList condition such as OBJTYP=MODULE. An empty condition matches every object.
+   */
+  find(condition: string): string[] {
+    const [key, value] = condition.split('=').map(part => part.trim());
+    return [...this.objects].filter(([, params]) => !key || params[key] === value).map(([objnam]) => objnam);
+  }
+
+  /**
+   * Current values of the requested keys. A key the object does not have is answered with its own name,
+   * as IntelliCenter does.
+   */
+  read(objnam: string, keys: ReadonlyArray<string>): ObjectParams | null {
+    const params = this.objects.get(objnam);
+    if (!params) {
+      return null;
+    }
+    return Object.fromEntries(keys.map(key => [key, params[key] ?? key]));
+  }
+
+  /**
+   * Apply a write and add the values that changed to changes. Switching a body or its circuit switches both,
+   * as on the panel.
+   */
+  write(objnam: string, values: Record<string, unknown>, changes: ParamChanges): void {
+    const record = this.recorder(changes);
+    for (const [key, value] of Object.entries(values)) {
+      record(objnam, key, String(value));
+    }
+    const status = values[STATUS_KEY];
+    const partner = this.bodyCircuits.get(objnam);
+    if (status !== undefined && partner) {
+      record(partner, STATUS_KEY, String(status));
+    }
+    if (values[LAST_TEMP_KEY] !== undefined) {
+      this.temperatures.set(objnam, Number(values[LAST_TEMP_KEY]));
+    }
+  }
+
+  /**
+   * The hardware definition for a discovery category, carrying the current value of every parameter
+   */
+  hardwareDefinition(category?: string): DumpObject[] {
+    const template = (category && this.templates.get(category)) || this.templates.get(null) || this.allTemplates();
+    return this.withCurrentValues(template);
+  }
+
+  /**
+   * Move simulated time forward and return every parameter that changed
+   */
+  advance(seconds: number): ParamChanges {
+    const changes: ParamChanges = new Map();
+    const record = this.recorder(changes);
+    this.advanceBodies(seconds, record);
+    this.advancePumps(seconds, record);
+    this.advanceSensors(record);
+    return changes;
+  }
+
+  private recorder(changes: ParamChanges): Recorder {
+    return (objnam, key, value) => {
+      const params = this.objects.get(objnam)!;
+      if (params[key] !== value) {
+        params[key] = value;
+        changes.set(objnam, { ...changes.get(objnam), [key]: value });
+      }
+    };
+  }
+
+  private collect(list: ReadonlyArray<DumpObject>, pump: string | null): void {
+    for (const object of list) {
+      if (typeof object?.[OBJ_ID_KEY] !== 'string') {
+        continue;
+      }
+      const params = this.objects.get(object.objnam) ?? {};
+      const isPump = object.params?.[OBJ_TYPE_KEY] === ObjectType.Pump;
+      for (const [key, value] of Object.entries(object.params ?? {})) {
+        if (Array.isArray(value)) {
+          this.collect(value as DumpObject[], isPump ? object.objnam : null);
+        } else if (value !== null && typeof value !== 'object') {
+          params[key] = String(value);
+        }
+      }
+      if (pump) {
+        this.pumpOfCircuit.set(object.objnam, pump);
+      }
+      this.objects.set(object.objnam, params);
+    }
+  }
+
+  /**
+   * A body is switched by the circuit with its subtype and name, the same pairing discovery uses
+   */
+  private linkBodyCircuits(): void {
+    const circuits = [...this.objects].filter(([, params]) => params[OBJ_TYPE_KEY] === ObjectType.Circuit);
+    for (const [body, params] of this.objects) {
+      if (params[OBJ_TYPE_KEY] !== ObjectType.Body) {
+        continue;
+      }
+      const circuit = circuits.find(
+        ([, candidate]) => candidate[OBJ_SUBTYPE_KEY] === params[OBJ_SUBTYPE_KEY] && candidate[OBJ_NAME_KEY] === params[OBJ_NAME_KEY],
+      )?.[0];
+      if (circuit) {
+        this.bodyCircuits.set(body, circuit);
+        this.bodyCircuits.set(circuit, body);
+      }
+    }
+  }
+
+  /**
+   * Hardware definitions leave out live values; start from something a real panel could report
+   */
+  private applyDefaults(objnam: string, params: ObjectParams): void {
+    const defaults: ObjectParams = {};
+    switch (params[OBJ_TYPE_KEY]) {
+      case ObjectType.Body:
+        Object.assign(defaults, { [STATUS_KEY]: CircuitStatus.Off, [LAST_TEMP_KEY]: String(this.airTemperature), [HTMODE_KEY]: '0' });
+        break;
+      case ObjectType.Circuit:
+        defaults[STATUS_KEY] = CircuitStatus.Off;
+        break;
+      case ObjectType.Pump:
+        Object.assign(defaults, { [STATUS_KEY]: CircuitStatus.Off, [RPM_KEY]: '0', [GPM_KEY]: '0', [WATTS_KEY]: '0' });
+        break;
+      case ObjectType.Sensor:
+        defaults[PROBE_KEY] = String(this.airTemperature);
+        break;
+      default:
+        if (this.pumpOfCircuit.has(objnam)) {
+          Object.assign(defaults, { [STATUS_KEY]: CircuitStatus.Off, [RPM_KEY]: '0', [GPM_KEY]: '0', [WATTS_KEY]: '0' });
+        }
+    }
+    for (const [key, value] of Object.entries(defaults)) {
+      params[key] ??= value;
+    }
+    if (params[OBJ_TYPE_KEY] === ObjectType.Body) {
+      this.temperatures.set(objnam, Number(params[LAST_TEMP_KEY]) || this.airTemperature);
+    }
+  }
+
+  /**
+   * A running body with a heat source is heated at a rate that depends on its volume once it falls a degree
+   * below its setpoint, until it reaches the setpoint. Otherwise the water drifts towards the air temperature.
+   */
+  private advanceBodies(seconds: number, record: Recorder): void {
+    const hours = seconds / 3600;
+    for (const [objnam, params] of this.objects) {
+      if (params[OBJ_TYPE_KEY] !== ObjectType.Body) {
+        continue;
+      }
+      const current = this.temperatures.get(objnam)!;
+      const setpoint = Number(params[LOW_TEMP_KEY]);
+      const threshold = params[HTMODE_KEY] === '1' ? setpoint : setpoint - HEATER_HYSTERESIS;
+      const heating =
+        params[STATUS_KEY] === CircuitStatus.On &&
+        !!params[HEAT_SOURCE_KEY] &&
+        params[HEAT_SOURCE_KEY] !== NO_HEATER_ID &&
+        current < threshold;
+
+      let next: number;
+      if (heating) {
+        const volume = Math.max(Number(params['VOL']) || 15000, 100) / 1000;
+        next = Math.min(setpoint, current + (HEAT_RATE_PER_KGAL / volume) * hours);
+      } else {
+        const drift = (this.airTemperature - current) * Math.min(1, AMBIENT_RATE * hours);
+        next = current + drift;
+      }
+      this.temperatures.set(objnam, next);
+      record(objnam, HTMODE_KEY, heating ? '1' : '0');
+      record(objnam, LAST_TEMP_KEY, String(Math.round(next)));
+    }
+  }
+
+  /**
+   * Each pump runs at the highest speed asked for by its active circuits and ramps towards it
+   */
+  private advancePumps(seconds: number, record: Recorder): void {
+    const targets = new Map<string, number>();
+    for (const [pumpCircuit, pump] of this.pumpOfCircuit) {
+      const params = this.objects.get(pumpCircuit)!;
+      const active = this.objects.get(params[CIRCUIT_KEY] ?? '')?.[STATUS_KEY] === CircuitStatus.On;
+      record(pumpCircuit, STATUS_KEY, active ? CircuitStatus.On : CircuitStatus.Off);
+      if (active) {
+        targets.set(pump, Math.max(targets.get(pump) ?? 0, this.circuitRpm(pump, params)));
+      }
+    }
+
+    for (const [pump, params] of this.objects) {
+      if (params[OBJ_TYPE_KEY] !== ObjectType.Pump) {
+        continue;
+      }
+      const current = Number(params[RPM_KEY]) || 0;
+      const target = targets.get(pump) ?? 0;
+      const step = PUMP_RAMP_RPM_PER_SECOND * seconds;
+      const rpm = Math.round(current < target ? Math.min(target, current + step) : Math.max(target, current - step));
+      const curve = this.curveOf(pump);
+      const readings: ObjectParams = {
+        [STATUS_KEY]: rpm > 0 ? CircuitStatus.On : CircuitStatus.Off,
+        [RPM_KEY]: String(rpm),
+        [GPM_KEY]: String(Math.round(curve.calculateGPM(rpm))),
+        [WATTS_KEY]: String(curve.calculateWATTS(rpm)),
+      };
+      Object.entries(readings).forEach(([key, value]) => record(pump, key, value));
+      this.forEachCircuitOf(pump, pumpCircuit => {
+        [RPM_KEY, GPM_KEY, WATTS_KEY].forEach(key => record(pumpCircuit, key, readings[key]!));
+      });
+    }
+  }
+
+  /**
+   * Pool and solar sensors follow the pool body; the air sensor reads the air temperature
+   */
+  private advanceSensors(record: Recorder): void {
+    const pool = [...this.objects].find(
+      ([, params]) => params[OBJ_TYPE_KEY] === ObjectType.Body && params[OBJ_SUBTYPE_KEY] === 'POOL',
+    )?.[0];
+    const water = pool ? this.temperatures.get(pool)! : this.airTemperature;
+    for (const [objnam, params] of this.objects) {
+      if (params[OBJ_TYPE_KEY] !== ObjectType.Sensor) {
+        continue;
+      }
+      let reading = this.airTemperature;
+      if (params[OBJ_SUBTYPE_KEY] === 'POOL') {
+        reading = water;
+      } else if (params[OBJ_SUBTYPE_KEY] === 'SOLAR') {
+        reading = this.airTemperature + SOLAR_GAIN;
+      }
+      record(objnam, PROBE_KEY, String(Math.round(reading)));
+    }
+  }
+
+  /**
+   * Speed a pump circuit asks for. A flow setting is turned into the speed that delivers it.
+   */
+  private circuitRpm(pump: string, params: ObjectParams): number {
+    const speed = Number(params[SPEED_KEY]) || 0;
+    if (params[SELECT_KEY] !== GPM_KEY) {
+      return speed;
+    }
+    const curve = this.curveOf(pump);
+    let low = 0;
+    let high = 3450;
+    while (high - low > 1) {
+      const middle = Math.floor((low + high) / 2);
+      if (curve.calculateGPM(middle) < speed) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    return high;
+  }
+
+  private curveOf(pump: string) {
+    const type = PUMP_TYPE_MAPPING.get(this.objects.get(pump)?.[OBJ_SUBTYPE_KEY] ?? '') ?? 'VS';
+    return PUMP_PERFORMANCE_CURVES[type as keyof typeof PUMP_PERFORMANCE_CURVES] ?? PUMP_PERFORMANCE_CURVES.VS;
+  }
+
+  private forEachCircuitOf(pump: string, callback: (pumpCircuit: string) => void): void {
+    for (const [pumpCircuit, owner] of this.pumpOfCircuit) {
+      if (owner === pump) {
+        callback(pumpCircuit);
+      }
+    }
+  }
+
+  private allTemplates(): DumpObject[] {
+    const merged: DumpObject[] = [];
+    this.templates.forEach(template => mergeResponseArray(merged, clone(template)));
+    return merged;
+  }
+
+  private withCurrentValues(list: ReadonlyArray<DumpObject>): DumpObject[] {
+    return list.map(object => {
+      const current = this.objects.get(object.objnam) ?? {};
+      const params: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(object.params ?? {})) {
+        params[key] = Array.isArray(value) ? this.withCurrentValues(value as DumpObject[]) : (current[key] ?? value);
+      }
+      return { [OBJ_ID_KEY]: object.objnam, [PARAMS_KEY]: params } as DumpObject;
+    });
+  }
+}
+
+type Request = {
+  command?: string;
+  messageID?: string;
+  queryName?: string;
+  arguments?: string;
+  condition?: string;
+  objectList?: Array<{ objnam?: string; keys?: string[]; params?: Record<string, unknown> }>;
+};
+
+/**
+ * One connected client with the keys it subscribed to, whether it arrived over raw TCP or WebSocket
+ */
+class SimulatorClient {
+  readonly subscriptions: Map<string, Set<string>> = new Map();
+  readonly framer = new JsonStreamFramer(MAX_REQUEST_BYTES);
+
+  constructor(
+    readonly send: (message: string) => void,
+    readonly close: () => void,
+  ) {}
+
+  /**
+   * The changed values this client subscribed to
+   */
+  subscribed(changes: ParamChanges): Array<{ objnam: string; params: ObjectParams }> {
+    const objectList: Array<{ objnam: string; params: ObjectParams }> = [];
+    for (const [objnam, params] of changes) {
+      const keys = this.subscriptions.get(objnam);
+      const wanted = Object.entries(params).filter(([key]) => keys?.has(key));
+      if (wanted.length > 0) {
+        objectList.push({ objnam, params: Object.fromEntries(wanted) });
+      }
+    }
+    return objectList;
+  }
+}
+
+/**
+ * Serves a PanelSimulation on the raw socket interface and optionally the WebSocket interface. Writes answer
+ * like IntelliCenter does and are followed by NotifyList pushes to every client subscribed to the changed keys;
+ * simulated time runs timeScale times faster than real time and pushes heater and pump changes the same way.
+ */
+export class IntelliCenterSimulator extends EventEmitter {
+  private readonly clients: Set<SimulatorClient> = new Set();
+  private server: Server | null = null;
+  private webSocketServer: WebSocketServer | null = null;
+  private clock: NodeJS.Timeout | null = null;
+  private readonly log: (message: string) => void;
+
+  constructor(
+    readonly simulation: PanelSimulation,
+    private readonly options: SimulatorOptions = {},
+  ) {
+    super();
+    this.log = options.log ?? (() => {});
+  }
+
+  /**
+   * Port the raw socket interface listens on, once started
+   */
+  get port(): number {
+    return (this.server?.address() as AddressInfo | null)?.port ?? 0;
+  }
+
+  get webSocketPort(): number {
+    return (this.webSocketServer?.address() as AddressInfo | null)?.port ?? 0;
+  }
+
+  async start(): Promise<void> {
+    const host = this.options.host ?? '0.0.0.0';
+    const server = createServer(socket => this.acceptSocket(socket));
+    this.server = server;
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? TELNET_PORT, host, () => resolve());
+    });
+    this.log(`IntelliCenter simulator listening on ${host}:${this.port} with ${this.simulation.objectCount} objects`);
+
+    if (this.options.webSocketPort !== undefined) {
+      const webSocketServer = new WebSocketServer({ host, port: this.options.webSocketPort });
+      this.webSocketServer = webSocketServer;
+      await new Promise<void>((resolve, reject) => {
+        webSocketServer.once('error', reject);
+        webSocketServer.once('listening', () => resolve());
+      });
+      webSocketServer.on('connection', socket => this.acceptWebSocket(socket));
+      this.log(`IntelliCenter simulator WebSocket interface listening on ${host}:${this.webSocketPort}`);
+    }
+
+    const tickMs = this.options.tickMs ?? 1000;
+    this.clock = setInterval(() => this.tick((tickMs / 1000) * (this.options.timeScale ?? 1)), tickMs);
+  }
+
+  async stop(): Promise<void> {
+    if (this.clock) {
+      clearInterval(this.clock);
+      this.clock = null;
+    }
+    this.clients.forEach(client => client.close());
+    this.clients.clear();
+    const webSocketServer = this.webSocketServer;
+    const server = this.server;
+    this.webSocketServer = null;
+    this.server = null;
+    if (webSocketServer) {
+      await new Promise(resolve => webSocketServer.close(resolve));
+    }
+    if (server) {
+      await new Promise(resolve => server.close(resolve));
+    }
+  }
+
+  /**
+   * Advance simulated time and push what changed
+   */
+  tick(seconds: number): void {
+    this.notify(this.simulation.advance(seconds));
+  }
+
+  private acceptSocket(socket: Socket): void {
+    const client = new SimulatorClient(
+      message => socket.write(`${message}\n`),
+      () => socket.destroy(),
+    );
+    this.addClient(client);
+    socket.on('data', data => this.receive(client, data));
+    socket.on('close', () => this.removeClient(client));
+    socket.on('error', () => socket.destroy());
+  }
+
+  private acceptWebSocket(socket: WebSocket): void {
+    const client = new SimulatorClient(
+      message => socket.send(message),
+      () => socket.terminate(),
+    );
+    this.addClient(client);
+    socket.on('message', data => this.receive(client, data.toString()));
+    socket.on('close', () => this.removeClient(client));
+    socket.on('error', () => socket.terminate());
+  }
+
+  private addClient(client: SimulatorClient): void {
+    this.clients.add(client);
+    this.emit('clientConnected', this.clients.size);
+  }
+
+  private removeClient(client: SimulatorClient): void {
+    if (this.clients.delete(client)) {
+      this.emit('clientDisconnected', this.clients.size);
+    }
+  }
+
+  private receive(client: SimulatorClient, data: Buffer | string): void {
+    for (const frame of client.framer.push(data)) {
+      if (frame.type === FrameType.Discarded) {
+        this.log(`Discarded ${frame.text.length} bytes: ${frame.reason}`);
+        continue;
+      }
+      let request: Request;
+      try {
+        request = JSON.parse(frame.text);
+      } catch {
+        client.framer.recordParseFailure();
+        client.send(JSON.stringify(this.errorResponse({ messageID: 'unknown' }, 'ParseError: Invalid JSON')));
+        continue;
+      }
+      this.emit('request', request);
+      this.handleRequest(client, request);
+    }
+  }
+
+  private handleRequest(client: SimulatorClient, request: Request): void {
+    switch (request.command) {
+      case IntelliCenterRequestCommand.GetQuery:
+        this.answerQuery(client, request);
+        break;
+      case IntelliCenterRequestCommand.GetParamList:
+        client.send(JSON.stringify(this.paramListResponse(request)));
+        break;
+      case IntelliCenterRequestCommand.RequestParamList:
+        this.subscribe(client, request);
+        client.send(JSON.stringify(this.paramListResponse(request)));
+        break;
+      case IntelliCenterRequestCommand.SetParamList:
+        this.applyWrite(client, request);
+        break;
+      default:
+        client.send(JSON.stringify(this.errorResponse(request, `Unknown command: ${request.command}`)));
+    }
+  }
+
+  private answerQuery(client: SimulatorClient, request: Request): void {
+    if (request.queryName !== IntelliCenterQueryName.GetHardwareDefinition) {
+      client.send(JSON.stringify(this.errorResponse(request, `Unknown query: ${request.queryName}`)));
+      return;
+    }
+    client.send(
+      JSON.stringify({
+        command: IntelliCenterResponseCommand.SendQuery,
+        messageID: request.messageID,
+        queryName: request.queryName,
+        response: IntelliCenterResponseStatus.Ok,
+        description: 'Simulated hardware definition',
+        answer: this.simulation.hardwareDefinition(request.arguments),
+      }),
+    );
+  }
+
+  /**
+   * Objects the panel does not have are left out of the answer. INCR stands for every object matching the condition.
+   */
+  private paramListResponse(request: Request) {
+    const objectList = (request.objectList ?? []).flatMap(({ objnam, keys }) => {
+      const objnams = objnam === ALL_OBJECTS_OBJNAM ? this.simulation.find(request.condition ?? '') : objnam ? [objnam] : [];
+      return objnams.flatMap(name => {
+        const params = this.simulation.read(name, keys ?? []);
+        return params ? [{ objnam: name, params }] : [];
+      });
+    });
+    return {
+      command: IntelliCenterResponseCommand.SendParamList,
+      messageID: request.messageID,
+      response: IntelliCenterResponseStatus.Ok,
+      description: '',
+      objectList,
+    };
+  }
+
+  private subscribe(client: SimulatorClient, request: Request): void {
+    for (const { objnam, keys } of request.objectList ?? []) {
+      if (objnam && this.simulation.has(objnam)) {
+        const subscribed = client.subscriptions.get(objnam) ?? new Set();
+        (keys ?? []).forEach(key => subscribed.add(key));
+        client.subscriptions.set(objnam, subscribed);
+      }
+    }
+  }
+
+  /**
+   * A write naming an object the panel does not have is rejected as a whole, before anything changes
+   */
+  private applyWrite(client: SimulatorClient, request: Request): void {
+    const objectList = request.objectList ?? [];
+    const unknown = objectList.find(({ objnam }) => !objnam || !this.simulation.has(objnam));
+    if (objectList.length === 0 || unknown) {
+      const reason = unknown ? `Unknown object: ${unknown.objnam}` : 'Missing objectList';
+      client.send(JSON.stringify({ ...this.errorResponse(request, reason), command: IntelliCenterRequestCommand.SetParamList }));
+      return;
+    }
+
+    const changes: ParamChanges = new Map();
+    for (const { objnam, params } of objectList) {
+      this.simulation.write(objnam!, params ?? {}, changes);
+    }
+    client.send(
+      JSON.stringify({
+        command: IntelliCenterRequestCommand.SetParamList,
+        messageID: request.messageID,
+        response: IntelliCenterResponseStatus.Ok,
+        description: '',
+      }),
+    );
+    this.notify(changes);
+  }
+
+  private notify(changes: ParamChanges): void {
+    if (changes.size === 0) {
+      return;
+    }
+    for (const client of this.clients) {
+      const objectList = client.subscribed(changes);
+      if (objectList.length > 0) {
+        client.send(
+          JSON.stringify({
+            command: IntelliCenterResponseCommand.NotifyList,
+            messageID: `notify-${Date.now()}`,
+            response: IntelliCenterResponseStatus.Ok,
+            description: '',
+            objectList,
+          }),
+        );
+      }
+    }
+  }
+
+  private errorResponse(request: Request, description: string) {
+    return {
+      command: IntelliCenterResponseCommand.Error,
+      messageID: request.messageID,
+      response: BAD_REQUEST,
+      description,
+    };
+  }
+}
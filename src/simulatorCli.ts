@@ -0,0 +1,96 @@
+/**
+ * Command line entry point for the IntelliCenter simulator:
+ *
+ *   npm run simulator -- documentation/v2 --time-scale 60 --websocket-port 6680
+ */
+
+import process from 'process';
+import { TELNET_PORT } from './constants';
+import { IntelliCenterSimulator, loadHardwareDumps, PanelSimulation, SimulatorOptions } from './simulator';
+
+export const SIMULATOR_USAGE = `Usage: simulator [options] <dump file or directory>...
+
+Serves GetHardwareDefinition dumps as a stateful IntelliCenter.
+
+Options:
+  --host <address>          Address to listen on (default 0.0.0.0)
+  --port <port>             Raw socket port (default ${TELNET_PORT})
+  --websocket-port <port>   Also serve the WebSocket interface on this port
+  --time-scale <factor>     Simulated seconds per real second (default 1)
+  --air-temperature <°F>    Air temperature water drifts towards (default 75)
+  --firmware <version>      Firmware version to report (default 3.004)`;
+
+export interface SimulatorArguments {
+  paths: string[];
+  options: SimulatorOptions;
+}
+
+const NUMERIC_OPTIONS: Record<string, 'port' | 'webSocketPort' | 'timeScale' | 'airTemperature'> = {
+  '--port': 'port',
+  '--websocket-port': 'webSocketPort',
+  '--time-scale': 'timeScale',
+  '--air-temperature': 'airTemperature',
+};
+
+/**
+ * Parse command line arguments. Throws with a message fit for the user on anything it does not understand.
+ */
+export function parseSimulatorArguments(argv: ReadonlyArray<string>): SimulatorArguments {
+  const paths: string[] = [];
+  const options: SimulatorOptions = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const argument = argv[i]!;
+    if (!argument.startsWith('--')) {
+      paths.push(argument);
+      continue;
+    }
+    const value = argv[++i];
+    if (value === undefined) {
+      throw new Error(`${argument} needs a value`);
+    }
+    if (argument === '--host') {
+      options.host = value;
+    } else if (argument === '--firmware') {
+      options.firmwareVersion = value;
+    } else if (Object.prototype.hasOwnProperty.call(NUMERIC_OPTIONS, argument)) {
+      const number = Number(value);
+      if (!Number.isFinite(number) || number < 0) {
+        throw new Error(`${argument} must be a non-negative number, got "${value}"`);
+      }
+      options[NUMERIC_OPTIONS[argument]!] = number;
+    } else {
+      throw new Error(`Unknown option ${argument}`);
+    }
+  }
+
+  if (paths.length === 0) {
+    throw new Error('At least one hardware definition dump is required');
+  }
+  return { paths, options };
+}
+
+/**
+ * Start a simulator from command line arguments. Stops cleanly on SIGINT and SIGTERM.
+ */
+export async function main(argv: ReadonlyArray<string> = process.argv.slice(2)): Promise<IntelliCenterSimulator> {
+  const { paths, options } = parseSimulatorArguments(argv);
+  const simulation = new PanelSimulation(await loadHardwareDumps(paths), options);
+  const simulator = new IntelliCenterSimulator(simulation, { log: message => process.stdout.write(`${message}\n`), ...options });
+  await simulator.start();
+
+  const shutdown = () => {
+    simulator.stop().then(() => process.exit(0));
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+  return simulator;
+}
+
+/* eslint-disable-next-line no-undef */
+if (require.main === module) {
+  main().catch(error => {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n\n${SIMULATOR_USAGE}\n`);
+    process.exit(1);
+  });
+}
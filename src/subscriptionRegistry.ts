@@ -0,0 +1,76 @@
+/**
+ * Registry of the RequestParamList subscriptions made during discovery
+ */
+
+import { CircuitStatusMessage } from './types';
+
+export type Subscription = {
+  objnam: string;
+  keys: ReadonlyArray<string>;
+};
+
+/**
+ * Remembers which keys are subscribed for each object so they can be replayed after a reconnect.
+ * The registry only counts as complete once a discovery run has finished registering its subscriptions.
+ */
+export class SubscriptionRegistry {
+  private subscriptions: Map<string, Set<string>> = new Map();
+  private complete = false;
+
+  add(objnam: string, keys: ReadonlyArray<string>): void {
+    const existing = this.subscriptions.get(objnam) ?? new Set<string>();
+    keys.forEach(key => existing.add(key));
+    this.subscriptions.set(objnam, existing);
+  }
+
+  /**
+   * Forget the subscription of an object that is no longer configured
+   */
+  remove(objnam: string): void {
+    this.subscriptions.delete(objnam);
+  }
+
+  /**
+   * Forget all subscriptions before a discovery run registers them again
+   */
+  reset(): void {
+    this.subscriptions.clear();
+    this.complete = false;
+  }
+
+  markComplete(): void {
+    this.complete = true;
+  }
+
+  /**
+   * True when a finished discovery left subscriptions that can be replayed instead of discovering again
+   */
+  canReplay(): boolean {
+    return this.complete && this.subscriptions.size > 0;
+  }
+
+  entries(): Subscription[] {
+    return [...this.subscriptions].map(([objnam, keys]) => ({ objnam, keys: [...keys] }));
+  }
+
+  /**
+   * Objects that a state refresh did not report. IntelliCenter answers unknown objects by echoing
+   * each requested key back as its value, so those count as missing too.
+   */
+  findMissing(objectList: ReadonlyArray<CircuitStatusMessage>): string[] {
+    const reported = new Map(objectList.filter(obj => obj.objnam).map(obj => [obj.objnam!, obj.params ?? {}]));
+
+    return [...this.subscriptions.keys()].filter(objnam => {
+      const params = reported.get(objnam);
+      if (!params) {
+        return true;
+      }
+      const entries = Object.entries(params);
+      return entries.length > 0 && entries.every(([key, value]) => key === value);
+    });
+  }
+
+  get size(): number {
+    return this.subscriptions.size;
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Recording of IntelliCenter protocol traffic and offline replay of recordings
+ */
+
+import { Buffer } from 'buffer';
+import EventEmitter from 'events';
+import { createWriteStream, promises as fs, WriteStream } from 'fs';
+import { IntelliCenterTransport, TransportConnectOptions, TransportEvent } from './transport';
+import { TransportType } from './types';
+
+export enum TrafficDirection {
+  Inbound = 'in',
+  Outbound = 'out',
+}
+
+/**
+ * One line of a recording. Inbound data is stored as received, so replay exercises the same framing.
+ */
+export interface TrafficEntry {
+  time: string;
+  /** Milliseconds since the recorder started */
+  elapsedMs: number;
+  direction: TrafficDirection;
+  data: string;
+}
+
+/**
+ * Appends every message to a JSONL file. The file is replaced each time the recorder starts.
+ */
+export class TrafficRecorder {
+  private readonly stream: WriteStream;
+  private readonly startedAt = Date.now();
+
+  constructor(readonly filePath: string) {
+    // The path is built from the Homebridge storage path and a fixed file name
+    /* eslint-disable-next-line security/detect-non-literal-fs-filename */
+    this.stream = createWriteStream(filePath, { flags: 'w' });
+    // A failed write must not take down the platform; the recording is only a debugging aid
+    this.stream.on('error', () => {});
+  }
+
+  record(direction: TrafficDirection, data: Buffer | string): void {
+    const now = Date.now();
+    const entry: TrafficEntry = {
+      time: new Date(now).toISOString(),
+      elapsedMs: now - this.startedAt,
+      direction,
+      data: typeof data === 'string' ? data : Buffer.from(data).toString(),
+    };
+    this.stream.write(`${JSON.stringify(entry)}\n`);
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.stream.end(() => resolve()));
+  }
+}
+
+// Recorded in place of a username or password sent during the login
+export const REDACTED_CREDENTIAL = '[redacted]';
+
+/**
+ * Wraps a network transport and records what passes through it. It sits below the login, so a recording shows the
+ * login prompts and replies; the username and password sent in answer are recorded as REDACTED_CREDENTIAL.
+ */
+export class RecordingTransport extends EventEmitter implements IntelliCenterTransport {
+  private credentials: string[] = [];
+
+  constructor(
+    private readonly inner: IntelliCenterTransport,
+    private readonly recorder: TrafficRecorder,
+  ) {
+    super();
+    for (const event of Object.values(TransportEvent)) {
+      this.inner.on(event, (...args: unknown[]) => {
+        if (event === TransportEvent.Data && args[0] !== undefined) {
+          this.recorder.record(TrafficDirection.Inbound, args[0] as Buffer | string);
+        }
+        // Keep the inner transport's guard against unhandled 'error' events
+        if (event !== TransportEvent.Error || this.listenerCount(event) > 0) {
+          this.emit(event, ...args);
+        }
+      });
+    }
+  }
+
+  get type(): TransportType {
+    return this.inner.type;
+  }
+
+  connect(options: TransportConnectOptions): Promise<void> {
+    this.credentials = [options.username, options.password].filter((credential): credential is string => !!credential);
+    return this.inner.connect(options);
+  }
+
+  send(data: string): Promise<unknown> {
+    // The login sends each credential on a line of its own
+    const line = data.replace(/\r?\n$/, '');
+    this.recorder.record(TrafficDirection.Outbound, this.credentials.includes(line) ? `${REDACTED_CREDENTIAL}\n` : data);
+    return this.inner.send(data);
+  }
+
+  destroy(): Promise<void> | void {
+    return this.inner.destroy();
+  }
+}
+
+/**
+ * Read a recording. Blank lines are skipped; anything else that is not an entry is an error.
+ */
+export async function loadTraffic(filePath: string): Promise<TrafficEntry[]> {
+  /* eslint-disable-next-line security/detect-non-literal-fs-filename */
+  const text = await fs.readFile(filePath, 'utf8');
+  const entries: TrafficEntry[] = [];
+
+  text.split('\n').forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    let entry: TrafficEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new Error(`${filePath}:${index + 1} is not valid JSON`);
+    }
+    if (!Object.values(TrafficDirection).includes(entry.direction) || typeof entry.data !== 'string' || !Number.isFinite(entry.elapsedMs)) {
+      throw new Error(`${filePath}:${index + 1} is not a traffic entry`);
+    }
+    entries.push(entry);
+  });
+
+  return entries;
+}
+
+/**
+ * Plays the inbound side of a recording back with its original timing instead of connecting to a panel.
+ * Commands sent by the platform are matched in order to the recorded ones, and replayed answers carry the
+ * new message IDs so awaited commands settle as they did live.
+ */
+export class ReplayTransport extends EventEmitter implements IntelliCenterTransport {
+  readonly type = TransportType.Replay;
+  private timers: NodeJS.Timeout[] = [];
+  private recordedCommands: Array<{ command: string; messageID: string }> = [];
+  private nextCommand = 0;
+  private messageIds: Map<string, string> = new Map();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  async connect(_options?: TransportConnectOptions): Promise<void> {
+    const entries = await loadTraffic(this.filePath);
+    this.destroy();
+    this.recordedCommands = entries
+      .filter(entry => entry.direction === TrafficDirection.Outbound)
+      .map(entry => parseCommand(entry.data))
+      .filter((command): command is { command: string; messageID: string } => command !== null);
+
+    this.emit(TransportEvent.Connect);
+    this.emit(TransportEvent.Ready);
+
+    const inbound = entries.filter(entry => entry.direction === TrafficDirection.Inbound);
+    const start = entries[0]?.elapsedMs ?? 0;
+    for (const entry of inbound) {
+      this.timers.push(
+        setTimeout(() => this.emit(TransportEvent.Data, Buffer.from(this.withLiveIds(entry.data))), entry.elapsedMs - start),
+      );
+    }
+  }
+
+  async send(data: string): Promise<void> {
+    const sent = parseCommand(data);
+    if (!sent) {
+      return;
+    }
+    const index = this.recordedCommands.findIndex((recorded, i) => i >= this.nextCommand && recorded.command === sent.command);
+    if (index >= 0) {
+      this.messageIds.set(this.recordedCommands[index]!.messageID, sent.messageID);
+      this.nextCommand = index + 1;
+    }
+  }
+
+  destroy(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers = [];
+    this.nextCommand = 0;
+    this.messageIds.clear();
+  }
+
+  private withLiveIds(data: string): string {
+    let text = data;
+    for (const [recorded, live] of this.messageIds) {
+      text = text.split(recorded).join(live);
+    }
+    return text;
+  }
+}
+
+function parseCommand(data: string): { command: string; messageID: string } | null {
+  try {
+    const message = JSON.parse(data);
+    if (typeof message?.command !== 'string' || typeof message?.messageID !== 'string') {
+      return null;
+    }
+    return { command: message.command, messageID: message.messageID };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,378 @@
+/**
+ * Connection transports for the IntelliCenter JSON protocol
+ */
+
+import { Buffer } from 'buffer';
+import EventEmitter from 'events';
+import { Telnet } from 'telnet-client';
+import WebSocket from 'ws';
+import { LOGIN_STEP_TIMEOUT_MS, TELNET_PORT, WEBSOCKET_PORT } from './constants';
+import { TransportType } from './types';
+
+/**
+ * Events emitted by every transport. The platform subscribes to these names only,
+ * so framing, reconnect and send logic stay independent of the underlying protocol.
+ */
+export enum TransportEvent {
+  Data = 'data',
+  Connect = 'connect',
+  Ready = 'ready',
+  LoginFailed = 'failedlogin',
+  Close = 'close',
+  Error = 'error',
+  End = 'end',
+  ResponseReady = 'responseready',
+}
+
+export interface TransportConnectOptions {
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+}
+
+export interface IntelliCenterTransport {
+  readonly type: TransportType;
+  connect(options: TransportConnectOptions): Promise<void>;
+  send(data: string): Promise<unknown>;
+  destroy(): Promise<void> | void;
+  on(event: TransportEvent, listener: (...args: unknown[]) => void): this;
+  removeAllListeners(event?: TransportEvent): this;
+}
+
+/**
+ * Transport over the raw socket interface (port 6681) using telnet-client.
+ */
+export class TelnetTransport extends EventEmitter implements IntelliCenterTransport {
+  readonly type = TransportType.Telnet;
+  private readonly telnet: Telnet;
+
+  constructor() {
+    super();
+    this.telnet = new Telnet();
+    for (const event of Object.values(TransportEvent)) {
+      this.telnet.on(event, (...args: unknown[]) => this.forward(event, args));
+    }
+  }
+
+  async connect(options: TransportConnectOptions): Promise<void> {
+    await this.telnet.connect({
+      host: options.host,
+      port: options.port,
+      negotiationMandatory: false,
+      timeout: 1500,
+      debug: true,
+      // The login exchange is handled by LoginTransport, which knows IntelliCenter's prompts
+      disableLogon: true,
+    });
+  }
+
+  send(data: string): Promise<string> {
+    return this.telnet.send(data);
+  }
+
+  destroy(): Promise<void> {
+    return this.telnet.destroy();
+  }
+
+  private forward(event: TransportEvent, args: unknown[]): void {
+    // An unhandled 'error' event would throw once the platform has detached its listeners
+    if (event === TransportEvent.Error && this.listenerCount(event) === 0) {
+      return;
+    }
+    this.emit(event, ...args);
+  }
+}
+
+/**
+ * Transport over the IntelliCenter WebSocket interface (port 6680).
+ * Each WebSocket message carries one JSON document; it is re-emitted as a newline
+ * terminated Buffer so the platform's line framing treats both transports alike.
+ */
+export class WebSocketTransport extends EventEmitter implements IntelliCenterTransport {
+  readonly type = TransportType.WebSocket;
+  private socket: WebSocket | null = null;
+
+  connect(options: TransportConnectOptions): Promise<void> {
+    this.detachSocket();
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(`ws://${options.host}:${options.port}`);
+      let opened = false;
+      this.socket = socket;
+
+      socket.on('open', () => {
+        opened = true;
+        this.emit(TransportEvent.Connect);
+        this.emit(TransportEvent.Ready);
+        resolve();
+      });
+
+      socket.on('message', (data: WebSocket.RawData) => {
+        const text = data.toString();
+        this.emit(TransportEvent.Data, Buffer.from(text.endsWith('\n') ? text : `${text}\n`));
+      });
+
+      socket.on('error', error => {
+        if (!opened) {
+          reject(error);
+          return;
+        }
+        if (this.listenerCount(TransportEvent.Error) > 0) {
+          this.emit(TransportEvent.Error, error);
+        }
+      });
+
+      socket.on('close', (code: number, reason: Buffer) => {
+        if (this.socket === socket) {
+          this.socket = null;
+        }
+        if (opened) {
+          this.emit(TransportEvent.End, `code ${code}${reason.length ? ` (${reason.toString()})` : ''}`);
+          this.emit(TransportEvent.Close);
+        }
+      });
+    });
+  }
+
+  send(data: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+        reject(new Error('WebSocket connection is not open'));
+        return;
+      }
+      this.socket.send(data.trimEnd(), error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  destroy(): void {
+    this.detachSocket();
+  }
+
+  private detachSocket(): void {
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.removeAllListeners();
+      socket.on('error', () => {}); // Ignore errors raised while tearing down
+      socket.terminate();
+    }
+  }
+}
+
+export enum LoginFailureReason {
+  Rejected = 'IntelliCenter rejected the configured username or password',
+  CredentialsRequired = 'IntelliCenter asked for a username and password, but none are configured',
+  NoUsernamePrompt = 'IntelliCenter did not ask for a username; remove the username and password if the panel does not need them',
+  NoPasswordPrompt = 'IntelliCenter did not ask for the password after the username was sent',
+  NoLoginReply = 'IntelliCenter did not answer after the password was sent',
+  Closed = 'IntelliCenter closed the connection during login',
+}
+
+export class LoginFailedError extends Error {
+  constructor(public readonly reason: LoginFailureReason) {
+    super(`IntelliCenter login failed: ${reason}`);
+    this.name = 'LoginFailedError';
+  }
+}
+
+enum LoginStage {
+  AwaitingPrompt,
+  SentUsername,
+  SentPassword,
+  Open,
+  // The login failed and the connection is being torn down; nothing more is passed on until the next connect
+  Failed,
+}
+
+// Unverified: no login exchange from a password-protected panel has been captured yet, so these match the usual
+// telnet-style prompts and rejections loosely. A recordTraffic recording includes the exchange, with the credentials
+// redacted. Rejections are only looked for in the prompt text before any JSON, so protocol data cannot fail a login.
+const USERNAME_PROMPT = /(user ?name|login)[: ]*$/i;
+const PASSWORD_PROMPT = /password[: ]*$/i;
+const LOGIN_REJECTED = /failedlogin|login failed|invalid|incorrect|denied/i;
+
+/**
+ * Answers IntelliCenter's login prompts when credentials are configured. Connect and Ready are held back and
+ * connect() does not resolve until the panel has accepted the credentials, so nothing is sent before that.
+ * Without credentials the connection is passed through, but a login prompt is reported as a failed login.
+ * The credentials are sent straight to the wrapped transport and never appear in events or errors.
+ */
+export class LoginTransport extends EventEmitter implements IntelliCenterTransport {
+  private stage = LoginStage.Open;
+  private credentials: { username: string; password: string } | null = null;
+  private received = '';
+  private timer: NodeJS.Timeout | null = null;
+  private pending: { resolve: () => void; reject: (error: LoginFailedError) => void } | null = null;
+
+  constructor(private readonly inner: IntelliCenterTransport) {
+    super();
+    for (const event of Object.values(TransportEvent)) {
+      this.inner.on(event, (...args: unknown[]) => this.handleInner(event, args));
+    }
+  }
+
+  get type(): TransportType {
+    return this.inner.type;
+  }
+
+  async connect(options: TransportConnectOptions): Promise<void> {
+    this.clearTimer();
+    this.received = '';
+    this.credentials = options.username && options.password ? { username: options.username, password: options.password } : null;
+    if (!this.credentials) {
+      this.stage = LoginStage.Open;
+      return this.inner.connect(options);
+    }
+
+    this.stage = LoginStage.AwaitingPrompt;
+    const login = new Promise<void>((resolve, reject) => {
+      this.pending = { resolve, reject };
+    });
+    // The login may fail before the wrapped transport has finished connecting and login is awaited
+    login.catch(() => {});
+    try {
+      await this.inner.connect(options);
+    } catch (error) {
+      this.pending = null;
+      this.stage = LoginStage.Open;
+      throw error;
+    }
+    if (this.stage === LoginStage.AwaitingPrompt) {
+      this.startTimer(() => this.fail(LoginFailureReason.NoUsernamePrompt));
+    }
+    return login;
+  }
+
+  send(data: string): Promise<unknown> {
+    return this.inner.send(data);
+  }
+
+  destroy(): Promise<void> | void {
+    this.clearTimer();
+    return this.inner.destroy();
+  }
+
+  private handleInner(event: TransportEvent, args: unknown[]): void {
+    if (this.stage === LoginStage.Failed) {
+      return;
+    }
+    if (this.stage === LoginStage.Open) {
+      if (event === TransportEvent.Data && !this.credentials && this.isLoginPrompt(args[0])) {
+        this.fail(LoginFailureReason.CredentialsRequired);
+        return;
+      }
+      this.forward(event, args);
+      return;
+    }
+
+    switch (event) {
+      case TransportEvent.Data:
+        this.received += Buffer.from(args[0] as Buffer | string).toString();
+        this.advance();
+        break;
+      case TransportEvent.Close:
+      case TransportEvent.End:
+        this.fail(LoginFailureReason.Closed);
+        break;
+      case TransportEvent.Connect:
+      case TransportEvent.Ready:
+        // Announced once the login has been accepted
+        break;
+      default:
+        this.forward(event, args);
+    }
+  }
+
+  private advance(): void {
+    const text = this.received;
+    const json = text.indexOf('{');
+    const prompt = json >= 0 ? text.slice(0, json) : text;
+    if (
+      prompt.split(/\r?\n/).some(line => LOGIN_REJECTED.test(line)) ||
+      (this.stage === LoginStage.SentPassword && (USERNAME_PROMPT.test(prompt) || PASSWORD_PROMPT.test(prompt)))
+    ) {
+      this.fail(LoginFailureReason.Rejected);
+    } else if (this.stage === LoginStage.AwaitingPrompt && USERNAME_PROMPT.test(prompt)) {
+      this.answer(this.credentials!.username, LoginStage.SentUsername, () => this.fail(LoginFailureReason.NoPasswordPrompt));
+    } else if (this.stage === LoginStage.SentUsername && PASSWORD_PROMPT.test(prompt)) {
+      this.answer(this.credentials!.password, LoginStage.SentPassword, () => this.fail(LoginFailureReason.NoLoginReply));
+    } else if (this.stage !== LoginStage.SentUsername && (json >= 0 || (this.stage === LoginStage.SentPassword && text.includes('\n')))) {
+      // The panel has moved on to the JSON protocol, either after accepting the password or without asking for one
+      this.succeed(json >= 0 ? text.slice(json) : '');
+    }
+  }
+
+  private answer(secret: string, stage: LoginStage, onTimeout: () => void): void {
+    this.stage = stage;
+    this.received = '';
+    this.startTimer(onTimeout);
+    // telnet-client resolves a send with the next data received; the exchange is driven by Data events instead
+    Promise.resolve(this.inner.send(`${secret}\n`)).catch(() => {});
+  }
+
+  private succeed(remainder: string): void {
+    this.clearTimer();
+    this.stage = LoginStage.Open;
+    this.received = '';
+    const pending = this.pending;
+    this.pending = null;
+    this.emit(TransportEvent.Connect);
+    this.emit(TransportEvent.Ready);
+    if (remainder) {
+      this.emit(TransportEvent.Data, Buffer.from(remainder));
+    }
+    pending?.resolve();
+  }
+
+  /**
+   * Credentials that are wrong or missing are reported as a failed login; other failures only fail connect()
+   */
+  private fail(reason: LoginFailureReason): void {
+    this.clearTimer();
+    this.stage = LoginStage.Failed;
+    this.received = '';
+    const pending = this.pending;
+    this.pending = null;
+    if (reason === LoginFailureReason.Rejected || reason === LoginFailureReason.CredentialsRequired) {
+      this.emit(TransportEvent.LoginFailed, reason);
+    }
+    this.inner.destroy();
+    pending?.reject(new LoginFailedError(reason));
+  }
+
+  private isLoginPrompt(data: unknown): boolean {
+    const text = data === undefined ? '' : Buffer.from(data as Buffer | string).toString();
+    return !text.includes('{') && USERNAME_PROMPT.test(text);
+  }
+
+  private startTimer(onTimeout: () => void): void {
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      onTimeout();
+    }, LOGIN_STEP_TIMEOUT_MS);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private forward(event: TransportEvent, args: unknown[]): void {
+    if (event === TransportEvent.Error && this.listenerCount(event) === 0) {
+      return;
+    }
+    this.emit(event, ...args);
+  }
+}
+
+export function createTransport(type: TransportType): IntelliCenterTransport {
+  return type === TransportType.WebSocket ? new WebSocketTransport() : new TelnetTransport();
+}
+
+export function getDefaultPort(type: TransportType): number {
+  return type === TransportType.WebSocket ? WEBSOCKET_PORT : TELNET_PORT;
+}
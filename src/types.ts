@@ -4,6 +4,7 @@ export enum IntelliCenterResponseStatus {
 
 export enum IntelliCenterRequestCommand {
   GetQuery = 'GetQuery',
+  GetParamList = 'GetParamList',
   RequestParamList = 'RequestParamList',
   SetParamList = 'SetParamList',
 }
@@ -11,6 +12,7 @@ export enum IntelliCenterRequestCommand {
 export enum IntelliCenterResponseCommand {
   SendQuery = 'SendQuery',
   NotifyList = 'NotifyList',
+  SendParamList = 'SendParamList',
   WriteParamList = 'WriteParamList',
   Error = 'Error',
 }
@@ -75,6 +77,7 @@ type IntelliCenterMessage = {
 export type IntelliCenterRequest = {
   command: IntelliCenterRequestCommand;
   arguments?: string;
+  condition?: string;
   objectList?: ReadonlyArray<CircuitStatusSubscribeRequest | CircuitStatusMessage>;
 } & IntelliCenterMessage;
 
@@ -95,6 +98,16 @@ export type HardwareDefinitionAnswer = {
 
 export type DiscoveryAnswer = HardwareDefinitionAnswer | Record<string, unknown>;
 
+// How the panels of a GetHardwareDefinition answer are delivered
+export enum HardwareDefinitionShape {
+  // The answer is the array of panels
+  Array = 'array',
+  // The answer is an object whose panels property holds them
+  Panels = 'panels',
+  // Not known for this firmware; either is accepted
+  Either = 'either',
+}
+
 export type IntelliCenterResponse = {
   command: IntelliCenterResponseCommand;
   description: string;
@@ -193,19 +206,87 @@ export type Heater = {
   coolingEnabled?: boolean;
 } & Circuit;
 
+export enum ValveAssignment {
+  None = 'NONE',
+  Intake = 'INTAKE',
+  Return = 'RETURN',
+}
+
+export type Valve = {
+  id: string;
+  name: string;
+  objectType: ObjectType;
+  type: string;
+  // Circuit whose status drives the actuator; undefined when none is set
+  circuitId?: string;
+  assignment: string;
+  delay: boolean;
+  // Actuator position, when IntelliCenter reports one
+  position?: boolean;
+  // Status IntelliCenter reports for a driving circuit that has no accessory
+  circuitStatus?: CircuitStatus;
+  [key: string]: unknown;
+} & BaseCircuit;
+
 export type Module = {
   id: string;
   features: ReadonlyArray<Circuit>;
   bodies: ReadonlyArray<Body>;
   heaters: ReadonlyArray<Heater>;
+  valves?: ReadonlyArray<Valve>;
 };
 
+export enum ChemControllerType {
+  IntelliChem = 'ICHEM',
+  IntelliChlor = 'ICHLOR',
+}
+
+export enum ChemSetpoint {
+  Ph = 'ph',
+  Orp = 'orp',
+  PoolOutput = 'poolOutput',
+  SpaOutput = 'spaOutput',
+}
+
+export type ChemController = {
+  id: string;
+  name: string;
+  objectType: ObjectType;
+  type: ChemControllerType;
+  bodyIds: ReadonlyArray<string>;
+  ph?: number;
+  orp?: number;
+  phSetpoint?: number;
+  orpSetpoint?: number;
+  // Tank levels from 0 (empty) to CHEM_TANK_CAPACITY
+  phTank?: number;
+  orpTank?: number;
+  phHigh?: boolean;
+  phLow?: boolean;
+  orpHigh?: boolean;
+  orpLow?: boolean;
+  noFlow?: boolean;
+  // IntelliChlor: salt in PPM, output in percent
+  salt?: number;
+  output?: number;
+  poolOutput?: number;
+  spaOutput?: number;
+  superChlorinate?: boolean;
+  superChlorinateHours?: number;
+  lowSalt?: boolean;
+  checkCell?: boolean;
+  // Setpoint limits from the controller definition, when it gives them
+  setpointLimits?: Partial<Record<ChemSetpoint, { min: number; max: number }>>;
+  [key: string]: unknown;
+} & BaseCircuit;
+
 export type Panel = {
   id: string;
   modules: ReadonlyArray<Module>;
   features: ReadonlyArray<Circuit>;
   pumps: ReadonlyArray<Pump>;
   sensors: ReadonlyArray<Sensor>;
+  chemControllers?: ReadonlyArray<ChemController>;
 };
 
 export enum ObjectType {
@@ -217,16 +298,27 @@ export enum ObjectType {
   CircuitGroup = 'CIRCGRP',
   Pump = 'PUMP',
   Sensor = 'SENSE',
+  Chem = 'CHEM',
+  Valve = 'VALVE',
 }
 
 export const CircuitTypes = new Set([ObjectType.Circuit, ObjectType.Body]) as ReadonlySet<ObjectType>;
 export const SensorTypes = new Set([ObjectType.Sensor]) as ReadonlySet<ObjectType>;
+export const ChemTypes = new Set([ObjectType.Chem]) as ReadonlySet<ObjectType>;
+export const ValveTypes = new Set([ObjectType.Valve]) as ReadonlySet<ObjectType>;
 
 export enum TemperatureUnits {
   C = 'C',
   F = 'F',
 }
 
+export enum TransportType {
+  Telnet = 'telnet',
+  WebSocket = 'websocket',
+  // Plays back a traffic recording; selected by replayFile rather than the transport option
+  Replay = 'replay',
+}
+
 export class Color {
   public static readonly White = new Color('WHITER', 0, 0);
   public static readonly Red = new Color('REDR', 0, 100);
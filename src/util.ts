@@ -1,9 +1,13 @@
 import {
   BaseCircuit,
   Body,
+  ChemController,
+  ChemControllerType,
+  ChemSetpoint,
   Circuit,
   CircuitType,
   Color,
+  HardwareDefinitionShape,
   Heater,
   IntelliCenterParams,
   Module,
@@ -13,6 +17,8 @@ import {
   PumpCircuit,
   Sensor,
   TemperatureSensorType,
+  Valve,
+  ValveAssignment,
 } from './types';
 import { Logger } from 'homebridge';
 
@@ -72,12 +78,19 @@ const safeGetParams = (obj: IntelliCenterObject): Record<string, unknown> => {
 };
 
 import {
+  BODY_KEY,
+  CHECK_CELL_KEY,
+  CHEM_SETPOINT_PARAMS,
+  CHEM_SETPOINT_RANGES,
   CIRCUIT_KEY,
   CIRCUITS_KEY,
   COOL_KEY,
   GPM_KEY,
   HTMODE_KEY,
   LAST_TEMP_KEY,
+  LOW_SALT_KEY,
+  NO_CIRCUIT_ID,
+  NO_FLOW_KEY,
   OBJ_ID_KEY,
   OBJ_LIST_KEY,
   OBJ_MAX_FLOW_KEY,
@@ -87,10 +100,29 @@ import {
   OBJ_NAME_KEY,
   OBJ_SUBTYPE_KEY,
   OBJ_TYPE_KEY,
+  ORP_HIGH_KEY,
+  ORP_KEY,
+  ORP_LOW_KEY,
+  ORP_SETPOINT_KEY,
+  ORP_TANK_KEY,
+  OUTPUT_KEY,
   PARAMS_KEY,
+  PH_HIGH_KEY,
+  PH_KEY,
+  PH_LOW_KEY,
+  PH_SETPOINT_KEY,
+  PH_TANK_KEY,
+  POOL_OUTPUT_KEY,
   RPM_KEY,
+  SALT_KEY,
   SELECT_KEY,
+  SPA_OUTPUT_KEY,
   SPEED_KEY,
+  SUPER_CHLORINATE_HOURS_KEY,
+  SUPER_CHLORINATE_KEY,
+  VALVE_ASSIGNMENT_KEY,
+  VALVE_DELAY_KEY,
+  VALVE_POSITION_KEY,
   VARIABLE_SPEED_PUMP_SUBTYPES,
   WATTS_KEY,
 } from './constants';
@@ -143,6 +175,31 @@ const pumpParams = new Map([
   ['watts', WATTS_KEY],
 ]) as ReadonlyMap<string, string>;
 
+const chemReadingParams = new Map([
+  ['ph', PH_KEY],
+  ['orp', ORP_KEY],
+  ['phSetpoint', PH_SETPOINT_KEY],
+  ['orpSetpoint', ORP_SETPOINT_KEY],
+  ['phTank', PH_TANK_KEY],
+  ['orpTank', ORP_TANK_KEY],
+  ['salt', SALT_KEY],
+  ['output', OUTPUT_KEY],
+  ['poolOutput', POOL_OUTPUT_KEY],
+  ['spaOutput', SPA_OUTPUT_KEY],
+  ['superChlorinateHours', SUPER_CHLORINATE_HOURS_KEY],
+]) as ReadonlyMap<string, string>;
+
+const chemAlarmParams = new Map([
+  ['phHigh', PH_HIGH_KEY],
+  ['phLow', PH_LOW_KEY],
+  ['orpHigh', ORP_HIGH_KEY],
+  ['orpLow', ORP_LOW_KEY],
+  ['noFlow', NO_FLOW_KEY],
+  ['superChlorinate', SUPER_CHLORINATE_KEY],
+  ['lowSalt', LOW_SALT_KEY],
+  ['checkCell', CHECK_CELL_KEY],
+]) as ReadonlyMap<string, string>;
+
 export const updateCircuit = (circuit: Circuit | Body, params: IntelliCenterParams): void => {
   circuitParams.forEach((value, key) => {
     if (params[value]) {
@@ -180,6 +237,108 @@ export const updatePump = (pump: Pump, params: IntelliCenterParams): void => {
   });
 };
 
+/**
+ * Readings arrive as strings; one that is not a number is ignored. Alarms are ON or OFF.
+ */
+export const updateChemController = (chem: ChemController, params: IntelliCenterParams): void => {
+  chemReadingParams.forEach((value, key) => {
+    const reading = Number(params[value]);
+    if (params[value] !== undefined && params[value] !== '' && !isNaN(reading)) {
+      chem[key] = reading;
+    }
+  });
+  chemAlarmParams.forEach((value, key) => {
+    if (params[value]) {
+      chem[key] = params[value] === 'ON';
+    }
+  });
+};
+
+/**
+ * Setpoint limits given by a chemistry controller definition. A limit is only used when both ends are numbers
+ * and the range is not empty.
+ */
+const readChemSetpointLimits = (params: Record<string, unknown>): ChemController['setpointLimits'] => {
+  const limits: NonNullable<ChemController['setpointLimits']> = {};
+  for (const setpoint of Object.values(ChemSetpoint)) {
+    const { minKey, maxKey } = CHEM_SETPOINT_PARAMS[setpoint] ?? {};
+    const min = minKey ? safeGetNumberProperty(params, minKey, NaN) : NaN;
+    const max = maxKey ? safeGetNumberProperty(params, maxKey, NaN) : NaN;
+    if (Number.isFinite(min) && Number.isFinite(max) && min < max) {
+      limits[setpoint] = { min, max };
+    }
+  }
+  return Object.keys(limits).length > 0 ? limits : undefined;
+};
+
+/**
+ * The range of a setpoint: the limits from the controller definition when it has them, otherwise the defaults for
+ * its type. Undefined when the controller type has no such setpoint.
+ */
+export const getChemSetpointRange = (
+  chem: ChemController,
+  setpoint: ChemSetpoint,
+): { min: number; max: number; step: number } | undefined => {
+  const range = CHEM_SETPOINT_RANGES.get(chem.type)?.[setpoint];
+  const limits = chem.setpointLimits?.[setpoint];
+  return range && limits ? { ...range, ...limits } : range;
+};
+
+/**
+ * The driving circuit, assignment and delay come with the valve definition; the position is ON or OFF when
+ * IntelliCenter reports one, and anything else is ignored.
+ */
+export const updateValve = (valve: Valve, params: IntelliCenterParams): void => {
+  const circuitId = params[CIRCUIT_KEY];
+  if (typeof circuitId === 'string' && circuitId) {
+    valve.circuitId = circuitId === NO_CIRCUIT_ID ? undefined : circuitId;
+  }
+  const assignment = params[VALVE_ASSIGNMENT_KEY];
+  if (typeof assignment === 'string' && assignment) {
+    valve.assignment = assignment.toUpperCase();
+  }
+  if (params[VALVE_DELAY_KEY]) {
+    valve.delay = params[VALVE_DELAY_KEY] === 'ON';
+  }
+  if (params[VALVE_POSITION_KEY] === 'ON' || params[VALVE_POSITION_KEY] === 'OFF') {
+    valve.position = params[VALVE_POSITION_KEY] === 'ON';
+  }
+};
+
+/**
+ * Valves come in the module's circuit list. The VALVES query leaves out OBJTYP, so a valve is also recognised by
+ * its assignment.
+ */
+const transformValves = (circuits: unknown[]): ReadonlyArray<Valve> => {
+  if (!circuits) {
+    return [];
+  }
+  return circuits
+    .filter(obj => {
+      if (!isIntelliCenterObject(obj)) {
+        return false;
+      }
+      const params = safeGetParams(obj);
+      const objectType = safeGetStringPropertyOptional(params, OBJ_TYPE_KEY);
+      return objectType === ObjectType.Valve || (!objectType && safeGetStringPropertyOptional(params, VALVE_ASSIGNMENT_KEY) !== undefined);
+    })
+    .map(valveObj => {
+      const obj = valveObj as IntelliCenterObject;
+      const params = safeGetParams(obj);
+      const subtype = safeGetStringPropertyOptional(params, OBJ_SUBTYPE_KEY);
+      const valve = {
+        id: safeGetStringProperty(obj, OBJ_ID_KEY),
+        name: safeGetStringProperty(params, OBJ_NAME_KEY),
+        objectType: ObjectType.Valve,
+        type: subtype ? subtype.toUpperCase() : undefined,
+        assignment: ValveAssignment.None,
+        delay: false,
+      } as Valve;
+      updateValve(valve, params as IntelliCenterParams);
+      return valve;
+    });
+};
+
 const transformBodies = (circuits: unknown[]): ReadonlyArray<Body> => {
   if (!circuits) {
     return [];
@@ -451,6 +610,41 @@ const transformTempSensors = (sensors: unknown[]): ReadonlyArray<Sensor> => {
     });
 };
 
+const transformChemControllers = (objList: unknown[]): ReadonlyArray<ChemController> => {
+  if (!objList) {
+    return [];
+  }
+  return objList
+    .filter(chemObj => {
+      if (!isIntelliCenterObject(chemObj)) {
+        return false;
+      }
+      const params = safeGetParams(chemObj);
+      return (
+        safeGetStringProperty(params, OBJ_TYPE_KEY) === ObjectType.Chem &&
+        Object.values(ChemControllerType).includes(safeGetStringProperty(params, OBJ_SUBTYPE_KEY).toUpperCase() as ChemControllerType)
+      );
+    })
+    .map(chemObj => {
+      const obj = chemObj as IntelliCenterObject;
+      const params = safeGetParams(obj);
+      const bodyIds = safeGetStringProperty(params, BODY_KEY);
+      const chem = {
+        id: safeGetStringProperty(obj, OBJ_ID_KEY),
+        name: safeGetStringProperty(params, OBJ_NAME_KEY),
+        objectType: ObjectType.Chem,
+        type: safeGetStringProperty(params, OBJ_SUBTYPE_KEY).toUpperCase(),
+        bodyIds: bodyIds ? bodyIds.split(' ') : [],
+      } as ChemController;
+      const setpointLimits = readChemSetpointLimits(params);
+      if (setpointLimits) {
+        chem.setpointLimits = setpointLimits;
+      }
+      updateChemController(chem, params as IntelliCenterParams);
+      return chem;
+    });
+};
+
 const transformPumpCircuits = (pump: Pump, pumpObjList: unknown[]): ReadonlyArray<PumpCircuit> => {
   if (!pumpObjList) {
     return [];
@@ -490,22 +684,35 @@ const transformModules = (modules: unknown[], includeAllCircuits = false, logger
         features: transformFeatures(circuits, includeAllCircuits, logger),
         bodies: transformBodies(circuits),
         heaters: transformHeaters(circuits),
+        valves: transformValves(circuits),
         type: subtype ? subtype.toUpperCase() : undefined,
       } as Module;
     });
 };
 
+/**
+ * The panels of a hardware definition answer. The shape comes from the firmware's capability profile; an answer
+ * in the other shape is still read, with a warning, rather than losing every accessory to a wrong table entry.
+ */
+const getPanelList = (response: Record<string, unknown>, shape: HardwareDefinitionShape, logger?: Logger): unknown[] => {
+  const isArray = Array.isArray(response);
+  if (shape !== HardwareDefinitionShape.Either && isArray !== (shape === HardwareDefinitionShape.Array)) {
+    logger?.warn(`Hardware definition answer is not shaped as expected for this firmware (${shape}). Reading it anyway.`);
+  }
+  return isArray ? response : safeGetArrayProperty(response, 'panels');
+};
+
 export const transformPanels = (
   response: Record<string, unknown> | null,
   includeAllCircuits = false,
   logger?: Logger,
+  shape = HardwareDefinitionShape.Either,
 ): ReadonlyArray<Panel> => {
   if (!response) {
     return [];
   }
 
-  // Handle response format - could be array or object with array property
-  const responseArray = Array.isArray(response) ? response : safeGetArrayProperty(response, 'panels');
+  const responseArray = getPanelList(response, shape, logger);
   if (!responseArray || !Array.isArray(responseArray)) {
     return [];
   }
@@ -527,10 +734,18 @@ export const transformPanels = (
         features: transformFeatures(objList, includeAllCircuits, logger), // Some features are directly on panel.
         pumps: transformPumps(objList, logger),
         sensors: transformTempSensors(objList),
+        chemControllers: transformChemControllers(objList),
       } as Panel;
     });
 };
 
+const stepDecimals = (step: number): number => (String(step).split('.')[1] ?? '').length;
+
+/**
+ * Round a value to the nearest step, e.g. 7.43 to 7.4 for steps of 0.1
+ */
+export const roundToStep = (value: number, step: number): number => Number((Math.round(value / step) * step).toFixed(stepDecimals(step)));
+
 export const fahrenheitToCelsius = (fValue: number): number => {
   return (fValue - 32) / 1.8;
 };
@@ -556,6 +771,22 @@ export const getIntelliBriteColor = (hue: number, saturation: number): Color =>
   return color;
 };
 
+/**
+ * Logger that tags every message with a prefix, e.g. the controller name when several panels are configured
+ */
+export const prefixLogger = (log: Logger, prefix: string): Logger => {
+  const tag = (message: string) => `[${prefix}] ${message}`;
+  return {
+    prefix,
+    info: (message: string, ...parameters: unknown[]) => log.info(tag(message), ...parameters),
+    success: (message: string, ...parameters: unknown[]) => log.success(tag(message), ...parameters),
+    warn: (message: string, ...parameters: unknown[]) => log.warn(tag(message), ...parameters),
+    error: (message: string, ...parameters: unknown[]) => log.error(tag(message), ...parameters),
+    debug: (message: string, ...parameters: unknown[]) => log.debug(tag(message), ...parameters),
+    log: (level: Parameters<Logger['log']>[0], message: string, ...parameters: unknown[]) => log.log(level, tag(message), ...parameters),
+  } as Logger;
+};
+
 export const isObject = (object: Record<string, unknown>) => {
   if (typeof object === 'object') {
     for (const key in object) {
@@ -634,6 +865,8 @@ if (typeof process !== 'undefined' && process.env.NODE_ENV === 'test') {
     transformFeatures,
     transformPumps,
     transformTempSensors,
+    transformChemControllers,
+    transformValves,
     transformPumpCircuits,
     transformModules,
   };
@@ -0,0 +1,123 @@
+import { CharacteristicValue, PlatformAccessory, Service, WithUUID } from 'homebridge';
+
+import { PentairPlatform } from './platform';
+import { MANUFACTURER } from './settings';
+import { Valve } from './types';
+
+const MODEL = 'Valve Actuator';
+const VALVE_SUBTYPE = 'valve';
+const POSITION_SUBTYPE = 'position';
+
+/**
+ * Valve Accessory
+ * IntelliCenter turns a valve with the circuit that drives it, so a valve driven by a circuit is a HomeKit valve that
+ * switches that circuit. Intake and return valves follow the pool/spa switch and valves without a circuit cannot be
+ * moved from the panel; they, and every valve in read-only mode, are contact sensors that open when the valve turns.
+ */
+export class ValveAccessory {
+  private readonly valveService?: Service;
+  private readonly contactService?: Service;
+
+  constructor(
+    private readonly platform: PentairPlatform,
+    private readonly accessory: PlatformAccessory,
+  ) {
+    this.accessory
+      .getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, MANUFACTURER)
+      .setCharacteristic(this.platform.Characteristic.Model, MODEL)
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, `VALVE-${this.valve.id}`);
+
+    if (this.platform.canControlValve(this.valve)) {
+      this.removeService(this.platform.Service.ContactSensor, POSITION_SUBTYPE);
+      this.valveService = this.getOrAddService(this.platform.Service.Valve, VALVE_SUBTYPE);
+      this.valveService.setCharacteristic(this.platform.Characteristic.ValveType, this.platform.Characteristic.ValveType.GENERIC_VALVE);
+      this.valveService
+        .getCharacteristic(this.platform.Characteristic.Active)
+        .onGet(this.getActive.bind(this))
+        .onSet(this.setActive.bind(this));
+      this.valveService.getCharacteristic(this.platform.Characteristic.InUse).onGet(this.getInUse.bind(this));
+    } else {
+      this.removeService(this.platform.Service.Valve, VALVE_SUBTYPE);
+      this.contactService = this.getOrAddService(this.platform.Service.ContactSensor, POSITION_SUBTYPE);
+      this.contactService.getCharacteristic(this.platform.Characteristic.ContactSensorState).onGet(this.getContact.bind(this));
+    }
+
+    this.updatePosition();
+  }
+
+  private get valve(): Valve {
+    return this.accessory.context.valve as Valve;
+  }
+
+  private getOrAddService(type: WithUUID<typeof Service>, subtype: string): Service {
+    const service = this.accessory.getServiceById(type, subtype) || this.accessory.addService(type, this.accessory.displayName, subtype);
+    service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.displayName);
+    return service;
+  }
+
+  // A valve that becomes controllable or read-only after a configuration change swaps its service
+  private removeService(type: WithUUID<typeof Service>, subtype: string) {
+    const service = this.accessory.getServiceById(type, subtype);
+    if (service) {
+      this.platform.log.info(`Changing how valve ${this.accessory.displayName} is shown in HomeKit`);
+      this.accessory.removeService(service);
+    }
+  }
+
+  async getActive(): Promise<CharacteristicValue> {
+    return this.getActiveState();
+  }
+
+  async getInUse(): Promise<CharacteristicValue> {
+    return this.platform.isValveOpen(this.valve)
+      ? this.platform.Characteristic.InUse.IN_USE
+      : this.platform.Characteristic.InUse.NOT_IN_USE;
+  }
+
+  async getContact(): Promise<CharacteristicValue> {
+    return this.getContactState();
+  }
+
+  async setActive(value: CharacteristicValue) {
+    const open = value === this.platform.Characteristic.Active.ACTIVE;
+    try {
+      await this.platform.setValve(this.valve.id, open);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.platform.log.warn(`Could not ${open ? 'open' : 'close'} valve ${this.accessory.displayName}: ${reason}`);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  private getActiveState(): CharacteristicValue {
+    return this.platform.isValveOpen(this.valve)
+      ? this.platform.Characteristic.Active.ACTIVE
+      : this.platform.Characteristic.Active.INACTIVE;
+  }
+
+  private getContactState(): CharacteristicValue {
+    return this.platform.isValveOpen(this.valve)
+      ? this.platform.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED
+      : this.platform.Characteristic.ContactSensorState.CONTACT_DETECTED;
+  }
+
+  /**
+   * Push the actuator position to HomeKit (called when the valve or the circuit driving it changes)
+   */
+  updatePosition() {
+    const open = this.platform.isValveOpen(this.valve);
+    if (this.valveService) {
+      this.valveService.updateCharacteristic(this.platform.Characteristic.Active, this.getActiveState());
+      this.valveService.updateCharacteristic(
+        this.platform.Characteristic.InUse,
+        open ? this.platform.Characteristic.InUse.IN_USE : this.platform.Characteristic.InUse.NOT_IN_USE,
+      );
+    }
+    this.contactService?.updateCharacteristic(this.platform.Characteristic.ContactSensorState, this.getContactState());
+    this.platform.log.debug(
+      `${this.accessory.displayName}: ${open ? 'turned' : 'not turned'}, driven by ${this.valve.circuitId ?? 'no circuit'}, ` +
+        `assigned to ${this.valve.assignment}${this.valve.delay ? ', with delay' : ''}`,
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { LSI_BALANCED_LIMIT, LSI_HISTORY_DAYS } from './constants';
+
+/**
+ * Langelier Saturation Index (LSI) of the water, from the pH and temperature IntelliCenter reports and the
+ * alkalinity, calcium hardness, cyanuric acid and TDS the pool owner measures and configures
+ */
+
+/** Configured water test results, in PPM */
+export interface WaterChemistry {
+  alkalinity: number;
+  calciumHardness: number;
+  cyanuricAcid: number;
+  totalDissolvedSolids: number;
+}
+
+export enum WaterBalanceStatus {
+  Corrosive = 'corrosive',
+  Balanced = 'balanced',
+  Scaling = 'scaling',
+}
+
+/**
+ * The LSI readings of one UTC day
+ */
+export interface LsiDay {
+  date: string;
+  min: number;
+  max: number;
+  last: number;
+  readings: number;
+}
+
+/**
+ * Kept in the accessory context, so the history survives restarts
+ */
+export interface WaterBalance {
+  lsi: number;
+  status: WaterBalanceStatus;
+  temperatureC: number;
+  history: ReadonlyArray<LsiDay>;
+}
+
+/**
+ * LSI = pH - pHs with pHs = 9.3 + A + B - C - D, where cyanurate alkalinity (about a third of the cyanuric acid)
+ * is taken off the total alkalinity. Rounded to 2 decimals.
+ */
+export function calculateLsi(ph: number, temperatureC: number, chemistry: WaterChemistry): number {
+  const carbonateAlkalinity = chemistry.alkalinity - chemistry.cyanuricAcid / 3;
+  if (carbonateAlkalinity <= 0 || chemistry.calciumHardness <= 0 || chemistry.totalDissolvedSolids <= 0) {
+    return NaN;
+  }
+  const a = (Math.log10(chemistry.totalDissolvedSolids) - 1) / 10;
+  const b = -13.12 * Math.log10(temperatureC + 273.15) + 34.55;
+  const c = Math.log10(chemistry.calciumHardness) - 0.4;
+  const d = Math.log10(carbonateAlkalinity);
+  return Math.round((ph - (9.3 + a + b - c - d)) * 100) / 100;
+}
+
+export function classifyLsi(lsi: number): WaterBalanceStatus {
+  if (lsi < -LSI_BALANCED_LIMIT) {
+    return WaterBalanceStatus.Corrosive;
+  }
+  return lsi > LSI_BALANCED_LIMIT ? WaterBalanceStatus.Scaling : WaterBalanceStatus.Balanced;
+}
+
+const isLsiDay = (value: unknown): value is LsiDay => {
+  const day = value as LsiDay | null | undefined;
+  return typeof day?.date === 'string' && typeof day.min === 'number' && typeof day.max === 'number' && typeof day.readings === 'number';
+};
+
+/**
+ * Add a reading to today's entry and keep the last LSI_HISTORY_DAYS days. Malformed entries are dropped.
+ */
+export function recordLsi(history: unknown, lsi: number, now = Date.now()): ReadonlyArray<LsiDay> {
+  const days = Array.isArray(history) ? history.filter(isLsiDay) : [];
+  const date = new Date(now).toISOString().slice(0, 10);
+  const today = days.find(day => day.date === date);
+  const updated: LsiDay = today
+    ? { date, min: Math.min(today.min, lsi), max: Math.max(today.max, lsi), last: lsi, readings: today.readings + 1 }
+    : { date, min: lsi, max: lsi, last: lsi, readings: 1 };
+  return [...days.filter(day => day !== today), updated].slice(-LSI_HISTORY_DAYS);
+}
+
+/**
+ * e.g. "LSI 0.42 (scaling)"
+ */
+export function describeWaterBalance(balance: Pick<WaterBalance, 'lsi' | 'status'>): string {
+  return `LSI ${balance.lsi.toFixed(2)} (${balance.status})`;
+}
@@ -0,0 +1,88 @@
+/**
+ * Verification of optimistic HomeKit writes against IntelliCenter notifications
+ */
+
+import { Logger } from 'homebridge';
+import { IntelliCenterParams } from './types';
+
+interface PendingWrite {
+  expected: string;
+  rollback: () => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Tracks values written to IntelliCenter that HomeKit already shows as applied. Each write is confirmed
+ * by a NotifyList/WriteParamList reporting the expected value for the same objnam and key; otherwise the
+ * rollback supplied by the accessory runs once the verification window expires.
+ */
+export class WriteVerifier {
+  private pending: Map<string, PendingWrite> = new Map();
+
+  constructor(
+    private readonly windowMs: number,
+    private readonly log: Logger,
+  ) {}
+
+  /**
+   * Wait for objnam to report key = expected. A newer write to the same key replaces the older one.
+   */
+  expect(objnam: string, key: string, expected: string, rollback: () => void): void {
+    this.cancel(objnam, key);
+
+    const id = this.pendingId(objnam, key);
+    const timer = setTimeout(() => {
+      this.pending.delete(id);
+      this.log.warn(
+        `IntelliCenter did not confirm ${key}=${expected} for ${objnam} within ${this.windowMs}ms. ` + 'Rolling back HomeKit state.',
+      );
+      rollback();
+    }, this.windowMs);
+
+    this.pending.set(id, { expected, rollback, timer });
+  }
+
+  /**
+   * Resolve pending writes confirmed by an update from IntelliCenter
+   */
+  confirm(objnam: string, params: IntelliCenterParams): void {
+    for (const [key, value] of Object.entries(params)) {
+      const id = this.pendingId(objnam, key);
+      const entry = this.pending.get(id);
+      if (entry && `${value}` === entry.expected) {
+        clearTimeout(entry.timer);
+        this.pending.delete(id);
+        this.log.debug(`IntelliCenter confirmed ${key}=${value} for ${objnam}`);
+      }
+    }
+  }
+
+  /**
+   * Stop waiting for a write without rolling it back
+   */
+  cancel(objnam: string, key: string): void {
+    const id = this.pendingId(objnam, key);
+    const entry = this.pending.get(id);
+    if (entry) {
+      clearTimeout(entry.timer);
+      this.pending.delete(id);
+    }
+  }
+
+  isPending(objnam: string, key: string): boolean {
+    return this.pending.has(this.pendingId(objnam, key));
+  }
+
+  clear(): void {
+    this.pending.forEach(entry => clearTimeout(entry.timer));
+    this.pending.clear();
+  }
+
+  get size(): number {
+    return this.pending.size;
+  }
+
+  private pendingId(objnam: string, key: string): string {
+    return `${objnam}.${key}`;
+  }
+}
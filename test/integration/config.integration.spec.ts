@@ -24,8 +24,7 @@ const mockLogger = {
   error: jest.fn(),
 } as unknown as Logger;
 
-// Note: username/password are no longer required from user config.
-// IntelliCenter telnet API does not require authentication.
+// Note: username/password are optional; most panels accept local connections without them.
 const baseConfig: PlatformConfig = {
   name: 'PentairIntelliCenter',
   platform: 'PentairIntelliCenter',
@@ -73,21 +72,21 @@ describe('Configuration Integration Tests', () => {
       expect(mockLogger.error).not.toHaveBeenCalled();
     });
 
-    it('should handle missing IP address', () => {
+    it('should accept a missing IP address and rely on network discovery', () => {
       const configWithoutIP = { ...baseConfig };
       delete (configWithoutIP as any).ipAddress;
 
       createTrackedPlatform(mockLogger, configWithoutIP, mockAPI);
 
-      expect(mockLogger.error).toHaveBeenCalledWith(expect.stringContaining('ipAddress is required and must be a string'));
+      expect(mockLogger.error).not.toHaveBeenCalled();
     });
 
-    it('should handle empty IP address', () => {
+    it('should accept an empty IP address and rely on network discovery', () => {
       const configWithEmptyIP = { ...baseConfig, ipAddress: '' };
 
       createTrackedPlatform(mockLogger, configWithEmptyIP, mockAPI);
 
-      expect(mockLogger.error).toHaveBeenCalledWith(expect.stringContaining('ipAddress is required and must be a string'));
+      expect(mockLogger.error).not.toHaveBeenCalled();
     });
 
     it('should work without credentials (auth not required)', () => {
@@ -247,9 +246,9 @@ describe('Configuration Integration Tests', () => {
       expect(config.platform).toBeDefined();
       expect(config.ipAddress).toBeDefined();
 
-      // Username/password are hardcoded placeholders (auth not required)
-      expect(config.username).toBe('unused_placeholder');
-      expect(config.password).toBe('unused_placeholder_password');
+      // Credentials are optional and only needed for password-protected panels
+      expect(config.username).toBe('');
+      expect(config.password).toBe('');
     });
 
     it('should preserve all provided configuration values', () => {
@@ -267,9 +266,9 @@ describe('Configuration Integration Tests', () => {
       const platform = createTrackedPlatform(mockLogger, fullConfig, mockAPI);
       const config = platform.getConfig();
 
-      // Username/password are hardcoded placeholders (auth not required)
-      expect(config.username).toBe('unused_placeholder');
-      expect(config.password).toBe('unused_placeholder_password');
+      // Credentials are optional and only needed for password-protected panels
+      expect(config.username).toBe('');
+      expect(config.password).toBe('');
       expect(config.maxBufferSize).toBe(2048000);
       expect(config.temperatureUnits).toBe('C');
       expect(config.minimumTemperature).toBe(10);
@@ -1,6 +1,10 @@
 import { Server, Socket } from 'net';
+import { createServer } from 'http';
 import { EventEmitter } from 'events';
+import WebSocket, { WebSocketServer } from 'ws';
 import {
+  CircuitStatusMessage,
+  TransportType,
   IntelliCenterRequest,
   IntelliCenterResponse,
   IntelliCenterResponseStatus,
@@ -16,11 +20,22 @@ export interface MockIntelliCenterConfig {
   shouldFailLogin?: boolean;
   shouldDropConnections?: boolean;
   parseErrorRate?: number;
+  transport?: TransportType;
+}
+
+/**
+ * A connected client, independent of whether it arrived over raw TCP or WebSocket
+ */
+interface MockClient {
+  write(message: string): void;
+  destroy(): void;
+  isOpen(): boolean;
 }
 
 export class MockIntelliCenter extends EventEmitter {
   private server: Server;
-  private connections: Set<Socket> = new Set();
+  private webSocketServer: WebSocketServer | null = null;
+  private connections: Set<MockClient> = new Set();
   private isRunning = false;
   private config: Required<MockIntelliCenterConfig>;
   private commandCount = 0;
@@ -47,36 +62,44 @@ export class MockIntelliCenter extends EventEmitter {
   constructor(config: MockIntelliCenterConfig = {}) {
     super();
     this.config = {
-      port: config.port || 6681,
+      port: config.port ?? 6681,
       username: config.username || 'admin',
       password: config.password || 'admin',
       responseDelay: config.responseDelay || 50,
       shouldFailLogin: config.shouldFailLogin || false,
       shouldDropConnections: config.shouldDropConnections || false,
       parseErrorRate: config.parseErrorRate || 0,
+      transport: config.transport || TransportType.Telnet,
     };
 
-    this.server = new Server();
-    this.setupServerHandlers();
+    if (this.config.transport === TransportType.WebSocket) {
+      this.server = createServer();
+      this.setupWebSocketHandlers();
+    } else {
+      this.server = new Server();
+      this.setupServerHandlers();
+    }
+
+    this.server.on('error', error => {
+      this.emit('serverError', error);
+    });
   }
 
   private setupServerHandlers(): void {
     this.server.on('connection', (socket: Socket) => {
-      this.connections.add(socket);
-      this.connectedClients++;
-      this.emit('clientConnected', this.connectedClients);
-
-      socket.on('data', data => this.handleClientData(socket, data));
+      const client: MockClient = {
+        write: message => socket.write(message),
+        destroy: () => socket.destroy(),
+        isOpen: () => !socket.destroyed,
+      };
+      this.addClient(client);
 
-      socket.on('close', () => {
-        this.connections.delete(socket);
-        this.connectedClients--;
-        this.emit('clientDisconnected', this.connectedClients);
-      });
+      socket.on('data', data => this.handleClientData(client, data));
+      socket.on('close', () => this.removeClient(client));
 
       socket.on('error', error => {
         this.emit('socketError', error);
-        this.connections.delete(socket);
+        this.connections.delete(client);
         this.connectedClients--;
       });
 
@@ -85,13 +108,40 @@ export class MockIntelliCenter extends EventEmitter {
         socket.write('Username: ');
       }
     });
+  }
 
-    this.server.on('error', error => {
-      this.emit('serverError', error);
+  private setupWebSocketHandlers(): void {
+    this.webSocketServer = new WebSocketServer({ server: this.server as ReturnType<typeof createServer> });
+
+    this.webSocketServer.on('connection', (socket: WebSocket) => {
+      // The WebSocket interface has no login prompt; each message is one JSON document
+      const client: MockClient = {
+        write: message => socket.send(message.trimEnd()),
+        destroy: () => socket.terminate(),
+        isOpen: () => socket.readyState === WebSocket.OPEN,
+      };
+      this.addClient(client);
+
+      socket.on('message', data => this.handleClientData(client, Buffer.from(data.toString())));
+      socket.on('close', () => this.removeClient(client));
+      socket.on('error', error => this.emit('socketError', error));
     });
   }
 
-  private async handleClientData(socket: Socket, data: Buffer): Promise<void> {
+  private addClient(client: MockClient): void {
+    this.connections.add(client);
+    this.connectedClients++;
+    this.emit('clientConnected', this.connectedClients);
+  }
+
+  private removeClient(client: MockClient): void {
+    if (this.connections.delete(client)) {
+      this.connectedClients--;
+      this.emit('clientDisconnected', this.connectedClients);
+    }
+  }
+
+  private async handleClientData(socket: MockClient, data: Buffer): Promise<void> {
     const message = data.toString().trim();
     this.commandCount++;
     this.emit('commandReceived', message, this.commandCount);
@@ -105,7 +155,7 @@ export class MockIntelliCenter extends EventEmitter {
     if (message === this.config.password) {
       if (this.config.shouldFailLogin) {
         socket.write('failedlogin\n');
-        socket.end();
+        socket.destroy();
         return;
       }
       socket.write('Login successful\n');
@@ -119,7 +169,7 @@ export class MockIntelliCenter extends EventEmitter {
 
       // Simulate network delay
       setTimeout(() => {
-        if (!socket.destroyed) {
+        if (socket.isOpen()) {
           socket.write(JSON.stringify(response) + '\n');
         }
       }, this.config.responseDelay);
@@ -297,7 +347,7 @@ export class MockIntelliCenter extends EventEmitter {
       },
     };
 
-    return deviceType ? mockHardware[deviceType] || {} : mockHardware.CIRCUITS;
+    return deviceType ? (mockHardware as Record<string, Record<string, unknown>>)[deviceType] || {} : mockHardware.CIRCUITS;
   }
 
   private handleSetParamList(request: IntelliCenterRequest, baseResponse: IntelliCenterResponse): IntelliCenterResponse {
@@ -311,15 +361,15 @@ export class MockIntelliCenter extends EventEmitter {
     }
 
     // Update device state and send notification
-    for (const obj of request.objectList) {
-      if (obj.params) {
-        this.updateDeviceState(obj.objnam, obj.params);
+    for (const obj of request.objectList as ReadonlyArray<CircuitStatusMessage>) {
+      if (obj.objnam && obj.params) {
+        this.updateDeviceState(obj.objnam, obj.params as Record<string, string>);
       }
     }
 
     // Send back confirmation and then notification
     setTimeout(() => {
-      this.sendNotification(request.objectList![0]);
+      this.sendNotification(request.objectList![0] as CircuitStatusMessage);
     }, 100);
 
     return baseResponse;
@@ -330,7 +380,7 @@ export class MockIntelliCenter extends EventEmitter {
     return baseResponse;
   }
 
-  private updateDeviceState(objId: string, params: Record<string, unknown>): void {
+  private updateDeviceState(objId: string, params: Record<string, string>): void {
     if (this.deviceState.circuits.has(objId)) {
       const circuit = this.deviceState.circuits.get(objId)!;
       if (params.STATUS) circuit.status = params.STATUS;
@@ -352,7 +402,7 @@ export class MockIntelliCenter extends EventEmitter {
     }
   }
 
-  private sendNotification(obj: Record<string, unknown>): void {
+  private sendNotification(obj: CircuitStatusMessage): void {
     const notification: IntelliCenterResponse = {
       response: IntelliCenterResponseStatus.Ok,
       command: IntelliCenterResponseCommand.NotifyList,
@@ -372,7 +422,7 @@ export class MockIntelliCenter extends EventEmitter {
 
   private broadcast(message: string): void {
     for (const socket of this.connections) {
-      if (!socket.destroyed) {
+      if (socket.isOpen()) {
         socket.write(message);
       }
     }
@@ -402,6 +452,7 @@ export class MockIntelliCenter extends EventEmitter {
         socket.destroy();
       }
       this.connections.clear();
+      this.webSocketServer?.close();
 
       this.server.close(() => {
         this.isRunning = false;
@@ -411,6 +462,11 @@ export class MockIntelliCenter extends EventEmitter {
     });
   }
 
+  public getPort(): number {
+    const address = this.server.address();
+    return typeof address === 'object' && address ? address.port : this.config.port;
+  }
+
   public getStats() {
     return {
       isRunning: this.isRunning,
@@ -420,7 +476,7 @@ export class MockIntelliCenter extends EventEmitter {
     };
   }
 
-  public simulateDeviceUpdate(objId: string, params: Record<string, unknown>): void {
+  public simulateDeviceUpdate(objId: string, params: Record<string, string>): void {
     this.updateDeviceState(objId, params);
     this.sendNotification({ objnam: objId, params });
   }
@@ -7,6 +7,7 @@
 
 import { API, Logger, PlatformAccessory, PlatformConfig } from 'homebridge';
 import { PentairPlatform } from '../../src/platform';
+import { DISCOVER_COMMANDS } from '../../src/constants';
 import { Telnet } from 'telnet-client';
 import {
   IntelliCenterResponse,
@@ -55,9 +56,9 @@ jest.mock('../../src/configValidation', () => ({
       warnings: [],
       sanitizedConfig: {
         ipAddress: '192.168.1.100',
-        // Username/password are hardcoded placeholders (auth not required)
-        username: 'unused_placeholder',
-        password: 'unused_placeholder_password',
+        // No credentials configured, so no login is attempted
+        username: '',
+        password: '',
         temperatureUnits: 'F',
         minimumTemperature: 40,
         maximumTemperature: 104,
@@ -65,6 +66,20 @@ jest.mock('../../src/configValidation', () => ({
         airTemp: true,
         includeAllCircuits: false,
         maxBufferSize: 1000000,
+        writeVerificationWindow: 10,
+        deadLetterReplayMaxAge: 300,
+        reconnectBaseDelay: 2,
+        reconnectMaxDelay: 300,
+        keepaliveInterval: 120,
+        pollingInterval: 0,
+        orphanRemovalDiscoveries: 1,
+        orphanGracePeriod: 0,
+        orphanRemovalDryRun: false,
+        totalAlkalinity: 0,
+        calciumHardness: 0,
+        cyanuricAcid: 0,
+        totalDissolvedSolids: 1000,
+        controllers: [],
       },
     }),
   },
@@ -154,7 +169,7 @@ describe('Platform Integration Tests', () => {
 
     MockedTelnet.mockImplementation(() => mockTelnetInstance);
 
-    // Mock config (username/password no longer required - auth not used)
+    // Mock config (no username/password, as for a panel without a local password)
     mockConfig = {
       platform: 'PentairIntelliCenter',
       name: 'Test Platform',
@@ -207,9 +222,7 @@ describe('Platform Integration Tests', () => {
         negotiationMandatory: false,
         timeout: 1500,
         debug: true,
-        // Username/password are hardcoded placeholders (auth not required)
-        username: 'unused_placeholder',
-        password: 'unused_placeholder_password',
+        disableLogon: true,
       });
     });
 
@@ -372,17 +385,12 @@ describe('Platform Integration Tests', () => {
         },
       ];
 
-      // Simulate discovery sequence - each response increments the commands sent
-      (platform as any).discoverCommandsSent = []; // Start empty
-
-      for (let i = 0; i < mockDiscoveryResponses.length; i++) {
-        // Add command as if it was sent
-        (platform as any).discoverCommandsSent.push(['CIRCUITS', 'PUMPS', 'CHEMS', 'VALVES', 'HEATERS', 'SENSORS', 'GROUPS'][i]);
-        const response = mockDiscoveryResponses[i];
-        if (response) {
-          platform.handleDiscoveryResponse(response);
-        }
-      }
+      // IntelliCenter answers each category with its response
+      jest
+        .spyOn(platform, 'sendCommand')
+        .mockImplementation(async command => mockDiscoveryResponses[DISCOVER_COMMANDS.indexOf(command.arguments!)]!);
+      (platform as any).startDiscoverySession(DISCOVER_COMMANDS);
+      await jest.advanceTimersByTimeAsync(0);
 
       // Verify accessories were registered
       expect(mockAPI.registerPlatformAccessories).toHaveBeenCalled();
@@ -405,9 +413,10 @@ describe('Platform Integration Tests', () => {
         answer: { panels: [] },
       };
 
-      // Complete discovery cycle with empty data - simulate all 7 discovery commands completed
-      (platform as any).discoverCommandsSent = ['CIRCUITS', 'PUMPS', 'CHEMS', 'VALVES', 'HEATERS', 'SENSORS', 'GROUPS'];
-      platform.handleDiscoveryResponse(response);
+      // Complete discovery cycle with empty data for all 7 discovery categories
+      jest.spyOn(platform, 'sendCommand').mockResolvedValue(response);
+      (platform as any).startDiscoverySession(DISCOVER_COMMANDS);
+      await jest.advanceTimersByTimeAsync(0);
 
       // Should not crash and should log completion
       expect(mockLogger.debug).toHaveBeenCalledWith(expect.stringContaining('Discovery commands completed'));
@@ -771,14 +780,12 @@ describe('Platform Integration Tests', () => {
       ];
 
       // Process all discovery responses
-      (platform as any).discoverCommandsSent = [];
-      for (let i = 0; i < discoveryResponses.length; i++) {
-        (platform as any).discoverCommandsSent.push(['CIRCUITS', 'PUMPS', 'CHEMS', 'VALVES', 'HEATERS', 'SENSORS', 'GROUPS'][i]);
-        const response = discoveryResponses[i];
-        if (response) {
-          platform.handleDiscoveryResponse(response);
-        }
-      }
+      const sendCommandSpy = jest
+        .spyOn(platform, 'sendCommand')
+        .mockImplementation(async command => discoveryResponses[DISCOVER_COMMANDS.indexOf(command.arguments!)]!);
+      (platform as any).startDiscoverySession(DISCOVER_COMMANDS);
+      await jest.advanceTimersByTimeAsync(0);
+      sendCommandSpy.mockRestore();
 
       // 3. Real-time updates working
       const updateResponse = {
@@ -847,7 +854,7 @@ describe('Platform Integration Tests', () => {
         isValid: true,
         errors: [],
         warnings: [],
-        sanitizedConfig: { ...vspConfig },
+        sanitizedConfig: { ...vspConfig, controllers: [] },
       });
 
       platform = createTrackedPlatform(mockLogger, vspConfig, mockAPI);
@@ -864,7 +871,7 @@ describe('Platform Integration Tests', () => {
         isValid: true,
         errors: [],
         warnings: [],
-        sanitizedConfig: { ...celsiusConfig },
+        sanitizedConfig: { ...celsiusConfig, controllers: [] },
       });
 
       platform = createTrackedPlatform(mockLogger, celsiusConfig, mockAPI);
@@ -0,0 +1,207 @@
+import { PlatformAccessory } from 'homebridge';
+import { ChemistryAccessory } from '../../src/chemistryAccessory';
+import { ChemController, ChemControllerType, ChemSetpoint, ObjectType } from '../../src/types';
+import { MANUFACTURER } from '../../src/settings';
+import { WaterBalanceStatus } from '../../src/waterBalance';
+import {
+  createMockAccessoryPlatform,
+  createMockService,
+  createMockServiceAccessory,
+  lastCharacteristicUpdate,
+  MockHapStatusError,
+  MockService,
+} from './testHelpers';
+
+const mockPlatform = createMockAccessoryPlatform({
+  setChemistrySetpoint: jest.fn(),
+  getWaterChemistry: jest.fn(),
+});
+
+describe('ChemistryAccessory', () => {
+  let services: Map<string, MockService>;
+  let accessoryInformation: MockService;
+  let accessory: PlatformAccessory;
+  let chem: ChemController;
+
+  const faultOf = (subtype: string) => lastCharacteristicUpdate(services, subtype, mockPlatform.Characteristic.StatusFault);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPlatform.getWaterChemistry as jest.Mock).mockReturnValue(undefined);
+    services = new Map();
+    accessoryInformation = createMockService();
+    chem = {
+      id: 'CHM01',
+      name: 'IntelliChem',
+      objectType: ObjectType.Chem,
+      type: ChemControllerType.IntelliChem,
+      bodyIds: ['B1101'],
+      ph: 7.4,
+      orp: 680,
+      phTank: 5,
+      orpTank: 6,
+      phSetpoint: 7.5,
+      orpSetpoint: 650,
+    };
+    accessory = createMockServiceAccessory('IntelliChem', { chem }, services, accessoryInformation);
+  });
+
+  it('should add a sensor for each reading and one for flow', () => {
+    new ChemistryAccessory(mockPlatform, accessory);
+
+    expect(accessoryInformation.setCharacteristic).toHaveBeenCalledWith('Manufacturer', MANUFACTURER);
+    expect(accessoryInformation.setCharacteristic).toHaveBeenCalledWith('SerialNumber', 'CHEM-CHM01');
+    expect(accessory.addService).toHaveBeenCalledWith('LightSensor', 'IntelliChem pH', 'ph');
+    expect(accessory.addService).toHaveBeenCalledWith('LightSensor', 'IntelliChem ORP', 'orp');
+    expect(accessory.addService).toHaveBeenCalledWith('LightSensor', 'IntelliChem Acid Tank', 'acid-tank');
+    expect(accessory.addService).toHaveBeenCalledWith('LightSensor', 'IntelliChem Chlorine Tank', 'chlorine-tank');
+    expect(accessory.addService).toHaveBeenCalledWith('ContactSensor', 'IntelliChem Flow', 'flow');
+  });
+
+  it('should reuse the services of a cached accessory', () => {
+    new ChemistryAccessory(mockPlatform, accessory);
+    (accessory.addService as jest.Mock).mockClear();
+
+    new ChemistryAccessory(mockPlatform, accessory);
+
+    expect(accessory.addService).not.toHaveBeenCalled();
+  });
+
+  it('should show readings and tank levels in percent', () => {
+    new ChemistryAccessory(mockPlatform, accessory);
+
+    expect(services.get('ph')!.updateCharacteristic).toHaveBeenCalledWith('CurrentAmbientLightLevel', 7.4);
+    expect(services.get('orp')!.updateCharacteristic).toHaveBeenCalledWith('CurrentAmbientLightLevel', 680);
+    expect(services.get('acid-tank')!.updateCharacteristic).toHaveBeenCalledWith('CurrentAmbientLightLevel', 83);
+    expect(services.get('chlorine-tank')!.updateCharacteristic).toHaveBeenCalledWith('CurrentAmbientLightLevel', 100);
+    expect(faultOf('acid-tank')).toBe(0);
+  });
+
+  it('should flag a low tank and a pH alarm as a fault', () => {
+    chem.phTank = 1;
+    chem.phLow = true;
+
+    new ChemistryAccessory(mockPlatform, accessory);
+
+    expect(faultOf('acid-tank')).toBe(1);
+    expect(faultOf('ph')).toBe(1);
+    expect(faultOf('chlorine-tank')).toBe(0);
+    expect(faultOf('orp')).toBe(0);
+  });
+
+  it('should open the flow sensor and flag a fault when there is no flow', () => {
+    chem.noFlow = true;
+
+    new ChemistryAccessory(mockPlatform, accessory);
+
+    expect(services.get('flow')!.updateCharacteristic).toHaveBeenCalledWith(mockPlatform.Characteristic.ContactSensorState, 1);
+    expect(faultOf('flow')).toBe(1);
+  });
+
+  it('should answer the light sensor minimum for a reading not reported yet', async () => {
+    delete chem.orp;
+    new ChemistryAccessory(mockPlatform, accessory);
+    const orp = services.get('orp')!;
+
+    expect(orp.updateCharacteristic).not.toHaveBeenCalledWith('CurrentAmbientLightLevel', expect.anything());
+    expect(orp.getCharacteristic).toHaveBeenNthCalledWith(1, 'CurrentAmbientLightLevel');
+    await expect(orp.onGet.mock.calls[0][0]()).resolves.toBe(0.0001);
+  });
+
+  describe('water balance', () => {
+    const chemistry = { alkalinity: 100, calciumHardness: 300, cyanuricAcid: 0, totalDissolvedSolids: 1000 };
+    const qualityOf = () =>
+      services
+        .get('water-balance')!
+        .updateCharacteristic.mock.calls.filter(([characteristic]) => characteristic === mockPlatform.Characteristic.AirQuality)
+        .pop()?.[1];
+
+    it('should not add the water balance sensor until water chemistry is configured', () => {
+      new ChemistryAccessory(mockPlatform, accessory);
+
+      expect(accessory.addService).not.toHaveBeenCalledWith('AirQualitySensor', expect.anything(), expect.anything());
+    });
+
+    it('should show balanced water as good and scaling water as poor with a fault', () => {
+      (mockPlatform.getWaterChemistry as jest.Mock).mockReturnValue(chemistry);
+      accessory.context.waterBalance = { lsi: 0.1, status: WaterBalanceStatus.Balanced, temperatureC: 27, history: [] };
+
+      new ChemistryAccessory(mockPlatform, accessory);
+      expect(accessory.addService).toHaveBeenCalledWith('AirQualitySensor', 'IntelliChem Water Balance', 'water-balance');
+      expect(qualityOf()).toBe(2);
+      expect(faultOf('water-balance')).toBe(0);
+
+      accessory.context.waterBalance = { lsi: 0.5, status: WaterBalanceStatus.Scaling, temperatureC: 27, history: [] };
+      new ChemistryAccessory(mockPlatform, accessory);
+      expect(qualityOf()).toBe(5);
+      expect(faultOf('water-balance')).toBe(1);
+    });
+
+    it('should report unknown quality before the LSI is known', () => {
+      (mockPlatform.getWaterChemistry as jest.Mock).mockReturnValue(chemistry);
+
+      new ChemistryAccessory(mockPlatform, accessory);
+
+      expect(qualityOf()).toBe(0);
+      expect(faultOf('water-balance')).toBe(0);
+    });
+
+    it('should remove the water balance sensor when water chemistry is no longer configured', () => {
+      (mockPlatform.getWaterChemistry as jest.Mock).mockReturnValueOnce(chemistry);
+      new ChemistryAccessory(mockPlatform, accessory);
+
+      new ChemistryAccessory(mockPlatform, accessory);
+
+      expect(accessory.removeService).toHaveBeenCalledWith(services.get('water-balance'));
+    });
+  });
+
+  describe('setpoints', () => {
+    // A setpoint registers the On handler first, then the RotationSpeed one
+    const setHandler = (subtype: string, characteristic: 'On' | 'RotationSpeed') =>
+      services.get(subtype)!.onSet.mock.calls[characteristic === 'On' ? 0 : 1]![0];
+
+    it('should add a fan for each setpoint limited to the range and step of the controller', () => {
+      new ChemistryAccessory(mockPlatform, accessory);
+
+      expect(accessory.addService).toHaveBeenCalledWith('Fan', 'IntelliChem pH Setpoint', 'ph-setpoint');
+      expect(services.get('ph-setpoint')!.setProps).toHaveBeenCalledWith({ minValue: 7.0, maxValue: 7.6, minStep: 0.1 });
+      expect(services.get('orp-setpoint')!.setProps).toHaveBeenCalledWith({ minValue: 400, maxValue: 800, minStep: 10 });
+      expect(services.get('orp-setpoint')!.updateCharacteristic).toHaveBeenCalledWith('RotationSpeed', 650);
+    });
+
+    it('should set the setpoint through the platform', async () => {
+      new ChemistryAccessory(mockPlatform, accessory);
+
+      await setHandler('ph-setpoint', 'RotationSpeed')(7.3);
+
+      expect(mockPlatform.setChemistrySetpoint).toHaveBeenCalledWith('CHM01', ChemSetpoint.Ph, 7.3);
+    });
+
+    it('should report a rejected or unconfirmed setpoint to HomeKit', async () => {
+      new ChemistryAccessory(mockPlatform, accessory);
+      const setOrp = setHandler('orp-setpoint', 'RotationSpeed');
+
+      (mockPlatform.setChemistrySetpoint as jest.Mock).mockRejectedValueOnce(new RangeError('out of range'));
+      await expect(setOrp(900)).rejects.toMatchObject({ hapStatus: -70410 });
+
+      (mockPlatform.setChemistrySetpoint as jest.Mock).mockRejectedValueOnce(new Error('timed out'));
+      await expect(setOrp(700)).rejects.toMatchObject({ hapStatus: -70402 });
+      expect(mockPlatform.log.warn).toHaveBeenCalledWith('Could not set IntelliChem ORP Setpoint to 700: timed out');
+    });
+
+    it('should not let a setpoint be turned off', () => {
+      new ChemistryAccessory(mockPlatform, accessory);
+
+      expect(() => setHandler('ph-setpoint', 'On')(false)).toThrow(MockHapStatusError);
+    });
+
+    it('should not add setpoints for a controller type without known ranges', () => {
+      chem.type = 'OTHER' as ChemControllerType;
+
+      new ChemistryAccessory(mockPlatform, accessory);
+
+      expect(accessory.addService).not.toHaveBeenCalledWith('Fan', expect.anything(), expect.anything());
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { PlatformAccessory } from 'homebridge';
+import { ChlorinatorAccessory } from '../../src/chlorinatorAccessory';
+import { ChemController, ChemControllerType, ChemSetpoint, ObjectType } from '../../src/types';
+import { MANUFACTURER } from '../../src/settings';
+import { CHLORINATOR_DEFAULT_OUTPUT } from '../../src/constants';
+import {
+  createMockAccessoryPlatform,
+  createMockService,
+  createMockServiceAccessory,
+  lastCharacteristicUpdate,
+  MockHapStatusError,
+  MockService,
+} from './testHelpers';
+
+const mockPlatform = createMockAccessoryPlatform({
+  setChemistrySetpoint: jest.fn(),
+  setSuperChlorinate: jest.fn(),
+});
+
+describe('ChlorinatorAccessory', () => {
+  let services: Map<string, MockService>;
+  let accessoryInformation: MockService;
+  let accessory: PlatformAccessory;
+  let chem: ChemController;
+
+  const lastUpdate = (subtype: string, characteristic: unknown) => lastCharacteristicUpdate(services, subtype, characteristic);
+
+  // An output registers the On handler first, then the RotationSpeed one
+  const setHandler = (subtype: string, characteristic: 'On' | 'RotationSpeed') =>
+    services.get(subtype)!.onSet.mock.calls[characteristic === 'On' ? 0 : 1]![0];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    services = new Map();
+    accessoryInformation = createMockService();
+    chem = {
+      id: 'CHR01',
+      name: 'IntelliChlor',
+      objectType: ObjectType.Chem,
+      type: ChemControllerType.IntelliChlor,
+      bodyIds: ['B1101', 'B1202'],
+      salt: 3200,
+      output: 50,
+      poolOutput: 50,
+      spaOutput: 0,
+    };
+    accessory = createMockServiceAccessory('IntelliChlor', { chem }, services, accessoryInformation);
+  });
+
+  it('should add sensors, output fans and a super chlorinate switch', () => {
+    new ChlorinatorAccessory(mockPlatform, accessory);
+
+    expect(accessoryInformation.setCharacteristic).toHaveBeenCalledWith('Manufacturer', MANUFACTURER);
+    expect(accessoryInformation.setCharacteristic).toHaveBeenCalledWith('SerialNumber', 'CHLOR-CHR01');
+    expect(accessory.addService).toHaveBeenCalledWith('LightSensor', 'IntelliChlor Salt', 'salt');
+    expect(accessory.addService).toHaveBeenCalledWith('LightSensor', 'IntelliChlor Output', 'output');
+    expect(accessory.addService).toHaveBeenCalledWith('LightSensor', 'IntelliChlor Super Chlorinate Hours', 'super-chlorinate-hours');
+    expect(accessory.addService).toHaveBeenCalledWith('ContactSensor', 'IntelliChlor Cell', 'cell');
+    expect(accessory.addService).toHaveBeenCalledWith('Fan', 'IntelliChlor Pool Output', 'pool-output');
+    expect(accessory.addService).toHaveBeenCalledWith('Fan', 'IntelliChlor Spa Output', 'spa-output');
+    expect(accessory.addService).toHaveBeenCalledWith('Switch', 'IntelliChlor Super Chlorinate', 'super-chlorinate');
+    expect(services.get('pool-output')!.setProps).toHaveBeenCalledWith({ minValue: 0, maxValue: 100, minStep: 1 });
+  });
+
+  it('should show salt, output and the outputs of each body', () => {
+    new ChlorinatorAccessory(mockPlatform, accessory);
+
+    expect(lastUpdate('salt', 'CurrentAmbientLightLevel')).toBe(3200);
+    expect(lastUpdate('output', 'CurrentAmbientLightLevel')).toBe(50);
+    expect(lastUpdate('pool-output', 'RotationSpeed')).toBe(50);
+    expect(lastUpdate('pool-output', 'On')).toBe(true);
+    expect(lastUpdate('spa-output', 'On')).toBe(false);
+    expect(lastUpdate('cell', mockPlatform.Characteristic.ContactSensorState)).toBe(0);
+  });
+
+  it('should open the cell sensor and flag faults on low salt or check cell', () => {
+    chem.lowSalt = true;
+
+    new ChlorinatorAccessory(mockPlatform, accessory);
+
+    expect(lastUpdate('cell', mockPlatform.Characteristic.ContactSensorState)).toBe(1);
+    expect(lastUpdate('cell', mockPlatform.Characteristic.StatusFault)).toBe(1);
+    expect(lastUpdate('salt', mockPlatform.Characteristic.StatusFault)).toBe(1);
+    expect(lastUpdate('output', mockPlatform.Characteristic.StatusFault)).toBe(0);
+  });
+
+  it('should count down the super chlorination hours only while it runs', () => {
+    chem.superChlorinateHours = 12;
+    new ChlorinatorAccessory(mockPlatform, accessory);
+    expect(lastUpdate('super-chlorinate-hours', 'CurrentAmbientLightLevel')).toBe(0.0001);
+    expect(lastUpdate('super-chlorinate', 'On')).toBe(false);
+
+    chem.superChlorinate = true;
+    new ChlorinatorAccessory(mockPlatform, accessory);
+    expect(lastUpdate('super-chlorinate-hours', 'CurrentAmbientLightLevel')).toBe(12);
+    expect(lastUpdate('super-chlorinate', 'On')).toBe(true);
+  });
+
+  it('should set an output through the platform and set it to 0% when turned off', async () => {
+    new ChlorinatorAccessory(mockPlatform, accessory);
+
+    await setHandler('spa-output', 'RotationSpeed')(20);
+    await setHandler('pool-output', 'On')(false);
+    await setHandler('pool-output', 'On')(true);
+
+    expect(mockPlatform.setChemistrySetpoint).toHaveBeenCalledTimes(2);
+    expect(mockPlatform.setChemistrySetpoint).toHaveBeenCalledWith('CHR01', ChemSetpoint.SpaOutput, 20);
+    expect(mockPlatform.setChemistrySetpoint).toHaveBeenCalledWith('CHR01', ChemSetpoint.PoolOutput, 0);
+  });
+
+  it('should restore the last output, or the default, when an output at 0% is turned on', async () => {
+    chem.poolOutput = 30;
+    const chlorinator = new ChlorinatorAccessory(mockPlatform, accessory);
+    chem.poolOutput = 0;
+    chlorinator.updateReadings();
+
+    await setHandler('pool-output', 'On')(true);
+    await setHandler('spa-output', 'On')(true);
+
+    expect(mockPlatform.setChemistrySetpoint).toHaveBeenCalledWith('CHR01', ChemSetpoint.PoolOutput, 30);
+    expect(mockPlatform.setChemistrySetpoint).toHaveBeenCalledWith('CHR01', ChemSetpoint.SpaOutput, CHLORINATOR_DEFAULT_OUTPUT);
+  });
+
+  it('should report an unconfirmed output to HomeKit', async () => {
+    new ChlorinatorAccessory(mockPlatform, accessory);
+    (mockPlatform.setChemistrySetpoint as jest.Mock).mockRejectedValueOnce(new Error('timed out'));
+
+    await expect(setHandler('pool-output', 'RotationSpeed')(60)).rejects.toMatchObject({ hapStatus: -70402 });
+    expect(mockPlatform.log.warn).toHaveBeenCalledWith('Could not set IntelliChlor Pool Output to 60%: timed out');
+  });
+
+  it('should start super chlorination through the platform', async () => {
+    new ChlorinatorAccessory(mockPlatform, accessory);
+    const setSuperChlorinate = services.get('super-chlorinate')!.onSet.mock.calls[0]![0];
+
+    await setSuperChlorinate(true);
+    expect(mockPlatform.setSuperChlorinate).toHaveBeenCalledWith('CHR01', true);
+
+    (mockPlatform.setSuperChlorinate as jest.Mock).mockRejectedValueOnce(new Error('timed out'));
+    await expect(setSuperChlorinate(false)).rejects.toBeInstanceOf(MockHapStatusError);
+  });
+});
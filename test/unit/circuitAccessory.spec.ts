@@ -3,7 +3,14 @@ import { CircuitAccessory } from '../../src/circuitAccessory';
 import { PentairPlatform } from '../../src/platform';
 import { Circuit, CircuitStatus, CircuitType, Color, Module, Panel, PumpCircuit, PumpSpeedType, ObjectType } from '../../src/types';
 import { MANUFACTURER } from '../../src/settings';
-import { ACT_KEY, DEFAULT_BRIGHTNESS, DEFAULT_COLOR_TEMPERATURE, SPEED_KEY, STATUS_KEY } from '../../src/constants';
+import {
+  ACT_KEY,
+  DEFAULT_BRIGHTNESS,
+  DEFAULT_COLOR_TEMPERATURE,
+  HOMEKIT_WRITE_TIMEOUT_MS,
+  SPEED_KEY,
+  STATUS_KEY,
+} from '../../src/constants';
 
 // Mock Homebridge services and characteristics
 const mockService = {
@@ -52,7 +59,21 @@ const mockPlatform = {
     warn: jest.fn(),
     error: jest.fn(),
   },
+  api: {
+    hap: {
+      HapStatusError: class extends Error {
+        constructor(public readonly hapStatus: number) {
+          super(`HAP status ${hapStatus}`);
+        }
+      },
+      HAPStatus: { SERVICE_COMMUNICATION_FAILURE: -70402 },
+    },
+  },
   sendCommandNoWait: jest.fn(),
+  sendCommand: jest.fn().mockResolvedValue({}),
+  sendConfirmedCommand: PentairPlatform.prototype.sendConfirmedCommand,
+  expectWrite: jest.fn(),
+  cancelWrite: jest.fn(),
   delay: jest.fn().mockResolvedValue(undefined),
   getConfig: jest.fn().mockReturnValue({
     supportVSP: true,
@@ -119,7 +140,7 @@ describe('CircuitAccessory', () => {
     mockPlatformAccessory.context = {
       panel: mockPanel,
       module: mockModule,
-      circuit: mockCircuit,
+      circuit: { ...mockCircuit },
     };
 
     // Setup default mock returns
@@ -206,7 +227,7 @@ describe('CircuitAccessory', () => {
     it('should send correct command when turning on', async () => {
       await circuitAccessory.setOn(true);
 
-      expect(mockPlatform.sendCommandNoWait).toHaveBeenCalledWith(
+      expect(mockPlatform.sendCommand).toHaveBeenCalledWith(
         expect.objectContaining({
           command: 'SetParamList',
           objectList: [
@@ -216,13 +237,14 @@ describe('CircuitAccessory', () => {
             }),
           ],
         }),
+        HOMEKIT_WRITE_TIMEOUT_MS,
       );
     });
 
     it('should send correct command when turning off', async () => {
       await circuitAccessory.setOn(false);
 
-      expect(mockPlatform.sendCommandNoWait).toHaveBeenCalledWith(
+      expect(mockPlatform.sendCommand).toHaveBeenCalledWith(
         expect.objectContaining({
           objectList: [
             expect.objectContaining({
@@ -230,6 +252,7 @@ describe('CircuitAccessory', () => {
             }),
           ],
         }),
+        HOMEKIT_WRITE_TIMEOUT_MS,
       );
     });
 
@@ -237,6 +260,42 @@ describe('CircuitAccessory', () => {
       await circuitAccessory.setOn(true);
       expect(mockPlatform.log.info).toHaveBeenCalledWith('Setting Pool Light to true');
     });
+
+    it('should report a communication failure when IntelliCenter does not confirm', async () => {
+      (mockPlatform.sendCommand as jest.Mock).mockRejectedValueOnce(new Error('No response'));
+
+      await expect(circuitAccessory.setOn(true)).rejects.toMatchObject({ hapStatus: -70402 });
+      expect(mockPlatform.log.warn).toHaveBeenCalledWith('IntelliCenter did not confirm request to set Pool Light to true: No response');
+    });
+
+    it('should apply the new status optimistically and wait for IntelliCenter to report it', async () => {
+      await circuitAccessory.setOn(true);
+
+      expect(mockPlatformAccessory.context.circuit.status).toBe(CircuitStatus.On);
+      expect(mockPlatform.expectWrite).toHaveBeenCalledWith('C01', STATUS_KEY, CircuitStatus.On, expect.any(Function));
+      expect(mockPlatform.cancelWrite).not.toHaveBeenCalled();
+    });
+
+    it('should restore the previous status when the write is rolled back', async () => {
+      await circuitAccessory.setOn(true);
+      const rollback = (mockPlatform.expectWrite as jest.Mock).mock.calls[0][3];
+      mockService.updateCharacteristic.mockClear();
+
+      rollback();
+
+      expect(mockPlatformAccessory.context.circuit.status).toBe(CircuitStatus.Off);
+      expect(mockService.updateCharacteristic).toHaveBeenCalledWith('On', false);
+    });
+
+    it('should roll back immediately when IntelliCenter rejects the write', async () => {
+      (mockPlatform.sendCommand as jest.Mock).mockRejectedValueOnce(new Error('Rejected'));
+
+      await expect(circuitAccessory.setOn(true)).rejects.toMatchObject({ hapStatus: -70402 });
+
+      expect(mockPlatform.cancelWrite).toHaveBeenCalledWith('C01', STATUS_KEY);
+      expect(mockPlatformAccessory.context.circuit.status).toBe(CircuitStatus.Off);
+      expect(mockService.updateCharacteristic).toHaveBeenCalledWith('On', false);
+    });
   });
 
   describe('getOn and getCircuitStatus', () => {
@@ -286,7 +345,7 @@ describe('CircuitAccessory', () => {
         await circuitAccessory.setColorHue(240); // Blue hue
 
         expect(mockPlatform.delay).toHaveBeenCalledWith(10);
-        expect(mockPlatform.sendCommandNoWait).toHaveBeenCalledWith(
+        expect(mockPlatform.sendCommand).toHaveBeenCalledWith(
           expect.objectContaining({
             objectList: [
               expect.objectContaining({
@@ -295,7 +354,21 @@ describe('CircuitAccessory', () => {
               }),
             ],
           }),
+          HOMEKIT_WRITE_TIMEOUT_MS,
+        );
+      });
+
+      it('should keep the color and report to HomeKit when IntelliCenter does not confirm it', async () => {
+        mockPlatformAccessory.context.color = Color.Red;
+        mockPlatformAccessory.context.saturation = 100;
+        (mockPlatform.sendCommand as jest.Mock).mockRejectedValueOnce(new Error('No response'));
+
+        await expect(circuitAccessory.setColorHue(240)).rejects.toMatchObject({ hapStatus: -70402 });
+        expect(mockPlatform.log.warn).toHaveBeenCalledWith(
+          'IntelliCenter did not confirm request to set IntelliBrite Light color to BLUER: No response',
         );
+        expect(mockPlatformAccessory.context.color).toBe(Color.Red);
+        expect(mockService.updateCharacteristic).not.toHaveBeenCalledWith('Hue', expect.any(Number));
       });
 
       it('should update service characteristics', async () => {
@@ -375,7 +448,7 @@ describe('CircuitAccessory', () => {
       it('should convert power level to speed and send command', async () => {
         await circuitAccessory.setSpeed(50); // 50% power
 
-        expect(mockPlatform.sendCommandNoWait).toHaveBeenCalledWith(
+        expect(mockPlatform.sendCommand).toHaveBeenCalledWith(
           expect.objectContaining({
             objectList: [
               expect.objectContaining({
@@ -384,6 +457,7 @@ describe('CircuitAccessory', () => {
               }),
             ],
           }),
+          HOMEKIT_WRITE_TIMEOUT_MS,
         );
       });
 
@@ -403,7 +477,7 @@ describe('CircuitAccessory', () => {
         await accessoryInstance.setSpeed(50);
 
         expect(mockPlatform.log.error).toHaveBeenCalledWith('Tried to set speed when pump circuit is undefined.');
-        expect(mockPlatform.sendCommandNoWait).not.toHaveBeenCalled();
+        expect(mockPlatform.sendCommand).not.toHaveBeenCalled();
       });
 
       it('should log speed conversion', async () => {
@@ -411,6 +485,27 @@ describe('CircuitAccessory', () => {
 
         expect(mockPlatform.log.info).toHaveBeenCalledWith(expect.stringContaining('Setting speed for Pool Pump to 50'));
       });
+
+      it('should apply the new speed optimistically and roll it back when unconfirmed', async () => {
+        await circuitAccessory.setSpeed(50);
+
+        expect(mockPumpCircuit.speed).toBe(1950);
+        expect(mockPlatform.expectWrite).toHaveBeenCalledWith('PC01', SPEED_KEY, '1950', expect.any(Function));
+
+        (mockPlatform.expectWrite as jest.Mock).mock.calls[0][3]();
+
+        expect(mockPumpCircuit.speed).toBe(2000);
+        expect(mockService.updateCharacteristic).toHaveBeenCalledWith('RotationSpeed', 52);
+      });
+
+      it('should roll back the speed when IntelliCenter rejects the write', async () => {
+        (mockPlatform.sendCommand as jest.Mock).mockRejectedValueOnce(new Error('Rejected'));
+
+        await expect(circuitAccessory.setSpeed(50)).rejects.toMatchObject({ hapStatus: -70402 });
+
+        expect(mockPlatform.cancelWrite).toHaveBeenCalledWith('PC01', SPEED_KEY);
+        expect(mockPumpCircuit.speed).toBe(2000);
+      });
     });
 
     describe('getSpeed', () => {
@@ -0,0 +1,100 @@
+import { CommandCoalescer } from '../../src/commandCoalescer';
+import { IntelliCenterQueryName, IntelliCenterRequest, IntelliCenterRequestCommand } from '../../src/types';
+
+const write = (messageID: string, objnam: string, params: Record<string, string>): IntelliCenterRequest => ({
+  command: IntelliCenterRequestCommand.SetParamList,
+  messageID,
+  objectList: [{ objnam, params }],
+});
+
+const query: IntelliCenterRequest = {
+  command: IntelliCenterRequestCommand.GetQuery,
+  queryName: IntelliCenterQueryName.GetHardwareDefinition,
+  arguments: 'CIRCUITS',
+  messageID: 'query-1',
+};
+
+describe('CommandCoalescer', () => {
+  let coalescer: CommandCoalescer;
+
+  beforeEach(() => {
+    coalescer = new CommandCoalescer();
+  });
+
+  it('should return null for an empty queue', () => {
+    expect(coalescer.takeNext([])).toBeNull();
+  });
+
+  it('should pass other commands through unchanged', () => {
+    const queue = [query, write('w1', 'C0001', { STATUS: 'ON' })];
+
+    expect(coalescer.takeNext(queue)).toEqual({ command: query, messageIDs: ['query-1'], unchanged: [] });
+    expect(queue).toHaveLength(1);
+  });
+
+  it('should keep only the latest value written to the same object and param', () => {
+    const queue = [write('w1', 'B1101', { LOTMP: '80' }), write('w2', 'B1101', { LOTMP: '81' }), write('w3', 'B1101', { LOTMP: '82' })];
+
+    const next = coalescer.takeNext(queue)!;
+
+    expect(next.command).toEqual(write('w1', 'B1101', { LOTMP: '82' }));
+    expect(next.messageIDs).toEqual(['w1', 'w2', 'w3']);
+    expect(queue).toHaveLength(0);
+    expect(coalescer.getStats()).toMatchObject({ commandsMerged: 2, paramsSuperseded: 2 });
+  });
+
+  it('should batch writes to different objects into one objectList', () => {
+    const queue = [write('w1', 'C0001', { STATUS: 'ON' }), write('w2', 'C0002', { STATUS: 'OFF' }), write('w3', 'C0001', { ACT: '6' })];
+
+    const next = coalescer.takeNext(queue)!;
+
+    expect(next.command!.objectList).toEqual([
+      { objnam: 'C0001', params: { STATUS: 'ON', ACT: '6' } },
+      { objnam: 'C0002', params: { STATUS: 'OFF' } },
+    ]);
+  });
+
+  it('should leave non-write commands in the queue in order', () => {
+    const queue = [write('w1', 'C0001', { STATUS: 'ON' }), query, write('w2', 'C0002', { STATUS: 'OFF' })];
+
+    coalescer.takeNext(queue);
+
+    expect(queue).toEqual([query]);
+  });
+
+  it('should skip params that already match the known state', () => {
+    coalescer.recordState('C0001', { STATUS: 'ON', ACT: 6 } as never);
+    const queue = [write('w1', 'C0001', { STATUS: 'ON', ACT: '7' })];
+
+    const next = coalescer.takeNext(queue)!;
+
+    expect(next.command!.objectList).toEqual([{ objnam: 'C0001', params: { ACT: '7' } }]);
+    expect(next.unchanged).toEqual([{ objnam: 'C0001', params: { STATUS: 'ON' } }]);
+  });
+
+  it('should return no command when every write already matches the known state', () => {
+    coalescer.recordState('C0001', { STATUS: 'ON' });
+
+    const next = coalescer.takeNext([write('w1', 'C0001', { STATUS: 'ON' })])!;
+
+    expect(next.command).toBeNull();
+    expect(next.messageIDs).toEqual(['w1']);
+    expect(coalescer.getStats()).toMatchObject({ paramsSkipped: 1, commandsSkipped: 1 });
+  });
+
+  it('should send again once the written params have been forgotten', () => {
+    coalescer.recordState('C0001', { STATUS: 'ON', ACT: 6 } as never);
+    coalescer.forgetState('C0001', { STATUS: 'OFF' });
+
+    const next = coalescer.takeNext([write('w1', 'C0001', { STATUS: 'ON', ACT: '6' })])!;
+
+    expect(next.command!.objectList).toEqual([{ objnam: 'C0001', params: { STATUS: 'ON' } }]);
+  });
+
+  it('should send again once the known state has been cleared', () => {
+    coalescer.recordState('C0001', { STATUS: 'ON' });
+    coalescer.clearState();
+
+    expect(coalescer.takeNext([write('w1', 'C0001', { STATUS: 'ON' })])!.command).not.toBeNull();
+  });
+});
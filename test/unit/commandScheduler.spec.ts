@@ -0,0 +1,94 @@
+import { CommandLane, CommandScheduler, laneForCommand } from '../../src/commandScheduler';
+import { IntelliCenterQueryName, IntelliCenterRequest, IntelliCenterRequestCommand } from '../../src/types';
+
+const write = (messageID: string): IntelliCenterRequest => ({
+  command: IntelliCenterRequestCommand.SetParamList,
+  messageID,
+  objectList: [{ objnam: 'C0001', params: { STATUS: 'ON' } }],
+});
+
+const subscribe = (messageID: string): IntelliCenterRequest => ({
+  command: IntelliCenterRequestCommand.RequestParamList,
+  messageID,
+  objectList: [{ objnam: 'C0001', keys: ['STATUS'] }],
+});
+
+const discover = (messageID: string): IntelliCenterRequest => ({
+  command: IntelliCenterRequestCommand.GetQuery,
+  queryName: IntelliCenterQueryName.GetHardwareDefinition,
+  arguments: 'CIRCUITS',
+  messageID,
+});
+
+const takeOne = (queue: IntelliCenterRequest[]) => queue.shift()!.messageID;
+
+describe('CommandScheduler', () => {
+  let scheduler: CommandScheduler;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    scheduler = new CommandScheduler(5000);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should assign lanes by command type', () => {
+    expect(laneForCommand(write('w'))).toBe(CommandLane.Interactive);
+    expect(laneForCommand(subscribe('s'))).toBe(CommandLane.Subscription);
+    expect(laneForCommand(discover('d'))).toBe(CommandLane.Discovery);
+    expect(laneForCommand({ command: IntelliCenterRequestCommand.GetParamList, messageID: 'r' })).toBe(CommandLane.Discovery);
+  });
+
+  it('should serve interactive writes before subscriptions and discovery', () => {
+    scheduler.enqueue(discover('d1'));
+    scheduler.enqueue(subscribe('s1'));
+    scheduler.enqueue(discover('d2'));
+    scheduler.enqueue(write('w1'));
+
+    const order = [1, 2, 3, 4].map(() => scheduler.dequeue(takeOne));
+
+    expect(order).toEqual(['w1', 's1', 'd1', 'd2']);
+    expect(scheduler.dequeue(takeOne)).toBeNull();
+  });
+
+  it('should let a lower lane through once its oldest command has waited too long', () => {
+    scheduler.enqueue(discover('d1'));
+    jest.advanceTimersByTime(5000);
+    scheduler.enqueue(write('w1'));
+    scheduler.enqueue(write('w2'));
+
+    expect(scheduler.dequeue(takeOne)).toBe('d1');
+    expect(scheduler.dequeue(takeOne)).toBe('w1');
+    expect(scheduler.getStats()[CommandLane.Discovery]).toMatchObject({ promoted: 1, dispatched: 1, maxWaitMs: 5000 });
+  });
+
+  it('should record every command removed in one dequeue', () => {
+    scheduler.enqueue(write('w1'));
+    scheduler.enqueue(write('w2'));
+    jest.advanceTimersByTime(300);
+
+    scheduler.dequeue(queue => queue.splice(0, queue.length));
+
+    expect(scheduler.getStats()[CommandLane.Interactive]).toEqual({
+      queued: 0,
+      dispatched: 2,
+      promoted: 0,
+      averageWaitMs: 300,
+      maxWaitMs: 300,
+    });
+  });
+
+  it('should report queue length across lanes and clear them all', () => {
+    scheduler.enqueue(write('w1'));
+    scheduler.enqueue(subscribe('s1'));
+    scheduler.enqueue(discover('d1'), CommandLane.Subscription);
+
+    expect(scheduler.length).toBe(3);
+    expect(scheduler.getStats()[CommandLane.Subscription].queued).toBe(2);
+
+    scheduler.clear();
+    expect(scheduler.length).toBe(0);
+  });
+});
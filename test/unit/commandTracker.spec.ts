@@ -0,0 +1,136 @@
+import { CommandRejectedError, CommandTimeoutError, PendingCommandTracker } from '../../src/commandTracker';
+import {
+  IntelliCenterRequestCommand,
+  IntelliCenterResponse,
+  IntelliCenterResponseCommand,
+  IntelliCenterResponseStatus,
+} from '../../src/types';
+
+const response = (overrides: Partial<IntelliCenterResponse>): IntelliCenterResponse =>
+  ({
+    command: IntelliCenterResponseCommand.WriteParamList,
+    messageID: 'msg-1',
+    response: IntelliCenterResponseStatus.Ok,
+    description: '',
+    ...overrides,
+  }) as IntelliCenterResponse;
+
+describe('PendingCommandTracker', () => {
+  let tracker: PendingCommandTracker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    tracker = new PendingCommandTracker();
+  });
+
+  afterEach(() => {
+    tracker.rejectAll('test finished');
+    jest.useRealTimers();
+  });
+
+  it('should resolve on a matching WriteParamList with the round-trip time since sending', async () => {
+    const pending = tracker.track('msg-1', 1000);
+    jest.advanceTimersByTime(100);
+    tracker.markSent('msg-1');
+    jest.advanceTimersByTime(40);
+
+    expect(tracker.settle(response({}))).toBe(true);
+
+    await expect(pending).resolves.toEqual({ response: response({}), roundTripTime: 40 });
+    expect(tracker.size).toBe(0);
+  });
+
+  it('should resolve on SendQuery answers and request echoes', async () => {
+    const query = tracker.track('q', 1000);
+    const echo = tracker.track('e', 1000);
+
+    tracker.settle(response({ command: IntelliCenterResponseCommand.SendQuery, messageID: 'q' }));
+    tracker.settle(response({ command: IntelliCenterRequestCommand.SetParamList as never, messageID: 'e' }));
+
+    await expect(query).resolves.toMatchObject({ response: { messageID: 'q' } });
+    await expect(echo).resolves.toMatchObject({ response: { messageID: 'e' } });
+  });
+
+  it('should ignore responses for unknown message IDs and unrelated notifications', () => {
+    tracker.track('msg-1', 1000).catch(() => undefined);
+
+    expect(tracker.settle(response({ messageID: 'other' }))).toBe(false);
+    expect(tracker.settle(response({ command: IntelliCenterResponseCommand.NotifyList }))).toBe(false);
+    expect(tracker.isPending('msg-1')).toBe(true);
+  });
+
+  it('should reject on Error responses', async () => {
+    const pending = tracker.track('msg-1', 1000);
+
+    tracker.settle(response({ command: IntelliCenterResponseCommand.Error, response: '400' as never, description: 'ParseError' }));
+
+    await expect(pending).rejects.toBeInstanceOf(CommandRejectedError);
+    await expect(pending).rejects.toThrow('code 400: ParseError');
+  });
+
+  it('should reject with a timeout error when no response arrives', async () => {
+    const pending = tracker.track('msg-1', 1000);
+    jest.advanceTimersByTime(1000);
+
+    await expect(pending).rejects.toBeInstanceOf(CommandTimeoutError);
+    expect(tracker.isPending('msg-1')).toBe(false);
+  });
+
+  it('should reject everything outstanding', async () => {
+    const first = tracker.track('a', 1000);
+    const second = tracker.track('b', 1000);
+
+    tracker.rejectAll('connection closed');
+
+    await expect(first).rejects.toThrow('connection closed');
+    await expect(second).rejects.toThrow('connection closed');
+    expect(tracker.size).toBe(0);
+  });
+
+  it('should reject the earlier waiter when a message ID is reused', async () => {
+    const first = tracker.track('msg-1', 1000);
+    const second = tracker.track('msg-1', 1000);
+
+    await expect(first).rejects.toThrow('reused');
+    tracker.settle(response({}));
+    await expect(second).resolves.toBeDefined();
+  });
+
+  it('should settle commands merged into another message with the leader response', async () => {
+    const leader = tracker.track('msg-1', 1000);
+    const follower = tracker.track('msg-2', 1000);
+    tracker.follow('msg-2', 'msg-1');
+
+    tracker.settle(response({ command: IntelliCenterRequestCommand.SetParamList as never }));
+
+    await expect(leader).resolves.toMatchObject({ response: { messageID: 'msg-1' } });
+    await expect(follower).resolves.toMatchObject({ response: { messageID: 'msg-1' } });
+  });
+
+  it('should settle followers even when the leader itself is not awaited', async () => {
+    const follower = tracker.track('msg-2', 1000);
+    tracker.follow('msg-2', 'msg-1');
+
+    expect(tracker.settle(response({ command: IntelliCenterResponseCommand.Error, response: '400' as never }))).toBe(true);
+
+    await expect(follower).rejects.toBeInstanceOf(CommandRejectedError);
+  });
+
+  it('should tell whether anyone waits for a message, directly or through a merged command', () => {
+    tracker.track('msg-2', 1000).catch(() => undefined);
+    tracker.follow('msg-2', 'msg-1');
+
+    expect(tracker.isAwaited('msg-1')).toBe(true);
+    expect(tracker.isAwaited('msg-3')).toBe(false);
+    tracker.rejectAll('closed');
+    expect(tracker.isAwaited('msg-1')).toBe(false);
+  });
+
+  it('should resolve commands that did not need sending', async () => {
+    const pending = tracker.track('msg-1', 1000);
+
+    tracker.resolveWithoutSending('msg-1');
+
+    await expect(pending).resolves.toMatchObject({ response: { messageID: 'msg-1', response: '200' }, roundTripTime: 0 });
+  });
+});
@@ -1,13 +1,12 @@
 import { ConfigValidator, ValidationResult } from '../../src/configValidation';
-import { TemperatureUnits } from '../../src/types';
+import { TemperatureUnits, TransportType } from '../../src/types';
 import { PlatformConfig } from 'homebridge';
 
 describe('ConfigValidator', () => {
   let baseConfig: PlatformConfig;
 
   beforeEach(() => {
-    // Note: username/password are no longer required from user config.
-    // IntelliCenter telnet API does not require authentication.
+    // Note: username/password are optional; most panels accept local connections without them.
     baseConfig = {
       platform: 'PentairIntelliCenter',
       name: 'Test Platform',
@@ -43,10 +42,11 @@ describe('ConfigValidator', () => {
       expect(result.sanitizedConfig!.supportVSP).toBe(false);
       expect(result.sanitizedConfig!.airTemp).toBe(true);
       expect(result.sanitizedConfig!.includeAllCircuits).toBe(false);
+      expect(result.sanitizedConfig!.valvesReadOnly).toBe(false);
       expect(result.sanitizedConfig!.maxBufferSize).toBe(1048576);
-      // Username/password are hardcoded placeholders (auth not required)
-      expect(result.sanitizedConfig!.username).toBe('unused_placeholder');
-      expect(result.sanitizedConfig!.password).toBe('unused_placeholder_password');
+      // Credentials are optional and only needed for password-protected panels
+      expect(result.sanitizedConfig!.username).toBe('');
+      expect(result.sanitizedConfig!.password).toBe('');
     });
 
     it('should handle Celsius temperature units', () => {
@@ -73,15 +73,15 @@ describe('ConfigValidator', () => {
 
       expect(result.isValid).toBe(true);
       expect(result.sanitizedConfig!.ipAddress).toBe('192.168.1.100');
-      // Username/password are hardcoded placeholders (auth not required)
-      expect(result.sanitizedConfig!.username).toBe('unused_placeholder');
-      expect(result.sanitizedConfig!.password).toBe('unused_placeholder_password');
+      // Credentials are optional and only needed for password-protected panels
+      expect(result.sanitizedConfig!.username).toBe('');
+      expect(result.sanitizedConfig!.password).toBe('');
     });
   });
 
   describe('IP Address Validation', () => {
     it('should reject invalid IP addresses', () => {
-      const invalidIPs = ['999.999.999.999', '192.168.1', 'not-an-ip', '192.168.1.256', ''];
+      const invalidIPs = ['999.999.999.999', '192.168.1', 'not-an-ip', '192.168.1.256'];
 
       invalidIPs.forEach(ip => {
         const config = { ...baseConfig, ipAddress: ip };
@@ -114,9 +114,48 @@ describe('ConfigValidator', () => {
     });
   });
 
-  // Note: Username/Password validation tests removed.
-  // IntelliCenter telnet API does not require authentication.
-  // Credentials are now hardcoded placeholders in configValidation.ts.
+  describe('Credential Validation', () => {
+    it('should accept a username and password configured together', () => {
+      const result = ConfigValidator.validate({ ...baseConfig, username: '  admin ', password: 'secret' });
+
+      expect(result.isValid).toBe(true);
+      expect(result.sanitizedConfig!.username).toBe('admin');
+      expect(result.sanitizedConfig!.password).toBe('secret');
+    });
+
+    it('should keep the password exactly as configured', () => {
+      const password = ' p@ss<word>&"; ';
+      const result = ConfigValidator.validate({ ...baseConfig, username: 'admin', password });
+
+      expect(result.isValid).toBe(true);
+      expect(result.sanitizedConfig!.password).toBe(password);
+    });
+
+    it.each([{ username: 'admin', password: '' }, { username: '', password: 'secret' }, { username: 'admin' }, { password: 'secret' }])(
+      'should reject only one of username and password (%o)',
+      credentials => {
+        const result = ConfigValidator.validate({ ...baseConfig, ...credentials });
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toContain('username and password must be configured together');
+      },
+    );
+
+    it('should reject a blank username', () => {
+      const result = ConfigValidator.validate({ ...baseConfig, username: '   ', password: 'secret' });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('username is invalid: Username must not be blank');
+    });
+
+    it('should not repeat an invalid password in errors', () => {
+      const password = 'x'.repeat(201);
+      const result = ConfigValidator.validate({ ...baseConfig, username: 'admin', password });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.join(' ')).not.toContain(password);
+    });
+  });
 
   describe('Temperature Validation', () => {
     it('should reject invalid temperature units', () => {
@@ -241,6 +280,7 @@ describe('ConfigValidator', () => {
         supportVSP: 'true' as any,
         airTemp: 'false' as any,
         includeAllCircuits: '1' as any,
+        valvesReadOnly: 'true' as any,
       };
       const result = ConfigValidator.validate(config);
 
@@ -248,6 +288,7 @@ describe('ConfigValidator', () => {
       expect(result.sanitizedConfig!.supportVSP).toBe(true);
       expect(result.sanitizedConfig!.airTemp).toBe(false);
       expect(result.sanitizedConfig!.includeAllCircuits).toBe(true);
+      expect(result.sanitizedConfig!.valvesReadOnly).toBe(true);
     });
 
     it('should use defaults for invalid boolean values', () => {
@@ -266,18 +307,250 @@ describe('ConfigValidator', () => {
     });
   });
 
+  describe('Transport Validation', () => {
+    it('should default to telnet', () => {
+      const result = ConfigValidator.validate(baseConfig);
+
+      expect(result.sanitizedConfig!.transport).toBe(TransportType.Telnet);
+    });
+
+    it('should accept websocket', () => {
+      const result = ConfigValidator.validate({ ...baseConfig, transport: 'websocket' });
+
+      expect(result.isValid).toBe(true);
+      expect(result.sanitizedConfig!.transport).toBe(TransportType.WebSocket);
+    });
+
+    it('should warn and fall back to telnet for unknown transports', () => {
+      const result = ConfigValidator.validate({ ...baseConfig, transport: 'serial' });
+
+      expect(result.isValid).toBe(true);
+      expect(result.sanitizedConfig!.transport).toBe(TransportType.Telnet);
+      expect(result.warnings).toContainEqual(expect.stringContaining('Invalid transport'));
+    });
+  });
+
+  describe('Write Verification Window Validation', () => {
+    it('should default to 10 seconds', () => {
+      const result = ConfigValidator.validate(baseConfig);
+
+      expect(result.sanitizedConfig!.writeVerificationWindow).toBe(10);
+    });
+
+    it('should accept numeric strings within range', () => {
+      const result = ConfigValidator.validate({ ...baseConfig, writeVerificationWindow: '30' });
+
+      expect(result.sanitizedConfig!.writeVerificationWindow).toBe(30);
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    it('should warn and use the default when out of range', () => {
+      const result = ConfigValidator.validate({ ...baseConfig, writeVerificationWindow: 0 });
+
+      expect(result.isValid).toBe(true);
+      expect(result.sanitizedConfig!.writeVerificationWindow).toBe(10);
+      expect(result.warnings).toContainEqual(expect.stringContaining('Invalid writeVerificationWindow'));
+    });
+  });
+
+  describe('Dead Letter Replay Max Age Validation', () => {
+    it('should default to 300 seconds', () => {
+      const result = ConfigValidator.validate(baseConfig);
+
+      expect(result.sanitizedConfig!.deadLetterReplayMaxAge).toBe(300);
+    });
+
+    it('should warn and use the default when out of range', () => {
+      const result = ConfigValidator.validate({ ...baseConfig, deadLetterReplayMaxAge: 5 });
+
+      expect(result.sanitizedConfig!.deadLetterReplayMaxAge).toBe(300);
+      expect(result.warnings).toContainEqual(expect.stringContaining('Invalid deadLetterReplayMaxAge'));
+    });
+  });
+
+  describe('Reconnect Backoff Validation', () => {
+    it('should default to a 2 second base and 300 second maximum', () => {
+      const result = ConfigValidator.validate(baseConfig);
+
+      expect(result.sanitizedConfig!.reconnectBaseDelay).toBe(2);
+      expect(result.sanitizedConfig!.reconnectMaxDelay).toBe(300);
+    });
+
+    it('should raise a maximum below the base delay to the base delay', () => {
+      const result = ConfigValidator.validate({ ...baseConfig, reconnectBaseDelay: 30, reconnectMaxDelay: 10 });
+
+      expect(result.sanitizedConfig!.reconnectMaxDelay).toBe(30);
+      expect(result.warnings).toContainEqual(expect.stringContaining('reconnectMaxDelay is shorter than reconnectBaseDelay'));
+    });
+
+    it('should warn and use the default when out of range', () => {
+      const result = ConfigValidator.validate({ ...baseConfig, reconnectBaseDelay: 0 });
+
+      expect(result.sanitizedConfig!.reconnectBaseDelay).toBe(2);
+      expect(result.warnings).toContainEqual(expect.stringContaining('Invalid reconnectBaseDelay'));
+    });
+  });
+
+  describe('Keepalive and Polling Validation', () => {
+    it('should probe after 120 seconds and leave polling off by default', () => {
+      const result = ConfigValidator.validate(baseConfig);
+
+      expect(result.sanitizedConfig!.keepaliveInterval).toBe(120);
+      expect(result.sanitizedConfig!.pollingInterval).toBe(0);
+    });
+
+    it('should raise short polling intervals to 60 seconds', () => {
+      const result = ConfigValidator.validate({ ...baseConfig, pollingInterval: 10 });
+
+      expect(result.sanitizedConfig!.pollingInterval).toBe(60);
+      expect(result.warnings).toContainEqual(expect.stringContaining('pollingInterval below 60 seconds'));
+    });
+
+    it('should check the hardware definition hourly unless turned off', () => {
+      expect(ConfigValidator.validate(baseConfig).sanitizedConfig!.hardwareCheckInterval).toBe(60);
+      expect(ConfigValidator.validate({ ...baseConfig, hardwareCheckInterval: 0 }).sanitizedConfig!.hardwareCheckInterval).toBe(0);
+    });
+  });
+
+  describe('Orphaned Accessory Validation', () => {
+    it('should wait for three discoveries without a grace period and remove for real by default', () => {
+      const result = ConfigValidator.validate(baseConfig);
+
+      expect(result.sanitizedConfig!.orphanRemovalDiscoveries).toBe(3);
+      expect(result.sanitizedConfig!.orphanGracePeriod).toBe(0);
+      expect(result.sanitizedConfig!.orphanRemovalDryRun).toBe(false);
+    });
+
+    it('should fall back to the default for out of range values', () => {
+      const result = ConfigValidator.validate({ ...baseConfig, orphanRemovalDiscoveries: 0, orphanGracePeriod: 24 });
+
+      expect(result.sanitizedConfig!.orphanRemovalDiscoveries).toBe(3);
+      expect(result.sanitizedConfig!.orphanGracePeriod).toBe(24);
+      expect(result.warnings).toContainEqual(expect.stringContaining('orphanRemovalDiscoveries'));
+    });
+  });
+
+  describe('Water Chemistry Validation', () => {
+    it('should leave the LSI off until alkalinity and calcium hardness are configured', () => {
+      const result = ConfigValidator.validate(baseConfig);
+
+      expect(result.sanitizedConfig).toMatchObject({ totalAlkalinity: 0, calciumHardness: 0, cyanuricAcid: 0, totalDissolvedSolids: 1000 });
+    });
+
+    it('should accept water test results as numbers or strings and ignore impossible ones', () => {
+      const result = ConfigValidator.validate({ ...baseConfig, totalAlkalinity: '90', calciumHardness: 275, totalDissolvedSolids: 50 });
+
+      expect(result.sanitizedConfig).toMatchObject({ totalAlkalinity: 90, calciumHardness: 275, totalDissolvedSolids: 1000 });
+      expect(result.warnings).toContainEqual(expect.stringContaining('totalDissolvedSolids'));
+    });
+  });
+
+  describe('Traffic Recording Validation', () => {
+    it('should not record or replay by default', () => {
+      const result = ConfigValidator.validate(baseConfig);
+
+      expect(result.sanitizedConfig!.recordTraffic).toBe(false);
+      expect(result.sanitizedConfig!.replayFile).toBeUndefined();
+    });
+
+    it('should replay instead of connecting when replayFile is set', () => {
+      const result = ConfigValidator.validate({ ...baseConfig, recordTraffic: true, replayFile: ' /tmp/traffic.jsonl ' });
+
+      expect(result.sanitizedConfig!.transport).toBe(TransportType.Replay);
+      expect(result.sanitizedConfig!.replayFile).toBe('/tmp/traffic.jsonl');
+      expect(result.sanitizedConfig!.recordTraffic).toBe(false);
+      expect(result.warnings).toContainEqual(expect.stringContaining('IntelliCenter will not be contacted'));
+    });
+
+    it('should not accept replay as a transport without a recording', () => {
+      const result = ConfigValidator.validate({ ...baseConfig, transport: 'replay' });
+
+      expect(result.sanitizedConfig!.transport).toBe(TransportType.Telnet);
+    });
+  });
+
+  describe('Controllers Validation', () => {
+    it('should default to no controllers', () => {
+      const result = ConfigValidator.validate(baseConfig);
+
+      expect(result.sanitizedConfig!.controllers).toEqual([]);
+    });
+
+    it('should accept named controllers and keep their overrides', () => {
+      const { ipAddress: _ipAddress, ...shared } = baseConfig;
+      const result = ConfigValidator.validate({
+        ...shared,
+        controllers: [
+          { name: ' Pool ', ipAddress: '192.168.1.100' },
+          { name: 'Spa', ipAddress: '192.168.1.101', transport: 'websocket' },
+        ],
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).not.toContainEqual(expect.stringContaining('ipAddress is ignored'));
+      expect(result.sanitizedConfig!.controllers).toEqual([
+        { name: 'Pool', ipAddress: '192.168.1.100' },
+        { name: 'Spa', ipAddress: '192.168.1.101', transport: 'websocket' },
+      ]);
+    });
+
+    it('should warn that the top-level ipAddress is ignored', () => {
+      const result = ConfigValidator.validate({ ...baseConfig, controllers: [{ name: 'Pool', ipAddress: '192.168.1.100' }] });
+
+      expect(result.warnings).toContain('ipAddress is ignored when controllers are configured');
+    });
+
+    it('should reject controllers that are not a list', () => {
+      const result = ConfigValidator.validate({ ...baseConfig, controllers: { name: 'Pool' } });
+
+      expect(result.errors).toContain('controllers must be an array');
+    });
+
+    it('should reject missing and duplicate names', () => {
+      const result = ConfigValidator.validate({
+        ...baseConfig,
+        controllers: [
+          { ipAddress: '192.168.1.100' },
+          { name: 'Pool', ipAddress: '192.168.1.101' },
+          { name: 'pool', ipAddress: '192.168.1.102' },
+        ],
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('controllers[0].name is required');
+      expect(result.errors).toContain('controllers[2].name "pool" is used by another controller');
+    });
+
+    it('should require a valid address for every controller', () => {
+      const result = ConfigValidator.validate({
+        ...baseConfig,
+        controllers: [{ name: 'Pool' }, { name: 'Spa', ipAddress: '999.1.1.1' }],
+      });
+
+      expect(result.errors).toContain('controllers[0].ipAddress is invalid: a panel address is required');
+      expect(result.errors).toContainEqual(expect.stringContaining('controllers[1].ipAddress is invalid: IP address octets'));
+    });
+  });
+
   describe('Missing Required Fields', () => {
-    it('should reject configuration missing ipAddress', () => {
+    it('should accept a missing or empty ipAddress so the panel is found on the network', () => {
       const config = { ...baseConfig };
       delete config.ipAddress;
 
-      const result = ConfigValidator.validate(config);
+      for (const candidate of [config, { ...baseConfig, ipAddress: '' }]) {
+        const result = ConfigValidator.validate(candidate);
 
-      expect(result.isValid).toBe(false);
-      expect(result.errors.some(error => error.includes('ipAddress is required'))).toBe(true);
+        expect(result.isValid).toBe(true);
+        expect(result.sanitizedConfig!.ipAddress).toBe('');
+      }
     });
 
-    // Note: Username/password tests removed - auth not required by IntelliCenter
+    it('should reject an ipAddress that is not a string', () => {
+      const result = ConfigValidator.validate({ ...baseConfig, ipAddress: 192168 });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('ipAddress must be a string');
+    });
   });
 
   describe('Edge Cases', () => {
@@ -288,11 +561,12 @@ describe('ConfigValidator', () => {
       expect(result.errors.length).toBeGreaterThan(0);
     });
 
-    it('should handle empty configuration', () => {
+    it('should fall back to defaults and network discovery for an empty configuration', () => {
       const result = ConfigValidator.validate({} as any);
 
-      expect(result.isValid).toBe(false);
-      expect(result.errors.length).toBeGreaterThan(0);
+      expect(result.isValid).toBe(true);
+      expect(result.sanitizedConfig!.ipAddress).toBe('');
+      expect(result.sanitizedConfig!.transport).toBe(TransportType.Telnet);
     });
 
     it('should handle configuration with extra fields', () => {
@@ -347,9 +621,9 @@ describe('ConfigValidator', () => {
       const result = ConfigValidator.validate(edgeCaseConfig);
 
       expect(result.isValid).toBe(true);
-      // Username/password are hardcoded placeholders (auth not required)
-      expect(result.sanitizedConfig!.username).toBe('unused_placeholder');
-      expect(result.sanitizedConfig!.password).toBe('unused_placeholder_password');
+      // Credentials are optional and only needed for password-protected panels
+      expect(result.sanitizedConfig!.username).toBe('');
+      expect(result.sanitizedConfig!.password).toBe('');
       expect(result.sanitizedConfig!.minimumTemperature).toBe(41.0);
       expect(result.sanitizedConfig!.maximumTemperature).toBe(104.1);
     });
@@ -0,0 +1,231 @@
+import { CommandRejectedError, CommandTimeoutError } from '../../src/commandTracker';
+import { DISCOVERY_COMMAND_TIMEOUT_MS, DISCOVERY_MIN_TIMEOUT_MS, WHOLE_HARDWARE_DEFINITION } from '../../src/constants';
+import {
+  countDiscoveredObjects,
+  describeDiscoveryReport,
+  DiscoveryCategoryState,
+  DiscoveryEvent,
+  DiscoveryProgress,
+  DiscoveryReport,
+  DiscoverySession,
+  DiscoverySessionOptions,
+  DiscoveryTimings,
+} from '../../src/discoverySession';
+import { DiscoveryAnswer, IntelliCenterResponseCommand } from '../../src/types';
+
+interface Query {
+  category: string;
+  timeoutMs: number;
+  resolve: (answer: DiscoveryAnswer | undefined) => void;
+  reject: (error: Error) => void;
+}
+
+const answerFor = (category: string) => ({ panels: [{ objnam: `${category}1` }, { objnam: `${category}2` }] });
+const flush = () => new Promise(resolve => setImmediate(resolve));
+const timeout = (timeoutMs = DISCOVERY_COMMAND_TIMEOUT_MS) => new CommandTimeoutError('m1', timeoutMs);
+
+describe('DiscoverySession', () => {
+  let queries: Query[];
+  let progress: DiscoveryProgress[];
+  let reports: DiscoveryReport[];
+
+  const createSession = (options: Partial<DiscoverySessionOptions> = {}) => {
+    const session = new DiscoverySession({
+      categories: ['CIRCUITS', 'PUMPS', 'HEATERS'],
+      query: (category, timeoutMs) => new Promise((resolve, reject) => queries.push({ category, timeoutMs, resolve, reject })),
+      timings: new DiscoveryTimings(),
+      ...options,
+    });
+    session.on(DiscoveryEvent.Progress, event => progress.push(event));
+    session.on(DiscoveryEvent.Complete, report => reports.push(report));
+    return session;
+  };
+
+  const answer = async (category: string) => {
+    queries.find(query => query.category === category)!.resolve(answerFor(category));
+    queries = queries.filter(query => query.category !== category);
+    await flush();
+  };
+
+  const fail = async (category: string, error: Error) => {
+    queries.find(query => query.category === category)!.reject(error);
+    queries = queries.filter(query => query.category !== category);
+    await flush();
+  };
+
+  beforeEach(() => {
+    queries = [];
+    progress = [];
+    reports = [];
+  });
+
+  it('should keep two categories in flight and ask for the next as soon as one answers', async () => {
+    const session = createSession();
+    session.start();
+
+    expect(queries.map(query => query.category)).toEqual(['CIRCUITS', 'PUMPS']);
+
+    await answer('PUMPS');
+    expect(queries.map(query => query.category)).toEqual(['CIRCUITS', 'HEATERS']);
+    expect(session.getProgress()).toEqual({ finished: 1, total: 3, inFlight: 2 });
+
+    await answer('HEATERS');
+    await answer('CIRCUITS');
+
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({
+      found: ['CIRCUITS', 'PUMPS', 'HEATERS'],
+      failed: [],
+      skipped: [],
+      fromCache: [],
+      objects: 6,
+      cancelled: null,
+    });
+    expect([...session.answers.keys()]).toEqual(['CIRCUITS', 'PUMPS', 'HEATERS']);
+    expect(session.finished).toBe(true);
+  });
+
+  it('should publish a progress event for every state change', async () => {
+    const session = createSession({ categories: ['CIRCUITS'] });
+    session.start();
+    await answer('CIRCUITS');
+
+    expect(progress).toEqual([
+      { category: 'CIRCUITS', state: DiscoveryCategoryState.Sent, attempt: 1, finished: 0, total: 1 },
+      { category: 'CIRCUITS', state: DiscoveryCategoryState.Answered, attempt: 1, finished: 1, total: 1 },
+    ]);
+  });
+
+  it('should ask again for a failed category after the others and report it failed after the last attempt', async () => {
+    const session = createSession({ categories: ['CIRCUITS', 'PUMPS'], depth: 1 });
+    session.start();
+
+    await fail('CIRCUITS', timeout());
+    expect(queries.map(query => query.category)).toEqual(['PUMPS']);
+    expect(progress.find(event => event.error)).toMatchObject({ category: 'CIRCUITS', state: DiscoveryCategoryState.Pending });
+
+    await answer('PUMPS');
+    expect(queries.map(query => query.category)).toEqual(['CIRCUITS']);
+
+    const rejected = new CommandRejectedError({ command: IntelliCenterResponseCommand.Error, messageID: 'm2', response: '400' } as never);
+    await fail('CIRCUITS', rejected);
+
+    expect(reports[0]).toMatchObject({ found: ['PUMPS'], failed: ['CIRCUITS'] });
+    expect(reports[0]!.categories[0]).toMatchObject({ category: 'CIRCUITS', attempts: 2, error: rejected.message });
+    expect(progress[progress.length - 1]).toMatchObject({ state: DiscoveryCategoryState.Failed, error: rejected });
+  });
+
+  it('should answer a category that timed out at the full timeout from the fallback', async () => {
+    const cached = answerFor('CACHED');
+    const session = createSession({ categories: ['CIRCUITS'], fallback: category => (category === 'CIRCUITS' ? cached : undefined) });
+    session.start();
+
+    await fail('CIRCUITS', timeout());
+
+    expect(queries).toHaveLength(0);
+    expect(reports[0]).toMatchObject({ found: [], fromCache: ['CIRCUITS'], objects: 2 });
+    expect(session.answers.get('CIRCUITS')).toBe(cached);
+  });
+
+  it('should not use the fallback for a rejected category', async () => {
+    const fallback = jest.fn().mockReturnValue(answerFor('CACHED'));
+    const session = createSession({ categories: ['CIRCUITS'], fallback, maxAttempts: 1 });
+    session.start();
+
+    await fail('CIRCUITS', new Error('Command was not sent'));
+
+    expect(fallback).not.toHaveBeenCalled();
+    expect(reports[0]!.failed).toEqual(['CIRCUITS']);
+  });
+
+  it('should wait for a category with the timeout learned from earlier answers, and the full timeout on retry', async () => {
+    const timings = new DiscoveryTimings();
+    timings.record('CIRCUITS', 4000);
+    const fallback = jest.fn().mockReturnValue(answerFor('CACHED'));
+    const session = createSession({ categories: ['CIRCUITS'], timings, fallback });
+    session.start();
+
+    expect(queries[0]!.timeoutMs).toBe(12000);
+
+    // The learned timeout may have been too short, so the panel is asked again before the cache is used
+    await fail('CIRCUITS', timeout(12000));
+    expect(fallback).not.toHaveBeenCalled();
+    expect(queries[0]!.timeoutMs).toBe(DISCOVERY_COMMAND_TIMEOUT_MS);
+
+    await answer('CIRCUITS');
+    expect(reports[0]!.found).toEqual(['CIRCUITS']);
+  });
+
+  it('should skip unanswered categories and ignore late answers when cancelled', async () => {
+    const session = createSession();
+    session.start();
+    await answer('CIRCUITS');
+
+    session.cancel('connection closed');
+    await answer('PUMPS');
+    session.cancel('again');
+
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({ found: ['CIRCUITS'], skipped: ['PUMPS', 'HEATERS'], cancelled: 'connection closed' });
+    // HEATERS was already asked for; nothing is asked after the cancel
+    expect(queries.map(query => query.category)).toEqual(['HEATERS']);
+  });
+
+  it('should complete at once without categories', () => {
+    const session = createSession({ categories: [] });
+    session.start();
+
+    expect(reports[0]).toMatchObject({ categories: [], found: [], objects: 0 });
+  });
+});
+
+describe('DiscoveryTimings', () => {
+  it('should wait the full timeout for a category that never answered', () => {
+    expect(new DiscoveryTimings().timeoutFor('CIRCUITS')).toBe(DISCOVERY_COMMAND_TIMEOUT_MS);
+  });
+
+  it('should keep a learned timeout within the minimum and the full timeout', () => {
+    const timings = new DiscoveryTimings();
+    timings.record('FAST', 100);
+    timings.record('SLOW', 25000);
+
+    expect(timings.timeoutFor('FAST')).toBe(DISCOVERY_MIN_TIMEOUT_MS);
+    expect(timings.timeoutFor('SLOW')).toBe(DISCOVERY_COMMAND_TIMEOUT_MS);
+  });
+
+  it('should follow the slowest of the recent answers', () => {
+    const timings = new DiscoveryTimings();
+    [6000, 2000, 2000, 2000, 2000].forEach(durationMs => timings.record('CIRCUITS', durationMs));
+    expect(timings.timeoutFor('CIRCUITS')).toBe(18000);
+
+    timings.record('CIRCUITS', 2000);
+    expect(timings.timeoutFor('CIRCUITS')).toBe(6000);
+  });
+});
+
+describe('countDiscoveredObjects', () => {
+  it('should count nested objects', () => {
+    const answer = [{ objnam: 'P0001', params: { OBJLIST: [{ objnam: 'M0101', params: { OBJLIST: [{ objnam: 'C0001' }] } }] } }];
+
+    expect(countDiscoveredObjects(answer)).toBe(3);
+    expect(countDiscoveredObjects(undefined)).toBe(0);
+  });
+});
+
+describe('describeDiscoveryReport', () => {
+  it('should list what was found, cached, failed and skipped', () => {
+    const report = {
+      durationMs: 3140,
+      categories: [{}, {}, {}, {}],
+      found: ['CIRCUITS'],
+      fromCache: ['PUMPS'],
+      failed: [WHOLE_HARDWARE_DEFINITION],
+      skipped: [],
+      objects: 12,
+    } as unknown as DiscoveryReport;
+
+    expect(describeDiscoveryReport(report)).toBe(
+      '1 of 4 categories answered with 12 objects in 3.1s; from the cache: PUMPS; failed: whole hardware definition',
+    );
+  });
+});
@@ -1,4 +1,13 @@
-import { CircuitBreaker, RetryManager, HealthMonitor, RateLimiter, DeadLetterQueue, CircuitBreakerState } from '../../src/errorHandling';
+import {
+  CircuitBreaker,
+  RetryManager,
+  HealthMonitor,
+  RateLimiter,
+  DeadLetterQueue,
+  CircuitBreakerState,
+  DeadLetterDiscardReason,
+} from '../../src/errorHandling';
+import { IntelliCenterRequestCommand } from '../../src/types';
 
 describe('Error Handling Components', () => {
   describe('CircuitBreaker', () => {
@@ -16,6 +25,33 @@ describe('Error Handling Components', () => {
       expect(circuitBreaker.getState()).toBe(CircuitBreakerState.CLOSED);
     });
 
+    it('should report the remaining cooldown only while OPEN', async () => {
+      jest.useFakeTimers();
+      expect(circuitBreaker.getRemainingCooldown()).toBe(0);
+
+      const failing = jest.fn().mockRejectedValue(new Error('fail'));
+      for (let i = 0; i < 3; i++) {
+        await expect(circuitBreaker.execute(failing)).rejects.toThrow('fail');
+      }
+      jest.advanceTimersByTime(400);
+
+      expect(circuitBreaker.getRemainingCooldown()).toBe(601);
+      jest.advanceTimersByTime(601);
+      await expect(circuitBreaker.execute(jest.fn().mockResolvedValue('ok'))).resolves.toBe('ok');
+      expect(circuitBreaker.getRemainingCooldown()).toBe(0);
+      jest.useRealTimers();
+    });
+
+    it('should open immediately when tripped', async () => {
+      const operation = jest.fn().mockResolvedValue('success');
+
+      circuitBreaker.trip();
+
+      expect(circuitBreaker.getState()).toBe(CircuitBreakerState.OPEN);
+      await expect(circuitBreaker.execute(operation)).rejects.toThrow();
+      expect(operation).not.toHaveBeenCalled();
+    });
+
     it('should allow operations when CLOSED', async () => {
       const operation = jest.fn().mockResolvedValue('success');
 
@@ -127,6 +163,20 @@ describe('Error Handling Components', () => {
       jest.useRealTimers();
     });
 
+    it('should compute exponential delays capped at maxDelay', () => {
+      const options = { maxAttempts: 10, baseDelay: 1000, maxDelay: 5000, backoffFactor: 2 };
+
+      expect([1, 2, 3, 4].map(attempt => RetryManager.getDelay(attempt, options))).toEqual([1000, 2000, 4000, 5000]);
+    });
+
+    it('should spread delays by the jitter fraction', () => {
+      const options = { maxAttempts: 10, baseDelay: 1000, maxDelay: 5000, backoffFactor: 2, jitter: 0.2 };
+
+      expect(RetryManager.getDelay(2, options, () => 0)).toBe(1600);
+      expect(RetryManager.getDelay(2, options, () => 0.5)).toBe(2000);
+      expect(RetryManager.getDelay(2, options, () => 1)).toBe(2400);
+    });
+
     it('should succeed on first attempt if operation succeeds', async () => {
       const operation = jest.fn().mockResolvedValue('success');
 
@@ -480,6 +530,82 @@ describe('Error Handling Components', () => {
 
       dateSpy.mockRestore();
     });
+
+    describe('takeForReplay', () => {
+      const write = (messageID: string, objnam: string, params: Record<string, string>) => ({
+        command: IntelliCenterRequestCommand.SetParamList,
+        messageID,
+        objectList: [{ objnam, params }],
+      });
+
+      beforeEach(() => {
+        deadLetterQueue = new DeadLetterQueue(10, 60000);
+      });
+
+      it('should replay writes oldest first and empty the queue', () => {
+        deadLetterQueue.add(write('w1', 'C0001', { STATUS: 'ON' }), 1, 'socket is not alive', 'w1');
+        deadLetterQueue.add(write('w2', 'B1101', { LOTMP: '82' }), 1, 'socket is not alive', 'w2');
+
+        const plan = deadLetterQueue.takeForReplay(30000);
+
+        expect(plan.replay.map(item => item.originalMessageId)).toEqual(['w1', 'w2']);
+        expect(plan.discarded).toEqual([]);
+        expect(deadLetterQueue.getStats().queueSize).toBe(0);
+      });
+
+      it('should drop params overwritten by a later write to the same object', () => {
+        deadLetterQueue.add(write('w1', 'C0001', { STATUS: 'ON', SPEED: '2000' }), 1, 'error', 'w1');
+        deadLetterQueue.add(write('w2', 'C0001', { STATUS: 'OFF' }), 1, 'error', 'w2');
+        deadLetterQueue.add(write('w3', 'C0001', { STATUS: 'ON' }), 1, 'error', 'w3');
+
+        const plan = deadLetterQueue.takeForReplay(30000);
+
+        expect(plan.replay.map(item => item.command.objectList)).toEqual([
+          [{ objnam: 'C0001', params: { SPEED: '2000' } }],
+          [{ objnam: 'C0001', params: { STATUS: 'ON' } }],
+        ]);
+        expect(plan.discarded).toEqual([
+          expect.objectContaining({
+            item: expect.objectContaining({ originalMessageId: 'w2' }),
+            reason: DeadLetterDiscardReason.Superseded,
+          }),
+        ]);
+      });
+
+      it('should replay writes already reported as failed unless they are superseded or stale', () => {
+        deadLetterQueue.add(write('w1', 'C0001', { STATUS: 'ON' }), 1, 'error', 'w1', true);
+        deadLetterQueue.add(write('w2', 'C0002', { STATUS: 'ON' }), 1, 'error', 'w2', true);
+        jest.advanceTimersByTime(20000);
+        deadLetterQueue.add(write('w3', 'C0001', { STATUS: 'OFF' }), 1, 'error', 'w3', true);
+        deadLetterQueue.add(write('w4', 'C0003', { STATUS: 'ON' }), 1, 'error', 'w4', true);
+
+        const plan = deadLetterQueue.takeForReplay(10000);
+
+        expect(plan.replay.map(item => [item.originalMessageId, item.failureReported])).toEqual([
+          ['w3', true],
+          ['w4', true],
+        ]);
+        expect(plan.discarded.map(({ item, reason }) => [item.originalMessageId, reason])).toEqual([
+          ['w1', DeadLetterDiscardReason.Superseded],
+          ['w2', DeadLetterDiscardReason.Stale],
+        ]);
+      });
+
+      it('should discard writes older than the replay limit and anything that is not a write', () => {
+        deadLetterQueue.add(write('w1', 'C0001', { STATUS: 'ON' }), 1, 'error', 'w1');
+        deadLetterQueue.add({ command: IntelliCenterRequestCommand.GetQuery, messageID: 'q1' }, 1, 'error', 'q1');
+        jest.advanceTimersByTime(20000);
+        deadLetterQueue.add(write('w2', 'C0002', { STATUS: 'ON' }), 1, 'error', 'w2');
+
+        const plan = deadLetterQueue.takeForReplay(10000);
+
+        expect(plan.replay.map(item => item.originalMessageId)).toEqual(['w2']);
+        expect(plan.discarded.map(({ item, reason }) => [item.originalMessageId, reason])).toEqual([
+          ['w1', DeadLetterDiscardReason.Stale],
+          ['q1', DeadLetterDiscardReason.NotAWrite],
+        ]);
+      });
+    });
   });
 
   describe('Coverage for uncovered lines', () => {
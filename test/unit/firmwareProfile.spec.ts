@@ -0,0 +1,92 @@
+import {
+  buildCapabilityProfile,
+  describeCapabilityProfile,
+  detectHardwareDefinitionShape,
+  FirmwareFamily,
+  getFirmwareFamily,
+  parseFirmwareVersion,
+  withWholeDefinitionDiscovery,
+} from '../../src/firmwareProfile';
+import { DISCOVER_COMMANDS } from '../../src/constants';
+import { HardwareDefinitionShape } from '../../src/types';
+
+describe('firmwareProfile', () => {
+  describe('parseFirmwareVersion', () => {
+    it.each([
+      ['1.064', { major: 1, minor: 64 }],
+      ['IC: 1.047 , ICWEB:2021-04-28 1.007', { major: 1, minor: 47 }],
+      ['IC: 3.004 , ICWEB:2024-06-11 2.001', { major: 3, minor: 4 }],
+    ])('should read %s', (reported, expected) => {
+      expect(parseFirmwareVersion(reported)).toEqual({ ...expected, reported });
+    });
+
+    it.each([['VER'], [''], ['unknown'], [undefined], [1.064]])('should not read %p as a version', value => {
+      expect(parseFirmwareVersion(value)).toBeNull();
+    });
+  });
+
+  describe('getFirmwareFamily', () => {
+    it.each([
+      ['1.047', FirmwareFamily.Legacy],
+      ['1.064', FirmwareFamily.V1],
+      ['1.080', FirmwareFamily.V1],
+      ['2.000', FirmwareFamily.Unknown],
+      ['3.004', FirmwareFamily.V3],
+      ['4.000', FirmwareFamily.Unknown],
+    ])('should put %s in the %s family', (reported, family) => {
+      expect(getFirmwareFamily(parseFirmwareVersion(reported))).toBe(family);
+    });
+
+    it('should not place a missing version', () => {
+      expect(getFirmwareFamily(null)).toBe(FirmwareFamily.Unknown);
+    });
+  });
+
+  describe('buildCapabilityProfile', () => {
+    it('should give supported firmware exact settings', () => {
+      const profile = buildCapabilityProfile('IC: 3.004 , ICWEB:2024-06-11 2.001', [
+        { objnam: 'M0101', params: { VER: '10.001' } },
+        { objnam: 'M0102', params: { VER: 'VER' } },
+      ]);
+
+      expect(profile).toMatchObject({
+        family: FirmwareFamily.V3,
+        moduleVersions: { M0101: '10.001' },
+        discoveryCommands: DISCOVER_COMMANDS,
+        wholeDefinitionFallback: false,
+        hardwareDefinitionShape: HardwareDefinitionShape.Array,
+      });
+    });
+
+    it('should give old, unknown and newer firmware the defensive settings', () => {
+      for (const version of [null, 'VER', '1.047', '4.000']) {
+        expect(buildCapabilityProfile(version)).toMatchObject({
+          discoveryCommands: DISCOVER_COMMANDS,
+          wholeDefinitionFallback: true,
+          hardwareDefinitionShape: HardwareDefinitionShape.Either,
+        });
+      }
+    });
+  });
+
+  it('should switch to a single whole hardware definition query', () => {
+    const profile = withWholeDefinitionDiscovery(buildCapabilityProfile(null));
+
+    expect(profile.discoveryCommands).toEqual(['']);
+    expect(profile.wholeDefinitionFallback).toBe(false);
+  });
+
+  it('should tell the hardware definition shapes apart', () => {
+    expect(detectHardwareDefinitionShape([])).toBe(HardwareDefinitionShape.Array);
+    expect(detectHardwareDefinitionShape({ panels: [] })).toBe(HardwareDefinitionShape.Panels);
+    expect(detectHardwareDefinitionShape({})).toBe(HardwareDefinitionShape.Either);
+    expect(detectHardwareDefinitionShape(null)).toBe(HardwareDefinitionShape.Either);
+  });
+
+  it('should describe a profile for the log', () => {
+    expect(describeCapabilityProfile(buildCapabilityProfile('1.064', [{ objnam: 'M0101', params: { VER: '10.001' } }]))).toBe(
+      'firmware 1.064 (1.x), modules M0101 10.001',
+    );
+    expect(describeCapabilityProfile(buildCapabilityProfile(null))).toBe('unknown firmware');
+  });
+});
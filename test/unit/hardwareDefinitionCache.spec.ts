@@ -0,0 +1,56 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { HardwareDefinitionCache } from '../../src/hardwareDefinitionCache';
+
+describe('HardwareDefinitionCache', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'intellicenter-hardware-'));
+    file = path.join(dir, 'hardware.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load what it saved with the time it was saved', async () => {
+    const cache = new HardwareDefinitionCache(file);
+    const definition = {
+      firmware: '3.004',
+      answer: { panels: [{ objnam: 'P0001' }] },
+      categories: { CIRCUITS: { panels: [{ objnam: 'P0001' }] } },
+    };
+
+    const saved = await cache.save(definition);
+
+    expect(saved).toMatchObject(definition);
+    expect(new Date(saved.savedAt).getTime()).not.toBeNaN();
+    await expect(cache.load()).resolves.toEqual(saved);
+    expect(existsSync(`${file}.tmp`)).toBe(false);
+  });
+
+  it('should replace the previous definition', async () => {
+    const cache = new HardwareDefinitionCache(file);
+    await cache.save({ firmware: null, answer: { panels: [{ objnam: 'OLD' }] }, categories: {} });
+
+    await cache.save({ firmware: null, answer: { panels: [{ objnam: 'NEW' }] }, categories: {} });
+
+    expect(readFileSync(file, 'utf8')).not.toContain('OLD');
+  });
+
+  it.each([
+    ['a missing file', null],
+    ['invalid JSON', '{"savedAt":'],
+    ['a file without an answer', JSON.stringify({ savedAt: '2026-10-01T00:00:00.000Z', categories: {} })],
+    ['a file without a time', JSON.stringify({ answer: {}, categories: {} })],
+  ])('should treat %s as no cache', async (_description, content) => {
+    if (content !== null) {
+      writeFileSync(file, content);
+    }
+
+    await expect(new HardwareDefinitionCache(file).load()).resolves.toBeNull();
+  });
+});
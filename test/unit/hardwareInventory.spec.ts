@@ -0,0 +1,134 @@
+import {
+  buildHardwareInventory,
+  describeHardwareChanges,
+  diffHardwareInventory,
+  hardwareFingerprint,
+  hasHardwareChanges,
+} from '../../src/hardwareInventory';
+import {
+  BodyType,
+  ChemControllerType,
+  CircuitStatus,
+  CircuitType,
+  ObjectType,
+  Panel,
+  Pump,
+  TemperatureSensorType,
+  ValveAssignment,
+} from '../../src/types';
+
+const pump = (circuitId: string) =>
+  ({
+    id: 'PMP01',
+    name: 'VS Pump',
+    objectType: ObjectType.Pump,
+    type: 'SPEED',
+    minRpm: 450,
+    maxRpm: 3450,
+    minFlow: 0,
+    maxFlow: 0,
+    circuits: [{ id: 'p0101', circuitId, speed: 2000, speedType: 'RPM' }],
+  }) as unknown as Pump;
+
+const panel = (overrides: { featureName?: string; status?: CircuitStatus; pumpCircuit?: string; temperature?: number } = {}): Panel => ({
+  id: 'P0001',
+  sensors: [{ id: 'SSS11', name: 'Air', objectType: ObjectType.Sensor, type: TemperatureSensorType.Air, probe: 72 }],
+  pumps: [pump(overrides.pumpCircuit ?? 'C0006')],
+  features: [],
+  modules: [
+    {
+      id: 'M0101',
+      features: [
+        {
+          id: 'C0003',
+          name: overrides.featureName ?? 'Waterfall',
+          objectType: ObjectType.Circuit,
+          type: CircuitType.Generic,
+          status: overrides.status ?? CircuitStatus.Off,
+        },
+      ],
+      bodies: [
+        {
+          id: 'B1101',
+          name: 'Pool',
+          objectType: ObjectType.Body,
+          type: BodyType.Pool,
+          temperature: overrides.temperature ?? 80,
+          circuit: { id: 'C0006' },
+        },
+      ],
+      heaters: [{ id: 'H0001', name: 'Gas Heater', objectType: ObjectType.Heater, type: CircuitType.Generic, bodyIds: ['B1101'] }],
+    },
+  ],
+});
+
+describe('hardwareInventory', () => {
+  it('should record every discovered object', () => {
+    expect([...buildHardwareInventory([panel()]).keys()].sort()).toEqual(['B1101', 'C0003', 'H0001', 'PMP01', 'SSS11', 'p0101']);
+  });
+
+  it('should ignore state that changes during normal operation', () => {
+    const before = buildHardwareInventory([panel()]);
+    const after = buildHardwareInventory([panel({ status: CircuitStatus.On, temperature: 85 })]);
+
+    expect(hasHardwareChanges(diffHardwareInventory(before, after))).toBe(false);
+    expect(hardwareFingerprint(after)).toBe(hardwareFingerprint(before));
+  });
+
+  it('should report renamed, added and removed objects', () => {
+    const before = buildHardwareInventory([panel()]);
+    const renamed = panel({ featureName: 'Sheer Descent' });
+    const after = buildHardwareInventory([{ ...renamed, sensors: [], features: [{ ...renamed.modules[0]!.features[0]!, id: 'C0010' }] }]);
+
+    const changes = diffHardwareInventory(before, after);
+
+    expect(changes).toEqual({ added: ['C0010'], changed: ['C0003'], removed: ['SSS11'] });
+    expect(describeHardwareChanges(changes)).toBe('added C0010; changed C0003; removed SSS11');
+    expect(hardwareFingerprint(after)).not.toBe(hardwareFingerprint(before));
+  });
+
+  it('should change a circuit when the pump controlling it changes', () => {
+    const before = buildHardwareInventory([panel()]);
+    const after = buildHardwareInventory([panel({ pumpCircuit: 'C0003' })]);
+
+    expect(diffHardwareInventory(before, after).changed).toEqual(['B1101', 'C0003', 'PMP01', 'p0101']);
+  });
+
+  it('should record chemistry controllers but not their readings', () => {
+    const chem = {
+      id: 'CHM01',
+      name: 'IntelliChem',
+      objectType: ObjectType.Chem,
+      type: ChemControllerType.IntelliChem,
+      bodyIds: ['B1101'],
+    };
+    const before = buildHardwareInventory([{ ...panel(), chemControllers: [{ ...chem, ph: 7.4 }] }]);
+    const after = buildHardwareInventory([{ ...panel(), chemControllers: [{ ...chem, ph: 7.8, bodyIds: ['B1101', 'B1202'] }] }]);
+
+    expect(before.has('CHM01')).toBe(true);
+    expect(diffHardwareInventory(before, after).changed).toEqual(['CHM01']);
+  });
+
+  it('should change a valve when its circuit or assignment changes but not when it turns', () => {
+    const valve = {
+      id: 'VAL01',
+      name: 'Valve A',
+      objectType: ObjectType.Valve,
+      type: 'LEGACY',
+      circuitId: 'C0003',
+      assignment: ValveAssignment.None,
+      delay: false,
+    };
+    const withValve = (v: typeof valve & { position?: boolean }) => {
+      const base = panel();
+      return { ...base, modules: [{ ...base.modules[0]!, valves: [v] }] };
+    };
+    const before = buildHardwareInventory([withValve(valve)]);
+
+    expect(before.has('VAL01')).toBe(true);
+    expect(hasHardwareChanges(diffHardwareInventory(before, buildHardwareInventory([withValve({ ...valve, position: true })])))).toBe(
+      false,
+    );
+    expect(diffHardwareInventory(before, buildHardwareInventory([withValve({ ...valve, circuitId: 'C0006' })])).changed).toEqual(['VAL01']);
+  });
+});
@@ -18,6 +18,7 @@ import {
   NO_HEATER_ID,
   LOW_TEMP_KEY,
   HIGH_TEMP_KEY,
+  HOMEKIT_WRITE_TIMEOUT_MS,
   STATUS_KEY,
   THERMOSTAT_STEP_VALUE,
   CURRENT_TEMP_MIN_C,
@@ -86,7 +87,19 @@ const mockPlatform = {
     warn: jest.fn(),
     error: jest.fn(),
   },
+  api: {
+    hap: {
+      HapStatusError: class extends Error {
+        constructor(public readonly hapStatus: number) {
+          super(`HAP status ${hapStatus}`);
+        }
+      },
+      HAPStatus: { SERVICE_COMMUNICATION_FAILURE: -70402 },
+    },
+  },
   sendCommandNoWait: jest.fn(),
+  sendCommand: jest.fn().mockResolvedValue({}),
+  sendConfirmedCommand: PentairPlatform.prototype.sendConfirmedCommand,
   getConfig: jest.fn(),
 } as unknown as PentairPlatform;
 
@@ -280,16 +293,19 @@ describe('HeaterAccessory Cooling Functionality', () => {
 
       await heaterAccessory.setCoolingThresholdTemperature(testTemp);
 
-      expect(mockPlatform.sendCommandNoWait).toHaveBeenCalledWith({
-        command: IntelliCenterRequestCommand.SetParamList,
-        messageID: expect.any(String),
-        objectList: [
-          {
-            objnam: 'B01',
-            params: { [HIGH_TEMP_KEY]: '82' }, // Converted to Fahrenheit and rounded
-          },
-        ],
-      });
+      expect(mockPlatform.sendCommand).toHaveBeenCalledWith(
+        {
+          command: IntelliCenterRequestCommand.SetParamList,
+          messageID: expect.any(String),
+          objectList: [
+            {
+              objnam: 'B01',
+              params: { [HIGH_TEMP_KEY]: '82' }, // Converted to Fahrenheit and rounded
+            },
+          ],
+        },
+        HOMEKIT_WRITE_TIMEOUT_MS,
+      );
     });
 
     it('should get cooling threshold temperature', async () => {
@@ -302,16 +318,28 @@ describe('HeaterAccessory Cooling Functionality', () => {
 
       await heaterAccessory.setHeatingThresholdTemperature(testTemp);
 
-      expect(mockPlatform.sendCommandNoWait).toHaveBeenCalledWith({
-        command: IntelliCenterRequestCommand.SetParamList,
-        messageID: expect.any(String),
-        objectList: [
-          {
-            objnam: 'B01',
-            params: { [LOW_TEMP_KEY]: '75' }, // Converted to Fahrenheit and rounded
-          },
-        ],
-      });
+      expect(mockPlatform.sendCommand).toHaveBeenCalledWith(
+        {
+          command: IntelliCenterRequestCommand.SetParamList,
+          messageID: expect.any(String),
+          objectList: [
+            {
+              objnam: 'B01',
+              params: { [LOW_TEMP_KEY]: '75' }, // Converted to Fahrenheit and rounded
+            },
+          ],
+        },
+        HOMEKIT_WRITE_TIMEOUT_MS,
+      );
+    });
+
+    it('should report a threshold IntelliCenter did not confirm to HomeKit', async () => {
+      (mockPlatform.sendCommand as jest.Mock).mockRejectedValueOnce(new Error('Command timed out'));
+
+      await expect(heaterAccessory.setCoolingThresholdTemperature(28)).rejects.toMatchObject({ hapStatus: -70402 });
+      expect(mockPlatform.log.warn).toHaveBeenCalledWith(
+        'IntelliCenter did not confirm request to set Pool cooling threshold to 82: Command timed out',
+      );
     });
 
     it('should get heating threshold temperature', async () => {
@@ -21,6 +21,7 @@ import {
   THERMOSTAT_STEP_VALUE,
   CURRENT_TEMP_MIN_C,
   CURRENT_TEMP_MAX_C,
+  HOMEKIT_WRITE_TIMEOUT_MS,
 } from '../../src/constants';
 
 // Mock Homebridge services and characteristics
@@ -82,7 +83,19 @@ const mockPlatform = {
     warn: jest.fn(),
     error: jest.fn(),
   },
+  api: {
+    hap: {
+      HapStatusError: class extends Error {
+        constructor(public readonly hapStatus: number) {
+          super(`HAP status ${hapStatus}`);
+        }
+      },
+      HAPStatus: { SERVICE_COMMUNICATION_FAILURE: -70402 },
+    },
+  },
   sendCommandNoWait: jest.fn(),
+  sendCommand: jest.fn().mockResolvedValue({}),
+  sendConfirmedCommand: PentairPlatform.prototype.sendConfirmedCommand,
   getConfig: jest.fn(),
 } as unknown as PentairPlatform;
 
@@ -259,7 +272,7 @@ describe('HeaterAccessory', () => {
       it('should convert Celsius to Fahrenheit and send command', async () => {
         await heaterAccessory.setTargetTemperature(25); // 25°C
 
-        expect(mockPlatform.sendCommandNoWait).toHaveBeenCalledWith(
+        expect(mockPlatform.sendCommand).toHaveBeenCalledWith(
           expect.objectContaining({
             command: IntelliCenterRequestCommand.SetParamList,
             objectList: [
@@ -269,6 +282,7 @@ describe('HeaterAccessory', () => {
               }),
             ],
           }),
+          HOMEKIT_WRITE_TIMEOUT_MS,
         );
       });
 
@@ -282,7 +296,7 @@ describe('HeaterAccessory', () => {
         heaterAccessory = new HeaterAccessory(mockPlatform, mockPlatformAccessory);
         await heaterAccessory.setTargetTemperature(25);
 
-        expect(mockPlatform.sendCommandNoWait).toHaveBeenCalledWith(
+        expect(mockPlatform.sendCommand).toHaveBeenCalledWith(
           expect.objectContaining({
             objectList: [
               expect.objectContaining({
@@ -290,6 +304,7 @@ describe('HeaterAccessory', () => {
               }),
             ],
           }),
+          HOMEKIT_WRITE_TIMEOUT_MS,
         );
       });
 
@@ -379,10 +394,10 @@ describe('HeaterAccessory', () => {
         await heaterAccessory.setMode(1); // HEAT
 
         // Should send two commands: one for pump, one for heater
-        expect(mockPlatform.sendCommandNoWait).toHaveBeenCalledTimes(2);
+        expect(mockPlatform.sendCommand).toHaveBeenCalledTimes(2);
 
         // First command: turn on pump
-        expect(mockPlatform.sendCommandNoWait).toHaveBeenNthCalledWith(
+        expect(mockPlatform.sendCommand).toHaveBeenNthCalledWith(
           1,
           expect.objectContaining({
             command: IntelliCenterRequestCommand.SetParamList,
@@ -393,10 +408,11 @@ describe('HeaterAccessory', () => {
               }),
             ],
           }),
+          expect.any(Number),
         );
 
         // Second command: set heater
-        expect(mockPlatform.sendCommandNoWait).toHaveBeenNthCalledWith(
+        expect(mockPlatform.sendCommand).toHaveBeenNthCalledWith(
           2,
           expect.objectContaining({
             command: IntelliCenterRequestCommand.SetParamList,
@@ -407,6 +423,7 @@ describe('HeaterAccessory', () => {
               }),
             ],
           }),
+          expect.any(Number),
         );
       });
 
@@ -414,9 +431,9 @@ describe('HeaterAccessory', () => {
         await heaterAccessory.setMode(0); // OFF
 
         // Should send only heater command (no pump command)
-        expect(mockPlatform.sendCommandNoWait).toHaveBeenCalledTimes(1);
+        expect(mockPlatform.sendCommand).toHaveBeenCalledTimes(1);
 
-        expect(mockPlatform.sendCommandNoWait).toHaveBeenCalledWith(
+        expect(mockPlatform.sendCommand).toHaveBeenCalledWith(
           expect.objectContaining({
             command: IntelliCenterRequestCommand.SetParamList,
             objectList: [
@@ -426,6 +443,7 @@ describe('HeaterAccessory', () => {
               }),
             ],
           }),
+          expect.any(Number),
         );
       });
 
@@ -434,6 +452,27 @@ describe('HeaterAccessory', () => {
 
         expect(mockPlatform.log.info).toHaveBeenCalledWith('Set heat power to 1 for heater Pool Heater');
       });
+
+      it('should give both commands one HomeKit timeout', async () => {
+        jest.spyOn(Date, 'now').mockReturnValueOnce(1000).mockReturnValueOnce(1000).mockReturnValueOnce(3000);
+
+        await heaterAccessory.setMode(1);
+
+        expect((mockPlatform.sendCommand as jest.Mock).mock.calls.map(([, timeoutMs]) => timeoutMs)).toEqual([
+          HOMEKIT_WRITE_TIMEOUT_MS,
+          HOMEKIT_WRITE_TIMEOUT_MS - 2000,
+        ]);
+      });
+
+      it('should not select the heater when turning on the body fails', async () => {
+        (mockPlatform.sendCommand as jest.Mock).mockRejectedValueOnce(new Error('Command timed out'));
+
+        await expect(heaterAccessory.setMode(1)).rejects.toMatchObject({ hapStatus: -70402 });
+        expect(mockPlatform.sendCommand).toHaveBeenCalledTimes(1);
+        expect(mockPlatform.log.warn).toHaveBeenCalledWith(
+          expect.stringContaining('IntelliCenter did not confirm request to turn on Pool'),
+        );
+      });
     });
   });
 
@@ -570,7 +609,7 @@ describe('HeaterAccessory', () => {
       heaterAccessory = new HeaterAccessory(mockPlatform, mockPlatformAccessory);
 
       await heaterAccessory.setTargetTemperature(0); // 0°C
-      expect(mockPlatform.sendCommandNoWait).toHaveBeenCalledWith(
+      expect(mockPlatform.sendCommand).toHaveBeenCalledWith(
         expect.objectContaining({
           command: IntelliCenterRequestCommand.SetParamList,
           objectList: [
@@ -579,10 +618,11 @@ describe('HeaterAccessory', () => {
             }),
           ],
         }),
+        HOMEKIT_WRITE_TIMEOUT_MS,
       );
 
       await heaterAccessory.setTargetTemperature(100); // 100°C
-      expect(mockPlatform.sendCommandNoWait).toHaveBeenCalledWith(
+      expect(mockPlatform.sendCommand).toHaveBeenCalledWith(
         expect.objectContaining({
           command: IntelliCenterRequestCommand.SetParamList,
           objectList: [
@@ -591,6 +631,7 @@ describe('HeaterAccessory', () => {
             }),
           ],
         }),
+        HOMEKIT_WRITE_TIMEOUT_MS,
       );
     });
 
@@ -609,7 +650,7 @@ describe('HeaterAccessory', () => {
       heaterAccessory = new HeaterAccessory(mockPlatform, mockPlatformAccessory);
 
       await heaterAccessory.setTargetTemperature(25.7); // Should round to 78°F
-      expect(mockPlatform.sendCommandNoWait).toHaveBeenCalledWith(
+      expect(mockPlatform.sendCommand).toHaveBeenCalledWith(
         expect.objectContaining({
           objectList: [
             expect.objectContaining({
@@ -617,6 +658,7 @@ describe('HeaterAccessory', () => {
             }),
           ],
         }),
+        HOMEKIT_WRITE_TIMEOUT_MS,
       );
     });
 
@@ -0,0 +1,225 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { DiscardReason, Frame, FrameType, JsonStreamFramer } from '../../src/jsonFramer';
+
+const RESOURCES_DIR = join(__dirname, '../resources');
+
+// Recorded IntelliCenter answers wrapped in the SendQuery envelope they arrive in
+const recordedMessages: unknown[] = readdirSync(RESOURCES_DIR)
+  .filter(file => file.endsWith('.json'))
+  .sort()
+  .map(file => ({
+    command: 'SendQuery',
+    queryName: 'GetHardwareDefinition',
+    messageID: file,
+    response: '200',
+    answer: JSON.parse(readFileSync(join(RESOURCES_DIR, file), 'utf8')),
+  }));
+
+// Small deterministic PRNG so fuzz failures can be reproduced from the seed
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const splitRandomly = (text: string, random: () => number, maxChunk: number): string[] => {
+  const chunks: string[] = [];
+  let index = 0;
+  while (index < text.length) {
+    const size = 1 + Math.floor(random() * maxChunk);
+    chunks.push(text.slice(index, index + size));
+    index += size;
+  }
+  return chunks;
+};
+
+const feed = (framer: JsonStreamFramer, chunks: string[]): Frame[] => chunks.flatMap(chunk => framer.push(chunk));
+
+const messagesOf = (frames: Frame[]) => frames.filter(frame => frame.type === FrameType.Message).map(frame => JSON.parse(frame.text));
+
+describe('JsonStreamFramer', () => {
+  let framer: JsonStreamFramer;
+
+  beforeEach(() => {
+    framer = new JsonStreamFramer(1048576);
+  });
+
+  it('should load the recorded responses', () => {
+    expect(recordedMessages.length).toBeGreaterThan(5);
+  });
+
+  it('should frame a single newline terminated message', () => {
+    const frames = framer.push(Buffer.from('{"command":"NotifyList","objectList":[]}\n'));
+
+    expect(frames).toEqual([{ type: FrameType.Message, text: '{"command":"NotifyList","objectList":[]}' }]);
+    expect(framer.pendingBytes).toBe(0);
+  });
+
+  it('should frame messages without a trailing newline and several messages in one chunk', () => {
+    const frames = framer.push('{"a":1}{"b":2}\n{"c":3}');
+
+    expect(messagesOf(frames)).toEqual([{ a: 1 }, { b: 2 }, { c: 3 }]);
+  });
+
+  it('should keep a message split across chunks until it is complete', () => {
+    expect(framer.push('{"command":"Notify')).toEqual([]);
+    expect(framer.pendingBytes).toBeGreaterThan(0);
+
+    expect(messagesOf(framer.push('List","objectList":[{"objnam":"C01"}]}\n'))).toEqual([
+      { command: 'NotifyList', objectList: [{ objnam: 'C01' }] },
+    ]);
+  });
+
+  it('should ignore braces and escaped quotes inside strings', () => {
+    const message = { description: 'a } brace { and a \\" quote', nested: { list: ['[', ']'] } };
+
+    expect(messagesOf(framer.push(JSON.stringify(message)))).toEqual([message]);
+  });
+
+  it('should escape raw newlines and tabs that appear inside string values', () => {
+    const frames = framer.push('{"HNAME":"Pool\nLight\t1"}\n');
+
+    expect(messagesOf(frames)).toEqual([{ HNAME: 'Pool\nLight\t1' }]);
+  });
+
+  it('should discard data between messages and keep the messages around it', () => {
+    const frames = framer.push('{"a":1}\nnot json at all\n{"b":2}\n');
+
+    expect(messagesOf(frames)).toEqual([{ a: 1 }, { b: 2 }]);
+    expect(frames[1]).toEqual({ type: FrameType.Discarded, text: 'not json at all', reason: DiscardReason.Garbage });
+  });
+
+  it('should discard an unterminated malformed line and recover on the next one', () => {
+    const frames = framer.push('{ invalid json\n{"b":2}\n');
+
+    expect(frames[0]).toEqual({ type: FrameType.Discarded, text: '{ invalid json', reason: DiscardReason.Malformed });
+    expect(messagesOf(frames)).toEqual([{ b: 2 }]);
+  });
+
+  it('should discard a truncated message when the next message starts', () => {
+    const frames = framer.push('{"command":"NotifyList","objectList":[{"objnam":"C01"{"command":"WriteParamList"}\n');
+
+    expect(frames[0]).toMatchObject({ type: FrameType.Discarded, reason: DiscardReason.Truncated });
+    expect(messagesOf(frames)).toEqual([{ command: 'WriteParamList' }]);
+  });
+
+  it('should keep objects opening a line inside a message nested', () => {
+    const frames = framer.push('{"objectList":[\n{"objnam":"C01"},\n{"objnam":"C02"}\n]}\n');
+
+    expect(messagesOf(frames)).toEqual([{ objectList: [{ objnam: 'C01' }, { objnam: 'C02' }] }]);
+  });
+
+  it('should recover a message taken as nested once the message before it turns out to be cut off', () => {
+    const frames = framer.push('{"command":"NotifyList","objectList":[\n{"command":"WriteParamList"}\n{"b":2}\n');
+
+    expect(frames[0]).toEqual({
+      type: FrameType.Discarded,
+      text: '{"command":"NotifyList","objectList":[',
+      reason: DiscardReason.Truncated,
+    });
+    expect(messagesOf(frames)).toEqual([{ command: 'WriteParamList' }, { b: 2 }]);
+  });
+
+  it('should decode characters split across chunks', () => {
+    const bytes = Buffer.from('{"sname":"Piscine Été"}\n');
+    const split = bytes.indexOf(0xc3) + 1;
+
+    const frames = [...framer.push(bytes.subarray(0, split)), ...framer.push(bytes.subarray(split))];
+
+    expect(messagesOf(frames)).toEqual([{ sname: 'Piscine Été' }]);
+    expect(framer.getMetrics()).toMatchObject({ bytesReceived: bytes.length, largestMessageBytes: bytes.length - 1 });
+  });
+
+  it('should still emit balanced messages that contain invalid JSON so parsing reports them', () => {
+    const frames = framer.push('{"invalid": json}\n');
+
+    expect(frames).toEqual([{ type: FrameType.Message, text: '{"invalid": json}' }]);
+  });
+
+  it('should discard everything once the buffer limit is exceeded and then recover', () => {
+    framer = new JsonStreamFramer(100);
+
+    const frames = framer.push(`{"data":"${'x'.repeat(200)}`);
+    expect(frames).toEqual([expect.objectContaining({ type: FrameType.Discarded, reason: DiscardReason.Overflow })]);
+
+    expect(messagesOf(framer.push('{"a":1}\n'))).toEqual([{ a: 1 }]);
+    expect(framer.getMetrics().overflows).toBe(1);
+  });
+
+  it('should report framing metrics', () => {
+    framer.push('{"a":1}\njunk\n{"b":');
+    framer.recordParseFailure();
+
+    expect(framer.getMetrics()).toEqual({
+      chunksReceived: 1,
+      bytesReceived: 18,
+      messagesFramed: 1,
+      largestMessageBytes: 7,
+      garbageDiscarded: 1,
+      malformedDiscarded: 0,
+      truncatedDiscarded: 0,
+      overflows: 0,
+      discardedBytes: 4,
+      parseFailures: 1,
+      pendingBytes: 5,
+    });
+  });
+
+  it('should drop partial data on reset', () => {
+    framer.push('{"a":');
+    framer.reset();
+
+    expect(messagesOf(framer.push('{"b":2}'))).toEqual([{ b: 2 }]);
+  });
+
+  describe('fuzzing with recorded responses', () => {
+    const seeds = [1, 7, 42, 1337, 9001];
+
+    it.each(seeds)('should reassemble compact messages split at random boundaries (seed %i)', seed => {
+      const random = createRandom(seed);
+      const stream = recordedMessages.map(message => JSON.stringify(message) + '\n').join('');
+
+      const frames = feed(framer, splitRandomly(stream, random, 512));
+
+      expect(messagesOf(frames)).toEqual(recordedMessages);
+      expect(frames.every(frame => frame.type === FrameType.Message)).toBe(true);
+      expect(framer.pendingBytes).toBe(0);
+    });
+
+    it.each(seeds)('should reassemble pretty-printed messages with embedded newlines (seed %i)', seed => {
+      const random = createRandom(seed);
+      const stream = recordedMessages.map(message => JSON.stringify(message, null, random() < 0.5 ? 2 : '\t')).join('\r\n');
+
+      const frames = feed(framer, splitRandomly(stream, random, 64));
+
+      expect(messagesOf(frames)).toEqual(recordedMessages);
+    });
+
+    it.each(seeds)('should recover every message when garbage is injected between them (seed %i)', seed => {
+      const random = createRandom(seed);
+      const garbage = ['ParseError\n', 'OK', '\u0000\u0001', '}]', 'login: ', '\r\n\r\n'];
+      const stream = recordedMessages
+        .map(message => garbage[Math.floor(random() * garbage.length)] + JSON.stringify(message) + '\n')
+        .join('');
+
+      const frames = feed(framer, splitRandomly(stream, random, 256));
+
+      expect(messagesOf(frames)).toEqual(recordedMessages);
+    });
+
+    it.each(seeds)('should only lose the message that is cut short (seed %i)', seed => {
+      const random = createRandom(seed);
+      const serialized = recordedMessages.map(message => JSON.stringify(message));
+      const victim = Math.floor(random() * serialized.length);
+      const cut = 1 + Math.floor(random() * (serialized[victim]!.length - 2));
+      const stream = serialized.map((text, index) => (index === victim ? text.slice(0, cut) : text) + '\n').join('');
+
+      const frames = feed(framer, splitRandomly(stream, random, 256));
+
+      expect(messagesOf(frames)).toEqual(recordedMessages.filter((_, index) => index !== victim));
+      expect(frames.filter(frame => frame.type === FrameType.Discarded)).toHaveLength(1);
+    });
+  });
+});
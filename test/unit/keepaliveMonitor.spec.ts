@@ -0,0 +1,76 @@
+import { KeepaliveMonitor } from '../../src/keepaliveMonitor';
+
+describe('KeepaliveMonitor', () => {
+  const start = 1_000_000;
+  let monitor: KeepaliveMonitor;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(start);
+    monitor = new KeepaliveMonitor({ probeAfterMs: 120000, pollIntervalMs: 300000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('probing', () => {
+    it('should only probe once the connection has been quiet long enough', () => {
+      expect(monitor.beginProbe(start, start + 119999)).toBe(false);
+      expect(monitor.beginProbe(start, start + 120000)).toBe(true);
+    });
+
+    it('should not send a second probe while one is outstanding', () => {
+      expect(monitor.beginProbe(start, start + 120000)).toBe(true);
+      expect(monitor.beginProbe(start, start + 180000)).toBe(false);
+
+      monitor.endProbe(true);
+      expect(monitor.beginProbe(start, start + 180000)).toBe(true);
+    });
+
+    it('should count unanswered probes', () => {
+      monitor.beginProbe(start, start + 120000);
+      monitor.endProbe(false);
+
+      expect(monitor.getStats()).toMatchObject({ probesSent: 1, probesUnanswered: 1, lastProbe: new Date(start + 120000) });
+    });
+  });
+
+  describe('polling', () => {
+    it('should poll once notifications have stopped for the interval and then at that interval', () => {
+      expect(monitor.pollDue(start + 299999)).toBe(false);
+      expect(monitor.pollDue(start + 300000)).toBe(true);
+      expect(monitor.isPolling()).toBe(true);
+
+      expect(monitor.pollDue(start + 400000)).toBe(false);
+      expect(monitor.pollDue(start + 600000)).toBe(true);
+      expect(monitor.getStats().polls).toBe(2);
+    });
+
+    it('should stop polling when a notification arrives', () => {
+      monitor.pollDue(start + 300000);
+
+      expect(monitor.recordNotification(start + 310000)).toBe(true);
+      expect(monitor.isPolling()).toBe(false);
+      expect(monitor.recordNotification(start + 320000)).toBe(false);
+      expect(monitor.pollDue(start + 500000)).toBe(false);
+    });
+
+    it('should never poll when polling is disabled', () => {
+      monitor = new KeepaliveMonitor({ probeAfterMs: 120000, pollIntervalMs: 0 });
+
+      expect(monitor.pollDue(start + 24 * 60 * 60 * 1000)).toBe(false);
+    });
+  });
+
+  it('should start over on a new connection', () => {
+    monitor.beginProbe(start, start + 120000);
+    monitor.pollDue(start + 300000);
+
+    monitor.reset(start + 400000);
+
+    expect(monitor.isPolling()).toBe(false);
+    expect(monitor.beginProbe(start + 400000, start + 520000)).toBe(true);
+    expect(monitor.pollDue(start + 600000)).toBe(false);
+  });
+});
@@ -0,0 +1,186 @@
+import { Buffer } from 'buffer';
+import dgram from 'dgram';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  decodeRecords,
+  discoverPanels,
+  DiscoveredHostCache,
+  DnsRecordType,
+  encodeName,
+  encodeQuery,
+  INTELLICENTER_SERVICE,
+  isSamePanel,
+  panelsFromRecords,
+} from '../../src/networkDiscovery';
+
+type TestRecord = { name: string; type: DnsRecordType; data: Buffer };
+
+function encodeResponse(records: TestRecord[]): Buffer {
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(0x8400, 2); // authoritative response
+  header.writeUInt16BE(records.length, 6);
+
+  const encoded = records.map(record => {
+    const fixed = Buffer.alloc(10);
+    fixed.writeUInt16BE(record.type, 0);
+    fixed.writeUInt16BE(1, 2);
+    fixed.writeUInt32BE(120, 4);
+    fixed.writeUInt16BE(record.data.length, 8);
+    return Buffer.concat([encodeName(record.name), fixed, record.data]);
+  });
+  return Buffer.concat([header, ...encoded]);
+}
+
+function srvData(port: number, target: string): Buffer {
+  const fixed = Buffer.alloc(6);
+  fixed.writeUInt16BE(port, 4);
+  return Buffer.concat([fixed, encodeName(target)]);
+}
+
+const INSTANCE = `Pentair: 01-02-03.${INTELLICENTER_SERVICE}`;
+
+const panelResponse = (address: string) =>
+  encodeResponse([
+    { name: INTELLICENTER_SERVICE, type: DnsRecordType.PTR, data: encodeName(INSTANCE) },
+    { name: INSTANCE, type: DnsRecordType.SRV, data: srvData(6680, 'pentair.local') },
+    { name: 'pentair.local', type: DnsRecordType.A, data: Buffer.from(address.split('.').map(Number)) },
+  ]);
+
+describe('networkDiscovery', () => {
+  describe('encodeQuery', () => {
+    it('should encode one PTR question for the service name', () => {
+      const query = encodeQuery(INTELLICENTER_SERVICE);
+
+      expect(query.readUInt16BE(4)).toBe(1);
+      expect(query.readUInt16BE(6)).toBe(0);
+      expect(query.subarray(12, 18).toString('latin1')).toBe('\x05_http');
+      expect(query.readUInt16BE(query.length - 4)).toBe(DnsRecordType.PTR);
+      expect(query.readUInt16BE(query.length - 2)).toBe(1);
+    });
+  });
+
+  describe('decodeRecords', () => {
+    it('should decode PTR, SRV and A records', () => {
+      const records = decodeRecords(panelResponse('192.168.1.50'));
+
+      expect(records).toEqual([
+        { name: INTELLICENTER_SERVICE, type: DnsRecordType.PTR, data: INSTANCE },
+        { name: INSTANCE, type: DnsRecordType.SRV, data: { port: 6680, target: 'pentair.local' } },
+        { name: 'pentair.local', type: DnsRecordType.A, data: '192.168.1.50' },
+      ]);
+    });
+
+    it('should follow compressed names', () => {
+      const header = Buffer.alloc(12);
+      header.writeUInt16BE(1, 4);
+      header.writeUInt16BE(1, 6);
+      const question = Buffer.concat([encodeName(INTELLICENTER_SERVICE), Buffer.from([0, 12, 0, 1])]);
+      // Answer name points back at the question name at offset 12
+      const answer = Buffer.from([0xc0, 12, 0, 12, 0, 1, 0, 0, 0, 120, 0, 2, 0xc0, 12]);
+
+      const records = decodeRecords(Buffer.concat([header, question, answer]));
+
+      expect(records).toEqual([{ name: INTELLICENTER_SERVICE, type: DnsRecordType.PTR, data: INTELLICENTER_SERVICE }]);
+    });
+
+    it('should reject a name that points at itself', () => {
+      const header = Buffer.alloc(12);
+      header.writeUInt16BE(1, 4);
+      const looping = Buffer.concat([header, Buffer.from([0xc0, 12])]);
+
+      expect(() => decodeRecords(looping)).toThrow('DNS name compression loop');
+    });
+
+    it('should reject a record that extends past the message', () => {
+      const message = panelResponse('192.168.1.50');
+
+      expect(() => decodeRecords(message.subarray(0, message.length - 2))).toThrow();
+    });
+  });
+
+  describe('panelsFromRecords', () => {
+    it('should resolve the panel address through SRV and A records', () => {
+      const panels = panelsFromRecords(decodeRecords(panelResponse('192.168.1.50')), '10.0.0.1');
+
+      expect(panels).toEqual([{ name: 'Pentair: 01-02-03', host: '192.168.1.50', port: 6680 }]);
+    });
+
+    it('should fall back to the responding address without an A record', () => {
+      const records = [{ name: INTELLICENTER_SERVICE, type: DnsRecordType.PTR, data: INSTANCE }];
+
+      expect(panelsFromRecords(records, '10.0.0.1')).toEqual([{ name: 'Pentair: 01-02-03', host: '10.0.0.1', port: undefined }]);
+    });
+
+    it('should ignore other web servers on the network', () => {
+      const records = [{ name: INTELLICENTER_SERVICE, type: DnsRecordType.PTR, data: `Printer.${INTELLICENTER_SERVICE}` }];
+
+      expect(panelsFromRecords(records, '10.0.0.1')).toEqual([]);
+    });
+  });
+
+  describe('isSamePanel', () => {
+    it('should recognise a panel by its name wherever it answers', () => {
+      expect(isSamePanel({ name: 'Pentair: 01-02-03', host: '10.0.0.1' }, { name: 'pentair: 01-02-03', host: '10.0.0.9' })).toBe(true);
+      expect(isSamePanel({ name: 'Pentair: 01-02-03', host: '10.0.0.1' }, { name: 'Pentair: 04-05-06', host: '10.0.0.1' })).toBe(false);
+    });
+  });
+
+  describe('discoverPanels', () => {
+    let responder: dgram.Socket;
+    let responderPort: number;
+
+    beforeEach(done => {
+      responder = dgram.createSocket('udp4');
+      responder.on('message', (_query, remote) => {
+        responder.send(panelResponse('192.168.1.50'), remote.port, remote.address);
+        responder.send(Buffer.from('not dns'), remote.port, remote.address);
+      });
+      responder.bind(0, '127.0.0.1', () => {
+        responderPort = responder.address().port;
+        done();
+      });
+    });
+
+    afterEach(done => {
+      responder.close(() => done());
+    });
+
+    it('should collect panels that answer within the timeout and ignore malformed answers', async () => {
+      const panels = await discoverPanels({ timeoutMs: 200, address: '127.0.0.1', port: responderPort });
+
+      expect(panels).toEqual([{ name: 'Pentair: 01-02-03', host: '192.168.1.50', port: 6680 }]);
+    });
+  });
+
+  describe('DiscoveredHostCache', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(path.join(tmpdir(), 'intellicenter-host-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should return null when nothing was cached', async () => {
+      await expect(new DiscoveredHostCache(path.join(dir, 'host.json')).load()).resolves.toBeNull();
+    });
+
+    it('should load a saved panel', async () => {
+      const cache = new DiscoveredHostCache(path.join(dir, 'host.json'));
+      await cache.save({ name: 'Pentair: 01-02-03', host: '192.168.1.50', port: 6680 });
+
+      await expect(cache.load()).resolves.toEqual(expect.objectContaining({ host: '192.168.1.50', port: 6680 }));
+    });
+
+    it('should ignore a corrupt cache file', async () => {
+      const file = path.join(dir, 'host.json');
+      writeFileSync(file, '{"host": ');
+
+      await expect(new DiscoveredHostCache(file).load()).resolves.toBeNull();
+    });
+  });
+});
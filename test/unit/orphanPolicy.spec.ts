@@ -0,0 +1,53 @@
+import {
+  describeMissingObject,
+  describeOrphanRemovalOptions,
+  isMissingObject,
+  isRemovalDue,
+  recordMissingDiscovery,
+} from '../../src/orphanPolicy';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('orphanPolicy', () => {
+  describe('recordMissingDiscovery', () => {
+    it('should start counting at the first discovery an object is missing from', () => {
+      expect(recordMissingDiscovery(undefined, 1000)).toEqual({ firstMissing: 1000, discoveries: 1 });
+    });
+
+    it('should keep the first time and count one more discovery', () => {
+      expect(recordMissingDiscovery({ firstMissing: 1000, discoveries: 2 }, 5000)).toEqual({ firstMissing: 1000, discoveries: 3 });
+    });
+
+    it('should start again from a malformed context entry', () => {
+      expect(isMissingObject({ firstMissing: 'yesterday' })).toBe(false);
+      expect(recordMissingDiscovery({ firstMissing: 'yesterday' }, 5000)).toEqual({ firstMissing: 5000, discoveries: 1 });
+    });
+  });
+
+  describe('isRemovalDue', () => {
+    it('should require both enough discoveries and the grace period', () => {
+      const options = { discoveries: 3, gracePeriodMs: 24 * HOUR };
+
+      expect(isRemovalDue({ firstMissing: 0, discoveries: 2 }, options, 48 * HOUR)).toBe(false);
+      expect(isRemovalDue({ firstMissing: 0, discoveries: 3 }, options, 23 * HOUR)).toBe(false);
+      expect(isRemovalDue({ firstMissing: 0, discoveries: 3 }, options, 24 * HOUR)).toBe(true);
+    });
+
+    it('should remove at the first discovery when configured so', () => {
+      expect(isRemovalDue({ firstMissing: 0, discoveries: 1 }, { discoveries: 1, gracePeriodMs: 0 }, 0)).toBe(true);
+    });
+  });
+
+  describe('descriptions', () => {
+    it('should describe how long an object has been missing', () => {
+      expect(describeMissingObject({ firstMissing: Date.UTC(2026, 9, 19, 8), discoveries: 1 })).toBe(
+        'missing from 1 discovery since 2026-10-19T08:00:00.000Z',
+      );
+    });
+
+    it('should describe what removal waits for', () => {
+      expect(describeOrphanRemovalOptions({ discoveries: 3, gracePeriodMs: 0 })).toBe('missing from 3 discoveries');
+      expect(describeOrphanRemovalOptions({ discoveries: 1, gracePeriodMs: 24 * HOUR })).toBe('missing from 1 discovery and for 24 hours');
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { API, PlatformAccessory, PlatformConfig } from 'homebridge';
+import * as networkDiscovery from '../../src/networkDiscovery';
+import { PentairPlatform } from '../../src/platform';
+import { PLATFORM_NAME, PLUGIN_NAME } from '../../src/settings';
+import { CircuitType, ObjectType } from '../../src/types';
+import { createMockAPI, createMockLogger } from './testHelpers';
+
+jest.mock('telnet-client');
+jest.mock('../../src/circuitAccessory');
+
+describe('PentairPlatform Multiple Controllers', () => {
+  let mockAPI: API;
+  let mockLogger: ReturnType<typeof createMockLogger>;
+  let platform: PentairPlatform;
+
+  const config: PlatformConfig = {
+    name: 'Pentair IntelliCenter',
+    platform: 'PentairIntelliCenter',
+    temperatureUnits: 'F',
+    pollingInterval: 120,
+    controllers: [
+      { name: 'Pool', ipAddress: '192.168.1.100' },
+      { name: 'Spa', ipAddress: '192.168.1.101', transport: 'websocket', pollingInterval: 300 },
+    ],
+  };
+
+  const cachedAccessory = (uuid: string, context: Record<string, unknown>) =>
+    ({ UUID: uuid, displayName: uuid, context }) as unknown as PlatformAccessory;
+
+  const didFinishLaunching = () => {
+    for (const [event, handler] of (mockAPI.on as jest.Mock).mock.calls) {
+      if (event === 'didFinishLaunching') {
+        handler();
+      }
+    }
+  };
+
+  beforeEach(() => {
+    mockAPI = createMockAPI();
+    mockLogger = createMockLogger();
+    platform = new PentairPlatform(mockLogger, config, mockAPI);
+    jest.spyOn(PentairPlatform.prototype as any, 'connectToIntellicenter').mockResolvedValue(undefined);
+  });
+
+  afterEach(async () => {
+    await platform.cleanup();
+    jest.restoreAllMocks();
+  });
+
+  it('should start one platform per controller with its own connection and queue', () => {
+    const pool = platform.controllers.get('Pool')!;
+    const spa = platform.controllers.get('Spa')!;
+
+    expect([...platform.controllers.keys()]).toEqual(['Pool', 'Spa']);
+    expect((pool as any).connection).not.toBe((spa as any).connection);
+    expect((pool as any).healthMonitor).not.toBe((spa as any).healthMonitor);
+    expect((pool as any).commandScheduler).not.toBe((spa as any).commandScheduler);
+    expect((pool as any).connection).toBeDefined();
+    expect((platform as any).connection).toBeUndefined();
+  });
+
+  it('should apply shared options with per-controller overrides', () => {
+    const pool = (platform.controllers.get('Pool') as any).validatedConfig;
+    const spa = (platform.controllers.get('Spa') as any).validatedConfig;
+
+    expect(pool).toMatchObject({ ipAddress: '192.168.1.100', transport: 'telnet', pollingInterval: 120 });
+    expect(spa).toMatchObject({ ipAddress: '192.168.1.101', transport: 'websocket', pollingInterval: 300 });
+  });
+
+  it('should prefix log messages with the controller name', () => {
+    platform.controllers.get('Spa')!.log.warn('Something happened');
+
+    expect(mockLogger.warn).toHaveBeenCalledWith('[Spa] Something happened');
+  });
+
+  it('should namespace accessory UUIDs so the same objnam on two panels does not collide', () => {
+    const circuit = { id: 'C0001', name: 'Cleaner', objectType: ObjectType.Circuit, type: CircuitType.Generic };
+    const panel = { id: 'PNL01', modules: [], features: [], pumps: [], sensors: [] };
+
+    platform.controllers.get('Pool')!.discoverCircuit(panel as any, null, circuit as any, undefined);
+    platform.controllers.get('Spa')!.discoverCircuit(panel as any, null, circuit as any, undefined);
+
+    const registered = (mockAPI.registerPlatformAccessories as jest.Mock).mock.calls.map(call => call[2][0]);
+    expect(registered.map(accessory => accessory.UUID)).toEqual(['uuid-Pool:C0001', 'uuid-Spa:C0001']);
+    expect(registered.map(accessory => accessory.context.controllerName)).toEqual(['Pool', 'Spa']);
+  });
+
+  it('should hand cached accessories to their controller and keep those of unknown controllers until their removal is due', () => {
+    const poolAccessory = cachedAccessory('uuid-Pool:C0001', { controllerName: 'Pool' });
+    const removedController = cachedAccessory('uuid-Old:C0001', { controllerName: 'Old' });
+
+    [poolAccessory, removedController].forEach(accessory => platform.configureAccessory(accessory));
+    didFinishLaunching();
+
+    expect(platform.controllers.get('Pool')!.accessoryMap.get('uuid-Pool:C0001')).toBe(poolAccessory);
+    expect(platform.accessoryMap.size).toBe(0);
+    expect(mockAPI.unregisterPlatformAccessories).not.toHaveBeenCalled();
+    expect(mockAPI.updatePlatformAccessories).toHaveBeenCalledWith([removedController]);
+    expect(removedController.context.missing).toEqual({ firstMissing: expect.any(Number), discoveries: 1 });
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      expect.stringMatching(
+        /^uuid-Old:C0001 belongs to controller "Old", which is not configured \(missing from 1 discovery since .*\)\. Keeping it until/,
+      ),
+    );
+  });
+
+  it('should move accessories of a single-panel setup to the controller at the same address and keep their UUIDs', async () => {
+    await platform.cleanup();
+    platform = new PentairPlatform(mockLogger, { ...config, ipAddress: '192.168.1.101' }, mockAPI);
+    const singleAccessory = cachedAccessory('uuid-C0001', {});
+    const circuit = { id: 'C0001', name: 'Cleaner', objectType: ObjectType.Circuit, type: CircuitType.Generic };
+    const panel = { id: 'PNL01', modules: [], features: [], pumps: [], sensors: [] };
+
+    platform.configureAccessory(singleAccessory);
+    didFinishLaunching();
+    const spa = platform.controllers.get('Spa')!;
+    spa.discoverCircuit(panel as any, null, circuit as any, undefined);
+
+    expect(singleAccessory.context.controllerName).toBe('Spa');
+    expect(spa.accessoryMap.get('uuid-C0001')).toBe(singleAccessory);
+    expect(mockAPI.updatePlatformAccessories).toHaveBeenCalledWith([singleAccessory]);
+    expect(mockAPI.registerPlatformAccessories).not.toHaveBeenCalledWith(expect.anything(), expect.anything(), [
+      expect.objectContaining({ displayName: 'Cleaner' }),
+    ]);
+    expect(mockAPI.unregisterPlatformAccessories).not.toHaveBeenCalled();
+  });
+
+  it('should move accessories of a single-panel setup to the first controller when no address matches', () => {
+    const singleAccessory = cachedAccessory('uuid-C0001', {});
+
+    platform.configureAccessory(singleAccessory);
+
+    expect(platform.controllers.get('Pool')!.accessoryMap.get('uuid-C0001')).toBe(singleAccessory);
+    expect(mockLogger.info).toHaveBeenCalledWith('Moving uuid-C0001 from the single-panel setup to controller "Pool".');
+  });
+
+  it('should remove cached controller accessories under the orphan policy when a single panel is configured again', async () => {
+    const singleConfig = { ...config, controllers: undefined, ipAddress: '192.168.1.100', orphanRemovalDiscoveries: 1 };
+    const single = new PentairPlatform(mockLogger, singleConfig, mockAPI);
+    const poolAccessory = cachedAccessory('uuid-Pool:C0001', { controllerName: 'Pool' });
+
+    single.configureAccessory(poolAccessory);
+    didFinishLaunching();
+
+    expect(single.accessoryMap.size).toBe(0);
+    expect(mockAPI.unregisterPlatformAccessories).toHaveBeenCalledWith(PLUGIN_NAME, PLATFORM_NAME, [poolAccessory]);
+    expect(mockLogger.info).toHaveBeenCalledWith('Removing orphaned accessory: uuid-Pool:C0001 (controller: Pool)');
+    await single.cleanup();
+  });
+
+  it('should only log the removal of cached controller accessories in a dry run', async () => {
+    const singleConfig = {
+      ...config,
+      controllers: undefined,
+      ipAddress: '192.168.1.100',
+      orphanRemovalDiscoveries: 1,
+      orphanRemovalDryRun: true,
+    };
+    const single = new PentairPlatform(mockLogger, singleConfig, mockAPI);
+    const poolAccessory = cachedAccessory('uuid-Pool:C0001', { controllerName: 'Pool' });
+
+    single.configureAccessory(poolAccessory);
+    didFinishLaunching();
+
+    expect(mockAPI.unregisterPlatformAccessories).not.toHaveBeenCalled();
+    expect(mockLogger.warn).toHaveBeenCalledWith('Dry run: would remove orphaned accessory: uuid-Pool:C0001 (controller: Pool)');
+    await single.cleanup();
+  });
+
+  it('should only follow a controller to the panel last connected at its address', async () => {
+    (mockAPI as any).user = { storagePath: () => '/tmp/homebridge' };
+    const pool = platform.controllers.get('Pool') as any;
+    pool.reconnectAttempt = 5;
+    const load = jest
+      .spyOn(networkDiscovery.DiscoveredHostCache.prototype, 'load')
+      .mockResolvedValue({ name: 'Pentair: 01-02-03', host: '192.168.1.100' });
+    jest.spyOn(networkDiscovery.DiscoveredHostCache.prototype, 'save').mockResolvedValue();
+    jest.spyOn(networkDiscovery, 'discoverPanels').mockResolvedValue([
+      { name: 'Pentair: 04-05-06', host: '192.168.1.101' },
+      { name: 'Pentair: 01-02-03', host: '192.168.1.102' },
+    ]);
+
+    await expect(pool.resolveHost()).resolves.toBe('192.168.1.102');
+    expect((load.mock.contexts[0] as any).filePath).toBe('/tmp/homebridge/pentair-intellicenter-host-Pool.json');
+  });
+
+  it('should clean up every controller', async () => {
+    const cleanups = [...platform.controllers.values()].map(controller => jest.spyOn(controller, 'cleanup'));
+
+    await platform.cleanup();
+
+    cleanups.forEach(cleanup => expect(cleanup).toHaveBeenCalled());
+  });
+});
@@ -56,7 +56,9 @@ describe('Platform Network Edge Cases', () => {
     platform = new PentairPlatform(mockLog, mockConfig, mockAPI);
   });
 
-  afterEach(() => {
+  afterEach(async () => {
+    // The config has no ipAddress, which is valid (network discovery), so the platform starts its timers
+    await platform.cleanup();
     jest.clearAllMocks();
   });
 
@@ -213,16 +213,13 @@ describe('PentairPlatform Graceful Shutdown Tests', () => {
       if ((platform as any).heartbeatInterval) {
         clearInterval((platform as any).heartbeatInterval);
       }
-      if ((platform as any).discoveryTimeout) {
-        clearTimeout((platform as any).discoveryTimeout);
-      }
       if ((platform as any).temperatureValidationInterval) {
         clearInterval((platform as any).temperatureValidationInterval);
       }
 
       // Setup some state for cleanup testing
       (platform as any).heartbeatInterval = setInterval(() => {}, 1000);
-      (platform as any).discoveryTimeout = setTimeout(() => {}, 5000);
+      (platform as any).discoverySession = { cancel: jest.fn() };
       (platform as any).temperatureValidationInterval = setInterval(() => {}, 10000);
       (platform as any).isSocketAlive = true;
       (platform as any).processingQueue = true;
@@ -235,9 +232,6 @@ describe('PentairPlatform Graceful Shutdown Tests', () => {
       if ((platform as any).heartbeatInterval) {
         clearInterval((platform as any).heartbeatInterval);
       }
-      if ((platform as any).discoveryTimeout) {
-        clearTimeout((platform as any).discoveryTimeout);
-      }
       if ((platform as any).temperatureValidationInterval) {
         clearInterval((platform as any).temperatureValidationInterval);
       }
@@ -255,7 +249,7 @@ describe('PentairPlatform Graceful Shutdown Tests', () => {
 
       // Verify timers are cleared
       expect((platform as any).heartbeatInterval).toBeNull();
-      expect((platform as any).discoveryTimeout).toBeNull();
+      expect((platform as any).discoverySession).toBeNull();
       expect((platform as any).temperatureValidationInterval).toBeNull();
 
       // Verify connection cleanup
@@ -309,10 +303,9 @@ describe('PentairPlatform Graceful Shutdown Tests', () => {
     it('should handle already cleaned up state', async () => {
       // Pre-clear everything
       clearInterval((platform as any).heartbeatInterval);
-      clearTimeout((platform as any).discoveryTimeout);
       clearInterval((platform as any).temperatureValidationInterval);
       (platform as any).heartbeatInterval = null;
-      (platform as any).discoveryTimeout = null;
+      (platform as any).discoverySession = null;
       (platform as any).temperatureValidationInterval = null;
       (platform as any).isSocketAlive = false;
       (platform as any).processingQueue = false;
@@ -333,16 +326,13 @@ describe('PentairPlatform Graceful Shutdown Tests', () => {
       if ((platform as any).heartbeatInterval) {
         clearInterval((platform as any).heartbeatInterval);
       }
-      if ((platform as any).discoveryTimeout) {
-        clearTimeout((platform as any).discoveryTimeout);
-      }
       if ((platform as any).temperatureValidationInterval) {
         clearInterval((platform as any).temperatureValidationInterval);
       }
 
       // Setup platform with full state
       (platform as any).heartbeatInterval = setInterval(() => {}, 1000);
-      (platform as any).discoveryTimeout = setTimeout(() => {}, 5000);
+      (platform as any).discoverySession = { cancel: jest.fn() };
       (platform as any).temperatureValidationInterval = setInterval(() => {}, 10000);
       (platform as any).isSocketAlive = true;
       (platform as any).processingQueue = true;
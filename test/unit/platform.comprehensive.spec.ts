@@ -86,6 +86,20 @@ jest.mock('../../src/configValidation', () => ({
         airTemp: true,
         includeAllCircuits: false,
         maxBufferSize: 1048576,
+        writeVerificationWindow: 10,
+        deadLetterReplayMaxAge: 300,
+        reconnectBaseDelay: 2,
+        reconnectMaxDelay: 300,
+        keepaliveInterval: 120,
+        pollingInterval: 0,
+        orphanRemovalDiscoveries: 1,
+        orphanGracePeriod: 0,
+        orphanRemovalDryRun: false,
+        totalAlkalinity: 0,
+        calciumHardness: 0,
+        cyanuricAcid: 0,
+        totalDissolvedSolids: 1000,
+        controllers: [],
       },
     }),
   },
@@ -398,15 +412,8 @@ describe('PentairPlatform - Comprehensive Coverage Tests', () => {
         closeHandler();
       }
 
-      expect(mockLogger.error).toHaveBeenCalledWith(
-        'IntelliCenter socket has been closed. Waiting 30 seconds and attempting to reconnect...',
-      );
-
-      // Fast forward the delay
-      jest.advanceTimersByTime(30000);
-      await Promise.resolve();
-
-      expect(mockLogger.info).toHaveBeenCalledWith('Finished waiting. Attempting reconnect...');
+      expect(mockLogger.error).toHaveBeenCalledWith('IntelliCenter socket has been closed. Attempting to reconnect...');
+      expect(mockLogger.warn).toHaveBeenCalledWith('Attempting reconnect to IntelliCenter (attempt 1)...');
     });
 
     it('should handle error event', () => {
@@ -500,20 +507,20 @@ describe('PentairPlatform - Comprehensive Coverage Tests', () => {
     });
 
     it('should handle discovery response and register accessories', async () => {
-      // Set up platform to complete discovery
-      (platform as any).discoverCommandsSent = ['CIRCUITS', 'PUMPS', 'CHEMS', 'VALVES', 'HEATERS', 'SENSORS', 'GROUPS'];
-      (platform as any).discoveryBuffer = { panels: [] };
+      const sendCommandSpy = jest.spyOn(platform, 'sendCommand');
+      (platform as any).startDiscoverySession(['CIRCUITS']);
 
       const discoveryResponse: IntelliCenterResponse = {
         command: IntelliCenterResponseCommand.SendQuery,
         queryName: IntelliCenterQueryName.GetHardwareDefinition,
         response: IntelliCenterResponseStatus.Ok,
-        messageID: 'test-msg',
+        messageID: sendCommandSpy.mock.calls[0]![0].messageID,
         description: 'test discovery response',
         answer: { panels: [] },
       };
 
       await platform.handleUpdate(discoveryResponse);
+      await jest.advanceTimersByTimeAsync(0);
 
       expect(mockTransformPanels).toHaveBeenCalled();
     });
@@ -685,15 +692,14 @@ describe('PentairPlatform - Comprehensive Coverage Tests', () => {
       expect(mockTelnetInstance.destroy).toHaveBeenCalled();
     });
 
-    it('should handle reconnection throttling', async () => {
-      // Set up recent reconnection time
-      (platform as any).lastReconnectTime = Date.now() - 10000; // 10 seconds ago
+    it('should back off after a failed reconnection attempt', async () => {
+      (platform as any).reconnectAttempt = 1;
       (platform as any).reconnecting = false;
 
       const maybeReconnect = (platform as any).maybeReconnect.bind(platform);
       await maybeReconnect();
 
-      expect(mockLogger.warn).toHaveBeenCalledWith('Reconnect suppressed: too soon after last one.');
+      expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringMatching(/^Reconnecting to IntelliCenter in \d+s \(attempt 2\)\.$/));
     });
 
     it('should skip reconnection if already in progress', async () => {
@@ -784,48 +790,49 @@ describe('PentairPlatform - Comprehensive Coverage Tests', () => {
   });
 
   describe('Discovery Device Type Sequencing', () => {
+    const answers: Array<() => void> = [];
+
+    const answerQuery = async (index: number) => {
+      answers[index]!();
+      await jest.advanceTimersByTimeAsync(0);
+    };
+
     beforeEach(() => {
       platform = createTrackedPlatform(mockLogger, mockConfig, mockAPI);
+      answers.length = 0;
+      jest.spyOn(platform, 'sendCommand').mockImplementation(
+        command =>
+          new Promise(resolve =>
+            answers.push(() =>
+              resolve({
+                command: IntelliCenterResponseCommand.SendQuery,
+                queryName: IntelliCenterQueryName.GetHardwareDefinition,
+                response: IntelliCenterResponseStatus.Ok,
+                messageID: command.messageID,
+                description: 'test discovery response',
+                answer: { panels: [] },
+              }),
+            ),
+          ),
+      );
     });
 
     it('should handle discovery response sequencing', async () => {
-      // Mock that we haven't sent all discovery commands yet
-      (platform as any).discoverCommandsSent = ['CIRCUITS'];
-      (platform as any).discoveryBuffer = null;
+      (platform as any).startDiscoverySession();
 
-      const discoveryResponse: IntelliCenterResponse = {
-        command: IntelliCenterResponseCommand.SendQuery,
-        queryName: IntelliCenterQueryName.GetHardwareDefinition,
-        response: IntelliCenterResponseStatus.Ok,
-        messageID: 'test-msg',
-        description: 'test discovery response',
-        answer: { panels: [] },
-      };
+      await answerQuery(0);
 
-      await platform.handleUpdate(discoveryResponse);
-
-      expect(mockLogger.debug).toHaveBeenCalledWith(expect.stringContaining('Merged 1 of'));
-
-      // Advance timer to trigger next discovery command
-      jest.advanceTimersByTime(250);
+      expect(mockLogger.debug).toHaveBeenCalledWith('Discovery 1/7: CIRCUITS answered (attempt 1).');
+      // Two categories stay in flight
+      expect((platform.sendCommand as jest.Mock).mock.calls.map(([command]) => command.arguments)).toEqual(['CIRCUITS', 'PUMPS', 'CHEMS']);
     });
 
     it('should complete discovery when all commands sent', async () => {
-      // Mock that all discovery commands have been sent
-      const DISCOVER_COMMANDS = require('../../src/constants').DISCOVER_COMMANDS;
-      (platform as any).discoverCommandsSent = [...DISCOVER_COMMANDS];
-      (platform as any).discoveryBuffer = { panels: [] };
+      (platform as any).startDiscoverySession(['CIRCUITS', 'PUMPS']);
 
-      const discoveryResponse: IntelliCenterResponse = {
-        command: IntelliCenterResponseCommand.SendQuery,
-        queryName: IntelliCenterQueryName.GetHardwareDefinition,
-        response: IntelliCenterResponseStatus.Ok,
-        messageID: 'test-msg',
-        description: 'test discovery response',
-        answer: { panels: [] },
-      };
-
-      await platform.handleUpdate(discoveryResponse);
+      await answerQuery(1);
+      expect(mockLogger.debug).not.toHaveBeenCalledWith(expect.stringContaining('Discovery commands completed'));
+      await answerQuery(0);
 
       expect(mockLogger.debug).toHaveBeenCalledWith(expect.stringContaining('Discovery commands completed'));
     });
@@ -869,7 +876,9 @@ describe('PentairPlatform - Comprehensive Coverage Tests', () => {
 
       newPlatform.discoverTemperatureSensor(panel, null, sensor);
 
-      expect(mockLogger.debug).toHaveBeenCalledWith(expect.stringContaining('Skipping air temperature sensor'));
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        expect.stringContaining('Skipping temperature sensor Air Temp: it is turned off by airTemp'),
+      );
     });
 
     it('should skip water temperature sensor when heater is present', () => {
@@ -898,7 +907,9 @@ describe('PentairPlatform - Comprehensive Coverage Tests', () => {
 
       platform.discoverTemperatureSensor(panel, null, sensor);
 
-      expect(mockLogger.debug).toHaveBeenCalledWith(expect.stringContaining('Skipping water temperature sensor'));
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        expect.stringContaining('Skipping temperature sensor Pool Temp: it is not shown because a heater is installed'),
+      );
     });
   });
 
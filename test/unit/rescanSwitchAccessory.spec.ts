@@ -0,0 +1,68 @@
+import { PlatformAccessory } from 'homebridge';
+import { RescanSwitchAccessory } from '../../src/rescanSwitchAccessory';
+import { RESCAN_SWITCH_RESET_MS } from '../../src/constants';
+import { createMockAccessoryPlatform, createMockService, MockService } from './testHelpers';
+
+const mockPlatform = createMockAccessoryPlatform({
+  rediscoverHardware: jest.fn(),
+});
+
+describe('RescanSwitchAccessory', () => {
+  let switchService: MockService;
+  let accessory: PlatformAccessory;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    switchService = createMockService();
+    accessory = {
+      displayName: 'Rescan Hardware',
+      context: { rescanSwitch: true },
+      getService: jest.fn((type: string) => (type === 'Switch' ? undefined : createMockService())),
+      addService: jest.fn().mockReturnValue(switchService),
+    } as unknown as PlatformAccessory;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const setOn = () => switchService.onSet.mock.calls[0]![0];
+
+  it('should always report the switch as off', async () => {
+    new RescanSwitchAccessory(mockPlatform, accessory);
+
+    expect(accessory.addService).toHaveBeenCalledWith('Switch');
+    await expect(switchService.onGet.mock.calls[0]![0]()).resolves.toBe(false);
+  });
+
+  it('should check the hardware and turn itself off again', async () => {
+    (mockPlatform.rediscoverHardware as jest.Mock).mockReturnValue(true);
+    new RescanSwitchAccessory(mockPlatform, accessory);
+
+    await setOn()(true);
+
+    expect(mockPlatform.rediscoverHardware).toHaveBeenCalledWith('rescan switch');
+    expect(switchService.updateCharacteristic).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(RESCAN_SWITCH_RESET_MS);
+    expect(switchService.updateCharacteristic).toHaveBeenCalledWith('On', false);
+  });
+
+  it('should report a check that could not start to HomeKit', async () => {
+    (mockPlatform.rediscoverHardware as jest.Mock).mockReturnValue(false);
+    new RescanSwitchAccessory(mockPlatform, accessory);
+
+    await expect(setOn()(true)).rejects.toMatchObject({ hapStatus: -70402 });
+    expect(mockPlatform.log.warn).toHaveBeenCalledWith(expect.stringContaining('Could not check IntelliCenter for hardware changes'));
+    jest.advanceTimersByTime(RESCAN_SWITCH_RESET_MS);
+    expect(switchService.updateCharacteristic).toHaveBeenCalledWith('On', false);
+  });
+
+  it('should ignore being turned off', async () => {
+    new RescanSwitchAccessory(mockPlatform, accessory);
+
+    await setOn()(false);
+
+    expect(mockPlatform.rediscoverHardware).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,309 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { Socket } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import WebSocket from 'ws';
+import { HardwareDump, IntelliCenterSimulator, loadHardwareDumps, PanelSimulation } from '../../src/simulator';
+import { parseSimulatorArguments } from '../../src/simulatorCli';
+
+const DUMPS = path.join(__dirname, '../../documentation/v2');
+
+/**
+ * Raw socket client that collects every JSON line the simulator sends
+ */
+class TestClient {
+  readonly messages: any[] = [];
+  private buffer = '';
+
+  constructor(private readonly socket: Socket) {
+    socket.on('data', data => {
+      this.buffer += data.toString();
+      const lines = this.buffer.split('\n');
+      this.buffer = lines.pop()!;
+      lines.filter(line => line.trim()).forEach(line => this.messages.push(JSON.parse(line)));
+    });
+  }
+
+  static connect(port: number): Promise<TestClient> {
+    return new Promise(resolve => {
+      const socket = new Socket();
+      socket.connect(port, '127.0.0.1', () => resolve(new TestClient(socket)));
+    });
+  }
+
+  send(request: Record<string, unknown>): void {
+    this.socket.write(`${JSON.stringify(request)}\n`);
+  }
+
+  async waitFor(predicate: (message: any) => boolean): Promise<any> {
+    for (let i = 0; i < 100; i++) {
+      const message = this.messages.find(predicate);
+      if (message) {
+        return message;
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error('Message not received');
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+}
+
+describe('simulator', () => {
+  let dumps: HardwareDump[];
+
+  beforeAll(async () => {
+    dumps = await loadHardwareDumps([DUMPS]);
+  });
+
+  describe('loadHardwareDumps', () => {
+    it('should take each category from the file name', () => {
+      expect(dumps.map(dump => dump.category)).toEqual(['CHEMS', 'CIRCUITS', 'GROUPS', 'HEATERS', 'PUMPS', 'SENSORS', 'VALVES']);
+    });
+
+    it('should answer every category from a combined dump', async () => {
+      const [dump] = await loadHardwareDumps([path.join(DUMPS, '../Response-GetHardwareDefinition.json')]);
+
+      expect(dump!.category).toBeNull();
+    });
+
+    it('should reject a file that is not a hardware definition', async () => {
+      const dir = mkdtempSync(path.join(tmpdir(), 'intellicenter-dump-'));
+      const file = path.join(dir, 'dump.json');
+      writeFileSync(file, '{"command":"SendParamList"}');
+
+      await expect(loadHardwareDumps([file])).rejects.toThrow(`${file} is not a GetHardwareDefinition response`);
+      rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
+  describe('PanelSimulation', () => {
+    let simulation: PanelSimulation;
+
+    beforeEach(() => {
+      simulation = new PanelSimulation(dumps, { airTemperature: 70, firmwareVersion: '3.004' });
+    });
+
+    it('should answer a category with its dump and the current values', () => {
+      simulation.write('C0006', { STATUS: 'ON' }, new Map());
+
+      const circuits = JSON.stringify(simulation.hardwareDefinition('CIRCUITS'));
+      const pumps = JSON.stringify(simulation.hardwareDefinition('PUMPS'));
+
+      expect(circuits).toContain('"objnam":"C0006","params":{"OBJTYP":"CIRCUIT"');
+      expect(circuits).not.toContain('PMP01');
+      expect(pumps).toContain('PMP01');
+      expect(simulation.read('C0006', ['STATUS'])).toEqual({ STATUS: 'ON' });
+    });
+
+    it('should start from live values a panel could report', () => {
+      expect(simulation.read('B1101', ['STATUS', 'LSTTMP', 'HTMODE'])).toEqual({ STATUS: 'OFF', LSTTMP: '70', HTMODE: '0' });
+      expect(simulation.read('_5451', ['VER'])).toEqual({ VER: '3.004' });
+      expect(simulation.read('PMP01', ['RPM', 'GPM', 'WATTS'])).toEqual({ RPM: '0', GPM: '0', WATTS: '0' });
+    });
+
+    it('should answer keys an object lacks with their own name and unknown objects with null', () => {
+      expect(simulation.read('C0002', ['NOPE'])).toEqual({ NOPE: 'NOPE' });
+      expect(simulation.read('C9999', ['STATUS'])).toBeNull();
+    });
+
+    it('should switch a body together with its circuit', () => {
+      const changes = new Map();
+
+      simulation.write('C0001', { STATUS: 'ON' }, changes);
+
+      expect(changes.get('B1202')).toEqual({ STATUS: 'ON' });
+      expect(simulation.read('B1202', ['STATUS'])).toEqual({ STATUS: 'ON' });
+    });
+
+    it('should heat a running body with a heat source up to its setpoint', () => {
+      simulation.write('B1202', { STATUS: 'ON', LOTMP: '100' }, new Map());
+
+      const changes = simulation.advance(600);
+      expect(changes.get('B1202')).toEqual({ HTMODE: '1', LSTTMP: '77' });
+
+      simulation.advance(3 * 3600);
+      simulation.advance(60);
+      expect(simulation.read('B1202', ['LSTTMP', 'HTMODE'])).toEqual({ LSTTMP: '100', HTMODE: '0' });
+    });
+
+    it('should not heat a body without a heat source', () => {
+      simulation.write('B1101', { STATUS: 'ON', LSTTMP: '80' }, new Map());
+
+      simulation.advance(3600);
+
+      expect(simulation.read('B1101', ['LSTTMP', 'HTMODE'])).toEqual({ LSTTMP: '80', HTMODE: '0' });
+      simulation.advance(10 * 3600);
+      expect(Number(simulation.read('B1101', ['LSTTMP'])!.LSTTMP)).toBeLessThan(80);
+    });
+
+    it('should ramp a pump to the highest speed its active circuits ask for', () => {
+      simulation.write('C0002', { STATUS: 'ON' }, new Map());
+
+      simulation.advance(1);
+      expect(simulation.read('PMP02', ['STATUS', 'RPM'])).toEqual({ STATUS: 'ON', RPM: '300' });
+
+      simulation.advance(10);
+      expect(simulation.read('PMP02', ['RPM', 'GPM', 'WATTS'])).toEqual({ RPM: '1450', GPM: '32', WATTS: '174' });
+      expect(simulation.read('p0201', ['STATUS', 'RPM'])).toEqual({ STATUS: 'ON', RPM: '1450' });
+
+      simulation.write('C0002', { STATUS: 'OFF' }, new Map());
+      simulation.advance(10);
+      expect(simulation.read('PMP02', ['STATUS', 'RPM', 'WATTS'])).toEqual({ STATUS: 'OFF', RPM: '0', WATTS: '0' });
+    });
+
+    it('should run a flow setting at the speed that delivers it', () => {
+      simulation.write('C0009', { STATUS: 'ON' }, new Map());
+
+      simulation.advance(30);
+
+      expect(simulation.read('PMP01', ['GPM'])).toEqual({ GPM: '30' });
+    });
+
+    it('should have the pool sensor follow the pool water', () => {
+      simulation.write('B1101', { LSTTMP: '82' }, new Map());
+
+      simulation.advance(1);
+
+      expect(simulation.read('SSW11', ['PROBE'])).toEqual({ PROBE: '82' });
+      expect(simulation.read('_A135', ['PROBE'])).toEqual({ PROBE: '70' });
+    });
+  });
+
+  describe('IntelliCenterSimulator', () => {
+    let simulator: IntelliCenterSimulator;
+    let client: TestClient;
+
+    beforeEach(async () => {
+      simulator = new IntelliCenterSimulator(new PanelSimulation(dumps), { host: '127.0.0.1', port: 0, tickMs: 60000 });
+      await simulator.start();
+      client = await TestClient.connect(simulator.port);
+    });
+
+    afterEach(async () => {
+      client.close();
+      await simulator.stop();
+    });
+
+    it('should answer the hardware definition query', async () => {
+      client.send({ command: 'GetQuery', queryName: 'GetHardwareDefinition', arguments: 'PUMPS', messageID: 'q1' });
+
+      const response = await client.waitFor(message => message.messageID === 'q1');
+      expect(response).toMatchObject({ command: 'SendQuery', queryName: 'GetHardwareDefinition', response: '200' });
+      expect(JSON.stringify(response.answer)).toContain('PMP02');
+    });
+
+    it('should leave objects the panel does not have out of a parameter list', async () => {
+      client.send({
+        command: 'GetParamList',
+        condition: '',
+        messageID: 'g1',
+        objectList: [
+          { objnam: 'C0003', keys: ['STATUS'] },
+          { objnam: 'C9999', keys: ['STATUS'] },
+        ],
+      });
+
+      const response = await client.waitFor(message => message.messageID === 'g1');
+      expect(response).toMatchObject({ command: 'SendParamList', objectList: [{ objnam: 'C0003', params: { STATUS: 'OFF' } }] });
+    });
+
+    it('should answer INCR with every object matching the condition', async () => {
+      client.send({
+        command: 'GetParamList',
+        condition: 'OBJTYP=MODULE',
+        messageID: 'm1',
+        objectList: [{ objnam: 'INCR', keys: ['VER'] }],
+      });
+
+      const response = await client.waitFor(message => message.messageID === 'm1');
+      expect(response.objectList.length).toBeGreaterThan(0);
+      expect(response.objectList[0]).toEqual({ objnam: 'M0101', params: { VER: '10.001' } });
+    });
+
+    it('should acknowledge a write and notify subscribers of the keys they asked for', async () => {
+      const other = await TestClient.connect(simulator.port);
+      other.send({ command: 'RequestParamList', messageID: 's1', objectList: [{ objnam: 'B1202', keys: ['STATUS'] }] });
+      await other.waitFor(message => message.messageID === 's1');
+
+      client.send({ command: 'SetParamList', messageID: 'w1', objectList: [{ objnam: 'C0001', params: { STATUS: 'ON' } }] });
+
+      await expect(client.waitFor(message => message.messageID === 'w1')).resolves.toMatchObject({
+        command: 'SetParamList',
+        response: '200',
+      });
+      const notification = await other.waitFor(message => message.command === 'NotifyList');
+      expect(notification.objectList).toEqual([{ objnam: 'B1202', params: { STATUS: 'ON' } }]);
+      expect(client.messages.some(message => message.command === 'NotifyList')).toBe(false);
+      other.close();
+    });
+
+    it('should reject a write to an unknown object without applying any of it', async () => {
+      client.send({
+        command: 'SetParamList',
+        messageID: 'w2',
+        objectList: [
+          { objnam: 'C0003', params: { STATUS: 'ON' } },
+          { objnam: 'C9999', params: { STATUS: 'ON' } },
+        ],
+      });
+
+      await expect(client.waitFor(message => message.messageID === 'w2')).resolves.toMatchObject({
+        response: '400',
+        description: 'Unknown object: C9999',
+      });
+      expect(simulator.simulation.read('C0003', ['STATUS'])).toEqual({ STATUS: 'OFF' });
+    });
+
+    it('should push changes from simulated time', async () => {
+      client.send({ command: 'RequestParamList', messageID: 's2', objectList: [{ objnam: 'PMP02', keys: ['RPM'] }] });
+      await client.waitFor(message => message.messageID === 's2');
+      simulator.simulation.write('C0002', { STATUS: 'ON' }, new Map());
+
+      simulator.tick(2);
+
+      const notification = await client.waitFor(message => message.command === 'NotifyList');
+      expect(notification.objectList).toEqual([{ objnam: 'PMP02', params: { RPM: '600' } }]);
+    });
+
+    it('should answer malformed requests and unknown commands with errors', async () => {
+      client.send({ command: 'Reboot', messageID: 'x1' });
+      (client as any).socket.write('{"command": nope}\n');
+
+      await expect(client.waitFor(message => message.messageID === 'x1')).resolves.toMatchObject({ command: 'Error', response: '400' });
+      await expect(client.waitFor(message => message.description === 'ParseError: Invalid JSON')).resolves.toBeDefined();
+    });
+
+    it('should serve the WebSocket interface', async () => {
+      const webSocketSimulator = new IntelliCenterSimulator(new PanelSimulation(dumps), { host: '127.0.0.1', port: 0, webSocketPort: 0 });
+      await webSocketSimulator.start();
+      const socket = new WebSocket(`ws://127.0.0.1:${webSocketSimulator.webSocketPort}`);
+      await new Promise(resolve => socket.on('open', resolve));
+
+      const reply = new Promise<any>(resolve => socket.on('message', data => resolve(JSON.parse(data.toString()))));
+      socket.send(JSON.stringify({ command: 'GetParamList', messageID: 'ws1', objectList: [{ objnam: '_5451', keys: ['VER'] }] }));
+
+      await expect(reply).resolves.toMatchObject({ messageID: 'ws1', objectList: [{ objnam: '_5451', params: { VER: '3.004' } }] });
+      socket.close();
+      await webSocketSimulator.stop();
+    });
+  });
+
+  describe('parseSimulatorArguments', () => {
+    it('should read dump paths and options in any order', () => {
+      expect(parseSimulatorArguments(['--port', '7000', 'dumps', '--time-scale', '60', '--firmware', '1.047'])).toEqual({
+        paths: ['dumps'],
+        options: { port: 7000, timeScale: 60, firmwareVersion: '1.047' },
+      });
+    });
+
+    it('should reject missing dumps, unknown options and bad numbers', () => {
+      expect(() => parseSimulatorArguments([])).toThrow('At least one hardware definition dump is required');
+      expect(() => parseSimulatorArguments(['dumps', '--speed', '2'])).toThrow('Unknown option --speed');
+      expect(() => parseSimulatorArguments(['dumps', '--port', 'abc'])).toThrow('--port must be a non-negative number, got "abc"');
+      expect(() => parseSimulatorArguments(['dumps', '--port'])).toThrow('--port needs a value');
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { SubscriptionRegistry } from '../../src/subscriptionRegistry';
+
+describe('SubscriptionRegistry', () => {
+  let registry: SubscriptionRegistry;
+
+  beforeEach(() => {
+    registry = new SubscriptionRegistry();
+  });
+
+  it('should merge keys subscribed for the same object', () => {
+    registry.add('C0001', ['STATUS', 'ACT']);
+    registry.add('C0001', ['STATUS', 'SPEED']);
+    registry.add('B1101', ['LSTTMP']);
+
+    expect(registry.entries()).toEqual([
+      { objnam: 'C0001', keys: ['STATUS', 'ACT', 'SPEED'] },
+      { objnam: 'B1101', keys: ['LSTTMP'] },
+    ]);
+    expect(registry.size).toBe(2);
+  });
+
+  it('should only allow replay after a completed discovery with subscriptions', () => {
+    expect(registry.canReplay()).toBe(false);
+
+    registry.markComplete();
+    expect(registry.canReplay()).toBe(false);
+
+    registry.add('C0001', ['STATUS']);
+    expect(registry.canReplay()).toBe(true);
+
+    registry.reset();
+    expect(registry.canReplay()).toBe(false);
+    expect(registry.size).toBe(0);
+  });
+
+  it('should forget a removed object and stay complete', () => {
+    registry.add('C0001', ['STATUS']);
+    registry.add('C0002', ['STATUS']);
+    registry.markComplete();
+
+    registry.remove('C0002');
+
+    expect(registry.entries()).toEqual([{ objnam: 'C0001', keys: ['STATUS'] }]);
+    expect(registry.canReplay()).toBe(true);
+  });
+
+  it('should report subscribed objects missing from a refresh', () => {
+    registry.add('C0001', ['STATUS']);
+    registry.add('C0002', ['STATUS']);
+
+    expect(registry.findMissing([{ objnam: 'C0001', params: { STATUS: 'ON' } }])).toEqual(['C0002']);
+  });
+
+  it('should treat objects whose keys are echoed back as missing', () => {
+    registry.add('C0001', ['STATUS', 'ACT']);
+    registry.add('C0002', ['STATUS']);
+
+    const missing = registry.findMissing([
+      { objnam: 'C0001', params: { STATUS: 'STATUS', ACT: 'ACT' } },
+      { objnam: 'C0002', params: { STATUS: 'OFF' } },
+    ]);
+
+    expect(missing).toEqual(['C0001']);
+  });
+});
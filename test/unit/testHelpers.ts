@@ -1,4 +1,5 @@
 import { Logger, API, PlatformAccessory } from 'homebridge';
+import { PentairPlatform } from '../../src/platform';
 
 export function createMockLogger(): Logger {
   return {
@@ -111,3 +112,95 @@ export function createMockAccessory(): PlatformAccessory {
     _associatedPlugin: undefined,
   } as any;
 }
+
+export function createMockService() {
+  return {
+    setCharacteristic: jest.fn().mockReturnThis(),
+    updateCharacteristic: jest.fn().mockReturnThis(),
+    getCharacteristic: jest.fn().mockReturnThis(),
+    setProps: jest.fn().mockReturnThis(),
+    onGet: jest.fn().mockReturnThis(),
+    onSet: jest.fn().mockReturnThis(),
+  };
+}
+
+export type MockService = ReturnType<typeof createMockService>;
+
+export class MockHapStatusError extends Error {
+  constructor(public readonly hapStatus: number) {
+    super(`HAP status ${hapStatus}`);
+  }
+}
+
+/**
+ * A platform for accessory tests. The platform methods an accessory calls are passed in as jest mocks.
+ */
+export function createMockAccessoryPlatform(methods: Record<string, jest.Mock>): PentairPlatform {
+  return {
+    Service: {
+      AccessoryInformation: 'AccessoryInformation',
+      LightSensor: 'LightSensor',
+      ContactSensor: 'ContactSensor',
+      Fan: 'Fan',
+      Switch: 'Switch',
+      AirQualitySensor: 'AirQualitySensor',
+      Valve: 'Valve',
+    },
+    Characteristic: {
+      Manufacturer: 'Manufacturer',
+      Model: 'Model',
+      SerialNumber: 'SerialNumber',
+      Name: 'Name',
+      CurrentAmbientLightLevel: 'CurrentAmbientLightLevel',
+      On: 'On',
+      RotationSpeed: 'RotationSpeed',
+      ContactSensorState: { CONTACT_DETECTED: 0, CONTACT_NOT_DETECTED: 1 },
+      StatusFault: { NO_FAULT: 0, GENERAL_FAULT: 1 },
+      AirQuality: { UNKNOWN: 0, EXCELLENT: 1, GOOD: 2, FAIR: 3, INFERIOR: 4, POOR: 5 },
+      Active: { ACTIVE: 1, INACTIVE: 0 },
+      InUse: { IN_USE: 1, NOT_IN_USE: 0 },
+      ValveType: { GENERIC_VALVE: 0 },
+    },
+    log: createMockLogger(),
+    api: {
+      hap: {
+        HapStatusError: MockHapStatusError,
+        HAPStatus: { SERVICE_COMMUNICATION_FAILURE: -70402, INVALID_VALUE_IN_REQUEST: -70410 },
+      },
+    },
+    ...methods,
+  } as unknown as PentairPlatform;
+}
+
+/**
+ * An accessory whose services are kept in services by subtype, next to its accessory information service
+ */
+export function createMockServiceAccessory(
+  displayName: string,
+  context: Record<string, unknown>,
+  services: Map<string, MockService>,
+  accessoryInformation: MockService,
+): PlatformAccessory {
+  return {
+    displayName,
+    context,
+    getService: jest.fn().mockReturnValue(accessoryInformation),
+    getServiceById: jest.fn((_type: string, subtype: string) => services.get(subtype)),
+    addService: jest.fn((_type: string, _name: string, subtype: string) => {
+      const service = createMockService();
+      services.set(subtype, service);
+      return service;
+    }),
+    removeService: jest.fn(),
+  } as unknown as PlatformAccessory;
+}
+
+/**
+ * The value last pushed to a characteristic of the service with the subtype
+ */
+export function lastCharacteristicUpdate(services: Map<string, MockService>, subtype: string, characteristic: unknown): unknown {
+  return services
+    .get(subtype)!
+    .updateCharacteristic.mock.calls.filter(([updated]) => updated === characteristic)
+    .pop()?.[1];
+}
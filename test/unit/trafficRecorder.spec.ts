@@ -0,0 +1,209 @@
+import EventEmitter from 'events';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { PentairPlatform } from '../../src/platform';
+import {
+  loadTraffic,
+  RecordingTransport,
+  REDACTED_CREDENTIAL,
+  ReplayTransport,
+  TrafficDirection,
+  TrafficRecorder,
+} from '../../src/trafficRecorder';
+import { LoginTransport, TransportEvent } from '../../src/transport';
+import { TransportType } from '../../src/types';
+import { createMockAPI, createMockLogger } from './testHelpers';
+
+class FakeTransport extends EventEmitter {
+  readonly type = TransportType.WebSocket;
+  connect = jest.fn().mockResolvedValue(undefined);
+  send = jest.fn().mockResolvedValue(undefined);
+  destroy = jest.fn();
+}
+
+const entry = (elapsedMs: number, direction: TrafficDirection, data: string) =>
+  JSON.stringify({ time: new Date(elapsedMs).toISOString(), elapsedMs, direction, data });
+
+describe('trafficRecorder', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'intellicenter-traffic-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    jest.useRealTimers();
+  });
+
+  describe('TrafficRecorder', () => {
+    it('should write one timestamped JSON line per message', async () => {
+      const file = path.join(dir, 'traffic.jsonl');
+      const recorder = new TrafficRecorder(file);
+
+      recorder.record(TrafficDirection.Outbound, '{"command":"GetQuery"}\n');
+      recorder.record(TrafficDirection.Inbound, Buffer.from('{"command":"SendQuery"}\n'));
+      await recorder.close();
+
+      const entries = await loadTraffic(file);
+      expect(entries.map(({ direction, data }) => ({ direction, data }))).toEqual([
+        { direction: 'out', data: '{"command":"GetQuery"}\n' },
+        { direction: 'in', data: '{"command":"SendQuery"}\n' },
+      ]);
+      expect(entries[0]!.elapsedMs).toBeGreaterThanOrEqual(0);
+      expect(new Date(entries[0]!.time).getTime()).not.toBeNaN();
+    });
+
+    it('should replace an earlier recording', async () => {
+      const file = path.join(dir, 'traffic.jsonl');
+      writeFileSync(file, 'old session\n');
+
+      const recorder = new TrafficRecorder(file);
+      recorder.record(TrafficDirection.Outbound, '{}');
+      await recorder.close();
+
+      expect(readFileSync(file, 'utf8')).not.toContain('old session');
+    });
+  });
+
+  describe('RecordingTransport', () => {
+    it('should record sent and received data and pass events through', async () => {
+      const inner = new FakeTransport();
+      const recorder = { record: jest.fn() } as unknown as TrafficRecorder;
+      const transport = new RecordingTransport(inner, recorder);
+      const onData = jest.fn();
+      const onClose = jest.fn();
+      transport.on(TransportEvent.Data, onData);
+      transport.on(TransportEvent.Close, onClose);
+
+      await transport.send('{"command":"GetParamList"}\n');
+      inner.emit(TransportEvent.Data, Buffer.from('{"command":"SendParamList"}\n'));
+      inner.emit(TransportEvent.Close);
+
+      expect(transport.type).toBe(TransportType.WebSocket);
+      expect(inner.send).toHaveBeenCalledWith('{"command":"GetParamList"}\n');
+      expect(recorder.record).toHaveBeenCalledWith(TrafficDirection.Outbound, '{"command":"GetParamList"}\n');
+      expect(recorder.record).toHaveBeenCalledWith(TrafficDirection.Inbound, Buffer.from('{"command":"SendParamList"}\n'));
+      expect(onData).toHaveBeenCalledTimes(1);
+      expect(onClose).toHaveBeenCalled();
+    });
+
+    it('should record the login prompts below the login without the credentials', async () => {
+      const inner = new FakeTransport();
+      const recorder = { record: jest.fn() } as unknown as TrafficRecorder;
+      const transport = new LoginTransport(new RecordingTransport(inner, recorder));
+
+      const connected = transport.connect({ host: 'pool.local', port: 6681, username: 'admin', password: 's3cret' });
+      await Promise.resolve();
+      inner.emit(TransportEvent.Data, Buffer.from('login: '));
+      inner.emit(TransportEvent.Data, Buffer.from('Password: '));
+      inner.emit(TransportEvent.Data, Buffer.from('Welcome\r\n'));
+      await connected;
+
+      expect(inner.send).toHaveBeenCalledWith('s3cret\n');
+      const recorded = (recorder.record as jest.Mock).mock.calls.map(([direction, data]) => [direction, data.toString()]);
+      expect(recorded).toEqual([
+        [TrafficDirection.Inbound, 'login: '],
+        [TrafficDirection.Outbound, `${REDACTED_CREDENTIAL}\n`],
+        [TrafficDirection.Inbound, 'Password: '],
+        [TrafficDirection.Outbound, `${REDACTED_CREDENTIAL}\n`],
+        [TrafficDirection.Inbound, 'Welcome\r\n'],
+      ]);
+    });
+
+    it('should not raise inner errors nobody listens for', () => {
+      const transport = new RecordingTransport(new FakeTransport(), { record: jest.fn() } as unknown as TrafficRecorder);
+
+      expect(() => (transport as any).inner.emit(TransportEvent.Error, new Error('reset'))).not.toThrow();
+    });
+  });
+
+  describe('loadTraffic', () => {
+    it('should skip blank lines', async () => {
+      const file = path.join(dir, 'traffic.jsonl');
+      writeFileSync(file, `${entry(0, TrafficDirection.Inbound, '{}')}\n\n`);
+
+      await expect(loadTraffic(file)).resolves.toHaveLength(1);
+    });
+
+    it('should report the line that is not an entry', async () => {
+      const file = path.join(dir, 'traffic.jsonl');
+      writeFileSync(file, `${entry(0, TrafficDirection.Inbound, '{}')}\n{"direction":"sideways"}\nnot json\n`);
+
+      await expect(loadTraffic(file)).rejects.toThrow(`${file}:2 is not a traffic entry`);
+    });
+  });
+
+  describe('ReplayTransport', () => {
+    const writeRecording = (lines: string[]) => {
+      const file = path.join(dir, 'traffic.jsonl');
+      writeFileSync(file, lines.join('\n'));
+      return file;
+    };
+
+    it('should replay received data with its original timing and new message IDs', async () => {
+      const file = writeRecording([
+        entry(1000, TrafficDirection.Outbound, '{"command":"GetQuery","messageID":"recorded-1"}\n'),
+        entry(1200, TrafficDirection.Inbound, '{"command":"SendQuery","messageID":"recorded-1"}\n'),
+        entry(6000, TrafficDirection.Inbound, '{"command":"NotifyList","messageID":"notify-1"}\n'),
+      ]);
+      const transport = new ReplayTransport(file);
+      const received: string[] = [];
+      const onReady = jest.fn();
+      transport.on(TransportEvent.Data, data => received.push(data.toString()));
+      transport.on(TransportEvent.Ready, onReady);
+
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      await transport.connect();
+      await transport.send('{"command":"GetQuery","messageID":"live-1"}\n');
+
+      expect(onReady).toHaveBeenCalled();
+      expect(transport.type).toBe(TransportType.Replay);
+
+      jest.advanceTimersByTime(199);
+      expect(received).toEqual([]);
+
+      jest.advanceTimersByTime(1);
+      expect(received).toEqual(['{"command":"SendQuery","messageID":"live-1"}\n']);
+
+      jest.advanceTimersByTime(4800);
+      expect(received[1]).toBe('{"command":"NotifyList","messageID":"notify-1"}\n');
+    });
+
+    it('should stop replaying when destroyed', async () => {
+      const file = writeRecording([entry(0, TrafficDirection.Inbound, '{"command":"NotifyList"}\n')]);
+      const transport = new ReplayTransport(file);
+      const onData = jest.fn();
+      transport.on(TransportEvent.Data, onData);
+
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      await transport.connect();
+      transport.destroy();
+      jest.runAllTimers();
+
+      expect(onData).not.toHaveBeenCalled();
+    });
+
+    it('should drive the platform from a recording', async () => {
+      const file = writeRecording([
+        entry(0, TrafficDirection.Inbound, '{"command":"NotifyList","messageID":"n1","objectList":[{"objnam":"C0001",'),
+        entry(5, TrafficDirection.Inbound, '"params":{"STATUS":"ON"}}]}\n'),
+      ]);
+      const platform = new PentairPlatform(
+        createMockLogger(),
+        { platform: 'PentairIntelliCenter', name: 'Replay', temperatureUnits: 'F', replayFile: file },
+        createMockAPI(),
+      );
+      const handleUpdate = jest.spyOn(platform, 'handleUpdate').mockResolvedValue(undefined);
+
+      await platform.connectToIntellicenter();
+      await new Promise(resolve => setTimeout(resolve, 50));
+      await platform.cleanup();
+
+      expect(handleUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ command: 'NotifyList', objectList: [{ objnam: 'C0001', params: { STATUS: 'ON' } }] }),
+      );
+    });
+  });
+});
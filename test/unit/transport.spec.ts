@@ -0,0 +1,396 @@
+import { Telnet } from 'telnet-client';
+import EventEmitter from 'events';
+import {
+  createTransport,
+  getDefaultPort,
+  LoginFailedError,
+  LoginFailureReason,
+  LoginTransport,
+  TelnetTransport,
+  TransportEvent,
+  WebSocketTransport,
+} from '../../src/transport';
+import { IntelliCenterQueryName, IntelliCenterRequestCommand, IntelliCenterResponseCommand, TransportType } from '../../src/types';
+import { MockIntelliCenter } from '../integration/mockIntelliCenter';
+import { LOGIN_STEP_TIMEOUT_MS } from '../../src/constants';
+
+jest.mock('telnet-client');
+const MockedTelnet = Telnet as jest.MockedClass<typeof Telnet>;
+
+describe('Transports', () => {
+  describe('createTransport', () => {
+    it('should create a Telnet transport by default', () => {
+      expect(createTransport(TransportType.Telnet)).toBeInstanceOf(TelnetTransport);
+    });
+
+    it('should create a WebSocket transport when requested', () => {
+      expect(createTransport(TransportType.WebSocket)).toBeInstanceOf(WebSocketTransport);
+    });
+
+    it('should use the standard IntelliCenter ports', () => {
+      expect(getDefaultPort(TransportType.Telnet)).toBe(6681);
+      expect(getDefaultPort(TransportType.WebSocket)).toBe(6680);
+    });
+  });
+
+  describe('TelnetTransport', () => {
+    let mockTelnetInstance: jest.Mocked<Telnet>;
+
+    const telnetHandler = (event: string) =>
+      mockTelnetInstance.on.mock.calls.find(call => call[0] === event)![1] as (...args: unknown[]) => void;
+
+    beforeEach(() => {
+      mockTelnetInstance = {
+        connect: jest.fn().mockResolvedValue(undefined),
+        send: jest.fn().mockResolvedValue(''),
+        destroy: jest.fn().mockResolvedValue(undefined),
+        on: jest.fn(),
+      } as unknown as jest.Mocked<Telnet>;
+      MockedTelnet.mockImplementation(() => mockTelnetInstance);
+    });
+
+    it('should connect with the Telnet specific parameters and leave the login to LoginTransport', async () => {
+      const transport = new TelnetTransport();
+
+      await transport.connect({ host: '192.168.1.100', port: 6681, username: 'user', password: 'secret' });
+
+      expect(mockTelnetInstance.connect).toHaveBeenCalledWith({
+        host: '192.168.1.100',
+        port: 6681,
+        negotiationMandatory: false,
+        timeout: 1500,
+        debug: true,
+        disableLogon: true,
+      });
+    });
+
+    it('should forward every Telnet event under the transport event name', () => {
+      const transport = new TelnetTransport();
+      const dataListener = jest.fn();
+      const loginListener = jest.fn();
+      transport.on(TransportEvent.Data, dataListener);
+      transport.on(TransportEvent.LoginFailed, loginListener);
+
+      telnetHandler('data')(Buffer.from('{}\n'));
+      telnetHandler('failedlogin')('bad password');
+
+      expect(mockTelnetInstance.on).toHaveBeenCalledTimes(Object.values(TransportEvent).length);
+      expect(dataListener).toHaveBeenCalledWith(Buffer.from('{}\n'));
+      expect(loginListener).toHaveBeenCalledWith('bad password');
+    });
+
+    it('should not throw on errors after listeners have been removed', () => {
+      const transport = new TelnetTransport();
+      transport.on(TransportEvent.Error, jest.fn());
+      transport.removeAllListeners();
+
+      expect(() => telnetHandler('error')(new Error('late error'))).not.toThrow();
+    });
+
+    it('should delegate send and destroy to the Telnet client', async () => {
+      const transport = new TelnetTransport();
+
+      await transport.send('{"command":"GetQuery"}\n');
+      await transport.destroy();
+
+      expect(mockTelnetInstance.send).toHaveBeenCalledWith('{"command":"GetQuery"}\n');
+      expect(mockTelnetInstance.destroy).toHaveBeenCalled();
+    });
+  });
+
+  describe('WebSocketTransport', () => {
+    let mockServer: MockIntelliCenter;
+    let transport: WebSocketTransport;
+
+    beforeEach(async () => {
+      mockServer = new MockIntelliCenter({ port: 0, transport: TransportType.WebSocket, responseDelay: 1 });
+      await mockServer.start();
+      transport = new WebSocketTransport();
+    });
+
+    afterEach(async () => {
+      transport.removeAllListeners();
+      transport.destroy();
+      await mockServer.stop();
+    });
+
+    const nextData = () => new Promise<Buffer>(resolve => transport.once(TransportEvent.Data, resolve));
+
+    it('should emit connect and ready once the socket is open', async () => {
+      const connectListener = jest.fn();
+      const readyListener = jest.fn();
+      transport.on(TransportEvent.Connect, connectListener);
+      transport.on(TransportEvent.Ready, readyListener);
+
+      await transport.connect({ host: '127.0.0.1', port: mockServer.getPort() });
+
+      expect(connectListener).toHaveBeenCalledTimes(1);
+      expect(readyListener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should exchange newline framed JSON messages', async () => {
+      await transport.connect({ host: '127.0.0.1', port: mockServer.getPort() });
+      const received = nextData();
+
+      await transport.send(
+        JSON.stringify({
+          command: IntelliCenterRequestCommand.GetQuery,
+          queryName: IntelliCenterQueryName.GetHardwareDefinition,
+          arguments: 'CIRCUITS',
+          messageID: 'ws-test-1',
+        }) + '\n',
+      );
+
+      const chunk = await received;
+      expect(chunk[chunk.length - 1]).toBe(10);
+      const response = JSON.parse(chunk.toString());
+      expect(response.command).toBe(IntelliCenterResponseCommand.SendQuery);
+      expect(response.messageID).toBe('ws-test-1');
+    });
+
+    it('should deliver unsolicited notifications as data', async () => {
+      await transport.connect({ host: '127.0.0.1', port: mockServer.getPort() });
+      const received = nextData();
+
+      mockServer.simulateDeviceUpdate('C01', { STATUS: 'ON' });
+
+      const response = JSON.parse((await received).toString());
+      expect(response.command).toBe(IntelliCenterResponseCommand.NotifyList);
+      expect(response.objectList[0]).toEqual({ objnam: 'C01', params: { STATUS: 'ON' } });
+    });
+
+    it('should emit end and close when the server goes away', async () => {
+      await transport.connect({ host: '127.0.0.1', port: mockServer.getPort() });
+      const endListener = jest.fn();
+      const closed = new Promise<void>(resolve => transport.once(TransportEvent.Close, () => resolve()));
+      transport.on(TransportEvent.End, endListener);
+
+      await mockServer.stop();
+      await closed;
+
+      expect(endListener).toHaveBeenCalledWith(expect.stringContaining('code'));
+    });
+
+    it('should reject connect when nothing is listening', async () => {
+      const port = mockServer.getPort();
+      await mockServer.stop();
+
+      await expect(transport.connect({ host: '127.0.0.1', port })).rejects.toThrow();
+    });
+
+    it('should reject sends when not connected', async () => {
+      await expect(transport.send('{}\n')).rejects.toThrow('WebSocket connection is not open');
+    });
+
+    it('should not emit close after being destroyed', async () => {
+      await transport.connect({ host: '127.0.0.1', port: mockServer.getPort() });
+      const closeListener = jest.fn();
+      transport.on(TransportEvent.Close, closeListener);
+
+      transport.destroy();
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(closeListener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('LoginTransport', () => {
+    class FakeTransport extends EventEmitter {
+      readonly type = TransportType.Telnet;
+      connect = jest.fn().mockImplementation(async () => {
+        this.emit(TransportEvent.Connect);
+        this.emit(TransportEvent.Ready);
+      });
+      send = jest.fn().mockResolvedValue(undefined);
+      destroy = jest.fn();
+
+      receive(text: string): void {
+        this.emit(TransportEvent.Data, Buffer.from(text));
+      }
+    }
+
+    const credentials = { host: '192.168.1.100', port: 6681, username: 'admin', password: 's3cret!' };
+    let inner: FakeTransport;
+    let transport: LoginTransport;
+    let events: string[];
+
+    beforeEach(() => {
+      inner = new FakeTransport();
+      transport = new LoginTransport(inner);
+      events = [];
+      for (const event of [TransportEvent.Connect, TransportEvent.Ready, TransportEvent.LoginFailed]) {
+        transport.on(event, () => events.push(event));
+      }
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const flush = () => new Promise(resolve => setImmediate(resolve));
+
+    const settled = (promise: Promise<void>) => {
+      const state = { done: false, error: undefined as unknown };
+      promise.then(
+        () => (state.done = true),
+        error => {
+          state.done = true;
+          state.error = error;
+        },
+      );
+      return state;
+    };
+
+    it('should pass the connection through when no credentials are configured', async () => {
+      await transport.connect({ host: '192.168.1.100', port: 6681, username: '', password: '' });
+
+      expect(events).toEqual([TransportEvent.Connect, TransportEvent.Ready]);
+      expect(inner.send).not.toHaveBeenCalled();
+    });
+
+    it('should answer the prompts and announce the connection once the login is accepted', async () => {
+      const connected = settled(transport.connect(credentials));
+      await flush();
+
+      inner.receive('Username: ');
+      expect(inner.send).toHaveBeenLastCalledWith('admin\n');
+      inner.receive('Password: ');
+      expect(inner.send).toHaveBeenLastCalledWith('s3cret!\n');
+      expect(events).toEqual([]);
+
+      inner.receive('Login successful\n');
+      await flush();
+
+      expect(connected).toEqual({ done: true, error: undefined });
+      expect(events).toEqual([TransportEvent.Connect, TransportEvent.Ready]);
+    });
+
+    it('should pass on JSON that arrives with the end of the login', async () => {
+      const onData = jest.fn();
+      transport.on(TransportEvent.Data, onData);
+      const connected = transport.connect(credentials);
+      await flush();
+
+      inner.receive('Username: ');
+      inner.receive('Password: ');
+      inner.receive('Welcome\r\n{"command":"NotifyList"}\n');
+      await connected;
+
+      expect(onData).toHaveBeenCalledTimes(1);
+      expect(onData.mock.calls[0][0].toString()).toBe('{"command":"NotifyList"}\n');
+    });
+
+    it('should fail without reporting bad credentials when the panel never prompts', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      const connected = transport.connect(credentials);
+      await flush();
+
+      jest.advanceTimersByTime(LOGIN_STEP_TIMEOUT_MS);
+
+      await expect(connected).rejects.toMatchObject({ reason: LoginFailureReason.NoUsernamePrompt });
+      expect(inner.send).not.toHaveBeenCalled();
+      expect(inner.destroy).toHaveBeenCalled();
+      expect(events).toEqual([]);
+    });
+
+    it('should fail without reporting bad credentials when nothing answers the password', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      const connected = transport.connect(credentials);
+      await flush();
+
+      inner.receive('Username: ');
+      inner.receive('Password: ');
+      jest.advanceTimersByTime(LOGIN_STEP_TIMEOUT_MS);
+
+      await expect(connected).rejects.toMatchObject({ reason: LoginFailureReason.NoLoginReply });
+      expect(events).toEqual([]);
+    });
+
+    it('should not take rejection words in JSON for a rejected login', async () => {
+      const onData = jest.fn();
+      transport.on(TransportEvent.Data, onData);
+      const connected = transport.connect(credentials);
+      await flush();
+
+      inner.receive('Username: ');
+      inner.receive('Password: ');
+      inner.receive('{"command":"NotifyList","description":"Invalid temperature"}\n');
+      await connected;
+
+      expect(events).toEqual([TransportEvent.Connect, TransportEvent.Ready]);
+      expect(onData.mock.calls[0][0].toString()).toBe('{"command":"NotifyList","description":"Invalid temperature"}\n');
+    });
+
+    it('should report rejected credentials without the password', async () => {
+      const reasons: unknown[] = [];
+      transport.on(TransportEvent.LoginFailed, reason => reasons.push(reason));
+      const connected = transport.connect(credentials);
+      await flush();
+
+      inner.receive('Username: ');
+      inner.receive('Password: ');
+      inner.receive('failedlogin\n');
+
+      const error = await connected.catch(e => e);
+      expect(error).toBeInstanceOf(LoginFailedError);
+      expect(error.reason).toBe(LoginFailureReason.Rejected);
+      expect(error.message).not.toContain(credentials.password);
+      expect(reasons).toEqual([LoginFailureReason.Rejected]);
+      expect(String(reasons[0])).not.toContain(credentials.password);
+      expect(inner.destroy).toHaveBeenCalled();
+      expect(events).not.toContain(TransportEvent.Connect);
+    });
+
+    it('should treat a repeated prompt after the password as a rejection', async () => {
+      const connected = transport.connect(credentials);
+      await flush();
+
+      inner.receive('Username: ');
+      inner.receive('Password: ');
+      inner.receive('\r\nUsername: ');
+
+      await expect(connected).rejects.toMatchObject({ reason: LoginFailureReason.Rejected });
+    });
+
+    it('should report a login prompt when no credentials are configured', async () => {
+      await transport.connect({ host: '192.168.1.100', port: 6681 });
+      const onData = jest.fn();
+      transport.on(TransportEvent.Data, onData);
+
+      inner.receive('login: ');
+
+      expect(events).toEqual([TransportEvent.Connect, TransportEvent.Ready, TransportEvent.LoginFailed]);
+      expect(onData).not.toHaveBeenCalled();
+      expect(inner.destroy).toHaveBeenCalled();
+    });
+
+    it('should fail without reporting bad credentials when the connection closes during login', async () => {
+      const connected = transport.connect(credentials);
+      await flush();
+
+      inner.receive('Username: ');
+      inner.emit(TransportEvent.Close);
+
+      await expect(connected).rejects.toMatchObject({ reason: LoginFailureReason.Closed });
+      expect(events).toEqual([]);
+    });
+
+    it('should fail when the password prompt never comes', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      const connected = transport.connect(credentials);
+      await flush();
+
+      inner.receive('Username: ');
+      jest.advanceTimersByTime(LOGIN_STEP_TIMEOUT_MS);
+
+      await expect(connected).rejects.toMatchObject({ reason: LoginFailureReason.NoPasswordPrompt });
+      expect(events).toEqual([]);
+    });
+
+    it('should pass on connection failures of the wrapped transport', async () => {
+      inner.connect.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+      await expect(transport.connect(credentials)).rejects.toThrow('ECONNREFUSED');
+    });
+  });
+});
@@ -1,3 +1,4 @@
+import { HardwareDefinitionShape } from '../../src/types';
 import { transformPanels } from '../../src/util';
 
 describe('util.ts edge cases for 100% coverage', () => {
@@ -26,5 +27,17 @@ describe('util.ts edge cases for 100% coverage', () => {
     expect(result[0]?.sensors).toEqual([]);
   });
 
+  it('should warn but still read an answer shaped differently than the firmware profile expects', () => {
+    const logger = { warn: jest.fn(), debug: jest.fn() } as any;
+    const answer = { panels: [{ objnam: 'P1', params: { OBJTYP: 'PANEL', OBJLIST: [] } }] };
+
+    expect(transformPanels(answer as any, false, logger, HardwareDefinitionShape.Array)).toHaveLength(1);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('not shaped as expected for this firmware (array)'));
+
+    logger.warn.mockClear();
+    expect(transformPanels(answer as any, false, logger, HardwareDefinitionShape.Panels)).toHaveLength(1);
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
   // Note: util.ts line 241 optional chaining test was attempted but had issues with transformPanels data structure
 });
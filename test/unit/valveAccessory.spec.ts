@@ -0,0 +1,109 @@
+import { PlatformAccessory } from 'homebridge';
+import { ValveAccessory } from '../../src/valveAccessory';
+import { ObjectType, Valve, ValveAssignment } from '../../src/types';
+import { MANUFACTURER } from '../../src/settings';
+import {
+  createMockAccessoryPlatform,
+  createMockService,
+  createMockServiceAccessory,
+  lastCharacteristicUpdate,
+  MockService,
+} from './testHelpers';
+
+const mockPlatform = createMockAccessoryPlatform({
+  canControlValve: jest.fn(),
+  isValveOpen: jest.fn(),
+  setValve: jest.fn(),
+});
+
+describe('ValveAccessory', () => {
+  let services: Map<string, MockService>;
+  let accessoryInformation: MockService;
+  let accessory: PlatformAccessory;
+  let valve: Valve;
+
+  const lastUpdate = (subtype: string, characteristic: unknown) => lastCharacteristicUpdate(services, subtype, characteristic);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPlatform.canControlValve as jest.Mock).mockReturnValue(true);
+    (mockPlatform.isValveOpen as jest.Mock).mockReturnValue(false);
+    services = new Map();
+    accessoryInformation = createMockService();
+    valve = {
+      id: 'VAL01',
+      name: 'Valve A',
+      objectType: ObjectType.Valve,
+      type: 'LEGACY',
+      circuitId: 'C0007',
+      assignment: ValveAssignment.None,
+      delay: false,
+    };
+    accessory = createMockServiceAccessory('Valve A', { valve }, services, accessoryInformation);
+  });
+
+  it('should add a valve service when the valve can be controlled', () => {
+    (mockPlatform.isValveOpen as jest.Mock).mockReturnValue(true);
+
+    new ValveAccessory(mockPlatform, accessory);
+
+    expect(accessoryInformation.setCharacteristic).toHaveBeenCalledWith('Manufacturer', MANUFACTURER);
+    expect(accessoryInformation.setCharacteristic).toHaveBeenCalledWith('SerialNumber', 'VALVE-VAL01');
+    expect(accessory.addService).toHaveBeenCalledWith('Valve', 'Valve A', 'valve');
+    expect(services.get('valve')!.setCharacteristic).toHaveBeenCalledWith(mockPlatform.Characteristic.ValveType, 0);
+    expect(lastUpdate('valve', mockPlatform.Characteristic.Active)).toBe(1);
+    expect(lastUpdate('valve', mockPlatform.Characteristic.InUse)).toBe(1);
+    expect(services.has('position')).toBe(false);
+  });
+
+  it('should add a contact sensor that opens when the valve turns otherwise', () => {
+    (mockPlatform.canControlValve as jest.Mock).mockReturnValue(false);
+    (mockPlatform.isValveOpen as jest.Mock).mockReturnValue(true);
+
+    new ValveAccessory(mockPlatform, accessory);
+
+    expect(accessory.addService).toHaveBeenCalledWith('ContactSensor', 'Valve A', 'position');
+    expect(lastUpdate('position', mockPlatform.Characteristic.ContactSensorState)).toBe(1);
+    expect(services.has('valve')).toBe(false);
+  });
+
+  it('should swap the services when the valve becomes read-only', () => {
+    new ValveAccessory(mockPlatform, accessory);
+    (mockPlatform.canControlValve as jest.Mock).mockReturnValue(false);
+
+    new ValveAccessory(mockPlatform, accessory);
+
+    expect(accessory.removeService).toHaveBeenCalledWith(services.get('valve'));
+    expect(mockPlatform.log.info).toHaveBeenCalledWith('Changing how valve Valve A is shown in HomeKit');
+  });
+
+  it('should open and close the valve through the platform', async () => {
+    new ValveAccessory(mockPlatform, accessory);
+    const setActive = services.get('valve')!.onSet.mock.calls[0]![0];
+
+    await setActive(1);
+    await setActive(0);
+
+    expect(mockPlatform.setValve).toHaveBeenCalledWith('VAL01', true);
+    expect(mockPlatform.setValve).toHaveBeenCalledWith('VAL01', false);
+  });
+
+  it('should report a valve that could not be moved to HomeKit', async () => {
+    new ValveAccessory(mockPlatform, accessory);
+    const setActive = services.get('valve')!.onSet.mock.calls[0]![0];
+    (mockPlatform.setValve as jest.Mock).mockRejectedValueOnce(new Error('timed out'));
+
+    await expect(setActive(1)).rejects.toMatchObject({ hapStatus: -70402 });
+    expect(mockPlatform.log.warn).toHaveBeenCalledWith('Could not open valve Valve A: timed out');
+  });
+
+  it('should push position changes', () => {
+    const valveAccessory = new ValveAccessory(mockPlatform, accessory);
+    (mockPlatform.isValveOpen as jest.Mock).mockReturnValue(true);
+
+    valveAccessory.updatePosition();
+
+    expect(lastUpdate('valve', mockPlatform.Characteristic.Active)).toBe(1);
+    expect(mockPlatform.log.debug).toHaveBeenLastCalledWith('Valve A: turned, driven by C0007, assigned to NONE');
+  });
+});
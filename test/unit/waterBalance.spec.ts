@@ -0,0 +1,60 @@
+import { LSI_HISTORY_DAYS } from '../../src/constants';
+import { calculateLsi, classifyLsi, describeWaterBalance, recordLsi, WaterBalanceStatus } from '../../src/waterBalance';
+
+const DAY = 24 * 60 * 60 * 1000;
+const chemistry = { alkalinity: 100, calciumHardness: 300, cyanuricAcid: 0, totalDissolvedSolids: 1000 };
+
+describe('waterBalance', () => {
+  describe('calculateLsi', () => {
+    it('should work out the LSI from pH, temperature and the water test results', () => {
+      expect(calculateLsi(7.5, 27, chemistry)).toBe(0.03);
+      expect(calculateLsi(7.8, 32, { alkalinity: 120, calciumHardness: 400, cyanuricAcid: 30, totalDissolvedSolids: 3000 })).toBe(0.54);
+    });
+
+    it('should take cyanurate alkalinity off the total alkalinity', () => {
+      expect(calculateLsi(7.2, 15, { alkalinity: 60, calciumHardness: 150, cyanuricAcid: 60, totalDissolvedSolids: 1000 })).toBe(-1.2);
+      expect(calculateLsi(7.5, 27, { ...chemistry, cyanuricAcid: 300 })).toBeNaN();
+    });
+  });
+
+  describe('classifyLsi', () => {
+    it('should call water within 0.3 of zero balanced', () => {
+      expect(classifyLsi(-0.31)).toBe(WaterBalanceStatus.Corrosive);
+      expect(classifyLsi(-0.3)).toBe(WaterBalanceStatus.Balanced);
+      expect(classifyLsi(0.3)).toBe(WaterBalanceStatus.Balanced);
+      expect(classifyLsi(0.31)).toBe(WaterBalanceStatus.Scaling);
+    });
+  });
+
+  describe('recordLsi', () => {
+    const morning = Date.UTC(2026, 9, 19, 8);
+
+    it('should keep the lowest, highest and last reading of each day', () => {
+      const history = recordLsi(recordLsi(recordLsi(undefined, 0.1, morning), -0.2, morning + 1000), 0.05, morning + 2000);
+
+      expect(history).toEqual([{ date: '2026-10-19', min: -0.2, max: 0.1, last: 0.05, readings: 3 }]);
+    });
+
+    it('should start a new entry each day and keep the last days only', () => {
+      let history = recordLsi(undefined, 0, morning);
+      for (let day = 1; day <= LSI_HISTORY_DAYS; day++) {
+        history = recordLsi(history, day / 100, morning + day * DAY);
+      }
+
+      expect(history).toHaveLength(LSI_HISTORY_DAYS);
+      expect(history[0]!.date).toBe('2026-10-20');
+      expect(history[LSI_HISTORY_DAYS - 1]).toMatchObject({ date: '2026-11-18', last: 0.3 });
+    });
+
+    it('should drop malformed entries', () => {
+      expect(recordLsi([{ date: 'yesterday' }, null], 0.1, morning)).toEqual([
+        { date: '2026-10-19', min: 0.1, max: 0.1, last: 0.1, readings: 1 },
+      ]);
+      expect(recordLsi('history', 0.1, morning)).toHaveLength(1);
+    });
+  });
+
+  it('should describe the water balance', () => {
+    expect(describeWaterBalance({ lsi: 0.4, status: WaterBalanceStatus.Scaling })).toBe('LSI 0.40 (scaling)');
+  });
+});
@@ -0,0 +1,89 @@
+import { Logger } from 'homebridge';
+import { WriteVerifier } from '../../src/writeVerifier';
+
+describe('WriteVerifier', () => {
+  let verifier: WriteVerifier;
+  let log: jest.Mocked<Logger>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    log = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as jest.Mocked<Logger>;
+    verifier = new WriteVerifier(5000, log);
+  });
+
+  afterEach(() => {
+    verifier.clear();
+    jest.useRealTimers();
+  });
+
+  it('should not roll back a write confirmed within the window', () => {
+    const rollback = jest.fn();
+    verifier.expect('C01', 'STATUS', 'ON', rollback);
+
+    verifier.confirm('C01', { STATUS: 'ON' });
+    jest.advanceTimersByTime(5000);
+
+    expect(rollback).not.toHaveBeenCalled();
+    expect(verifier.size).toBe(0);
+  });
+
+  it('should roll back and warn when no confirmation arrives', () => {
+    const rollback = jest.fn();
+    verifier.expect('C01', 'STATUS', 'ON', rollback);
+
+    jest.advanceTimersByTime(4999);
+    expect(rollback).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+
+    expect(rollback).toHaveBeenCalledTimes(1);
+    expect(log.warn).toHaveBeenCalledWith('IntelliCenter did not confirm STATUS=ON for C01 within 5000ms. Rolling back HomeKit state.');
+    expect(verifier.isPending('C01', 'STATUS')).toBe(false);
+  });
+
+  it('should ignore updates with a different value, key or object', () => {
+    const rollback = jest.fn();
+    verifier.expect('C01', 'STATUS', 'ON', rollback);
+
+    verifier.confirm('C01', { STATUS: 'OFF' });
+    verifier.confirm('C01', { SPEED: 'ON' } as never);
+    verifier.confirm('C02', { STATUS: 'ON' });
+
+    expect(verifier.isPending('C01', 'STATUS')).toBe(true);
+    jest.advanceTimersByTime(5000);
+    expect(rollback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should compare numeric values as strings', () => {
+    verifier.expect('PC01', 'SPEED', '1950', jest.fn());
+
+    verifier.confirm('PC01', { SPEED: 1950 } as never);
+
+    expect(verifier.isPending('PC01', 'SPEED')).toBe(false);
+  });
+
+  it('should replace an older write to the same key without rolling it back', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    verifier.expect('C01', 'STATUS', 'ON', first);
+    verifier.expect('C01', 'STATUS', 'OFF', second);
+
+    jest.advanceTimersByTime(5000);
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop pending writes on cancel and clear', () => {
+    const rollback = jest.fn();
+    verifier.expect('C01', 'STATUS', 'ON', rollback);
+    verifier.expect('C02', 'STATUS', 'ON', rollback);
+
+    verifier.cancel('C01', 'STATUS');
+    expect(verifier.size).toBe(1);
+    verifier.clear();
+    jest.advanceTimersByTime(5000);
+
+    expect(verifier.size).toBe(0);
+    expect(rollback).not.toHaveBeenCalled();
+  });
+});
@@ -7,10 +7,14 @@ import {
   fahrenheitToCelsius,
   celsiusToFahrenheit,
   updateBody,
+  updateChemController,
   updateCircuit,
   updatePump,
+  updateValve,
+  roundToStep,
+  getChemSetpointRange,
 } from '../src/util';
-import { Color } from '../src/types';
+import { ChemController, ChemSetpoint, Color, Valve } from '../src/types';
 
 import beforeTransform from './resources/beforeTransform.json';
 import afterTransform from './resources/afterTransform.json';
@@ -58,6 +62,98 @@ describe('Test transform panels', () => {
   });
 });
 
+describe('Test transform chemistry controllers', () => {
+  it('should read IntelliChem controllers on the panel and skip other chemistry objects', () => {
+    const panels = transformPanels([
+      {
+        objnam: 'PNL01',
+        params: {
+          OBJTYP: 'PANEL',
+          OBJLIST: [
+            {
+              objnam: 'CHM01',
+              params: { OBJTYP: 'CHEM', SUBTYP: 'ICHEM', SNAME: 'IntelliChem', BODY: 'B1101 B1202', PHVAL: '7.5', ORPTNK: '4' },
+            },
+            { objnam: 'CHM02', params: { OBJTYP: 'CHEM', SUBTYP: 'UNKNOWN', SNAME: 'Other' } },
+          ],
+        },
+      },
+    ] as never);
+
+    expect(panels[0]!.chemControllers).toEqual([
+      { id: 'CHM01', name: 'IntelliChem', objectType: 'CHEM', type: 'ICHEM', bodyIds: ['B1101', 'B1202'], ph: 7.5, orpTank: 4 },
+    ]);
+  });
+
+  it('should use setpoint limits from the controller definition instead of the defaults', () => {
+    const panels = transformPanels([
+      {
+        objnam: 'PNL01',
+        params: {
+          OBJTYP: 'PANEL',
+          OBJLIST: [
+            {
+              objnam: 'CHM01',
+              params: { OBJTYP: 'CHEM', SUBTYP: 'ICHEM', SNAME: 'IntelliChem', PHMIN: '7.2', PHMAX: '7.8', ORPMIN: '800', ORPMAX: '400' },
+            },
+          ],
+        },
+      },
+    ] as never);
+    const chem = panels[0]!.chemControllers![0]!;
+
+    expect(chem.setpointLimits).toEqual({ ph: { min: 7.2, max: 7.8 } });
+    expect(getChemSetpointRange(chem, ChemSetpoint.Ph)).toEqual({ min: 7.2, max: 7.8, step: 0.1 });
+    // An empty range is ignored
+    expect(getChemSetpointRange(chem, ChemSetpoint.Orp)).toEqual({ min: 400, max: 800, step: 10 });
+    expect(getChemSetpointRange(chem, ChemSetpoint.PoolOutput)).toBeUndefined();
+  });
+
+  it('should read IntelliChlor salt, outputs and alarms', () => {
+    const panels = transformPanels([
+      {
+        objnam: 'PNL01',
+        params: {
+          OBJTYP: 'PANEL',
+          OBJLIST: [
+            {
+              objnam: 'CHR01',
+              params: {
+                OBJTYP: 'CHEM',
+                SUBTYP: 'ICHLOR',
+                SNAME: 'IntelliChlor',
+                BODY: 'B1101 B1202',
+                SALT: '3200',
+                PRIM: '50',
+                SEC: '10',
+                SUPER: 'ON',
+                TIMOUT: '12',
+                SALTLO: 'OFF',
+              },
+            },
+          ],
+        },
+      },
+    ] as never);
+
+    expect(panels[0]!.chemControllers).toEqual([
+      {
+        id: 'CHR01',
+        name: 'IntelliChlor',
+        objectType: 'CHEM',
+        type: 'ICHLOR',
+        bodyIds: ['B1101', 'B1202'],
+        salt: 3200,
+        poolOutput: 50,
+        spaOutput: 10,
+        superChlorinate: true,
+        superChlorinateHours: 12,
+        lowSalt: false,
+      },
+    ]);
+  });
+});
+
 describe('Test merge response', () => {
   it('Test merge', () => {
     const response = Object.assign([], circuitResponse as never);
@@ -299,6 +395,39 @@ describe('Test update functions', () => {
     });
   });
 
+  describe('roundToStep', () => {
+    it('should round to the nearest step without floating point noise', () => {
+      expect(roundToStep(7.43, 0.1)).toBe(7.4);
+      expect(roundToStep(7.25, 0.1)).toBe(7.3);
+      expect(roundToStep(655, 10)).toBe(660);
+    });
+  });
+
+  describe('updateChemController', () => {
+    it('should read numbers and ON/OFF alarms and ignore readings that are not numbers', () => {
+      const chem = { id: 'CHM01', ph: 7.4 } as ChemController;
+
+      updateChemController(chem, { PHVAL: 'N/A', ORPVAL: '650', PHTNK: '1', ORPHI: 'ON', NOFLO: 'OFF' } as never);
+
+      expect(chem).toMatchObject({ ph: 7.4, orp: 650, phTank: 1, orpHigh: true, noFlow: false });
+      expect(chem.phLow).toBeUndefined();
+    });
+  });
+
+  describe('updateValve', () => {
+    it('should read the circuit, assignment and actuator position', () => {
+      const valve = { id: 'VAL01', circuitId: 'C0007', assignment: 'NONE', delay: false } as Valve;
+
+      updateValve(valve, { CIRCUIT: '00000', ASSIGN: 'intake', DLY: 'ON', POSIT: 'ON' } as never);
+      expect(valve).toMatchObject({ circuitId: undefined, assignment: 'INTAKE', delay: true, position: true });
+
+      updateValve(valve, { POSIT: 'POSIT' } as never);
+      expect(valve.position).toBe(true);
+      updateValve(valve, { CIRCUIT: 'C0002', POSIT: 'OFF' } as never);
+      expect(valve).toMatchObject({ circuitId: 'C0002', position: false });
+    });
+  });
+
   describe('Coverage for uncovered util functions', () => {
     it('should handle transformPanels with null response properties', () => {
       const responseWithNulls = {